@@ -3,6 +3,18 @@ import { BucketPolicyMergeStrategy, createTerraformStateBucketPolicy } from '../
 import type { MergeContext, CloudFormationStackResources } from '../merge/strategy.js';
 import type { ParsedPipeline } from '../types/pipeline.js';
 
+const { sendMock } = vi.hoisted(() => ({ sendMock: vi.fn() }));
+
+// The existing bucket policy is read with GetBucketPolicy
+vi.mock('@aws-sdk/client-s3', () => ({
+  S3Client: class {
+    send = sendMock;
+  },
+  GetBucketPolicyCommand: class {
+    constructor(public input: unknown) {}
+  },
+}));
+
 // Mock the logger to avoid console output during tests
 vi.mock('../utils/logger.js', () => ({
   verbose: vi.fn(),
@@ -28,6 +40,7 @@ describe('BucketPolicyMergeStrategy', () => {
           {
             slug: 'pipeline-1',
             targetAccountIds: ['111111111111', '222222222222'],
+            stages: [] as ParsedPipeline['stages'],
           } as ParsedPipeline,
         ],
       };
@@ -40,6 +53,31 @@ describe('BucketPolicyMergeStrategy', () => {
       expect(result.allowedAccountIds).toHaveLength(3);
     });
 
+    it('should collect the state prefix of every stage by account', async () => {
+      const context: MergeContext = {
+        orgSlug: 'test-org',
+        cicdAccountId: '123456789012',
+        cicdRegion: 'us-east-1',
+        pipelines: [
+          {
+            slug: 'pipeline-1',
+            targetAccountIds: ['111111111111', '222222222222'],
+            stages: [
+              { name: 'Staging', account_id: '111111111111', region: 'us-east-1' },
+              { name: 'prod', account_id: '222222222222', region: 'us-east-1' },
+            ],
+          } as ParsedPipeline,
+        ],
+      };
+
+      const result = await strategy.collectNew(context);
+
+      expect(result.statePrefixes).toEqual({
+        '111111111111': ['pipeline-1/staging/'],
+        '222222222222': ['pipeline-1/prod/'],
+      });
+    });
+
     it('should throw on invalid CI/CD account ID', async () => {
       const context: MergeContext = {
         orgSlug: 'test-org',
@@ -75,6 +113,7 @@ describe('BucketPolicyMergeStrategy', () => {
           {
             slug: 'bad-pipeline',
             targetAccountIds: ['valid12345678', 'bad'],
+            stages: [] as ParsedPipeline['stages'],
           } as ParsedPipeline,
         ],
       };
@@ -93,10 +132,12 @@ describe('BucketPolicyMergeStrategy', () => {
           {
             slug: 'pipeline-1',
             targetAccountIds: ['123456789012', '111111111111'],
+            stages: [] as ParsedPipeline['stages'],
           } as ParsedPipeline,
           {
             slug: 'pipeline-2',
             targetAccountIds: ['111111111111', '222222222222'],
+            stages: [] as ParsedPipeline['stages'],
           } as ParsedPipeline,
         ],
       };
@@ -121,6 +162,24 @@ describe('BucketPolicyMergeStrategy', () => {
       expect(result.allowedAccountIds).toHaveLength(3);
     });
 
+    it('should merge state prefixes per account', () => {
+      const existing = {
+        allowedAccountIds: ['111111111111'],
+        statePrefixes: { '111111111111': ['other/prod/'] },
+      };
+      const newData = {
+        allowedAccountIds: ['111111111111', '222222222222'],
+        statePrefixes: { '111111111111': ['app/prod/', 'other/prod/'], '222222222222': ['app/dev/'] },
+      };
+
+      const result = strategy.merge(existing, newData);
+
+      expect(result.statePrefixes).toEqual({
+        '111111111111': ['app/prod/', 'other/prod/'],
+        '222222222222': ['app/dev/'],
+      });
+    });
+
     it('should handle null existing data', () => {
       const newData = { allowedAccountIds: ['111111111111', '222222222222'] };
 
@@ -141,6 +200,44 @@ describe('BucketPolicyMergeStrategy', () => {
     });
   });
 
+  describe('subset runs', () => {
+    const stackResources: CloudFormationStackResources = {
+      stackName: 'DevRamps-acme-Org',
+      accountId: '123456789012',
+      region: 'us-east-1',
+      resources: {},
+      outputs: {},
+    };
+
+    it('should keep legacy whole-bucket grants of accounts the run has no stages in', async () => {
+      const deployed = createTerraformStateBucketPolicy(
+        'my-bucket',
+        '123456789012',
+        ['123456789012', '111111111111', '222222222222'],
+        { '111111111111': [''], '222222222222': [''] }
+      );
+      sendMock.mockResolvedValueOnce({ Policy: JSON.stringify(deployed) });
+      strategy.configure('my-bucket', 'us-east-1');
+
+      const existing = await strategy.extractExisting(stackResources);
+      // Only the pipeline with stages in 222222222222 is being deployed
+      const merged = strategy.merge(existing, {
+        allowedAccountIds: ['123456789012', '222222222222'],
+        statePrefixes: { '222222222222': ['app/dev/'] },
+      });
+      const policy = createTerraformStateBucketPolicy(
+        'my-bucket',
+        '123456789012',
+        merged.allowedAccountIds,
+        merged.statePrefixes
+      ) as { Statement: Array<{ Sid: string; Resource: string | string[] }> };
+
+      expect(merged.statePrefixes).toEqual({ '111111111111': [''], '222222222222': ['app/dev/'] });
+      expect(policy.Statement.find(s => s.Sid === 'AllowAccount111111111111')?.Resource).toEqual(['arn:aws:s3:::my-bucket/*']);
+      expect(policy.Statement.find(s => s.Sid === 'AllowAccount222222222222')?.Resource).toEqual(['arn:aws:s3:::my-bucket/app/dev/*']);
+    });
+  });
+
   describe('validate', () => {
     it('should pass valid account IDs', () => {
       const result = strategy.validate({
@@ -177,6 +274,22 @@ describe('BucketPolicyMergeStrategy', () => {
 });
 
 describe('createTerraformStateBucketPolicy', () => {
+  it('should limit each target account to its state prefixes', () => {
+    const policy = createTerraformStateBucketPolicy(
+      'my-bucket',
+      '123456789012',
+      ['123456789012', '111111111111', '222222222222'],
+      { '111111111111': ['app/staging/', 'web/staging/'] }
+    ) as { Statement: Array<{ Sid: string; Resource: string | string[] }> };
+
+    expect(policy.Statement.find(s => s.Sid === 'AllowAccount111111111111')?.Resource).toEqual([
+      'arn:aws:s3:::my-bucket/app/staging/*',
+      'arn:aws:s3:::my-bucket/web/staging/*',
+    ]);
+    // No stages, no object access
+    expect(policy.Statement.find(s => s.Sid === 'AllowAccount222222222222')).toBeUndefined();
+  });
+
   it('should create a valid bucket policy structure', () => {
     const policy = createTerraformStateBucketPolicy(
       'my-bucket',
@@ -0,0 +1,45 @@
+import { describe, it, expect } from 'vitest';
+import { mapWithConcurrency } from '../utils/concurrency.js';
+
+describe('mapWithConcurrency', () => {
+  it('should keep input order and never exceed the limit', async () => {
+    let inFlight = 0;
+    let maxInFlight = 0;
+
+    const results = await mapWithConcurrency([30, 10, 20, 5, 15], 2, async (delay, i) => {
+      inFlight++;
+      maxInFlight = Math.max(maxInFlight, inFlight);
+      await new Promise(resolve => setTimeout(resolve, delay));
+      inFlight--;
+      return i;
+    });
+
+    expect(results).toEqual([0, 1, 2, 3, 4]);
+    expect(maxInFlight).toBe(2);
+  });
+
+  it('should handle an empty list', async () => {
+    expect(await mapWithConcurrency([], 4, async () => 1)).toEqual([]);
+  });
+
+  it('should reject when a call fails', async () => {
+    await expect(mapWithConcurrency([1, 2], 2, async (n) => {
+      if (n === 2) throw new Error('boom');
+      return n;
+    })).rejects.toThrow('boom');
+  });
+
+  it('should not start further calls after a call fails', async () => {
+    const started: number[] = [];
+
+    await expect(mapWithConcurrency([1, 2, 3, 4, 5], 2, async (n) => {
+      started.push(n);
+      await new Promise(resolve => setTimeout(resolve, n === 1 ? 5 : 20));
+      if (n === 1) throw new Error('boom');
+      return n;
+    })).rejects.toThrow('boom');
+    await new Promise(resolve => setTimeout(resolve, 50));
+
+    expect(started).toEqual([1, 2]);
+  });
+});
@@ -0,0 +1,81 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { CredentialCache } from '../aws/credential-cache.js';
+import { assumeRoleForAccount } from '../aws/assume-role.js';
+import { AccountAccessError, RoleAssumptionError } from '../utils/errors.js';
+
+vi.mock('../utils/logger.js', () => ({
+  verbose: vi.fn(),
+  info: vi.fn(),
+  warn: vi.fn(),
+  error: vi.fn(),
+}));
+
+vi.mock('../aws/assume-role.js', () => ({
+  assumeRoleForAccount: vi.fn(),
+}));
+
+const assumeRole = vi.mocked(assumeRoleForAccount);
+
+function assumedFor(accountId: string, expiresInMs = 60 * 60 * 1000) {
+  return {
+    accountId,
+    roleArn: `arn:aws:iam::${accountId}:role/OrganizationAccountAccessRole`,
+    credentials: {
+      accessKeyId: `AKIA${accountId}`,
+      secretAccessKey: 'secret',
+      expiration: new Date(Date.now() + expiresInMs),
+    },
+  };
+}
+
+describe('CredentialCache', () => {
+  beforeEach(() => {
+    assumeRole.mockReset();
+  });
+
+  it('should assume each account role once', async () => {
+    assumeRole.mockImplementation(async ({ targetAccountId }) => assumedFor(targetAccountId));
+    const cache = new CredentialCache('111111111111');
+
+    const [a, b] = await Promise.all([cache.get('222222222222'), cache.get('222222222222')]);
+    await cache.get('222222222222');
+
+    expect(a).toBe(b);
+    expect(assumeRole).toHaveBeenCalledTimes(1);
+  });
+
+  it('should renew sessions that are about to expire', async () => {
+    assumeRole.mockImplementation(async ({ targetAccountId }) => assumedFor(targetAccountId, 60 * 1000));
+    const cache = new CredentialCache('111111111111');
+
+    await cache.get('222222222222');
+    await cache.get('222222222222');
+
+    expect(assumeRole).toHaveBeenCalledTimes(2);
+  });
+
+  it('should report every inaccessible account together when prefetching', async () => {
+    assumeRole.mockImplementation(async ({ targetAccountId, currentAccountId }) => {
+      if (targetAccountId === '333333333333') return assumedFor(targetAccountId);
+      throw new RoleAssumptionError(targetAccountId, 'DeployRole', currentAccountId);
+    });
+    const cache = new CredentialCache('111111111111', 'DeployRole');
+
+    const error = await cache.prefetch(['222222222222', '333333333333', '444444444444', '111111111111'])
+      .catch(e => e);
+
+    expect(error).toBeInstanceOf(AccountAccessError);
+    expect((error as AccountAccessError).failures.map(f => f.targetAccountId)).toEqual(['222222222222', '444444444444']);
+    expect(assumeRole).not.toHaveBeenCalledWith(expect.objectContaining({ targetAccountId: '111111111111' }));
+  });
+
+  it('should retry an account whose role could not be assumed', async () => {
+    assumeRole
+      .mockRejectedValueOnce(new RoleAssumptionError('222222222222', 'DeployRole', '111111111111'))
+      .mockResolvedValueOnce(assumedFor('222222222222'));
+    const cache = new CredentialCache('111111111111');
+
+    await expect(cache.get('222222222222')).rejects.toBeInstanceOf(RoleAssumptionError);
+    await expect(cache.get('222222222222')).resolves.toMatchObject({ accessKeyId: 'AKIA222222222222' });
+  });
+});
@@ -0,0 +1,65 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { mkdtemp, rm, writeFile } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { parseCustomSteps } from '../parsers/custom-steps.js';
+import { CustomStepsError } from '../utils/errors.js';
+
+vi.mock('../utils/logger.js', () => ({
+  verbose: vi.fn(),
+  info: vi.fn(),
+  warn: vi.fn(),
+  error: vi.fn(),
+}));
+
+describe('parseCustomSteps', () => {
+  let dir: string;
+
+  beforeEach(async () => {
+    dir = await mkdtemp(join(tmpdir(), 'devramps-custom-steps-'));
+  });
+
+  afterEach(async () => {
+    await rm(dir, { recursive: true, force: true });
+  });
+
+  it('should return no definitions without a manifest', async () => {
+    expect(await parseCustomSteps(dir)).toEqual({});
+  });
+
+  it('should parse statement lists and single statements', async () => {
+    await writeFile(join(dir, 'custom_steps.yaml'), [
+      'CUSTOM:MIGRATE:',
+      '  - actions: [rds-data:ExecuteStatement]',
+      '    resources: ["arn:aws:rds:us-east-1:123456789012:cluster:app"]',
+      'CUSTOM:NOTIFY:',
+      '  actions: [sns:Publish]',
+      '  condition:',
+      '    StringEquals: { "aws:ResourceTag/team": "web" }',
+    ].join('\n'));
+
+    expect(await parseCustomSteps(dir)).toEqual({
+      'CUSTOM:MIGRATE': [
+        { actions: ['rds-data:ExecuteStatement'], resources: ['arn:aws:rds:us-east-1:123456789012:cluster:app'] },
+      ],
+      'CUSTOM:NOTIFY': [
+        { actions: ['sns:Publish'], resources: ['*'], condition: { StringEquals: { 'aws:ResourceTag/team': 'web' } } },
+      ],
+    });
+  });
+
+  it('should reject types without the CUSTOM: prefix', async () => {
+    await writeFile(join(dir, 'custom_steps.yaml'), 'DEVRAMPS:ECS:DEPLOY:\n  actions: [ecs:*]\n');
+
+    await expect(parseCustomSteps(dir)).rejects.toThrow(CustomStepsError);
+  });
+
+  it('should report the position of invalid statements', async () => {
+    await writeFile(join(dir, 'custom_steps.yaml'), 'CUSTOM:MIGRATE:\n  - actions: []\n');
+
+    const error = await parseCustomSteps(dir).catch(e => e as CustomStepsError);
+    expect(error).toBeInstanceOf(CustomStepsError);
+    expect(error.reason).toBe('CUSTOM:MIGRATE[0]: actions must be a non-empty list of IAM actions');
+    expect(error.location).toMatchObject({ line: 2, column: 5 });
+  });
+});
@@ -0,0 +1,145 @@
+import { describe, it, expect, vi } from 'vitest';
+import {
+  buildDataResourceStackPolicy,
+  createEcrRepositoryResource,
+  createKmsKeyResource,
+  createS3BucketResource,
+} from '../templates/common.js';
+import { generateOrgStackTemplate } from '../templates/org-stack.js';
+import { generatePipelineStackTemplate } from '../templates/pipeline-stack.js';
+import { generateStageStackTemplate } from '../templates/stage-stack.js';
+import { parseArtifacts } from '../parsers/artifacts.js';
+import { getStackProtection } from '../templates/index.js';
+import { StackType, type StackDeployment } from '../types/stacks.js';
+import type { PipelineDefinition } from '../types/pipeline.js';
+
+vi.mock('../utils/logger.js', () => ({
+  verbose: vi.fn(),
+  info: vi.fn(),
+  warn: vi.fn(),
+  error: vi.fn(),
+}));
+
+const orgTemplate = () => generateOrgStackTemplate({
+  orgSlug: 'acme',
+  cicdAccountId: '123456789012',
+  region: 'us-east-1',
+  targetAccountIds: ['210987654321'],
+});
+
+describe('data resource retention', () => {
+  it('should retain buckets, repositories and keys by default', () => {
+    for (const resource of [
+      createS3BucketResource('bucket'),
+      createEcrRepositoryResource('repo'),
+      createKmsKeyResource('key', {}),
+    ]) {
+      expect(resource.DeletionPolicy).toBe('RetainExceptOnCreate');
+      expect(resource.UpdateReplacePolicy).toBe('Retain');
+    }
+  });
+
+  it('should allow deleting a resource instead', () => {
+    const bucket = createS3BucketResource('bucket', [], undefined, 'Delete');
+    const repo = createEcrRepositoryResource('repo', [], 'Delete');
+
+    expect(bucket.DeletionPolicy).toBe('Delete');
+    expect(bucket.UpdateReplacePolicy).toBe('Delete');
+    expect(repo.DeletionPolicy).toBe('Delete');
+  });
+});
+
+describe('artifact retention', () => {
+  const artifacts = parseArtifacts({
+    version: '1.0',
+    pipeline: {
+      artifacts: {
+        'Api Image': { type: 'DEVRAMPS:DOCKER:BUILD' },
+        'Preview Image': { type: 'DEVRAMPS:DOCKER:BUILD', retain: false },
+        'Preview Bundle': { type: 'DEVRAMPS:BUNDLE:BUILD', retain: false },
+      },
+    },
+  } as unknown as PipelineDefinition);
+
+  it('should parse retain from pipeline.yaml', () => {
+    expect(artifacts.docker.map(a => a.retain)).toEqual([undefined, false]);
+    expect(artifacts.bundle.map(a => a.retain)).toEqual([false]);
+  });
+
+  it('should delete the pipeline resources of artifacts that are not retained', () => {
+    const template = generatePipelineStackTemplate({
+      pipelineSlug: 'app',
+      cicdAccountId: '123456789012',
+      region: 'us-east-1',
+      dockerArtifacts: artifacts.docker,
+      bundleArtifacts: artifacts.bundle,
+      stageAccountIds: [],
+    });
+
+    expect(template.Resources.ECRapiimage.DeletionPolicy).toBe('RetainExceptOnCreate');
+    expect(template.Resources.ECRpreviewimage.DeletionPolicy).toBe('Delete');
+    expect(template.Resources.Bucketpreviewbundle.DeletionPolicy).toBe('Delete');
+    expect(buildDataResourceStackPolicy(template)).toMatchObject({
+      Statement: [expect.anything(), expect.objectContaining({ Resource: ['LogicalResourceId/ECRapiimage'] })],
+    });
+  });
+
+  it('should delete the stage resources of artifacts that are not retained', () => {
+    const template = generateStageStackTemplate({
+      pipelineSlug: 'app',
+      stageName: 'staging',
+      orgSlug: 'acme',
+      accountId: '210987654321',
+      region: 'us-east-1',
+      steps: [],
+      additionalPolicies: [],
+      dockerArtifacts: artifacts.docker,
+      bundleArtifacts: artifacts.bundle,
+    });
+
+    expect(template.Resources.ECRapiimage.UpdateReplacePolicy).toBe('Retain');
+    expect(template.Resources.ECRpreviewimage.UpdateReplacePolicy).toBe('Delete');
+    expect(template.Resources.Bucketpreviewbundle.UpdateReplacePolicy).toBe('Delete');
+  });
+});
+
+describe('buildDataResourceStackPolicy', () => {
+  it('should deny replacing the retained resources of the org stack', () => {
+    const policy = buildDataResourceStackPolicy(orgTemplate()) as { Statement: Array<Record<string, unknown>> };
+
+    expect(policy.Statement).toEqual([
+      { Effect: 'Allow', Principal: '*', Action: 'Update:*', Resource: '*' },
+      {
+        Effect: 'Deny',
+        Principal: '*',
+        Action: 'Update:Replace',
+        Resource: ['LogicalResourceId/DevRampsKMSKey', 'LogicalResourceId/TerraformStateBucket'],
+      },
+    ]);
+  });
+
+  it('should only allow updates when nothing is retained', () => {
+    const policy = buildDataResourceStackPolicy({ AWSTemplateFormatVersion: '2010-09-09', Description: '', Resources: {} });
+
+    expect(policy).toEqual({ Statement: [{ Effect: 'Allow', Principal: '*', Action: 'Update:*', Resource: '*' }] });
+  });
+});
+
+describe('getStackProtection', () => {
+  const stack = (stackType: StackType) => ({ stackType }) as StackDeployment;
+
+  it('should protect Org and Pipeline stacks', () => {
+    const template = orgTemplate();
+
+    expect(getStackProtection(stack(StackType.ORG), template)).toEqual({
+      stackPolicy: buildDataResourceStackPolicy(template),
+      terminationProtection: true,
+    });
+    expect(getStackProtection(stack(StackType.PIPELINE), template)?.terminationProtection).toBe(true);
+  });
+
+  it('should leave other stacks unprotected', () => {
+    expect(getStackProtection(stack(StackType.STAGE), orgTemplate())).toBeUndefined();
+    expect(getStackProtection(stack(StackType.ACCOUNT), orgTemplate())).toBeUndefined();
+  });
+});
@@ -0,0 +1,271 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { resolveDestroyTargets, executeDestroy, type DestroyTarget } from '../commands/destroy.js';
+import { destroyStack, listDevRampsStacks, readExistingStack } from '../aws/cloudformation.js';
+import { deleteBucket, deleteEcrRepository, emptyBucket, emptyEcrRepository } from '../aws/cleanup.js';
+import { StackType, type DeploymentPlan, type StackDeployment } from '../types/stacks.js';
+
+vi.mock('../utils/logger.js', () => ({
+  verbose: vi.fn(),
+  info: vi.fn(),
+  warn: vi.fn(),
+  error: vi.fn(),
+  success: vi.fn(),
+  header: vi.fn(),
+  newline: vi.fn(),
+  getMultiStackProgress: () => ({ addStack: vi.fn(), start: vi.fn() }),
+  clearMultiStackProgress: vi.fn(),
+}));
+
+vi.mock('../aws/cloudformation.js', () => ({
+  destroyStack: vi.fn(async () => undefined),
+  listDevRampsStacks: vi.fn(async () => []),
+  readExistingStack: vi.fn(async () => null),
+}));
+
+vi.mock('../aws/cleanup.js', () => ({
+  emptyBucket: vi.fn(async () => undefined),
+  emptyEcrRepository: vi.fn(async () => undefined),
+  deleteBucket: vi.fn(async () => undefined),
+  deleteEcrRepository: vi.fn(async () => undefined),
+}));
+
+const CICD_ACCOUNT = '123456789012';
+const STAGE_ACCOUNT = '111111111111';
+
+const resolveCredentials = vi.fn(async () => undefined);
+
+function createPlan(): DeploymentPlan {
+  const deployed = { action: 'UPDATE' as const, remote: { exists: true, status: 'UPDATE_COMPLETE' } };
+  return {
+    orgSlug: 'acme',
+    cicdAccountId: CICD_ACCOUNT,
+    cicdRegion: 'us-east-1',
+    orgStack: {
+      ...deployed,
+      stackType: StackType.ORG,
+      stackName: 'DevRamps-acme-Org',
+      accountId: CICD_ACCOUNT,
+      region: 'us-east-1',
+      orgSlug: 'acme',
+      targetAccountIds: [STAGE_ACCOUNT],
+      statePrefixes: {},
+    },
+    pipelineStacks: [{
+      ...deployed,
+      stackType: StackType.PIPELINE,
+      stackName: 'DevRamps-app-Pipeline',
+      accountId: CICD_ACCOUNT,
+      region: 'us-east-1',
+      pipelineSlug: 'app',
+    }],
+    accountStacks: [CICD_ACCOUNT, STAGE_ACCOUNT].map(accountId => ({
+      ...deployed,
+      stackType: StackType.ACCOUNT,
+      stackName: 'DevRamps-Account-Bootstrap',
+      accountId,
+      region: 'us-east-1',
+    })),
+    stageStacks: [{
+      ...deployed,
+      stackType: StackType.STAGE,
+      stackName: 'DevRamps-app-staging-Stage',
+      accountId: STAGE_ACCOUNT,
+      region: 'us-west-2',
+      pipelineSlug: 'app',
+      stageName: 'staging',
+      orgSlug: 'acme',
+      steps: [],
+      additionalPolicies: [],
+      dockerArtifacts: [],
+      bundleArtifacts: [],
+    }],
+    importStacks: [],
+    orphanedStageStacks: [],
+  } as unknown as DeploymentPlan;
+}
+
+function findTarget(targets: DestroyTarget[], stackType: StackType, accountId: string): DestroyTarget | undefined {
+  return targets.find(t => t.stack.stackType === stackType && t.stack.accountId === accountId);
+}
+
+const noLocalRegions = { regions: new Map<string, Set<string>>(), unparsedSlugs: [] };
+
+describe('resolveDestroyTargets', () => {
+  beforeEach(() => {
+    vi.mocked(listDevRampsStacks).mockReset().mockResolvedValue([]);
+  });
+
+  it('should delete every deployed stack when no other pipeline is found', async () => {
+    const targets = await resolveDestroyTargets(createPlan(), new Set(['app']), noLocalRegions, resolveCredentials);
+
+    expect(targets).toHaveLength(5);
+    expect(targets.every(t => t.action === 'DELETE')).toBe(true);
+  });
+
+  it('should skip stacks that were never deployed', async () => {
+    const plan = createPlan();
+    plan.accountStacks[1].action = 'CREATE';
+
+    const targets = await resolveDestroyTargets(plan, new Set(['app']), noLocalRegions, resolveCredentials);
+
+    expect(findTarget(targets, StackType.ACCOUNT, STAGE_ACCOUNT)).toBeUndefined();
+  });
+
+  it('should keep the Org and OIDC stacks while other pipelines use them', async () => {
+    vi.mocked(listDevRampsStacks).mockImplementation(async (_credentials, region) =>
+      region === 'us-east-1'
+        ? [{ stackName: 'DevRamps-other-Pipeline', outputs: { PipelineSlug: 'other' } }]
+        : []
+    );
+
+    const targets = await resolveDestroyTargets(createPlan(), new Set(['app']), noLocalRegions, resolveCredentials);
+
+    const org = findTarget(targets, StackType.ORG, CICD_ACCOUNT)!;
+    expect(org.action).toBe('RETAIN');
+    expect(org.reason).toContain('other');
+    expect(findTarget(targets, StackType.ACCOUNT, CICD_ACCOUNT)!.reason).toBe('the Org stack still uses this OIDC provider');
+    expect(findTarget(targets, StackType.ACCOUNT, STAGE_ACCOUNT)!.action).toBe('RETAIN');
+    expect(findTarget(targets, StackType.PIPELINE, CICD_ACCOUNT)!.action).toBe('DELETE');
+    expect(findTarget(targets, StackType.STAGE, STAGE_ACCOUNT)!.action).toBe('DELETE');
+  });
+
+  it('should look for other pipelines in the regions local pipelines deploy to', async () => {
+    vi.mocked(listDevRampsStacks).mockImplementation(async (_credentials, region) =>
+      region === 'eu-west-1'
+        ? [{ stackName: 'DevRamps-other-prod-Stage', outputs: { PipelineSlug: 'other' } }]
+        : []
+    );
+    const stageRegions = { regions: new Map([[STAGE_ACCOUNT, new Set(['eu-west-1'])]]), unparsedSlugs: [] };
+
+    const targets = await resolveDestroyTargets(createPlan(), new Set(['app']), stageRegions, resolveCredentials);
+
+    expect(findTarget(targets, StackType.ORG, CICD_ACCOUNT)!.action).toBe('DELETE');
+    expect(findTarget(targets, StackType.ACCOUNT, CICD_ACCOUNT)!.action).toBe('DELETE');
+    expect(findTarget(targets, StackType.ACCOUNT, STAGE_ACCOUNT)!.action).toBe('RETAIN');
+  });
+
+  it('should ignore stacks of the selected pipelines', async () => {
+    vi.mocked(listDevRampsStacks).mockResolvedValue([
+      { stackName: 'DevRamps-app-Pipeline', outputs: { PipelineSlug: 'app' } },
+    ]);
+
+    const targets = await resolveDestroyTargets(createPlan(), new Set(['app']), noLocalRegions, resolveCredentials);
+
+    expect(targets.every(t => t.action === 'DELETE')).toBe(true);
+  });
+
+  it('should keep the Org and OIDC stacks when the lookup fails', async () => {
+    vi.mocked(listDevRampsStacks).mockRejectedValue(new Error('AccessDenied'));
+
+    const targets = await resolveDestroyTargets(createPlan(), new Set(['app']), noLocalRegions, resolveCredentials);
+
+    const retained = targets.filter(t => t.action === 'RETAIN');
+    expect(retained.map(t => t.stack.stackType).sort()).toEqual([StackType.ACCOUNT, StackType.ACCOUNT, StackType.ORG].sort());
+    expect(findTarget(targets, StackType.ORG, CICD_ACCOUNT)!.reason).toContain('AccessDenied');
+    expect(findTarget(targets, StackType.ACCOUNT, STAGE_ACCOUNT)!.reason).toContain('could not check for other pipelines');
+  });
+
+  it('should keep OIDC stacks when a local pipeline could not be parsed', async () => {
+    const stageRegions = { regions: new Map<string, Set<string>>(), unparsedSlugs: ['broken'] };
+
+    const targets = await resolveDestroyTargets(createPlan(), new Set(['app']), stageRegions, resolveCredentials);
+
+    expect(findTarget(targets, StackType.ORG, CICD_ACCOUNT)!.action).toBe('DELETE');
+    for (const accountId of [CICD_ACCOUNT, STAGE_ACCOUNT]) {
+      const target = findTarget(targets, StackType.ACCOUNT, accountId)!;
+      expect(target.action).toBe('RETAIN');
+      expect(target.reason).toContain('broken');
+    }
+  });
+});
+
+describe('executeDestroy', () => {
+  const deleteTargets = (stacks: StackDeployment[]): DestroyTarget[] =>
+    stacks.map(stack => ({ stack, action: 'DELETE' }));
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    vi.mocked(destroyStack).mockResolvedValue(undefined);
+    vi.mocked(readExistingStack).mockResolvedValue(null);
+    vi.spyOn(process, 'exit').mockImplementation((() => undefined) as never);
+  });
+
+  it('should delete Account stacks after every other stack', async () => {
+    const plan = createPlan();
+    const targets = deleteTargets([
+      ...plan.accountStacks,
+      plan.orgStack,
+      ...plan.pipelineStacks,
+      ...plan.stageStacks,
+    ]);
+
+    await executeDestroy(targets, {}, resolveCredentials);
+
+    const deleted = vi.mocked(destroyStack).mock.calls.map(([params]) => params.stackName);
+    expect(deleted).toHaveLength(5);
+    expect(deleted.slice(3)).toEqual(['DevRamps-Account-Bootstrap', 'DevRamps-Account-Bootstrap']);
+    expect(process.exit).toHaveBeenCalledWith(0);
+  });
+
+  it('should skip Account stacks when another stack fails to delete', async () => {
+    const plan = createPlan();
+    vi.mocked(destroyStack).mockImplementation(async params => {
+      if (params.stackName === 'DevRamps-app-staging-Stage') {
+        throw new Error('DELETE_FAILED');
+      }
+    });
+
+    await executeDestroy(deleteTargets([...plan.accountStacks, ...plan.stageStacks]), {}, resolveCredentials);
+
+    const deleted = vi.mocked(destroyStack).mock.calls.map(([params]) => params.stackName);
+    expect(deleted).toEqual(['DevRamps-app-staging-Stage']);
+    expect(process.exit).toHaveBeenCalledWith(1);
+  });
+
+  describe('buckets and repositories', () => {
+    beforeEach(() => {
+      vi.mocked(readExistingStack).mockResolvedValue({
+        stackName: 'DevRamps-app-staging-Stage',
+        accountId: STAGE_ACCOUNT,
+        region: 'us-west-2',
+        resources: {
+          ArtifactBucket: { type: 'AWS::S3::Bucket', physicalId: 'app-staging-artifacts' },
+          ImageRepository: { type: 'AWS::ECR::Repository', physicalId: 'app-staging-images' },
+        },
+        outputs: {},
+      });
+    });
+
+    it('should retain them without --empty-buckets or --empty-ecr-repos', async () => {
+      await executeDestroy(deleteTargets(createPlan().stageStacks), {}, resolveCredentials);
+
+      expect(destroyStack).toHaveBeenCalledOnce();
+      expect(emptyBucket).not.toHaveBeenCalled();
+      expect(emptyEcrRepository).not.toHaveBeenCalled();
+      expect(deleteBucket).not.toHaveBeenCalled();
+      expect(deleteEcrRepository).not.toHaveBeenCalled();
+    });
+
+    it('should empty buckets before the stack is deleted and delete them after with --empty-buckets', async () => {
+      await executeDestroy(deleteTargets(createPlan().stageStacks), { emptyBuckets: true }, resolveCredentials);
+
+      expect(emptyBucket).toHaveBeenCalledWith('app-staging-artifacts', 'us-west-2', undefined);
+      expect(deleteBucket).toHaveBeenCalledWith('app-staging-artifacts', 'us-west-2', undefined);
+      expect(vi.mocked(emptyBucket).mock.invocationCallOrder[0])
+        .toBeLessThan(vi.mocked(destroyStack).mock.invocationCallOrder[0]);
+      expect(vi.mocked(deleteBucket).mock.invocationCallOrder[0])
+        .toBeGreaterThan(vi.mocked(destroyStack).mock.invocationCallOrder[0]);
+      expect(emptyEcrRepository).not.toHaveBeenCalled();
+      expect(deleteEcrRepository).not.toHaveBeenCalled();
+    });
+
+    it('should empty and delete repositories with --empty-ecr-repos', async () => {
+      await executeDestroy(deleteTargets(createPlan().stageStacks), { emptyEcrRepos: true }, resolveCredentials);
+
+      expect(emptyEcrRepository).toHaveBeenCalledWith('app-staging-images', 'us-west-2', undefined);
+      expect(deleteEcrRepository).toHaveBeenCalledWith('app-staging-images', 'us-west-2', undefined);
+      expect(emptyBucket).not.toHaveBeenCalled();
+      expect(deleteBucket).not.toHaveBeenCalled();
+    });
+  });
+});
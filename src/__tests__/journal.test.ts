@@ -0,0 +1,154 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { mkdtemp, readFile, rm } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import {
+  JOURNAL_PATH,
+  checkJournalResumable,
+  createRunJournal,
+  deleteRunJournal,
+  readRunJournal,
+  recordStackOutcome,
+  selectTasksToResume,
+  writeRunJournal,
+} from '../plan/journal.js';
+import { buildStackTasks } from '../plan/dependencies.js';
+import { StackType, type DeploymentPlan, type StackDeployment } from '../types/stacks.js';
+import type { ParsedPipeline } from '../types/pipeline.js';
+import { JournalError } from '../utils/errors.js';
+
+// Templates only need to differ when the stack's "version" does
+vi.mock('../templates/index.js', () => ({
+  renderStackTemplate: (stack: StackDeployment & { version?: number }) => ({
+    Resources: { [stack.stackName]: { Type: 'Test', Properties: { version: stack.version ?? 1 } } },
+  }),
+}));
+
+const base = { region: 'us-east-1', action: 'CREATE' as const, remote: { exists: false } };
+
+function makePlan(stageVersion = 1): DeploymentPlan {
+  return {
+    orgSlug: 'acme',
+    cicdAccountId: '111111111111',
+    cicdRegion: 'us-east-1',
+    orgStack: { ...base, stackType: StackType.ORG, stackName: 'Org', accountId: '111111111111' },
+    pipelineStacks: [],
+    accountStacks: [{ ...base, stackType: StackType.ACCOUNT, stackName: 'Account', accountId: '222222222222' }],
+    stageStacks: [{ ...base, stackType: StackType.STAGE, stackName: 'Stage', accountId: '222222222222', version: stageVersion }],
+    importStacks: [],
+    orphanedStageStacks: [],
+  } as unknown as DeploymentPlan;
+}
+
+const pipelines = [
+  { slug: 'app', definition: { stages: [] }, additionalPolicies: {} },
+] as unknown as ParsedPipeline[];
+
+const ORG = 'Org:111111111111:us-east-1';
+const ACCOUNT = 'Account:222222222222:us-east-1';
+const STAGE = 'Stage:222222222222:us-east-1';
+
+describe('run journal', () => {
+  it('should start with every stack pending', () => {
+    const plan = makePlan();
+    const journal = createRunJournal(plan, pipelines, buildStackTasks(plan), {});
+
+    expect(journal.pipelineSlugs).toEqual(['app']);
+    expect(Object.keys(journal.stacks).sort()).toEqual([ACCOUNT, ORG, STAGE]);
+    expect(Object.values(journal.stacks).every(s => s.status === 'pending')).toBe(true);
+  });
+
+  it('should record outcomes and clear stale errors', () => {
+    const plan = makePlan();
+    const journal = createRunJournal(plan, pipelines, buildStackTasks(plan), {});
+
+    recordStackOutcome(journal, STAGE, 'failed', 'Access denied');
+    expect(journal.stacks[STAGE]).toMatchObject({ status: 'failed', error: 'Access denied' });
+
+    recordStackOutcome(journal, STAGE, 'succeeded');
+    expect(journal.stacks[STAGE].status).toBe('succeeded');
+    expect(journal.stacks[STAGE].error).toBeUndefined();
+  });
+
+  describe('selectTasksToResume', () => {
+    it('should skip stacks that succeeded and drop dependencies on them', () => {
+      const plan = makePlan();
+      const tasks = buildStackTasks(plan);
+      const journal = createRunJournal(plan, pipelines, tasks, {});
+      recordStackOutcome(journal, ACCOUNT, 'succeeded');
+      recordStackOutcome(journal, ORG, 'succeeded');
+      recordStackOutcome(journal, STAGE, 'failed', 'boom');
+
+      const remaining = selectTasksToResume(journal, tasks, {});
+
+      expect(remaining.map(t => t.id)).toEqual([STAGE]);
+      expect(remaining[0].dependsOn).toEqual([]);
+    });
+
+    it('should redeploy a succeeded stack whose template changed', () => {
+      const tasks = buildStackTasks(makePlan());
+      const journal = createRunJournal(makePlan(), pipelines, tasks, {});
+      for (const id of Object.keys(journal.stacks)) {
+        recordStackOutcome(journal, id, 'succeeded');
+      }
+
+      const remaining = selectTasksToResume(journal, buildStackTasks(makePlan(2)), {});
+
+      expect(remaining.map(t => t.id)).toEqual([STAGE]);
+    });
+  });
+
+  describe('checkJournalResumable', () => {
+    it('should accept an unchanged plan', () => {
+      const plan = makePlan();
+      const journal = createRunJournal(plan, pipelines, buildStackTasks(plan), {});
+
+      expect(checkJournalResumable(journal, plan, pipelines)).toEqual([]);
+    });
+
+    it('should reject changed pipeline definitions and a different organization', () => {
+      const plan = makePlan();
+      const journal = createRunJournal(plan, pipelines, buildStackTasks(plan), {});
+      const changed = [{ ...pipelines[0], definition: { stages: [{ name: 'prod' }] } }] as unknown as ParsedPipeline[];
+
+      const problems = checkJournalResumable(journal, { ...plan, orgSlug: 'other' }, changed);
+
+      expect(problems).toHaveLength(2);
+      expect(problems[0]).toContain('Organization changed');
+      expect(problems[1]).toContain('pipeline definitions have changed');
+    });
+  });
+
+  describe('reading and writing', () => {
+    let dir: string;
+
+    beforeEach(async () => {
+      dir = await mkdtemp(join(tmpdir(), 'devramps-journal-'));
+    });
+
+    afterEach(async () => {
+      await rm(dir, { recursive: true, force: true });
+    });
+
+    it('should round-trip a journal and ignore the state folder in git', async () => {
+      const plan = makePlan();
+      const journal = createRunJournal(plan, pipelines, buildStackTasks(plan), {});
+
+      await writeRunJournal(dir, journal);
+
+      expect(await readRunJournal(dir)).toEqual(journal);
+      expect(await readFile(join(dir, '.devramps', '.state', '.gitignore'), 'utf-8')).toBe('*\n');
+
+      await deleteRunJournal(dir);
+      expect(await readRunJournal(dir)).toBeUndefined();
+    });
+
+    it('should reject a journal from another version', async () => {
+      const plan = makePlan();
+      await writeRunJournal(dir, { ...createRunJournal(plan, pipelines, [], {}), version: 99 });
+
+      await expect(readRunJournal(dir)).rejects.toThrow(JournalError);
+      await expect(readRunJournal(dir)).rejects.toThrow(JOURNAL_PATH);
+    });
+  });
+});
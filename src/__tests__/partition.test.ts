@@ -0,0 +1,34 @@
+import { describe, it, expect } from 'vitest';
+import { getPartition, getPartitionFromArn, getDnsSuffix, servicePrincipal } from '../utils/partition.js';
+
+describe('getPartition', () => {
+  it('should map regions to their partition', () => {
+    expect(getPartition('us-east-1')).toBe('aws');
+    expect(getPartition('eu-central-1')).toBe('aws');
+    expect(getPartition('us-gov-west-1')).toBe('aws-us-gov');
+    expect(getPartition('cn-northwest-1')).toBe('aws-cn');
+  });
+
+  it('should read the partition from an ARN', () => {
+    expect(getPartitionFromArn('arn:aws-us-gov:iam::123456789012:user/ci')).toBe('aws-us-gov');
+    expect(getPartitionFromArn('arn:aws-cn:sts::123456789012:assumed-role/ci/session')).toBe('aws-cn');
+    expect(getPartitionFromArn('arn:aws:iam::123456789012:root')).toBe('aws');
+  });
+
+  it('should use the .cn DNS suffix only in China', () => {
+    expect(getDnsSuffix('aws-us-gov')).toBe('amazonaws.com');
+    expect(getDnsSuffix('aws-cn')).toBe('amazonaws.com.cn');
+  });
+});
+
+describe('servicePrincipal', () => {
+  it('should use .amazonaws.com outside China', () => {
+    expect(servicePrincipal('ec2', 'us-gov-west-1')).toBe('ec2.amazonaws.com');
+  });
+
+  it('should use .amazonaws.com.cn only for services that need it in China', () => {
+    expect(servicePrincipal('ec2', 'cn-north-1')).toBe('ec2.amazonaws.com.cn');
+    expect(servicePrincipal('lambda', 'cn-north-1')).toBe('lambda.amazonaws.com');
+    expect(servicePrincipal('ecs-tasks', 'cn-north-1')).toBe('ecs-tasks.amazonaws.com');
+  });
+});
@@ -0,0 +1,37 @@
+import { describe, it, expect } from 'vitest';
+import { buildPipelineSchema } from '../schema/index.js';
+
+type Definitions = Record<string, { properties: Record<string, Record<string, unknown>>; required?: string[] }>;
+
+describe('buildPipelineSchema', () => {
+  const schema = buildPipelineSchema();
+  const definitions = schema.definitions as Definitions;
+
+  it('should reject unknown keys on every object', () => {
+    for (const definition of Object.values(definitions)) {
+      expect(definition).toMatchObject({ type: 'object', additionalProperties: false });
+    }
+  });
+
+  it('should require the fields the types require', () => {
+    expect(definitions.stage.required).toEqual(['name', 'account_id', 'region']);
+    expect(definitions.step.required).toEqual(['name', 'type']);
+    expect(definitions.artifact.required).toEqual(['type']);
+  });
+
+  it('should enumerate approval requirements, step types and artifact types', () => {
+    expect(definitions.infrastructure.properties.requires_approval.enum).toEqual(['ALWAYS', 'DESTRUCTIVE_CHANGES_ONLY', 'NEVER']);
+    expect(definitions.artifact.properties.type.enum).toContain('DEVRAMPS:DOCKER:BUILD');
+
+    const [knownStepTypes] = definitions.step.properties.type.anyOf as { enum: string[] }[];
+    expect(knownStepTypes.enum).toContain('DEVRAMPS:ECS:DEPLOY');
+  });
+
+  it('should only reference existing definitions', () => {
+    const refs = JSON.stringify(schema).match(/#\/definitions\/\w+/g) ?? [];
+
+    for (const ref of refs) {
+      expect(definitions).toHaveProperty(ref.replace('#/definitions/', ''));
+    }
+  });
+});
@@ -0,0 +1,112 @@
+import { describe, it, expect } from 'vitest';
+import { validatePipelineDefinition } from '../parsers/pipeline-validator.js';
+
+function definition(pipeline: Record<string, unknown>) {
+  return {
+    version: '1.0.0',
+    pipeline: {
+      cloud_provider: 'AWS',
+      stages: [{ name: 'staging', account_id: '123456789012', region: 'us-east-1' }],
+      steps: [{ name: 'Deploy', type: 'DEVRAMPS:ECS:DEPLOY' }],
+      ...pipeline,
+    },
+  };
+}
+
+function messages(input: unknown): string[] {
+  return validatePipelineDefinition(input).map(i => `${i.path}: ${i.message}`);
+}
+
+describe('validatePipelineDefinition', () => {
+  it('should accept a valid pipeline', () => {
+    expect(validatePipelineDefinition(definition({}))).toEqual([]);
+  });
+
+  it('should report a missing pipeline key', () => {
+    expect(messages({ version: '1.0.0' })).toEqual(['pipeline: Missing "pipeline" key in definition']);
+  });
+
+  it('should suggest vars for variables and report every problem at once', () => {
+    const result = messages(definition({
+      stages: [
+        { name: 'staging', account_id: '123456789012', region: 'us-east-1', variables: {} },
+        { name: 'staging', account_id: 123456789012, region: 'mars-1' },
+      ],
+    }));
+
+    expect(result).toEqual([
+      'pipeline.stages[0].variables: Unknown key "variables" (did you mean "vars"?)',
+      'pipeline.stages[1].name: Duplicate stage name "staging"',
+      'pipeline.stages[1].account_id: account_id must be a quoted string, e.g. "123456789012"',
+      'pipeline.stages[1].region: Invalid AWS region "mars-1"',
+    ]);
+  });
+
+  it('should report stages in a different AWS partition', () => {
+    const result = messages(definition({
+      stages: [
+        { name: 'staging', account_id: '123456789012', region: 'us-east-1' },
+        { name: 'gov', account_id: '123456789013', region: 'us-gov-west-1' },
+      ],
+    }));
+
+    expect(result).toEqual([
+      'pipeline.stages[1].region: Region us-gov-west-1 is in partition aws-us-gov, but pipeline.stages[0] is in aws; all stages must be in the same AWS partition',
+    ]);
+  });
+
+  it('should suggest close matches for misspelled keys', () => {
+    const result = messages(definition({ stages: [{ name: 's', acount_id: '123456789012', region: 'us-east-1' }] }));
+
+    expect(result).toContain('pipeline.stages[0].acount_id: Unknown key "acount_id" (did you mean "account_id"?)');
+  });
+
+  it('should report goes_after references to missing steps', () => {
+    const result = messages(definition({
+      steps: [{ name: 'Deploy', type: 'DEVRAMPS:ECS:DEPLOY', goes_after: ['Build'] }],
+    }));
+
+    expect(result).toEqual(['pipeline.steps[0].goes_after: References unknown step "Build"']);
+  });
+
+  it('should report dependency cycles', () => {
+    const result = messages(definition({
+      steps: [
+        { name: 'A', type: 'T', goes_after: ['C'] },
+        { name: 'B', type: 'T', id: 'b', goes_after: ['A'] },
+        { name: 'C', type: 'T', goes_after: ['b'] },
+      ],
+    }));
+
+    expect(result).toEqual(['pipeline.steps[0].goes_after: Dependency cycle: A -> C -> B -> A']);
+  });
+
+  it('should report skip entries naming unknown steps', () => {
+    const result = messages(definition({
+      stages: [{ name: 'staging', account_id: '123456789012', region: 'us-east-1', skip: ['Deploy', 'Migrate'] }],
+      ephemeral_environments: {
+        preview: { triggers: [], release: {}, on_release: {}, account_id: '123456789012', region: 'us-east-1', skip: ['Nope'] },
+      },
+    }));
+
+    expect(result).toEqual([
+      'pipeline.stages[0].skip: Skips unknown step "Migrate"',
+      'pipeline.ephemeral_environments.preview.skip: Skips unknown step "Nope"',
+    ]);
+  });
+
+  it('should report duplicate step names and artifacts without a type', () => {
+    const result = messages(definition({
+      steps: [
+        { name: 'Deploy', type: 'T' },
+        { name: 'Deploy', type: 'T' },
+      ],
+      artifacts: { api: { architecture: 'linux/amd64' } },
+    }));
+
+    expect(result).toEqual([
+      'pipeline.steps[1]: Duplicate step name or id "Deploy"',
+      'pipeline.artifacts.api.type: Artifact is missing type',
+    ]);
+  });
+});
@@ -0,0 +1,65 @@
+import { describe, it, expect } from 'vitest';
+import { isStatefulReplacement, groupDiffsByLocation, summarizeDiffs, type StackDiffResult } from '../plan/diff.js';
+import type { ResourceChangeSummary } from '../aws/cloudformation.js';
+
+function result(stackName: string, accountId: string, region: string, changes: ResourceChangeSummary[]): StackDiffResult {
+  return {
+    stackName,
+    accountId,
+    region,
+    changeSet: { stackName, accountId, region, isNew: false, changes },
+  };
+}
+
+describe('isStatefulReplacement', () => {
+  it('should flag replacement of S3 buckets, ECR repositories and KMS keys', () => {
+    for (const resourceType of ['AWS::S3::Bucket', 'AWS::ECR::Repository', 'AWS::KMS::Key']) {
+      expect(isStatefulReplacement({ action: 'Modify', logicalId: 'R', resourceType, replacement: 'True' })).toBe(true);
+    }
+  });
+
+  it('should flag conditional replacements and removals', () => {
+    expect(isStatefulReplacement({ action: 'Modify', logicalId: 'B', resourceType: 'AWS::S3::Bucket', replacement: 'Conditional' })).toBe(true);
+    expect(isStatefulReplacement({ action: 'Remove', logicalId: 'B', resourceType: 'AWS::S3::Bucket' })).toBe(true);
+  });
+
+  it('should not flag in-place modifications or stateless resources', () => {
+    expect(isStatefulReplacement({ action: 'Modify', logicalId: 'B', resourceType: 'AWS::S3::Bucket', replacement: 'False' })).toBe(false);
+    expect(isStatefulReplacement({ action: 'Add', logicalId: 'B', resourceType: 'AWS::S3::Bucket' })).toBe(false);
+    expect(isStatefulReplacement({ action: 'Modify', logicalId: 'R', resourceType: 'AWS::IAM::Role', replacement: 'True' })).toBe(false);
+  });
+});
+
+describe('groupDiffsByLocation', () => {
+  it('should group stacks by account and region in sorted order', () => {
+    const groups = groupDiffsByLocation([
+      result('B-Stage', '222222222222', 'us-west-2', []),
+      result('A-Org', '111111111111', 'us-east-1', []),
+      result('A-Stage', '222222222222', 'us-west-2', []),
+    ]);
+
+    expect(groups.map(g => `${g.accountId}/${g.region}`)).toEqual(['111111111111/us-east-1', '222222222222/us-west-2']);
+    expect(groups[1].stacks.map(s => s.stackName)).toEqual(['A-Stage', 'B-Stage']);
+  });
+});
+
+describe('summarizeDiffs', () => {
+  it('should count changes, stateful replacements and failed stacks', () => {
+    const summary = summarizeDiffs([
+      result('Org', '111111111111', 'us-east-1', [
+        { action: 'Add', logicalId: 'Role', resourceType: 'AWS::IAM::Role' },
+        { action: 'Modify', logicalId: 'Key', resourceType: 'AWS::KMS::Key', replacement: 'True' },
+      ]),
+      result('Stage', '222222222222', 'us-west-2', [
+        { action: 'Remove', logicalId: 'Repo', resourceType: 'AWS::ECR::Repository' },
+      ]),
+      { stackName: 'Broken', accountId: '333333333333', region: 'us-east-1', error: 'Access denied' },
+    ]);
+
+    expect(summary.add).toBe(1);
+    expect(summary.modify).toBe(1);
+    expect(summary.remove).toBe(1);
+    expect(summary.failedStacks).toBe(1);
+    expect(summary.statefulChanges.map(c => c.change.logicalId)).toEqual(['Key', 'Repo']);
+  });
+});
@@ -0,0 +1,132 @@
+import { describe, it, expect, vi } from 'vitest';
+import { resolveRemoteState, getStackHealth, markUnchangedStacks } from '../plan/index.js';
+import { hashTemplate } from '../plan/serialize.js';
+import { renderStackTemplate } from '../templates/index.js';
+import { getStackStatus } from '../aws/cloudformation.js';
+import { StackType, type DeploymentPlan } from '../types/stacks.js';
+import type { CredentialCache } from '../aws/credential-cache.js';
+
+vi.mock('../utils/logger.js', () => ({
+  verbose: vi.fn(),
+  info: vi.fn(),
+  warn: vi.fn(),
+  error: vi.fn(),
+}));
+
+vi.mock('../aws/cloudformation.js', () => ({
+  getStackStatus: vi.fn(),
+  readExistingStack: vi.fn(),
+  TEMPLATE_HASH_TAG: 'DevRampsTemplateHash',
+}));
+
+const credentialCache = {
+  prefetch: vi.fn(async () => undefined),
+  get: vi.fn(async () => undefined),
+} as unknown as CredentialCache;
+
+function createPlan(stageCount: number): DeploymentPlan {
+  const base = { region: 'us-east-1', action: 'CREATE' as const, remote: { exists: false } };
+  return {
+    orgSlug: 'acme',
+    cicdAccountId: '123456789012',
+    cicdRegion: 'us-east-1',
+    orgStack: {
+      ...base,
+      stackType: StackType.ORG,
+      stackName: 'DevRamps-acme-Org',
+      accountId: '123456789012',
+      orgSlug: 'acme',
+      targetAccountIds: [],
+      statePrefixes: {},
+    },
+    pipelineStacks: [],
+    accountStacks: [],
+    stageStacks: Array.from({ length: stageCount }, (_, i) => ({
+      ...base,
+      stackType: StackType.STAGE,
+      stackName: `DevRamps-app-stage${i}-Stage`,
+      accountId: '111111111111',
+      pipelineSlug: 'app',
+      stageName: `stage${i}`,
+      orgSlug: 'acme',
+      steps: [],
+      additionalPolicies: [],
+      dockerArtifacts: [],
+      bundleArtifacts: [],
+    })),
+    importStacks: [],
+    orphanedStageStacks: [],
+  } as DeploymentPlan;
+}
+
+describe('resolveRemoteState', () => {
+  it('should describe stacks concurrently up to the limit', async () => {
+    let inFlight = 0;
+    let maxInFlight = 0;
+    vi.mocked(getStackStatus).mockImplementation(async (stackName) => {
+      inFlight++;
+      maxInFlight = Math.max(maxInFlight, inFlight);
+      await new Promise(resolve => setTimeout(resolve, 5));
+      inFlight--;
+      return stackName.startsWith('DevRamps-app-stage1-')
+        ? { exists: true, status: 'UPDATE_ROLLBACK_FAILED', lastUpdatedTime: '2026-01-01T00:00:00.000Z', tags: { Pipeline: 'app' } }
+        : { exists: false };
+    });
+
+    const plan = createPlan(8);
+    await resolveRemoteState(plan, credentialCache, 3);
+
+    expect(maxInFlight).toBe(3);
+    expect(getStackStatus).toHaveBeenCalledTimes(9);
+    expect(plan.stageStacks[1]).toMatchObject({
+      action: 'UPDATE',
+      remote: { exists: true, status: 'UPDATE_ROLLBACK_FAILED', tags: { Pipeline: 'app' } },
+    });
+    expect(plan.stageStacks[0].action).toBe('CREATE');
+  });
+});
+
+describe('getStackHealth', () => {
+  it('should classify failed, rolled back and in-progress stacks', () => {
+    expect(getStackHealth({ exists: false })).toBe('ok');
+    expect(getStackHealth({ exists: true, status: 'UPDATE_COMPLETE' })).toBe('ok');
+    expect(getStackHealth({ exists: true, status: 'CREATE_FAILED' })).toBe('failed');
+    expect(getStackHealth({ exists: true, status: 'ROLLBACK_COMPLETE' })).toBe('failed');
+    expect(getStackHealth({ exists: true, status: 'UPDATE_ROLLBACK_COMPLETE' })).toBe('failed');
+    expect(getStackHealth({ exists: true, status: 'UPDATE_IN_PROGRESS' })).toBe('in-progress');
+    expect(getStackHealth({ exists: true, status: 'REVIEW_IN_PROGRESS' })).toBe('in-review');
+  });
+});
+
+describe('markUnchangedStacks', () => {
+  function deployedPlan(status: string, templateHash?: string): DeploymentPlan {
+    const plan = createPlan(1);
+    const [stage] = plan.stageStacks;
+    stage.action = 'UPDATE';
+    stage.remote = {
+      exists: true,
+      status,
+      tags: { DevRampsTemplateHash: templateHash ?? hashTemplate(renderStackTemplate(stage)) },
+    };
+    return plan;
+  }
+
+  it('should mark a deployed stack with the same template hash as NO_CHANGE', () => {
+    const plan = deployedPlan('UPDATE_COMPLETE');
+
+    expect(markUnchangedStacks(plan)).toBe(1);
+    expect(plan.stageStacks[0].action).toBe('NO_CHANGE');
+    // Not deployed yet, so always created
+    expect(plan.orgStack.action).toBe('CREATE');
+  });
+
+  it('should keep UPDATE when the template changed or the stack is unhealthy', () => {
+    const changed = deployedPlan('UPDATE_COMPLETE', 'outdated');
+    const rolledBack = deployedPlan('UPDATE_ROLLBACK_COMPLETE');
+
+    expect(markUnchangedStacks(changed)).toBe(0);
+    expect(markUnchangedStacks(rolledBack)).toBe(0);
+    expect(changed.stageStacks[0].action).toBe('UPDATE');
+    expect(rolledBack.stageStacks[0].action).toBe('UPDATE');
+  });
+});
@@ -0,0 +1,201 @@
+import { describe, it, expect, vi } from 'vitest';
+import { serializeDeploymentPlan, comparePlanDocuments } from '../plan/serialize.js';
+import { StackType, type DeploymentPlan } from '../types/stacks.js';
+import type { ParsedPipeline } from '../types/pipeline.js';
+
+// Mock the logger to avoid console output during tests
+vi.mock('../utils/logger.js', () => ({
+  verbose: vi.fn(),
+  info: vi.fn(),
+  warn: vi.fn(),
+  error: vi.fn(),
+}));
+
+const pipelines = [
+  {
+    slug: 'my-app',
+    definition: { version: '1.0', pipeline: { stages: [], steps: [] } },
+    targetAccountIds: ['111111111111'],
+    stages: [],
+    steps: [],
+    additionalPolicies: [],
+  } as unknown as ParsedPipeline,
+];
+
+function createPlan(): DeploymentPlan {
+  return {
+    orgSlug: 'acme',
+    cicdAccountId: '123456789012',
+    cicdRegion: 'us-east-1',
+    orgStack: {
+      stackType: StackType.ORG,
+      stackName: 'DevRamps-acme-Org',
+      accountId: '123456789012',
+      region: 'us-east-1',
+      action: 'UPDATE',
+      remote: { exists: true, status: 'UPDATE_COMPLETE', lastUpdatedTime: '2026-01-01T00:00:00.000Z' },
+      orgSlug: 'acme',
+      targetAccountIds: ['111111111111'],
+      statePrefixes: { '111111111111': ['my-app/staging/'] },
+    },
+    pipelineStacks: [],
+    accountStacks: [
+      {
+        stackType: StackType.ACCOUNT,
+        stackName: 'DevRamps-Account-Bootstrap',
+        accountId: '123456789012',
+        region: 'us-east-1',
+        action: 'CREATE',
+        remote: { exists: false },
+      },
+    ],
+    stageStacks: [],
+    importStacks: [],
+    orphanedStageStacks: [],
+  };
+}
+
+describe('serializeDeploymentPlan', () => {
+  it('should list stacks in deployment order with template hashes', () => {
+    const document = serializeDeploymentPlan(createPlan(), pipelines);
+
+    expect(document.stacks.map(s => s.type)).toEqual([StackType.ACCOUNT, StackType.ORG]);
+    expect(document.pipelineSlugs).toEqual(['my-app']);
+    for (const stack of document.stacks) {
+      expect(stack.templateHash).toMatch(/^[0-9a-f]{64}$/);
+    }
+  });
+
+  it('should report sorted IAM actions for each role', () => {
+    const document = serializeDeploymentPlan(createPlan(), pipelines);
+    const org = document.stacks.find(s => s.type === StackType.ORG)!;
+
+    expect(org.roles.length).toBeGreaterThan(0);
+    for (const role of org.roles) {
+      expect(role.actions).toEqual([...new Set(role.actions)].sort());
+    }
+  });
+
+  it('should include actions from managed policies attached to a role', () => {
+    const plan = createPlan();
+    const additionalPolicies = Array.from({ length: 40 }, (_, i) => ({
+      Version: '2012-10-17',
+      Statement: [{
+        Effect: 'Allow' as const,
+        Action: [`custom${i}:Action`],
+        Resource: [`arn:aws:s3:::${'x'.repeat(400)}/${i}`],
+      }],
+    }));
+    plan.stageStacks.push({
+      stackType: StackType.STAGE,
+      stackName: 'DevRamps-my-app-staging-Stage',
+      accountId: '111111111111',
+      region: 'us-east-1',
+      action: 'CREATE',
+      remote: { exists: false },
+      pipelineSlug: 'my-app',
+      stageName: 'staging',
+      orgSlug: 'acme',
+      steps: [],
+      additionalPolicies,
+      dockerArtifacts: [],
+      bundleArtifacts: [],
+    });
+
+    const document = serializeDeploymentPlan(plan, pipelines);
+    const stage = document.stacks.find(s => s.type === StackType.STAGE)!;
+    const role = stage.roles.find(r => r.logicalId === 'StageDeploymentRole')!;
+
+    expect(stage.templateHash).toBeDefined();
+    expect(role.actions).toContain('custom0:Action');
+    expect(role.actions).toContain('custom39:Action');
+  });
+
+  it('should be stable for identical inputs', () => {
+    const first = JSON.stringify(serializeDeploymentPlan(createPlan(), pipelines));
+    const second = JSON.stringify(serializeDeploymentPlan(createPlan(), pipelines));
+
+    expect(first).toBe(second);
+  });
+
+  it('should include orphaned stage stacks as deletions', () => {
+    const plan = createPlan();
+    plan.orphanedStageStacks.push({
+      stackType: StackType.STAGE,
+      stackName: 'DevRamps-my-app-old-Stage',
+      accountId: '111111111111',
+      region: 'us-west-2',
+      action: 'DELETE',
+      pipelineSlug: 'my-app',
+      stageName: 'old',
+    });
+
+    const document = serializeDeploymentPlan(plan, pipelines);
+    const deleted = document.stacks.find(s => s.action === 'DELETE')!;
+
+    expect(deleted.name).toBe('DevRamps-my-app-old-Stage');
+    expect(deleted.templateHash).toBeUndefined();
+  });
+});
+
+describe('comparePlanDocuments', () => {
+  it('should find no differences for the same plan', () => {
+    const saved = serializeDeploymentPlan(createPlan(), pipelines);
+    const current = serializeDeploymentPlan(createPlan(), pipelines);
+
+    expect(comparePlanDocuments(saved, current)).toEqual([]);
+  });
+
+  it('should detect changed pipeline definitions', () => {
+    const saved = serializeDeploymentPlan(createPlan(), pipelines);
+    const changed = [{ ...pipelines[0], definition: { version: '2.0' } } as unknown as ParsedPipeline];
+    const current = serializeDeploymentPlan(createPlan(), changed);
+
+    expect(comparePlanDocuments(saved, current)).toContain(
+      'Local pipeline definitions have changed since the plan was created'
+    );
+  });
+
+  it('should detect changed custom step permissions', () => {
+    const saved = serializeDeploymentPlan(createPlan(), pipelines);
+    const changed = [{
+      ...pipelines[0],
+      customSteps: { 'CUSTOM:MIGRATE': [{ actions: ['rds:DescribeDBInstances'], resources: ['*'] }] },
+    } as unknown as ParsedPipeline];
+    const current = serializeDeploymentPlan(createPlan(), changed);
+
+    expect(comparePlanDocuments(saved, current)).toContain(
+      'Local pipeline definitions have changed since the plan was created'
+    );
+  });
+
+  it('should detect a stack updated since planning', () => {
+    const saved = serializeDeploymentPlan(createPlan(), pipelines);
+    const plan = createPlan();
+    plan.orgStack.remote.lastUpdatedTime = '2026-02-01T00:00:00.000Z';
+    const current = serializeDeploymentPlan(plan, pipelines);
+
+    const differences = comparePlanDocuments(saved, current);
+    expect(differences).toHaveLength(1);
+    expect(differences[0]).toMatch(/DevRamps-acme-Org.*deployed stack changed/);
+  });
+
+  it('should detect changed templates and added stacks', () => {
+    const saved = serializeDeploymentPlan(createPlan(), pipelines);
+    const plan = createPlan();
+    plan.orgStack.targetAccountIds.push('222222222222');
+    plan.accountStacks.push({
+      stackType: StackType.ACCOUNT,
+      stackName: 'DevRamps-Account-Bootstrap',
+      accountId: '222222222222',
+      region: 'us-east-1',
+      action: 'CREATE',
+      remote: { exists: false },
+    });
+    const current = serializeDeploymentPlan(plan, pipelines);
+
+    const differences = comparePlanDocuments(saved, current);
+    expect(differences).toContainEqual(expect.stringMatching(/DevRamps-acme-Org.*rendered template changed/));
+    expect(differences).toContainEqual(expect.stringMatching(/222222222222.*not in the saved plan/));
+  });
+});
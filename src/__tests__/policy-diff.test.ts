@@ -0,0 +1,88 @@
+import { describe, it, expect } from 'vitest';
+import { collectAllowedActions, diffPolicyActions, hasPermissionExpansion, type RolePermissionDiff } from '../policy/diff.js';
+
+const templatePolicy = (actions: string | string[], effect = 'Allow') => ({
+  PolicyName: 'Test',
+  PolicyDocument: {
+    Version: '2012-10-17',
+    Statement: [{ Effect: effect, Action: actions, Resource: '*' }],
+  },
+});
+
+const deployedPolicy = (actions: string[]) => ({
+  policyName: 'Test',
+  policyDocument: {
+    Version: '2012-10-17',
+    Statement: [{ Effect: 'Allow', Action: actions, Resource: 'arn:aws:s3:::bucket' }],
+  },
+});
+
+describe('collectAllowedActions', () => {
+  it('should collect actions from template and deployed policies', () => {
+    const actions = collectAllowedActions([
+      templatePolicy('s3:GetObject'),
+      deployedPolicy(['ecr:BatchGetImage']),
+    ]);
+
+    expect([...actions.values()].sort()).toEqual(['ecr:BatchGetImage', 's3:GetObject']);
+  });
+
+  it('should ignore Deny statements', () => {
+    const actions = collectAllowedActions([templatePolicy(['iam:*'], 'Deny')]);
+
+    expect(actions.size).toBe(0);
+  });
+
+  it('should accept a single statement object', () => {
+    const actions = collectAllowedActions([
+      { PolicyDocument: { Statement: { Effect: 'Allow', Action: 'sts:AssumeRole' } } },
+    ]);
+
+    expect([...actions.values()]).toEqual(['sts:AssumeRole']);
+  });
+});
+
+describe('diffPolicyActions', () => {
+  it('should report added and removed actions', () => {
+    const result = diffPolicyActions(
+      [deployedPolicy(['s3:GetObject', 's3:PutObject'])],
+      [templatePolicy(['s3:GetObject', 'lambda:UpdateFunctionCode'])]
+    );
+
+    expect(result.added).toEqual(['lambda:UpdateFunctionCode']);
+    expect(result.removed).toEqual(['s3:PutObject']);
+  });
+
+  it('should compare actions case-insensitively', () => {
+    const result = diffPolicyActions(
+      [deployedPolicy(['S3:GetObject'])],
+      [templatePolicy(['s3:getobject'])]
+    );
+
+    expect(result.added).toEqual([]);
+    expect(result.removed).toEqual([]);
+  });
+});
+
+describe('hasPermissionExpansion', () => {
+  const diff = (overrides: Partial<RolePermissionDiff>): RolePermissionDiff => ({
+    roleName: 'DevRamps-my-app-staging-DeploymentRole',
+    accountId: '111111111111',
+    stackName: 'DevRamps-my-app-staging-Stage',
+    isNewRole: false,
+    added: [],
+    removed: [],
+    ...overrides,
+  });
+
+  it('should be true when an existing role gains actions', () => {
+    expect(hasPermissionExpansion([diff({ added: ['iam:PassRole'] })])).toBe(true);
+  });
+
+  it('should ignore new roles and removals', () => {
+    expect(hasPermissionExpansion([
+      diff({ isNewRole: true, added: ['iam:PassRole'] }),
+      diff({ removed: ['s3:GetObject'] }),
+    ])).toBe(false);
+  });
+});
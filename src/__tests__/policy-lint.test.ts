@@ -0,0 +1,123 @@
+import { describe, it, expect, vi } from 'vitest';
+import { applySuppressions, lintPolicyDocument, lintTemplate } from '../policy/lint.js';
+import { getKnownStepTypes } from '../permissions/index.js';
+import { generateImportStackTemplate } from '../templates/import-stack.js';
+import { generateOrgStackTemplate } from '../templates/org-stack.js';
+import { generateStageStackTemplate } from '../templates/stage-stack.js';
+
+// Steps without params fall back to wildcards with a warning
+vi.mock('../utils/logger.js', () => ({
+  verbose: vi.fn(),
+  info: vi.fn(),
+  warn: vi.fn(),
+  error: vi.fn(),
+}));
+
+const location = { stackName: 'DevRamps-app-staging-Stage', resource: 'StageDeploymentRole', policyName: 'AdditionalPolicy1' };
+
+function rules(statements: object[]): string[] {
+  return lintPolicyDocument({ Version: '2012-10-17', Statement: statements }, location).map(f => f.rule);
+}
+
+describe('lintPolicyDocument', () => {
+  it('should flag administrator wildcards', () => {
+    expect(rules([{ Effect: 'Allow', Action: '*', Resource: '*' }])).toEqual(['admin-wildcard']);
+  });
+
+  it('should downgrade administrator wildcards limited by Deny statements', () => {
+    const findings = lintPolicyDocument({
+      Statement: [
+        { Effect: 'Allow', Action: '*', Resource: '*' },
+        { Effect: 'Deny', Action: 'iam:*', Resource: '*' },
+      ],
+    }, location);
+
+    expect(findings).toEqual([expect.objectContaining({ rule: 'admin-wildcard', severity: 'warning' })]);
+  });
+
+  it('should flag iam:* on any resource', () => {
+    expect(rules([{ Effect: 'Allow', Action: ['iam:*'], Resource: 'arn:aws:iam::123456789012:role/app-*' }])).toEqual(['iam-wildcard']);
+  });
+
+  it('should flag iam:PassRole on every role unless conditioned on the service', () => {
+    expect(rules([{ Effect: 'Allow', Action: 'iam:Pass*', Resource: '*' }])).toEqual(['passrole-wildcard']);
+    expect(rules([{
+      Effect: 'Allow',
+      Action: 'iam:PassRole',
+      Resource: '*',
+      Condition: { StringEquals: { 'iam:PassedToService': 'ecs-tasks.amazonaws.com' } },
+    }])).toEqual([]);
+  });
+
+  it('should flag sts:AssumeRole on every role', () => {
+    expect(rules([{ Effect: 'Allow', Action: 'sts:AssumeRole', Resource: '*' }])).toEqual(['assume-role-wildcard']);
+    expect(rules([{ Effect: 'Allow', Action: 'sts:AssumeRole', Resource: 'arn:aws:iam::*:role/DevRamps-*' }])).toEqual([]);
+  });
+
+  it('should warn about service wildcards and NotAction', () => {
+    const findings = lintPolicyDocument({
+      Statement: [
+        { Sid: 'Bucket', Effect: 'Allow', Action: 's3:*', Resource: '*' },
+        { Effect: 'Allow', NotAction: 'iam:*', Resource: '*' },
+      ],
+    }, location);
+
+    expect(findings).toEqual([
+      expect.objectContaining({ rule: 'service-wildcard', severity: 'warning', sid: 'Bucket' }),
+      expect.objectContaining({ rule: 'not-action-allow', severity: 'warning' }),
+    ]);
+  });
+});
+
+describe('lintTemplate', () => {
+  it('should find nothing in the generated org and import role policies', () => {
+    const org = generateOrgStackTemplate({ orgSlug: 'acme', cicdAccountId: '123456789012', region: 'us-east-1', targetAccountIds: ['210987654321'] });
+    const imported = generateImportStackTemplate({ orgSlug: 'acme', pipelineSlug: 'app', accountId: '210987654321', region: 'us-east-1' });
+
+    expect(lintTemplate('DevRamps-acme-Org', org)).toEqual([]);
+    expect(lintTemplate('DevRamps-app-Import', imported)).toEqual([]);
+  });
+
+  it('should find no errors in the stage policies of any built-in step type', () => {
+    const stage = generateStageStackTemplate({
+      pipelineSlug: 'app',
+      stageName: 'staging',
+      orgSlug: 'acme',
+      accountId: '123456789012',
+      region: 'us-east-1',
+      steps: getKnownStepTypes().map(type => ({ name: type, type })),
+      additionalPolicies: [],
+      dockerArtifacts: [],
+      bundleArtifacts: [],
+    });
+
+    expect(lintTemplate('DevRamps-app-staging-Stage', stage).filter(f => f.severity === 'error')).toEqual([]);
+  });
+});
+
+describe('applySuppressions', () => {
+  const findings = lintPolicyDocument({
+    Statement: [
+      { Sid: 'Pass', Effect: 'Allow', Action: 'iam:PassRole', Resource: '*' },
+      { Sid: 'Assume', Effect: 'Allow', Action: 'sts:AssumeRole', Resource: '*' },
+    ],
+  }, location);
+
+  it('should move matching findings to suppressed', () => {
+    const result = applySuppressions(findings, [
+      { rule: 'passrole-wildcard', stack: 'DevRamps-app-*', policy: 'AdditionalPolicy1', reason: 'Reviewed' },
+    ]);
+
+    expect(result.findings.map(f => f.rule)).toEqual(['assume-role-wildcard']);
+    expect(result.suppressed.map(f => f.rule)).toEqual(['passrole-wildcard']);
+    expect(result.unusedSuppressions).toEqual([]);
+  });
+
+  it('should report suppressions that match nothing', () => {
+    const stale = { rule: 'assume-role-wildcard' as const, stack: 'DevRamps-other-*', reason: 'Reviewed' };
+    const result = applySuppressions(findings, [stale]);
+
+    expect(result.findings).toHaveLength(2);
+    expect(result.unusedSuppressions).toEqual([stale]);
+  });
+});
@@ -0,0 +1,71 @@
+import { describe, it, expect } from 'vitest';
+import {
+  layoutRolePolicies,
+  policySize,
+  MANAGED_POLICY_SIZE_LIMIT,
+  type InlineRolePolicy,
+} from '../templates/policy-size.js';
+
+function policy(name: string, statementCount: number, resourceLength = 100): InlineRolePolicy {
+  return {
+    PolicyName: name,
+    PolicyDocument: {
+      Version: '2012-10-17',
+      Statement: Array.from({ length: statementCount }, (_, i) => ({
+        Sid: `${name}${i + 1}`,
+        Effect: 'Allow',
+        Action: ['s3:GetObject'],
+        Resource: [`arn:aws:s3:::${'x'.repeat(resourceLength)}/${i}`],
+      })),
+    },
+  };
+}
+
+describe('layoutRolePolicies', () => {
+  it('should keep policies inline when they fit', () => {
+    const policies = [policy('A', 2), policy('B', 2)];
+    const layout = layoutRolePolicies(policies);
+
+    expect(layout.inline).toEqual(policies);
+    expect(layout.managed).toEqual([]);
+    expect(layout.oversizedStatements).toBe(0);
+  });
+
+  it('should move policies past the inline limit into managed policies', () => {
+    const policies = [policy('A', 25), policy('B', 25), policy('C', 25)];
+    const layout = layoutRolePolicies(policies);
+
+    expect(layout.inline.map(p => p.PolicyName)).toEqual(['A', 'B']);
+    expect(layout.managed.flatMap(d => d.Statement)).toHaveLength(25);
+  });
+
+  it('should pack managed policies up to the managed size limit', () => {
+    const layout = layoutRolePolicies([policy('A', 60), policy('B', 60)]);
+
+    expect(layout.managed.length).toBeGreaterThan(1);
+    for (const document of layout.managed) {
+      expect(policySize(document)).toBeLessThanOrEqual(MANAGED_POLICY_SIZE_LIMIT);
+    }
+  });
+
+  it('should drop duplicate Sids within a managed policy', () => {
+    const big = policy('Big', 1, 10300);
+    const layout = layoutRolePolicies([big, policy('Dup', 1), policy('Dup', 1)]);
+    const sids = layout.managed.flatMap(d => d.Statement.map(s => s.Sid)).filter(Boolean);
+
+    expect(new Set(sids).size).toBe(sids.length);
+  });
+
+  it('should count statements too large for a managed policy', () => {
+    const layout = layoutRolePolicies([policy('Huge', 1, 11000)]);
+
+    expect(layout.inline).toEqual([]);
+    expect(layout.oversizedStatements).toBe(1);
+  });
+});
+
+describe('policySize', () => {
+  it('should not count whitespace', () => {
+    expect(policySize({ Action: 'a b' })).toBe('{"Action":"ab"}'.length);
+  });
+});
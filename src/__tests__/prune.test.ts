@@ -0,0 +1,164 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { findOrphanedStageStacks } from '../plan/prune.js';
+import { listDevRampsStacks, getStackResourcePhysicalId } from '../aws/cloudformation.js';
+import { getRoleTags } from '../aws/iam.js';
+import { StackType, type DeploymentPlan } from '../types/stacks.js';
+
+vi.mock('../utils/logger.js', () => ({
+  verbose: vi.fn(),
+  info: vi.fn(),
+  warn: vi.fn(),
+  error: vi.fn(),
+}));
+
+vi.mock('../aws/cloudformation.js', () => ({
+  listDevRampsStacks: vi.fn(),
+  getStackResourcePhysicalId: vi.fn(),
+}));
+
+vi.mock('../aws/iam.js', () => ({
+  getRoleTags: vi.fn(),
+}));
+
+const STAGE_ACCOUNT = '111111111111';
+
+const resolveCredentials = vi.fn(async () => undefined);
+
+/**
+ * Deployed stage stacks by name, with the tags on their deployment roles
+ */
+const deployedStages: Record<string, Record<string, string>> = {
+  'DevRamps-app-staging-Stage': { Pipeline: 'app', Stage: 'staging' },
+  'DevRamps-app-old-Stage': { Pipeline: 'app', Stage: 'old' },
+  'DevRamps-other-prod-Stage': { Pipeline: 'other', Stage: 'prod' },
+  'DevRamps-app-untagged-Stage': {},
+};
+
+function createPlan(): DeploymentPlan {
+  const base = { region: 'us-east-1', action: 'UPDATE' as const, remote: { exists: true } };
+  return {
+    orgSlug: 'acme',
+    cicdAccountId: '123456789012',
+    cicdRegion: 'us-east-1',
+    orgStack: {
+      ...base,
+      stackType: StackType.ORG,
+      stackName: 'DevRamps-acme-Org',
+      accountId: '123456789012',
+      orgSlug: 'acme',
+      targetAccountIds: [STAGE_ACCOUNT],
+      statePrefixes: {},
+    },
+    pipelineStacks: [{
+      ...base,
+      stackType: StackType.PIPELINE,
+      stackName: 'DevRamps-app-Pipeline',
+      accountId: '123456789012',
+      pipelineSlug: 'app',
+    }],
+    accountStacks: [{
+      ...base,
+      stackType: StackType.ACCOUNT,
+      stackName: 'DevRamps-Account-Bootstrap',
+      accountId: STAGE_ACCOUNT,
+    }],
+    stageStacks: [{
+      ...base,
+      stackType: StackType.STAGE,
+      stackName: 'DevRamps-app-staging-Stage',
+      accountId: STAGE_ACCOUNT,
+      pipelineSlug: 'app',
+      stageName: 'staging',
+      orgSlug: 'acme',
+      steps: [],
+      additionalPolicies: [],
+      dockerArtifacts: [],
+      bundleArtifacts: [],
+    }],
+    importStacks: [],
+    orphanedStageStacks: [],
+  } as unknown as DeploymentPlan;
+}
+
+describe('findOrphanedStageStacks', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    vi.mocked(listDevRampsStacks).mockResolvedValue([
+      ...Object.keys(deployedStages).map(stackName => ({ stackName, outputs: {} })),
+      { stackName: 'DevRamps-app-Pipeline', outputs: {} },
+    ]);
+    vi.mocked(getStackResourcePhysicalId).mockImplementation(async stackName => `${stackName}-role`);
+    vi.mocked(getRoleTags).mockImplementation(async roleName => deployedStages[roleName.replace(/-role$/, '')]);
+  });
+
+  it('should find stage stacks of planned pipelines whose stage was removed', async () => {
+    const orphans = await findOrphanedStageStacks(createPlan(), resolveCredentials);
+
+    expect(orphans).toEqual([{
+      stackType: StackType.STAGE,
+      stackName: 'DevRamps-app-old-Stage',
+      accountId: STAGE_ACCOUNT,
+      region: 'us-east-1',
+      action: 'DELETE',
+      pipelineSlug: 'app',
+      stageName: 'old',
+    }]);
+  });
+
+  it('should identify stacks by the Pipeline/Stage tags on their deployment role', async () => {
+    vi.mocked(getRoleTags).mockImplementation(async (roleName): Promise<Record<string, string>> =>
+      roleName === 'DevRamps-app-old-Stage-role' ? { Pipeline: 'app', Stage: 'renamed' } : {}
+    );
+
+    const orphans = await findOrphanedStageStacks(createPlan(), resolveCredentials);
+
+    expect(orphans.map(o => o.stageName)).toEqual(['renamed']);
+    expect(getStackResourcePhysicalId).toHaveBeenCalledWith(
+      'DevRamps-app-old-Stage', 'StageDeploymentRole', undefined, 'us-east-1'
+    );
+  });
+
+  it('should not read the tags of stages that are still planned', async () => {
+    await findOrphanedStageStacks(createPlan(), resolveCredentials);
+
+    const checked = vi.mocked(getStackResourcePhysicalId).mock.calls.map(([stackName]) => stackName);
+    expect(checked).not.toContain('DevRamps-app-staging-Stage');
+    expect(checked).not.toContain('DevRamps-app-Pipeline');
+  });
+
+  it('should treat a planned stage moved to another region as orphaned in the old one', async () => {
+    const plan = createPlan();
+    plan.stageStacks[0].region = 'us-west-2';
+    vi.mocked(listDevRampsStacks).mockImplementation(async (_credentials, region) =>
+      region === 'us-east-1' ? [{ stackName: 'DevRamps-app-staging-Stage', outputs: {} }] : []
+    );
+
+    const orphans = await findOrphanedStageStacks(plan, resolveCredentials);
+
+    expect(orphans).toHaveLength(1);
+    expect(orphans[0]).toMatchObject({ stackName: 'DevRamps-app-staging-Stage', region: 'us-east-1' });
+  });
+
+  it('should ignore stacks of other pipelines and stacks without tags', async () => {
+    const orphans = await findOrphanedStageStacks(createPlan(), resolveCredentials);
+
+    const names = orphans.map(o => o.stackName);
+    expect(names).not.toContain('DevRamps-other-prod-Stage');
+    expect(names).not.toContain('DevRamps-app-untagged-Stage');
+  });
+
+  it('should skip stacks whose role tags cannot be read', async () => {
+    vi.mocked(getRoleTags).mockRejectedValue(new Error('AccessDenied'));
+
+    expect(await findOrphanedStageStacks(createPlan(), resolveCredentials)).toEqual([]);
+  });
+
+  it('should skip accounts that cannot be accessed', async () => {
+    const failingResolver = vi.fn(async () => {
+      throw new Error('AccessDenied');
+    });
+
+    expect(await findOrphanedStageStacks(createPlan(), failingResolver)).toEqual([]);
+    expect(listDevRampsStacks).not.toHaveBeenCalled();
+  });
+});
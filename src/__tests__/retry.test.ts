@@ -0,0 +1,49 @@
+import { describe, it, expect, vi } from 'vitest';
+import { isThrottlingError, withThrottleRetry } from '../utils/retry.js';
+
+vi.mock('../utils/logger.js', () => ({
+  verbose: vi.fn(),
+  info: vi.fn(),
+  warn: vi.fn(),
+  error: vi.fn(),
+}));
+
+function awsError(name: string, message = name): Error {
+  const error = new Error(message);
+  error.name = name;
+  return error;
+}
+
+describe('withThrottleRetry', () => {
+  it('should recognize throttling errors', () => {
+    expect(isThrottlingError(awsError('Throttling', 'Rate exceeded'))).toBe(true);
+    expect(isThrottlingError(awsError('ValidationError', 'Rate exceeded'))).toBe(true);
+    expect(isThrottlingError(awsError('ValidationError', 'Stack does not exist'))).toBe(false);
+  });
+
+  it('should retry throttled calls with delays within the backoff cap', async () => {
+    const sleep = vi.fn(async (_ms: number) => {});
+    const fn = vi.fn()
+      .mockRejectedValueOnce(awsError('Throttling'))
+      .mockRejectedValueOnce(awsError('TooManyRequestsException'))
+      .mockResolvedValueOnce('done');
+
+    await expect(withThrottleRetry(fn, { sleep, baseDelayMs: 100 })).resolves.toBe('done');
+
+    expect(fn).toHaveBeenCalledTimes(3);
+    const delays = sleep.mock.calls.map(([ms]) => ms);
+    expect(delays[0]).toBeLessThanOrEqual(200);
+    expect(delays[1]).toBeLessThanOrEqual(400);
+  });
+
+  it('should not retry other errors and give up after maxAttempts', async () => {
+    const sleep = vi.fn(async () => {});
+    const failing = vi.fn().mockRejectedValue(awsError('ValidationError'));
+    await expect(withThrottleRetry(failing, { sleep })).rejects.toThrow('ValidationError');
+    expect(failing).toHaveBeenCalledTimes(1);
+
+    const throttled = vi.fn().mockRejectedValue(awsError('Throttling'));
+    await expect(withThrottleRetry(throttled, { sleep, maxAttempts: 3 })).rejects.toThrow('Throttling');
+    expect(throttled).toHaveBeenCalledTimes(3);
+  });
+});
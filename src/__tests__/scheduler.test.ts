@@ -0,0 +1,91 @@
+import { describe, it, expect } from 'vitest';
+import { runDag, type DagTask } from '../utils/scheduler.js';
+
+const tick = () => new Promise(resolve => setTimeout(resolve, 1));
+
+function task(id: string, dependsOn: string[] = []): DagTask {
+  return { id, dependsOn };
+}
+
+describe('runDag', () => {
+  it('should start tasks only after their dependencies succeed', async () => {
+    const started: string[] = [];
+    const finished = new Set<string>();
+
+    const results = await runDag(
+      [task('stage', ['account', 'org']), task('org', ['account']), task('account'), task('pipeline')],
+      async ({ id, dependsOn }) => {
+        expect(dependsOn.every(dep => finished.has(dep))).toBe(true);
+        started.push(id);
+        await tick();
+        finished.add(id);
+      },
+      { maxConcurrency: 4, failFast: true }
+    );
+
+    expect(results.map(r => r.outcome)).toEqual(['succeeded', 'succeeded', 'succeeded', 'succeeded']);
+    expect(started.indexOf('org')).toBeGreaterThan(started.indexOf('account'));
+    expect(started.indexOf('stage')).toBeGreaterThan(started.indexOf('org'));
+  });
+
+  it('should never run more than maxConcurrency tasks at once', async () => {
+    let running = 0;
+    let maxRunning = 0;
+
+    await runDag(
+      Array.from({ length: 7 }, (_, i) => task(`t${i}`)),
+      async () => {
+        running++;
+        maxRunning = Math.max(maxRunning, running);
+        await tick();
+        running--;
+      },
+      { maxConcurrency: 3, failFast: true }
+    );
+
+    expect(maxRunning).toBe(3);
+  });
+
+  it('should skip dependents of a failed task and keep going without failFast', async () => {
+    const results = await runDag(
+      [task('account-a'), task('stage-a', ['account-a']), task('account-b'), task('stage-b', ['account-b'])],
+      async ({ id }) => {
+        await tick();
+        if (id === 'account-a') throw new Error('denied');
+      },
+      { maxConcurrency: 1, failFast: false }
+    );
+
+    expect(results).toEqual([
+      { id: 'account-a', outcome: 'failed', error: new Error('denied') },
+      { id: 'stage-a', outcome: 'skipped', reason: 'account-a did not succeed' },
+      { id: 'account-b', outcome: 'succeeded' },
+      { id: 'stage-b', outcome: 'succeeded' },
+    ]);
+  });
+
+  it('should not start new tasks after a failure with failFast', async () => {
+    const results = await runDag(
+      [task('a'), task('b'), task('c')],
+      async ({ id }) => {
+        await tick();
+        if (id === 'a') throw new Error('boom');
+      },
+      { maxConcurrency: 1, failFast: true }
+    );
+
+    expect(results.map(r => r.outcome)).toEqual(['failed', 'skipped', 'skipped']);
+    expect(results[1].reason).toBe('an earlier task failed');
+  });
+
+  it('should skip tasks in a dependency cycle and reject unknown dependencies', async () => {
+    const results = await runDag([task('a', ['b']), task('b', ['a']), task('c')], async () => {}, {
+      maxConcurrency: 2,
+      failFast: true,
+    });
+    expect(results.map(r => r.outcome)).toEqual(['skipped', 'skipped', 'succeeded']);
+
+    await expect(runDag([task('a', ['missing'])], async () => {}, { maxConcurrency: 1, failFast: true }))
+      .rejects.toThrow('depends on unknown task missing');
+  });
+});
@@ -0,0 +1,67 @@
+import { describe, it, expect } from 'vitest';
+import { buildStackTasks, withoutTasks } from '../plan/dependencies.js';
+import { StackType, type DeploymentPlan } from '../types/stacks.js';
+
+const base = { region: 'us-east-1', action: 'CREATE' as const, remote: { exists: false } };
+
+const plan = {
+  orgSlug: 'acme',
+  cicdAccountId: '111111111111',
+  cicdRegion: 'us-east-1',
+  orgStack: { ...base, stackType: StackType.ORG, stackName: 'Org', accountId: '111111111111' },
+  pipelineStacks: [{ ...base, stackType: StackType.PIPELINE, stackName: 'Pipeline', accountId: '111111111111' }],
+  accountStacks: [
+    { ...base, stackType: StackType.ACCOUNT, stackName: 'Account', accountId: '111111111111' },
+    { ...base, stackType: StackType.ACCOUNT, stackName: 'Account', accountId: '222222222222' },
+  ],
+  stageStacks: [{ ...base, stackType: StackType.STAGE, stackName: 'Stage', accountId: '222222222222', region: 'eu-west-1' }],
+  importStacks: [{ ...base, stackType: StackType.IMPORT, stackName: 'Import', accountId: '222222222222' }],
+  orphanedStageStacks: [],
+} as unknown as DeploymentPlan;
+
+describe('buildStackTasks', () => {
+  it('should order Account before Org, Stage and Import, and Org before Stage', () => {
+    const deps = Object.fromEntries(buildStackTasks(plan).map(t => [t.id, t.dependsOn]));
+
+    expect(deps).toEqual({
+      'Account:111111111111:us-east-1': [],
+      'Account:222222222222:us-east-1': [],
+      'Org:111111111111:us-east-1': ['Account:111111111111:us-east-1'],
+      'Pipeline:111111111111:us-east-1': [],
+      'Stage:222222222222:eu-west-1': ['Account:222222222222:us-east-1', 'Org:111111111111:us-east-1'],
+      'Import:222222222222:us-east-1': ['Account:222222222222:us-east-1'],
+    });
+  });
+
+  it('should drop Account stacks and their dependencies when OIDC is skipped', () => {
+    const tasks = buildStackTasks(plan, false);
+
+    expect(tasks.map(t => t.stack.stackName)).toEqual(['Org', 'Pipeline', 'Stage', 'Import']);
+    expect(tasks.find(t => t.stack.stackName === 'Stage')?.dependsOn).toEqual(['Org:111111111111:us-east-1']);
+  });
+
+  it('should leave out unchanged stacks and dependencies on them', () => {
+    const unchanged = {
+      ...plan,
+      orgStack: { ...plan.orgStack, action: 'NO_CHANGE' },
+      accountStacks: plan.accountStacks.map(s => ({ ...s, action: 'NO_CHANGE' })),
+    } as DeploymentPlan;
+
+    const deps = Object.fromEntries(buildStackTasks(unchanged).map(t => [t.id, t.dependsOn]));
+
+    expect(deps).toEqual({
+      'Pipeline:111111111111:us-east-1': [],
+      'Stage:222222222222:eu-west-1': [],
+      'Import:222222222222:us-east-1': [],
+    });
+  });
+});
+
+describe('withoutTasks', () => {
+  it('should drop the given tasks and dependencies on them', () => {
+    const tasks = withoutTasks(buildStackTasks(plan), new Set(['Org:111111111111:us-east-1', 'Pipeline:111111111111:us-east-1']));
+
+    expect(tasks.map(t => t.stack.stackName)).toEqual(['Account', 'Account', 'Stage', 'Import']);
+    expect(tasks.find(t => t.stack.stackName === 'Stage')?.dependsOn).toEqual(['Account:222222222222:us-east-1']);
+  });
+});
@@ -0,0 +1,62 @@
+import { describe, it, expect } from 'vitest';
+import { findDataResources, findRollbackBlockers, getStackRecovery } from '../plan/recovery.js';
+import type { StackResourceState } from '../aws/cloudformation.js';
+
+function resource(logicalId: string, resourceType: string, status: string): StackResourceState {
+  return { logicalId, resourceType, status };
+}
+
+describe('getStackRecovery', () => {
+  it('should leave deployable and missing stacks alone', () => {
+    expect(getStackRecovery({ exists: false })).toBe('none');
+    expect(getStackRecovery({ exists: true, status: 'CREATE_COMPLETE' })).toBe('none');
+    expect(getStackRecovery({ exists: true, status: 'UPDATE_ROLLBACK_COMPLETE' })).toBe('none');
+  });
+
+  it('should wait for operations in progress', () => {
+    expect(getStackRecovery({ exists: true, status: 'UPDATE_IN_PROGRESS' })).toBe('wait');
+    expect(getStackRecovery({ exists: true, status: 'UPDATE_COMPLETE_CLEANUP_IN_PROGRESS' })).toBe('wait');
+    expect(getStackRecovery({ exists: true, status: 'DELETE_IN_PROGRESS' })).toBe('wait');
+  });
+
+  it('should discard a stack that only holds change sets instead of waiting for it', () => {
+    expect(getStackRecovery({ exists: true, status: 'REVIEW_IN_PROGRESS' })).toBe('discard-review');
+  });
+
+  it('should continue failed rollbacks of updates', () => {
+    expect(getStackRecovery({ exists: true, status: 'UPDATE_ROLLBACK_FAILED' })).toBe('continue-rollback');
+  });
+
+  it('should recreate stacks rolled back on creation', () => {
+    expect(getStackRecovery({ exists: true, status: 'ROLLBACK_COMPLETE' })).toBe('recreate');
+    expect(getStackRecovery({ exists: true, status: 'ROLLBACK_FAILED' })).toBe('recreate');
+  });
+
+  it('should ask to finish failed deletions', () => {
+    expect(getStackRecovery({ exists: true, status: 'DELETE_FAILED' })).toBe('finish-delete');
+  });
+});
+
+describe('findDataResources', () => {
+  it('should return buckets, repositories and keys that were not deleted', () => {
+    const resources = [
+      resource('Bucket', 'AWS::S3::Bucket', 'DELETE_SKIPPED'),
+      resource('Repo', 'AWS::ECR::Repository', 'DELETE_FAILED'),
+      resource('Key', 'AWS::KMS::Key', 'DELETE_COMPLETE'),
+      resource('Role', 'AWS::IAM::Role', 'CREATE_COMPLETE'),
+    ];
+
+    expect(findDataResources(resources).map(r => r.logicalId)).toEqual(['Bucket', 'Repo']);
+  });
+});
+
+describe('findRollbackBlockers', () => {
+  it('should return resources that failed to update', () => {
+    const resources = [
+      resource('Role', 'AWS::IAM::Role', 'UPDATE_FAILED'),
+      resource('Policy', 'AWS::IAM::Policy', 'UPDATE_COMPLETE'),
+    ];
+
+    expect(findRollbackBlockers(resources).map(r => r.logicalId)).toEqual(['Role']);
+  });
+});
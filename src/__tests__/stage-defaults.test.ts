@@ -0,0 +1,67 @@
+import { describe, it, expect } from 'vitest';
+import { applyStageDefaults } from '../parsers/stage-defaults.js';
+import type { Stage, StageDefaults } from '../types/pipeline.js';
+
+const stage = (overrides: Partial<Stage> = {}): Stage => ({
+  name: 'staging',
+  account_id: '123456789012',
+  region: 'us-east-1',
+  ...overrides,
+});
+
+describe('applyStageDefaults', () => {
+  it('should return the stage unchanged without defaults', () => {
+    const input = stage();
+    expect(applyStageDefaults(input, undefined)).toBe(input);
+  });
+
+  it('should fill in missing settings from the defaults', () => {
+    const resolved = applyStageDefaults(stage(), {
+      deployment_time_window: 'PACIFIC_WORKING_HOURS',
+      infrastructure: { requires_approval: 'ALWAYS', source: './infra' },
+    });
+
+    expect(resolved.deployment_time_window).toBe('PACIFIC_WORKING_HOURS');
+    expect(resolved.infrastructure).toEqual({ requires_approval: 'ALWAYS', source: './infra' });
+  });
+
+  it('should let stage settings take precedence', () => {
+    const resolved = applyStageDefaults(
+      stage({ deployment_time_window: 'NONE', infrastructure: { requires_approval: 'NEVER' } }),
+      { deployment_time_window: 'PACIFIC_WORKING_HOURS', infrastructure: { requires_approval: 'ALWAYS', source: './infra' } }
+    );
+
+    expect(resolved.deployment_time_window).toBe('NONE');
+    expect(resolved.infrastructure).toEqual({ requires_approval: 'NEVER', source: './infra' });
+  });
+
+  it('should deep-merge infrastructure variables, replacing lists', () => {
+    const defaults: StageDefaults = {
+      infrastructure: {
+        variables: { instance: { size: 'small', count: 1 }, subnets: ['a', 'b'], region_suffix: 'use1' },
+      },
+    };
+
+    const resolved = applyStageDefaults(
+      stage({ infrastructure: { variables: { instance: { count: 3 }, subnets: ['c'] } } }),
+      defaults
+    );
+
+    expect(resolved.infrastructure?.variables).toEqual({
+      instance: { size: 'small', count: 3 },
+      subnets: ['c'],
+      region_suffix: 'use1',
+    });
+  });
+
+  it('should not modify the defaults or the stage', () => {
+    const defaults: StageDefaults = { infrastructure: { variables: { instance: { size: 'small' } } } };
+    const input = stage({ infrastructure: { variables: { instance: { size: 'large' } } } });
+
+    const resolved = applyStageDefaults(input, defaults);
+    (resolved.infrastructure!.variables!.instance as Record<string, unknown>).size = 'changed';
+
+    expect(defaults.infrastructure?.variables).toEqual({ instance: { size: 'small' } });
+    expect(input.infrastructure?.variables).toEqual({ instance: { size: 'large' } });
+  });
+});
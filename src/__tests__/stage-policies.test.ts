@@ -0,0 +1,184 @@
+import { describe, it, expect, vi } from 'vitest';
+import { buildStagePolicies, type StagePolicyContext } from '../templates/stage-stack.js';
+import * as logger from '../utils/logger.js';
+import type { PipelineStep } from '../types/pipeline.js';
+
+vi.mock('../utils/logger.js', () => ({
+  verbose: vi.fn(),
+  info: vi.fn(),
+  warn: vi.fn(),
+  error: vi.fn(),
+}));
+
+interface Policy {
+  PolicyName: string;
+  PolicyDocument: { Statement: { Sid: string; Action: string[]; Resource: string[]; Condition?: object }[] };
+}
+
+const steps: PipelineStep[] = [
+  { name: 'Deploy Service', type: 'DEVRAMPS:ECS:DEPLOY' },
+  { name: 'Smoke Test', id: 'smoke', type: 'DEVRAMPS:LAMBDA:INVOKE' },
+];
+
+const stage: StagePolicyContext = { pipelineSlug: 'app', name: 'staging', accountId: '123456789012', region: 'us-east-1' };
+
+function buildPolicies(stepList: PipelineStep[], overrides: Partial<StagePolicyContext> = {}): Policy[] {
+  return buildStagePolicies(stepList, [], [], [], 'acme', { ...stage, ...overrides }) as Policy[];
+}
+
+function stepPolicy(step: PipelineStep, overrides: Partial<StagePolicyContext> = {}): Policy['PolicyDocument']['Statement'] {
+  const policies = buildPolicies([step], overrides);
+  return policies.find(p => p.PolicyName.endsWith('DeploymentPolicy'))!.PolicyDocument.Statement;
+}
+
+describe('buildStagePolicies', () => {
+  it('should add a deployment policy for every step by default', () => {
+    expect(buildPolicies(steps).map(p => p.PolicyName)).toEqual(
+      expect.arrayContaining(['DeployServiceDeploymentPolicy', 'SmokeTestDeploymentPolicy'])
+    );
+  });
+
+  it('should drop policies for steps skipped by name or id', () => {
+    const names = (skip: string[]) => buildPolicies(steps, { skip }).map(p => p.PolicyName);
+
+    expect(names(['Deploy Service'])).not.toContain('DeployServiceDeploymentPolicy');
+    expect(names(['smoke'])).not.toContain('SmokeTestDeploymentPolicy');
+    expect(names(['smoke'])).toContain('DeployServiceDeploymentPolicy');
+  });
+});
+
+describe('step permission scoping', () => {
+  it('should scope ECS service actions to the cluster and service', () => {
+    const statements = stepPolicy({
+      name: 'Deploy',
+      type: 'DEVRAMPS:ECS:DEPLOY',
+      params: { cluster_name: 'main', service_name: 'api' },
+    });
+
+    expect(statements[0]).toMatchObject({
+      Sid: 'Deploy',
+      Action: ['ecs:UpdateService', 'ecs:DescribeServices'],
+      Resource: ['arn:aws:ecs:us-east-1:123456789012:service/main/api'],
+    });
+    expect(statements.find(s => s.Action.includes('iam:PassRole'))?.Condition).toEqual({
+      StringEquals: { 'iam:PassedToService': 'ecs-tasks.amazonaws.com' },
+    });
+  });
+
+  it('should scope ECS service actions when the cluster or service is an ARN', () => {
+    const byClusterArn = stepPolicy({
+      name: 'Deploy',
+      type: 'DEVRAMPS:ECS:DEPLOY',
+      params: { cluster: 'arn:aws:ecs:eu-west-1:210987654321:cluster/main', service: 'api' },
+    });
+    const byServiceArn = stepPolicy({
+      name: 'Deploy',
+      type: 'DEVRAMPS:ECS:DEPLOY',
+      params: { cluster: 'main', service: 'arn:aws:ecs:us-east-1:123456789012:service/main/api' },
+    });
+
+    expect(byClusterArn[0].Resource).toEqual(['arn:aws:ecs:eu-west-1:210987654321:service/main/api']);
+    expect(byServiceArn[0].Resource).toEqual(['arn:aws:ecs:us-east-1:123456789012:service/main/api']);
+  });
+
+  it('should scope ECS tasks by task definition family, name or ARN', () => {
+    const runTask = (params: Record<string, string>) => {
+      const statements = stepPolicy({ name: 'Migrate', type: 'DEVRAMPS:ECS:RUN_TASK', params });
+      return [statements[0].Resource, statements[1].Resource];
+    };
+
+    expect(runTask({ cluster: 'main', task_definition: 'migrate:3' })).toEqual([
+      ['arn:aws:ecs:us-east-1:123456789012:task-definition/migrate:*'],
+      ['arn:aws:ecs:us-east-1:123456789012:task/main/*'],
+    ]);
+    expect(runTask({
+      cluster: 'arn:aws:ecs:us-east-1:123456789012:cluster/main',
+      task_definition: 'arn:aws:ecs:us-east-1:123456789012:task-definition/migrate:3',
+    })).toEqual([
+      ['arn:aws:ecs:us-east-1:123456789012:task-definition/migrate:*'],
+      ['arn:aws:ecs:us-east-1:123456789012:task/main/*'],
+    ]);
+    expect(runTask({ cluster: 'main', task_definition: 'arn:aws:ecs:us-east-1:123456789012:task-definition/migrate' })[0]).toEqual([
+      'arn:aws:ecs:us-east-1:123456789012:task-definition/migrate:*',
+    ]);
+  });
+
+  it('should use the partition of the stage region in ARNs', () => {
+    const statements = stepPolicy(
+      { name: 'Invoke', type: 'DEVRAMPS:LAMBDA:INVOKE', params: { function_name: 'api' } },
+      { region: 'us-gov-west-1' }
+    );
+
+    expect(statements[0].Resource).toEqual([
+      'arn:aws-us-gov:lambda:us-gov-west-1:123456789012:function:api',
+      'arn:aws-us-gov:lambda:us-gov-west-1:123456789012:function:api:*',
+    ]);
+  });
+
+  it('should resolve stage and vars expressions in params', () => {
+    const statements = stepPolicy(
+      { name: 'Invoke', type: 'DEVRAMPS:LAMBDA:INVOKE', params: { function_name: '${{ vars.prefix }}-${{ stage.name }}' } },
+      { vars: { prefix: 'api' } }
+    );
+
+    expect(statements[0].Resource).toEqual([
+      'arn:aws:lambda:us-east-1:123456789012:function:api-staging',
+      'arn:aws:lambda:us-east-1:123456789012:function:api-staging:*',
+    ]);
+  });
+
+  it('should fall back to a wildcard with a warning for unresolvable expressions', () => {
+    const statements = stepPolicy({
+      name: 'Invalidate',
+      type: 'DEVRAMPS:CLOUDFRONT:INVALIDATE',
+      params: { distribution_id: '${{ steps.infra.distribution_id }}' },
+    });
+
+    expect(statements[0].Resource).toEqual(['arn:aws:cloudfront::123456789012:distribution/*']);
+    expect(logger.warn).toHaveBeenCalledWith(expect.stringContaining('${{ steps.infra.distribution_id }}'));
+  });
+
+  it('should only allow import steps to assume DevRamps roles', () => {
+    for (const type of ['DEVRAMPS:BUNDLE:IMPORT', 'DEVRAMPS:DOCKER:IMPORT']) {
+      const statements = stepPolicy({ name: 'Import', type }, { region: 'cn-north-1' });
+
+      expect(statements.find(s => s.Action.includes('sts:AssumeRole'))?.Resource).toEqual(['arn:aws-cn:iam::*:role/DevRamps-*']);
+    }
+  });
+
+  it('should keep wildcard resources for step types without scoping', () => {
+    const statements = stepPolicy({ name: 'Mirror', type: 'DEVRAMPS:MIRROR:S3' });
+
+    expect(statements[0].Resource).toEqual(['*']);
+  });
+});
+
+describe('custom step permissions', () => {
+  const step: PipelineStep = { name: 'Run Migrations', type: 'CUSTOM:RUN_MIGRATIONS' };
+
+  it('should add a named policy from custom_steps.yaml definitions', () => {
+    const statements = stepPolicy(step, {
+      customSteps: {
+        'CUSTOM:RUN_MIGRATIONS': [
+          { actions: ['rds-data:ExecuteStatement'], resources: ['arn:aws:rds:us-east-1:123456789012:cluster:app'] },
+          { actions: ['secretsmanager:GetSecretValue'], resources: ['*'], condition: { StringEquals: { 'aws:ResourceTag/app': 'api' } } },
+        ],
+      },
+    });
+
+    expect(statements).toEqual([
+      { Sid: 'RunMigrations', Effect: 'Allow', Action: ['rds-data:ExecuteStatement'], Resource: ['arn:aws:rds:us-east-1:123456789012:cluster:app'] },
+      {
+        Sid: 'RunMigrations2',
+        Effect: 'Allow',
+        Action: ['secretsmanager:GetSecretValue'],
+        Resource: ['*'],
+        Condition: { StringEquals: { 'aws:ResourceTag/app': 'api' } },
+      },
+    ]);
+  });
+
+  it('should add no policy for undeclared custom steps', () => {
+    expect(buildPolicies([step]).map(p => p.PolicyName)).not.toContain('RunMigrationsDeploymentPolicy');
+  });
+});
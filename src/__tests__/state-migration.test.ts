@@ -0,0 +1,36 @@
+import { describe, it, expect } from 'vitest';
+import { planStateMigrations } from '../plan/state-migration.js';
+import { StateMigrationError } from '../utils/errors.js';
+import type { ParsedPipeline } from '../types/pipeline.js';
+
+function pipeline(slug: string, stageNames: string[]): ParsedPipeline {
+  return {
+    slug,
+    stages: stageNames.map(name => ({ name, account_id: '111111111111', region: 'us-east-1' })),
+  } as unknown as ParsedPipeline;
+}
+
+describe('planStateMigrations', () => {
+  it('should map each stage from the legacy key to its prefix', () => {
+    const migrations = planStateMigrations([pipeline('app', ['staging', 'Prod EU'])], '{pipeline}-{stage}.tfstate');
+
+    expect(migrations).toEqual([
+      { pipelineSlug: 'app', stageName: 'staging', fromKey: 'app-staging.tfstate', toKey: 'app/staging/terraform.tfstate' },
+      { pipelineSlug: 'app', stageName: 'Prod EU', fromKey: 'app-Prod EU.tfstate', toKey: 'app/prod-eu/terraform.tfstate' },
+    ]);
+  });
+
+  it('should leave out stages already at their new key', () => {
+    expect(planStateMigrations([pipeline('app', ['staging'])], '{pipeline}/{stage}/terraform.tfstate')).toEqual([]);
+  });
+
+  it('should require a {stage} placeholder', () => {
+    expect(() => planStateMigrations([pipeline('app', ['staging'])], '{pipeline}.tfstate')).toThrow(StateMigrationError);
+  });
+
+  it('should reject templates that map two stages to one key', () => {
+    const pipelines = [pipeline('app', ['staging']), pipeline('web', ['staging'])];
+
+    expect(() => planStateMigrations(pipelines, 'env/{stage}.tfstate')).toThrow(/both map to legacy key "env\/staging.tfstate"/);
+  });
+});
@@ -0,0 +1,140 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { mkdir, mkdtemp, readFile, readdir, rm, writeFile } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { parse as parseYaml } from 'yaml';
+import { synthCommand } from '../commands/synth.js';
+import { hashTemplate } from '../plan/serialize.js';
+import { StackType } from '../types/stacks.js';
+import type { SynthOptions } from '../types/config.js';
+
+vi.mock('../utils/logger.js', () => ({
+  verbose: vi.fn(),
+  info: vi.fn(),
+  warn: vi.fn(),
+  error: vi.fn(),
+  success: vi.fn(),
+  header: vi.fn(),
+  newline: vi.fn(),
+  isVerbose: () => false,
+  setVerbose: vi.fn(),
+}));
+
+vi.mock('ora', () => ({
+  default: () => {
+    const spinner = { text: '', start: () => spinner, succeed: () => spinner, fail: () => spinner, warn: () => spinner };
+    return spinner;
+  },
+}));
+
+vi.mock('../auth/credential-store.js', () => ({
+  loadCredentials: vi.fn(async () => null),
+}));
+
+const pipeline = [
+  'version: "1.0.0"',
+  'pipeline:',
+  '  stages:',
+  '    - name: staging',
+  '      account_id: "111111111111"',
+  '      region: us-west-2',
+  '    - name: production',
+  '      account_id: "222222222222"',
+  '      region: eu-west-1',
+  '  steps: []',
+  '',
+].join('\n');
+
+const baseOptions: SynthOptions = {
+  orgSlug: 'acme',
+  cicdAccountId: '123456789012',
+  cicdRegion: 'us-east-1',
+  outDir: 'out',
+  format: 'json',
+};
+
+describe('synthCommand', () => {
+  let dir: string;
+
+  beforeEach(async () => {
+    dir = await mkdtemp(join(tmpdir(), 'devramps-synth-'));
+    await mkdir(join(dir, '.devramps', 'app'), { recursive: true });
+    await writeFile(join(dir, '.devramps', 'app', 'pipeline.yaml'), pipeline);
+    vi.spyOn(process, 'cwd').mockReturnValue(dir);
+    vi.spyOn(process, 'exit').mockImplementation(((code?: number) => {
+      throw new Error(`process.exit(${code})`);
+    }) as never);
+  });
+
+  afterEach(async () => {
+    vi.restoreAllMocks();
+    await rm(dir, { recursive: true, force: true });
+  });
+
+  const readManifest = async () => JSON.parse(await readFile(join(dir, 'out', 'manifest.json'), 'utf-8'));
+
+  it('should write a manifest entry for every stack bootstrap would deploy', async () => {
+    await synthCommand(baseOptions);
+
+    const manifest = await readManifest();
+    expect(manifest).toMatchObject({
+      version: 1,
+      orgSlug: 'acme',
+      cicdAccountId: '123456789012',
+      cicdRegion: 'us-east-1',
+      format: 'json',
+    });
+
+    const stacks = manifest.stacks as { stackType: StackType; accountId: string; region: string }[];
+    expect(stacks.filter(s => s.stackType === StackType.ORG)).toHaveLength(1);
+    expect(stacks.filter(s => s.stackType === StackType.PIPELINE)).toHaveLength(1);
+    expect(stacks.filter(s => s.stackType === StackType.STAGE).map(s => `${s.accountId}/${s.region}`))
+      .toEqual(['111111111111/us-west-2', '222222222222/eu-west-1']);
+    expect(stacks.filter(s => s.stackType === StackType.ACCOUNT).map(s => s.accountId).sort())
+      .toEqual(['111111111111', '123456789012', '222222222222']);
+  });
+
+  it('should name each template file after its stack, account and region', async () => {
+    await synthCommand(baseOptions);
+
+    const manifest = await readManifest();
+    const files = await readdir(join(dir, 'out'));
+    for (const stack of manifest.stacks) {
+      expect(stack.templateFile).toBe(`${stack.stackName}.${stack.accountId}.${stack.region}.template.json`);
+      expect(files).toContain(stack.templateFile);
+    }
+    expect(new Set(manifest.stacks.map((s: { templateFile: string }) => s.templateFile)).size)
+      .toBe(manifest.stacks.length);
+    expect(files).toHaveLength(manifest.stacks.length + 1);
+  });
+
+  it('should write JSON templates matching the manifest hashes', async () => {
+    await synthCommand(baseOptions);
+
+    for (const stack of (await readManifest()).stacks) {
+      const template = JSON.parse(await readFile(join(dir, 'out', stack.templateFile), 'utf-8'));
+      expect(template.Resources).toBeDefined();
+      expect(hashTemplate(template)).toBe(stack.templateHash);
+    }
+  });
+
+  it('should write YAML templates with --format yaml', async () => {
+    await synthCommand({ ...baseOptions, format: 'yaml' });
+
+    const manifest = await readManifest();
+    expect(manifest.format).toBe('yaml');
+    for (const stack of manifest.stacks) {
+      expect(stack.templateFile).toMatch(/\.template\.yaml$/);
+      const template = parseYaml(await readFile(join(dir, 'out', stack.templateFile), 'utf-8'));
+      expect(hashTemplate(template)).toBe(stack.templateHash);
+    }
+  });
+
+  it('should reject other formats without writing anything', async () => {
+    await expect(
+      synthCommand({ ...baseOptions, format: 'toml' as SynthOptions['format'] })
+    ).rejects.toThrow('process.exit(1)');
+
+    await expect(readdir(join(dir, 'out'))).rejects.toThrow();
+  });
+});
@@ -0,0 +1,57 @@
+import { describe, it, expect } from 'vitest';
+import { parseYamlSource } from '../parsers/yaml-source.js';
+import { YamlSyntaxError } from '../utils/errors.js';
+
+const content = [
+  'version: "1.0.0"',
+  'pipeline:',
+  '  stages:',
+  '    - name: staging',
+  '      account_id: "123456789012"',
+  '      region: us-east-1',
+  '      vars:',
+  '        key: value',
+  '',
+].join('\n');
+
+describe('parseYamlSource', () => {
+  const source = parseYamlSource(content, '.devramps/app/pipeline.yaml');
+
+  it('should locate scalar values at the value', () => {
+    const location = source.locate(['pipeline', 'stages', 0, 'region']);
+
+    expect(location).toMatchObject({ file: '.devramps/app/pipeline.yaml', line: 6, column: 15 });
+  });
+
+  it('should locate collections at their key', () => {
+    expect(source.locate(['pipeline', 'stages', 0, 'vars'])).toMatchObject({ line: 7, column: 7 });
+  });
+
+  it('should fall back to the closest enclosing value for missing paths', () => {
+    expect(source.locate(['pipeline', 'stages', 0, 'skip'])).toMatchObject({ line: 4, column: 7 });
+    expect(source.locate(['pipeline', 'stages', 3])).toMatchObject({ line: 3, column: 3 });
+  });
+
+  it('should include a code frame marking the position', () => {
+    const location = source.locate(['pipeline', 'stages', 0, 'region']);
+
+    expect(location?.codeFrame).toBe([
+      '  4 |     - name: staging',
+      '  5 |       account_id: "123456789012"',
+      '> 6 |       region: us-east-1',
+      '    |               ^',
+      '  7 |       vars:',
+      '  8 |         key: value',
+    ].join('\n'));
+  });
+
+  it('should report syntax errors with their position', () => {
+    try {
+      parseYamlSource('pipeline:\n  stages: [\n', 'pipeline.yaml');
+      expect.unreachable();
+    } catch (error) {
+      expect(error).toBeInstanceOf(YamlSyntaxError);
+      expect((error as YamlSyntaxError).location).toMatchObject({ file: 'pipeline.yaml', line: 3, column: 1 });
+    }
+  });
+});
@@ -6,6 +6,8 @@ import { STSClient, AssumeRoleCommand } from '@aws-sdk/client-sts';
 import { RoleAssumptionError } from '../utils/errors.js';
 import * as logger from '../utils/logger.js';
 import { DEFAULT_TARGET_ROLE, FALLBACK_TARGET_ROLE } from '../types/config.js';
+import { getPartition } from '../utils/partition.js';
+import { getStsRegion } from './credentials.js';
 import type { AssumedRoleCredentials } from '../types/aws.js';
 import type { AwsCredentialIdentity } from '@aws-sdk/types';
 
@@ -31,9 +33,11 @@ export async function assumeRoleForAccount(
     : [DEFAULT_TARGET_ROLE, FALLBACK_TARGET_ROLE];
 
   let lastError: Error | undefined;
+  // Roles can only be assumed within the caller's partition
+  const partition = getPartition(await getStsRegion());
 
   for (const roleName of rolesToTry) {
-    const roleArn = `arn:aws:iam::${targetAccountId}:role/${roleName}`;
+    const roleArn = `arn:${partition}:iam::${targetAccountId}:role/${roleName}`;
 
     try {
       logger.verbose(`Attempting to assume role: ${roleArn}`);
@@ -62,11 +66,8 @@ export async function assumeRoleForAccount(
   throw new RoleAssumptionError(targetAccountId, attemptedRole, currentAccountId);
 }
 
-// Default region for STS (global service, any region works)
-const DEFAULT_REGION = 'us-east-1';
-
 async function assumeRole(roleArn: string): Promise<AwsCredentialIdentity> {
-  const client = new STSClient({ region: DEFAULT_REGION });
+  const client = new STSClient({ region: await getStsRegion() });
 
   const response = await client.send(
     new AssumeRoleCommand({
@@ -0,0 +1,178 @@
+/**
+ * Emptying data-bearing resources before stack deletion
+ *
+ * CloudFormation cannot delete S3 buckets that still contain objects (including
+ * old versions and delete markers) or ECR repositories that still contain images.
+ * These helpers remove that content so the owning stack can be deleted, and
+ * delete the buckets and repositories that the stack retains once it is gone.
+ */
+
+import {
+  S3Client,
+  ListObjectVersionsCommand,
+  DeleteObjectsCommand,
+  DeleteBucketCommand,
+  type ObjectIdentifier,
+} from '@aws-sdk/client-s3';
+import {
+  ECRClient,
+  ListImagesCommand,
+  BatchDeleteImageCommand,
+  DeleteRepositoryCommand,
+  type ImageIdentifier,
+} from '@aws-sdk/client-ecr';
+import type { AwsCredentialIdentity } from '@aws-sdk/types';
+import * as logger from '../utils/logger.js';
+
+// DeleteObjects accepts at most 1000 keys, BatchDeleteImage at most 100 image IDs
+const S3_DELETE_BATCH_SIZE = 1000;
+const ECR_DELETE_BATCH_SIZE = 100;
+
+/**
+ * Delete every object version and delete marker in a versioned bucket.
+ * Returns the number of versions removed.
+ */
+export async function emptyBucket(
+  bucketName: string,
+  region: string,
+  credentials?: AwsCredentialIdentity
+): Promise<number> {
+  const client = new S3Client({ region, credentials });
+  let deleted = 0;
+  let keyMarker: string | undefined;
+  let versionIdMarker: string | undefined;
+
+  do {
+    const response = await client.send(
+      new ListObjectVersionsCommand({
+        Bucket: bucketName,
+        KeyMarker: keyMarker,
+        VersionIdMarker: versionIdMarker,
+        MaxKeys: S3_DELETE_BATCH_SIZE,
+      })
+    );
+
+    const objects: ObjectIdentifier[] = [
+      ...(response.Versions || []),
+      ...(response.DeleteMarkers || []),
+    ]
+      .filter(v => v.Key)
+      .map(v => ({ Key: v.Key!, VersionId: v.VersionId }));
+
+    for (let i = 0; i < objects.length; i += S3_DELETE_BATCH_SIZE) {
+      const batch = objects.slice(i, i + S3_DELETE_BATCH_SIZE);
+      const result = await client.send(
+        new DeleteObjectsCommand({
+          Bucket: bucketName,
+          Delete: { Objects: batch, Quiet: true },
+        })
+      );
+
+      if (result.Errors && result.Errors.length > 0) {
+        const first = result.Errors[0];
+        throw new Error(`Could not delete ${first.Key} from ${bucketName}: ${first.Message}`);
+      }
+
+      deleted += batch.length;
+    }
+
+    keyMarker = response.IsTruncated ? response.NextKeyMarker : undefined;
+    versionIdMarker = response.IsTruncated ? response.NextVersionIdMarker : undefined;
+  } while (keyMarker);
+
+  logger.verbose(`Emptied bucket ${bucketName} (${deleted} object version(s))`);
+  return deleted;
+}
+
+/**
+ * Delete every image in an ECR repository.
+ * Returns the number of images removed.
+ */
+export async function emptyEcrRepository(
+  repositoryName: string,
+  region: string,
+  credentials?: AwsCredentialIdentity
+): Promise<number> {
+  const client = new ECRClient({ region, credentials });
+  const imageIds: ImageIdentifier[] = [];
+  let nextToken: string | undefined;
+
+  do {
+    const response = await client.send(
+      new ListImagesCommand({
+        repositoryName,
+        nextToken,
+      })
+    );
+
+    imageIds.push(...(response.imageIds || []));
+    nextToken = response.nextToken;
+  } while (nextToken);
+
+  for (let i = 0; i < imageIds.length; i += ECR_DELETE_BATCH_SIZE) {
+    const batch = imageIds.slice(i, i + ECR_DELETE_BATCH_SIZE);
+    const result = await client.send(
+      new BatchDeleteImageCommand({
+        repositoryName,
+        imageIds: batch,
+      })
+    );
+
+    const failures = (result.failures || []).filter(f => f.failureCode !== 'ImageNotFound');
+    if (failures.length > 0) {
+      throw new Error(`Could not delete images from ${repositoryName}: ${failures[0].failureReason}`);
+    }
+  }
+
+  logger.verbose(`Emptied ECR repository ${repositoryName} (${imageIds.length} image(s))`);
+  return imageIds.length;
+}
+
+/**
+ * Delete an empty bucket left behind by its stack. Returns false if the
+ * bucket no longer exists (stacks deployed before buckets were retained
+ * delete them along with the stack).
+ */
+export async function deleteBucket(
+  bucketName: string,
+  region: string,
+  credentials?: AwsCredentialIdentity
+): Promise<boolean> {
+  const client = new S3Client({ region, credentials });
+
+  try {
+    await client.send(new DeleteBucketCommand({ Bucket: bucketName }));
+  } catch (error) {
+    if (error instanceof Error && error.name === 'NoSuchBucket') {
+      return false;
+    }
+    throw error;
+  }
+
+  logger.verbose(`Deleted bucket ${bucketName}`);
+  return true;
+}
+
+/**
+ * Delete an empty ECR repository left behind by its stack. Returns false if
+ * the repository no longer exists.
+ */
+export async function deleteEcrRepository(
+  repositoryName: string,
+  region: string,
+  credentials?: AwsCredentialIdentity
+): Promise<boolean> {
+  const client = new ECRClient({ region, credentials });
+
+  try {
+    await client.send(new DeleteRepositoryCommand({ repositoryName }));
+  } catch (error) {
+    if (error instanceof Error && error.name === 'RepositoryNotFoundException') {
+      return false;
+    }
+    throw error;
+  }
+
+  logger.verbose(`Deleted ECR repository ${repositoryName}`);
+  return true;
+}
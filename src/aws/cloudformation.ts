@@ -6,6 +6,7 @@ import {
   CloudFormationClient,
   DescribeStacksCommand,
   DescribeStackResourcesCommand,
+  DescribeStackResourceCommand,
   DescribeStackEventsCommand,
   CreateStackCommand,
   UpdateStackCommand,
@@ -13,18 +14,34 @@ import {
   CreateChangeSetCommand,
   DescribeChangeSetCommand,
   DeleteChangeSetCommand,
+  ExecuteChangeSetCommand,
+  ListChangeSetsCommand,
+  ContinueUpdateRollbackCommand,
+  SetStackPolicyCommand,
+  UpdateTerminationProtectionCommand,
   waitUntilChangeSetCreateComplete,
   waitUntilStackDeleteComplete,
   ChangeSetType,
+  paginateDescribeStacks,
   type DescribeStacksOutput,
   type Change,
+  type ChangeSetSummary,
+  type Tag,
 } from '@aws-sdk/client-cloudformation';
 import type { AwsCredentialIdentity } from '@aws-sdk/types';
+import { CHANGE_SET_PREFIX } from '../naming/index.js';
 import { CloudFormationError } from '../utils/errors.js';
+import { withThrottleRetry } from '../utils/retry.js';
 import * as logger from '../utils/logger.js';
 import { getMultiStackProgress } from '../utils/logger.js';
-import type { StackStatus, CloudFormationTemplate } from '../types/aws.js';
-import type { CloudFormationStackResources } from '../merge/strategy.js';
+import type { StackStatus, CloudFormationTemplate, StackProtection } from '../types/aws.js';
+import type { CloudFormationStackResources, StackResourceSummary } from '../merge/strategy.js';
+
+/**
+ * Stack tag holding the sha256 of the template a stack was last deployed
+ * with, so planning can tell unchanged stacks apart without a change set
+ */
+export const TEMPLATE_HASH_TAG = 'DevRampsTemplateHash';
 
 export interface DeployStackOptions {
   stackName: string;
@@ -32,6 +49,70 @@ export interface DeployStackOptions {
   accountId: string;
   region?: string;
   credentials?: AwsCredentialIdentity;
+  /** Recorded in the TEMPLATE_HASH_TAG stack tag */
+  templateHash?: string;
+  /** Stack policy and termination protection, applied before updates */
+  protection?: StackProtection;
+}
+
+export interface DeleteStackOptions {
+  stackName: string;
+  accountId: string;
+  region: string;
+  credentials?: AwsCredentialIdentity;
+}
+
+/**
+ * Summary of a deployed DevRamps stack, as returned by listDevRampsStacks
+ */
+export interface DeployedStackSummary {
+  stackName: string;
+  stackId?: string;
+  status?: string;
+  outputs: Record<string, string>;
+}
+
+/**
+ * A single resource-level change from a change set
+ */
+export interface ResourceChangeSummary {
+  action: 'Add' | 'Modify' | 'Remove' | 'Import' | 'Dynamic' | string;
+  logicalId: string;
+  resourceType: string;
+  physicalId?: string;
+  /** 'True', 'False' or 'Conditional' for modifications */
+  replacement?: string;
+}
+
+/**
+ * All changes a template would make to a stack
+ */
+export interface StackChangeSet {
+  stackName: string;
+  accountId: string;
+  region?: string;
+  /** True when the stack does not exist yet */
+  isNew: boolean;
+  changes: ResourceChangeSummary[];
+}
+
+/**
+ * State of one resource in a deployed stack
+ */
+export interface StackResourceState {
+  logicalId: string;
+  resourceType: string;
+  physicalId?: string;
+  status: string;
+  reason?: string;
+}
+
+/**
+ * A change set kept for review, which can later be executed or discarded
+ */
+export interface NamedChangeSet extends StackChangeSet {
+  changeSetName: string;
+  stackId: string;
 }
 
 export async function getStackStatus(
@@ -45,9 +126,9 @@ export async function getStackStatus(
   });
 
   try {
-    const response: DescribeStacksOutput = await client.send(
+    const response: DescribeStacksOutput = await withThrottleRetry(() => client.send(
       new DescribeStacksCommand({ StackName: stackName })
-    );
+    ));
 
     const stack = response.Stacks?.[0];
 
@@ -59,6 +140,8 @@ export async function getStackStatus(
       exists: true,
       status: stack.StackStatus,
       stackId: stack.StackId,
+      lastUpdatedTime: (stack.LastUpdatedTime ?? stack.CreationTime)?.toISOString(),
+      tags: Object.fromEntries((stack.Tags ?? []).map(t => [t.Key ?? '', t.Value ?? ''])),
     };
   } catch (error) {
     const errorMessage = error instanceof Error ? error.message : String(error);
@@ -96,7 +179,7 @@ export async function previewStackChanges(options: DeployStackOptions): Promise<
 
   try {
     // Create a change set to preview changes (only for existing stacks)
-    await client.send(
+    await withThrottleRetry(() => client.send(
       new CreateChangeSetCommand({
         StackName: stackName,
         ChangeSetName: changeSetName,
@@ -104,7 +187,7 @@ export async function previewStackChanges(options: DeployStackOptions): Promise<
         Capabilities: ['CAPABILITY_NAMED_IAM'],
         ChangeSetType: ChangeSetType.UPDATE,
       })
-    );
+    ));
 
     // Wait for change set to be created
     await waitUntilChangeSetCreateComplete(
@@ -113,23 +196,23 @@ export async function previewStackChanges(options: DeployStackOptions): Promise<
     );
 
     // Describe the change set to get the changes
-    const changeSetResponse = await client.send(
+    const changeSetResponse = await withThrottleRetry(() => client.send(
       new DescribeChangeSetCommand({
         StackName: stackName,
         ChangeSetName: changeSetName,
       })
-    );
+    ));
 
     // Log the changes
     logStackChanges(stackName, changeSetResponse.Changes || [], stackStatus.exists, options.accountId, region);
 
     // Delete the change set (we just wanted to preview)
-    await client.send(
+    await withThrottleRetry(() => client.send(
       new DeleteChangeSetCommand({
         StackName: stackName,
         ChangeSetName: changeSetName,
       })
-    );
+    ));
   } catch (error) {
     const errorMessage = error instanceof Error ? error.message : String(error);
 
@@ -142,12 +225,12 @@ export async function previewStackChanges(options: DeployStackOptions): Promise<
 
     // Try to clean up the change set if it exists
     try {
-      await client.send(
+      await withThrottleRetry(() => client.send(
         new DeleteChangeSetCommand({
           StackName: stackName,
           ChangeSetName: changeSetName,
         })
-      );
+      ));
     } catch {
       // Ignore cleanup errors
     }
@@ -157,6 +240,319 @@ export async function previewStackChanges(options: DeployStackOptions): Promise<
   }
 }
 
+/**
+ * Compute every resource change a template would make, for new stacks as
+ * well as existing ones. The change set is always deleted afterwards; for
+ * a new stack, the REVIEW_IN_PROGRESS stack that CloudFormation creates to
+ * hold the change set is deleted too, so a later deployment can create it.
+ * A REVIEW_IN_PROGRESS stack that already existed holds change sets pending
+ * review and is kept.
+ */
+export async function describeStackChanges(options: DeployStackOptions): Promise<StackChangeSet> {
+  const { stackName, template, accountId, region, credentials } = options;
+
+  const client = new CloudFormationClient({
+    credentials,
+    region,
+  });
+
+  const stackStatus = await getStackStatus(stackName, credentials, region);
+  const isNew = !stackStatus.exists || stackStatus.status === 'REVIEW_IN_PROGRESS';
+  const changeSetName = `devramps-diff-${Date.now()}`;
+  const result: StackChangeSet = { stackName, accountId, region, isNew, changes: [] };
+
+  let stackId = stackStatus.stackId ?? stackName;
+
+  try {
+    const created = await withThrottleRetry(() => client.send(
+      new CreateChangeSetCommand({
+        StackName: stackName,
+        ChangeSetName: changeSetName,
+        TemplateBody: JSON.stringify(template),
+        Capabilities: ['CAPABILITY_NAMED_IAM'],
+        ChangeSetType: isNew ? ChangeSetType.CREATE : ChangeSetType.UPDATE,
+      })
+    ));
+    stackId = created.StackId ?? stackId;
+
+    try {
+      await waitUntilChangeSetCreateComplete(
+        { client, maxWaitTime: 300 },
+        { StackName: stackId, ChangeSetName: changeSetName }
+      );
+    } catch (error) {
+      // A change set with no changes ends up FAILED; anything else is a real error
+      const described = await withThrottleRetry(() => client.send(
+        new DescribeChangeSetCommand({ StackName: stackId, ChangeSetName: changeSetName })
+      ));
+      const reason = described.StatusReason ?? '';
+      if (!reason.includes("didn't contain changes") && !reason.includes('No updates are to be performed')) {
+        throw new Error(reason || (error instanceof Error ? error.message : String(error)));
+      }
+      return result;
+    }
+
+    result.changes = await listChangeSetChanges(client, stackId, changeSetName);
+    return result;
+  } finally {
+    try {
+      await withThrottleRetry(() => client.send(
+        new DeleteChangeSetCommand({ StackName: stackId, ChangeSetName: changeSetName })
+      ));
+    } catch {
+      // Ignore cleanup errors (e.g. the change set was never created)
+    }
+
+    if (!stackStatus.exists && stackId !== stackName) {
+      try {
+        await withThrottleRetry(() => client.send(new DeleteStackCommand({ StackName: stackId })));
+        await waitUntilStackDeleteComplete({ client, maxWaitTime: 300 }, { StackName: stackId });
+      } catch (error) {
+        logger.warn(
+          `Could not remove placeholder stack ${stackName} in account ${accountId}: ` +
+          `${error instanceof Error ? error.message : String(error)}`
+        );
+      }
+    }
+  }
+}
+
+/**
+ * Create a named change set for review, without executing it. A change set
+ * that would change nothing is deleted again and returned without changes.
+ * For a new stack, CloudFormation holds the change set in a stack with
+ * status REVIEW_IN_PROGRESS until it is executed or discarded.
+ */
+export async function createNamedChangeSet(options: DeployStackOptions, changeSetName: string): Promise<NamedChangeSet> {
+  const { stackName, template, accountId, region = 'us-east-1', credentials, templateHash } = options;
+
+  const client = new CloudFormationClient({
+    credentials,
+    region,
+  });
+
+  try {
+    const stackStatus = await getStackStatus(stackName, credentials, region);
+    const blocked = stackStatus.status === 'REVIEW_IN_PROGRESS' ? undefined : getBlockedStatusReason(stackStatus.status);
+    if (blocked) {
+      throw new Error(blocked);
+    }
+    // A stack left in review by an earlier change set is still created by this one
+    const isNew = !stackStatus.exists || stackStatus.status === 'REVIEW_IN_PROGRESS';
+
+    const created = await withThrottleRetry(() => client.send(
+      new CreateChangeSetCommand({
+        StackName: stackName,
+        ChangeSetName: changeSetName,
+        TemplateBody: JSON.stringify(template),
+        Capabilities: ['CAPABILITY_NAMED_IAM'],
+        ChangeSetType: isNew ? ChangeSetType.CREATE : ChangeSetType.UPDATE,
+        Tags: getStackTags(templateHash),
+      })
+    ));
+    const stackId = created.StackId ?? stackStatus.stackId ?? stackName;
+    const changeSet: NamedChangeSet = { stackName, accountId, region, isNew, changes: [], changeSetName, stackId };
+
+    try {
+      await waitUntilChangeSetCreateComplete(
+        { client, maxWaitTime: 300 },
+        { StackName: stackId, ChangeSetName: changeSetName }
+      );
+    } catch (error) {
+      const described = await withThrottleRetry(() => client.send(
+        new DescribeChangeSetCommand({ StackName: stackId, ChangeSetName: changeSetName })
+      ));
+      const reason = described.StatusReason ?? '';
+      if (!reason.includes("didn't contain changes") && !reason.includes('No updates are to be performed')) {
+        throw new Error(reason || (error instanceof Error ? error.message : String(error)));
+      }
+      await withThrottleRetry(() => client.send(
+        new DeleteChangeSetCommand({ StackName: stackId, ChangeSetName: changeSetName })
+      ));
+      return changeSet;
+    }
+
+    changeSet.changes = await listChangeSetChanges(client, stackId, changeSetName);
+    return changeSet;
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : String(error);
+    throw new CloudFormationError(stackName, accountId, errorMessage, 'create a change set for');
+  }
+}
+
+/**
+ * Find the newest change set on a stack that was created for review and can
+ * still be executed, optionally with a specific name
+ */
+export async function findPendingChangeSet(
+  stackName: string,
+  accountId: string,
+  credentials: AwsCredentialIdentity | undefined,
+  region: string,
+  changeSetName?: string
+): Promise<NamedChangeSet | undefined> {
+  const client = new CloudFormationClient({
+    credentials,
+    region,
+  });
+
+  const stackStatus = await getStackStatus(stackName, credentials, region);
+  if (!stackStatus.exists || !stackStatus.stackId) {
+    return undefined;
+  }
+  const stackId = stackStatus.stackId;
+
+  const pending: ChangeSetSummary[] = [];
+  let nextToken: string | undefined;
+  do {
+    const response = await withThrottleRetry(() => client.send(
+      new ListChangeSetsCommand({ StackName: stackId, NextToken: nextToken })
+    ));
+    for (const summary of response.Summaries ?? []) {
+      const name = summary.ChangeSetName ?? '';
+      if (!name.startsWith(CHANGE_SET_PREFIX)) continue;
+      if (changeSetName && name !== changeSetName) continue;
+      if (summary.ExecutionStatus !== 'AVAILABLE') continue;
+      pending.push(summary);
+    }
+    nextToken = response.NextToken;
+  } while (nextToken);
+
+  const newest = pending.sort((a, b) => (b.CreationTime?.getTime() ?? 0) - (a.CreationTime?.getTime() ?? 0))[0];
+  if (!newest?.ChangeSetName) {
+    return undefined;
+  }
+
+  return {
+    stackName,
+    accountId,
+    region,
+    isNew: stackStatus.status === 'REVIEW_IN_PROGRESS',
+    changes: await listChangeSetChanges(client, stackId, newest.ChangeSetName),
+    changeSetName: newest.ChangeSetName,
+    stackId,
+  };
+}
+
+/**
+ * Execute a reviewed change set, updating multi-stack progress until the
+ * stack operation completes. An existing stack is protected just before
+ * the change set is executed, since the stack policy in place then is the
+ * one checked; a stack created by the change set is protected once it
+ * exists. Creating or discarding a change set leaves the stack unchanged.
+ */
+export async function executeNamedChangeSet(
+  changeSet: NamedChangeSet,
+  credentials: AwsCredentialIdentity | undefined,
+  protection?: StackProtection
+): Promise<void> {
+  const { stackName, accountId, region = 'us-east-1', changeSetName, stackId } = changeSet;
+
+  const client = new CloudFormationClient({
+    credentials,
+    region,
+  });
+
+  const progress = getMultiStackProgress();
+  progress.startStack(stackName, accountId, region);
+
+  try {
+    if (!changeSet.isNew && protection) {
+      await protectStack(client, stackId, protection);
+    }
+
+    const operationStartTime = new Date();
+
+    await withThrottleRetry(() => client.send(
+      new ExecuteChangeSetCommand({ StackName: stackId, ChangeSetName: changeSetName })
+    ));
+
+    await waitForStackWithProgress(
+      client,
+      stackName,
+      accountId,
+      region,
+      operationStartTime,
+      changeSet.changes.length,
+      600,
+      SUCCESS_STATES,
+      stackId
+    );
+
+    if (changeSet.isNew && protection) {
+      await protectStack(client, stackId, protection);
+    }
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : String(error);
+    progress.completeStack(stackName, accountId, region, false);
+    throw new CloudFormationError(stackName, accountId, errorMessage, 'execute the change set of');
+  }
+}
+
+/**
+ * Delete a change set that will not be executed, and the REVIEW_IN_PROGRESS
+ * stack holding it if the stack was never created
+ */
+export async function discardNamedChangeSet(
+  changeSet: NamedChangeSet,
+  credentials: AwsCredentialIdentity | undefined
+): Promise<void> {
+  const { changeSetName, stackId, region } = changeSet;
+
+  const client = new CloudFormationClient({
+    credentials,
+    region,
+  });
+
+  await withThrottleRetry(() => client.send(
+    new DeleteChangeSetCommand({ StackName: stackId, ChangeSetName: changeSetName })
+  ));
+
+  if (changeSet.isNew) {
+    await withThrottleRetry(() => client.send(new DeleteStackCommand({ StackName: stackId })));
+    await waitUntilStackDeleteComplete({ client, maxWaitTime: 300 }, { StackName: stackId });
+  }
+}
+
+/**
+ * Read every resource change in a created change set
+ */
+async function listChangeSetChanges(
+  client: CloudFormationClient,
+  stackId: string,
+  changeSetName: string
+): Promise<ResourceChangeSummary[]> {
+  const changes: ResourceChangeSummary[] = [];
+
+  let nextToken: string | undefined;
+  do {
+    const response = await withThrottleRetry(() => client.send(
+      new DescribeChangeSetCommand({
+        StackName: stackId,
+        ChangeSetName: changeSetName,
+        NextToken: nextToken,
+      })
+    ));
+
+    for (const change of response.Changes ?? []) {
+      const resourceChange = change.ResourceChange;
+      if (!resourceChange) continue;
+
+      changes.push({
+        action: resourceChange.Action ?? 'Unknown',
+        logicalId: resourceChange.LogicalResourceId ?? 'Unknown',
+        resourceType: resourceChange.ResourceType ?? 'Unknown',
+        physicalId: resourceChange.PhysicalResourceId,
+        replacement: resourceChange.Replacement,
+      });
+    }
+
+    nextToken = response.NextToken;
+  } while (nextToken);
+
+  return changes;
+}
+
 /**
  * Log the changes from a change set in a readable format
  */
@@ -185,7 +581,7 @@ function logStackChanges(stackName: string, changes: Change[], isUpdate: boolean
 /**
  * Get a symbol for the change action
  */
-function getActionSymbol(action: string | undefined): string {
+export function getActionSymbol(action: string | undefined): string {
   switch (action) {
     case 'Add':
       return '+';
@@ -223,6 +619,10 @@ const SUCCESS_STATES = new Set([
   'UPDATE_COMPLETE',
 ]);
 
+const DELETE_SUCCESS_STATES = new Set([
+  'DELETE_COMPLETE',
+]);
+
 /**
  * Check if a resource status indicates completion (not rollback)
  */
@@ -241,7 +641,9 @@ async function waitForStackWithProgress(
   region: string,
   operationStartTime: Date,
   _totalResources: number,
-  maxWaitTime: number = 600
+  maxWaitTime: number = 600,
+  successStates: Set<string> = SUCCESS_STATES,
+  stackId: string = stackName
 ): Promise<void> {
   const seenEventIds = new Set<string>();
   const completedResources = new Set<string>();
@@ -261,10 +663,10 @@ async function waitForStackWithProgress(
         throw new Error(`Stack operation timed out after ${maxWaitTime} seconds`);
       }
 
-      // Get current stack status
-      const stackResponse = await client.send(
-        new DescribeStacksCommand({ StackName: stackName })
-      );
+      // Get current stack status (by ID when known, so deleted stacks stay visible)
+      const stackResponse = await withThrottleRetry(() => client.send(
+        new DescribeStacksCommand({ StackName: stackId })
+      ));
       const stack = stackResponse.Stacks?.[0];
       if (!stack) {
         throw new Error(`Stack ${stackName} not found`);
@@ -274,9 +676,9 @@ async function waitForStackWithProgress(
       logger.verbose(`[${stackName}] Current status: ${currentStatus}`);
 
       // Get stack events
-      const eventsResponse = await client.send(
-        new DescribeStackEventsCommand({ StackName: stackName })
-      );
+      const eventsResponse = await withThrottleRetry(() => client.send(
+        new DescribeStackEventsCommand({ StackName: stackId })
+      ));
 
       // Filter and display new events (in chronological order)
       const newEvents = (eventsResponse.StackEvents || [])
@@ -329,7 +731,7 @@ async function waitForStackWithProgress(
 
       // Check if we've reached a terminal state
       if (TERMINAL_STATES.has(currentStatus)) {
-        const success = SUCCESS_STATES.has(currentStatus);
+        const success = successStates.has(currentStatus);
         // Use actual failure reason if available, otherwise use the CFN status
         const failureReason = success ? undefined : (latestFailureReason || currentStatus);
         progress.completeStack(stackName, accountId, region, success, failureReason);
@@ -355,7 +757,7 @@ async function waitForStackWithProgress(
 }
 
 export async function deployStack(options: DeployStackOptions): Promise<void> {
-  const { stackName, template, accountId, region = 'us-east-1', credentials } = options;
+  const { stackName, template, accountId, region = 'us-east-1', credentials, templateHash, protection } = options;
 
   const client = new CloudFormationClient({
     credentials,
@@ -364,26 +766,37 @@ export async function deployStack(options: DeployStackOptions): Promise<void> {
 
   const templateBody = JSON.stringify(template);
   const resourceCount = Object.keys(template.Resources || {}).length;
+  const tags = getStackTags(templateHash);
 
   // Mark stack as started in progress display
   const progress = getMultiStackProgress();
   progress.startStack(stackName, accountId, region);
 
   try {
-    const stackStatus = await getStackStatus(stackName, credentials, region);
+    let stackStatus = await getStackStatus(stackName, credentials, region);
 
-    // Handle ROLLBACK_COMPLETE - must delete before recreating
-    if (stackStatus.exists && stackStatus.status === 'ROLLBACK_COMPLETE') {
-      logger.verbose(`Stack ${stackName} is in ROLLBACK_COMPLETE state, deleting before recreating...`);
-      await deleteStack(client, stackName);
-      logger.verbose(`Stack ${stackName} deleted, now creating...`);
-      await createStack(client, stackName, accountId, region, templateBody, resourceCount);
-    } else if (stackStatus.exists) {
+    // Another operation may have started since planning
+    if (isOperationInProgress(stackStatus.status)) {
+      logger.verbose(`Stack ${stackName} is ${stackStatus.status}, waiting for it to finish...`);
+      stackStatus = await waitForStackToSettle(stackName, credentials, region);
+    }
+
+    // Deleting or rolling back a stack can lose data, so it is never done here
+    const blocked = getBlockedStatusReason(stackStatus.status);
+    if (blocked) {
+      throw new Error(blocked);
+    }
+
+    if (stackStatus.exists) {
       logger.verbose(`Stack ${stackName} exists, updating...`);
-      await updateStack(client, stackName, accountId, region, templateBody, resourceCount);
+      // Protect the stack first, so the stack policy also guards this update
+      if (protection) {
+        await protectStack(client, stackName, protection);
+      }
+      await updateStack(client, stackName, accountId, region, templateBody, resourceCount, tags);
     } else {
       logger.verbose(`Stack ${stackName} does not exist, creating...`);
-      await createStack(client, stackName, accountId, region, templateBody, resourceCount);
+      await createStack(client, stackName, accountId, region, templateBody, resourceCount, tags, protection);
     }
   } catch (error) {
     const errorMessage = error instanceof Error ? error.message : String(error);
@@ -400,6 +813,265 @@ export async function deployStack(options: DeployStackOptions): Promise<void> {
   }
 }
 
+/**
+ * Delete a stack, updating multi-stack progress until the deletion completes.
+ * Succeeds without doing anything if the stack does not exist.
+ */
+export async function destroyStack(options: DeleteStackOptions): Promise<void> {
+  const { stackName, accountId, region, credentials } = options;
+
+  const client = new CloudFormationClient({
+    credentials,
+    region,
+  });
+
+  const progress = getMultiStackProgress();
+  progress.startStack(stackName, accountId, region);
+
+  try {
+    const stackStatus = await getStackStatus(stackName, credentials, region);
+
+    if (!stackStatus.exists) {
+      logger.verbose(`Stack ${stackName} does not exist, nothing to delete`);
+      progress.completeStack(stackName, accountId, region, true);
+      return;
+    }
+
+    const operationStartTime = new Date();
+
+    await disableTerminationProtection(client, stackName);
+    await withThrottleRetry(() => client.send(
+      new DeleteStackCommand({
+        StackName: stackName,
+      })
+    ));
+
+    await waitForStackWithProgress(
+      client,
+      stackName,
+      accountId,
+      region,
+      operationStartTime,
+      0,
+      600,
+      DELETE_SUCCESS_STATES,
+      stackStatus.stackId
+    );
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : String(error);
+    progress.completeStack(stackName, accountId, region, false);
+    throw new CloudFormationError(stackName, accountId, errorMessage, 'delete');
+  }
+}
+
+/**
+ * List all live DevRamps stacks in an account/region, with their outputs.
+ * Stacks that have been deleted are not included.
+ */
+export async function listDevRampsStacks(
+  credentials: AwsCredentialIdentity | undefined,
+  region: string
+): Promise<DeployedStackSummary[]> {
+  const client = new CloudFormationClient({
+    credentials,
+    region,
+  });
+
+  const stacks: DeployedStackSummary[] = [];
+
+  for await (const page of paginateDescribeStacks({ client }, {})) {
+    for (const stack of page.Stacks || []) {
+      if (!stack.StackName?.startsWith('DevRamps-')) continue;
+      if (stack.StackStatus === 'DELETE_COMPLETE') continue;
+
+      const outputs: Record<string, string> = {};
+      for (const output of stack.Outputs || []) {
+        if (output.OutputKey && output.OutputValue) {
+          outputs[output.OutputKey] = output.OutputValue;
+        }
+      }
+
+      stacks.push({
+        stackName: stack.StackName,
+        stackId: stack.StackId,
+        status: stack.StackStatus,
+        outputs,
+      });
+    }
+  }
+
+  return stacks;
+}
+
+/**
+ * Get the physical ID of a single resource in a stack, or undefined if the
+ * stack or resource does not exist
+ */
+export async function getStackResourcePhysicalId(
+  stackName: string,
+  logicalResourceId: string,
+  credentials: AwsCredentialIdentity | undefined,
+  region: string
+): Promise<string | undefined> {
+  const client = new CloudFormationClient({
+    credentials,
+    region,
+  });
+
+  try {
+    const response = await withThrottleRetry(() => client.send(
+      new DescribeStackResourceCommand({
+        StackName: stackName,
+        LogicalResourceId: logicalResourceId,
+      })
+    ));
+    return response.StackResourceDetail?.PhysicalResourceId;
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : String(error);
+
+    if (errorMessage.includes('does not exist')) {
+      return undefined;
+    }
+
+    throw error;
+  }
+}
+
+/**
+ * Tags for a deployed stack
+ */
+function getStackTags(templateHash?: string): Tag[] {
+  return [
+    { Key: 'CreatedBy', Value: 'DevRamps' },
+    { Key: 'ManagedBy', Value: 'DevRamps-CLI' },
+    ...(templateHash ? [{ Key: TEMPLATE_HASH_TAG, Value: templateHash }] : []),
+  ];
+}
+
+/**
+ * Credentials for a long wait: fixed ones, or a function returning current
+ * ones for every call, so that a wait can outlast an assumed-role session
+ */
+export type WaitCredentials = AwsCredentialIdentity | undefined | (() => Promise<AwsCredentialIdentity | undefined>);
+
+/**
+ * Wait until no operation is in progress on a stack, polling its status.
+ * Returns the settled status, or the in-progress one if the timeout passes.
+ */
+export async function waitForStackToSettle(
+  stackName: string,
+  credentials: WaitCredentials,
+  region: string,
+  timeoutSeconds: number = 600,
+  pollIntervalMs: number = 5000
+): Promise<StackStatus> {
+  const deadline = Date.now() + timeoutSeconds * 1000;
+  const current = async () => typeof credentials === 'function' ? credentials() : credentials;
+
+  let status = await getStackStatus(stackName, await current(), region);
+  while (isOperationInProgress(status.status) && Date.now() < deadline) {
+    await new Promise(resolve => setTimeout(resolve, pollIntervalMs));
+    status = await getStackStatus(stackName, await current(), region);
+  }
+  return status;
+}
+
+/**
+ * List every resource of a stack with its status and the reason for it
+ */
+export async function describeStackResourceStates(
+  stackName: string,
+  credentials: AwsCredentialIdentity | undefined,
+  region: string
+): Promise<StackResourceState[]> {
+  const client = new CloudFormationClient({
+    credentials,
+    region,
+  });
+
+  const response = await withThrottleRetry(() => client.send(
+    new DescribeStackResourcesCommand({ StackName: stackName })
+  ));
+
+  return (response.StackResources ?? []).map(resource => ({
+    logicalId: resource.LogicalResourceId ?? 'Unknown',
+    resourceType: resource.ResourceType ?? 'Unknown',
+    physicalId: resource.PhysicalResourceId,
+    status: resource.ResourceStatus ?? 'Unknown',
+    reason: resource.ResourceStatusReason,
+  }));
+}
+
+/**
+ * Continue rolling back a stack in UPDATE_ROLLBACK_FAILED, skipping the
+ * given resources (which are then marked rolled back without being
+ * changed), and wait for the rollback to finish. Returns the final status.
+ */
+export async function continueUpdateRollback(
+  stackName: string,
+  credentials: WaitCredentials,
+  region: string,
+  resourcesToSkip: string[],
+  timeoutSeconds?: number
+): Promise<StackStatus> {
+  const client = new CloudFormationClient({
+    credentials: typeof credentials === 'function' ? await credentials() : credentials,
+    region,
+  });
+
+  await withThrottleRetry(() => client.send(
+    new ContinueUpdateRollbackCommand({
+      StackName: stackName,
+      ResourcesToSkip: resourcesToSkip.length > 0 ? resourcesToSkip : undefined,
+    })
+  ));
+
+  return waitForStackToSettle(stackName, credentials, region, timeoutSeconds);
+}
+
+/**
+ * Delete a stack that can't be deployed over (e.g. ROLLBACK_COMPLETE) and
+ * wait for the deletion to finish
+ */
+export async function deleteStackAndWait(
+  stackName: string,
+  credentials: AwsCredentialIdentity | undefined,
+  region: string
+): Promise<void> {
+  const client = new CloudFormationClient({
+    credentials,
+    region,
+  });
+
+  await deleteStack(client, stackName);
+}
+
+/**
+ * Whether a stack status means an operation is still running. A stack in
+ * REVIEW_IN_PROGRESS only holds a change set, so nothing will finish.
+ */
+function isOperationInProgress(status: string | undefined): boolean {
+  return !!status && status.endsWith('_IN_PROGRESS') && status !== 'REVIEW_IN_PROGRESS';
+}
+
+/**
+ * Why a stack can't be deployed over in its current status, if it can't
+ */
+function getBlockedStatusReason(status: string | undefined): string | undefined {
+  switch (status) {
+    case 'ROLLBACK_COMPLETE':
+    case 'ROLLBACK_FAILED':
+      return `Stack is ${status} and must be deleted before it can be created again; run bootstrap again to review deleting it`;
+    case 'UPDATE_ROLLBACK_FAILED':
+      return 'Stack is UPDATE_ROLLBACK_FAILED; run bootstrap again to continue the rollback';
+    case 'DELETE_FAILED':
+      return 'Stack is DELETE_FAILED; finish deleting it before deploying it again';
+    case 'REVIEW_IN_PROGRESS':
+      return 'Stack holds a change set that has not been executed; run apply-change-sets to execute or discard it';
+  }
+  return isOperationInProgress(status) ? `Stack is still ${status}` : undefined;
+}
+
 /**
  * Delete a stack and wait for completion
  */
@@ -407,11 +1079,12 @@ async function deleteStack(
   client: CloudFormationClient,
   stackName: string
 ): Promise<void> {
-  await client.send(
+  await disableTerminationProtection(client, stackName);
+  await withThrottleRetry(() => client.send(
     new DeleteStackCommand({
       StackName: stackName,
     })
-  );
+  ));
 
   // Wait for delete to complete
   await waitUntilStackDeleteComplete(
@@ -420,27 +1093,63 @@ async function deleteStack(
   );
 }
 
+/**
+ * Apply a stack policy and termination protection to an existing stack
+ */
+async function protectStack(
+  client: CloudFormationClient,
+  stackName: string,
+  protection: StackProtection
+): Promise<void> {
+  await withThrottleRetry(() => client.send(
+    new SetStackPolicyCommand({
+      StackName: stackName,
+      StackPolicyBody: JSON.stringify(protection.stackPolicy),
+    })
+  ));
+  await withThrottleRetry(() => client.send(
+    new UpdateTerminationProtectionCommand({
+      StackName: stackName,
+      EnableTerminationProtection: protection.terminationProtection,
+    })
+  ));
+}
+
+/**
+ * Turn off termination protection, which blocks deleting a stack even when
+ * the deletion was confirmed
+ */
+async function disableTerminationProtection(client: CloudFormationClient, stackName: string): Promise<void> {
+  await withThrottleRetry(() => client.send(
+    new UpdateTerminationProtectionCommand({
+      StackName: stackName,
+      EnableTerminationProtection: false,
+    })
+  ));
+}
+
 async function createStack(
   client: CloudFormationClient,
   stackName: string,
   accountId: string,
   region: string,
   templateBody: string,
-  resourceCount: number
+  resourceCount: number,
+  tags: Tag[],
+  protection?: StackProtection
 ): Promise<void> {
   const operationStartTime = new Date();
 
-  await client.send(
+  await withThrottleRetry(() => client.send(
     new CreateStackCommand({
       StackName: stackName,
       TemplateBody: templateBody,
       Capabilities: ['CAPABILITY_NAMED_IAM'],
-      Tags: [
-        { Key: 'CreatedBy', Value: 'DevRamps' },
-        { Key: 'ManagedBy', Value: 'DevRamps-CLI' },
-      ],
+      Tags: tags,
+      StackPolicyBody: protection ? JSON.stringify(protection.stackPolicy) : undefined,
+      EnableTerminationProtection: protection?.terminationProtection,
     })
-  );
+  ));
 
   await waitForStackWithProgress(client, stackName, accountId, region, operationStartTime, resourceCount);
 }
@@ -451,17 +1160,21 @@ async function updateStack(
   accountId: string,
   region: string,
   templateBody: string,
-  resourceCount: number
+  resourceCount: number,
+  tags: Tag[]
 ): Promise<void> {
   const operationStartTime = new Date();
 
-  await client.send(
+  // Tags given to UpdateStack replace the stack's tags, so the standard
+  // ones are always sent along with the new template hash
+  await withThrottleRetry(() => client.send(
     new UpdateStackCommand({
       StackName: stackName,
       TemplateBody: templateBody,
       Capabilities: ['CAPABILITY_NAMED_IAM'],
+      Tags: tags,
     })
-  );
+  ));
 
   await waitForStackWithProgress(client, stackName, accountId, region, operationStartTime, resourceCount);
 }
@@ -482,9 +1195,9 @@ export async function readExistingStack(
 
   try {
     // Get stack details including outputs
-    const stacksResponse = await client.send(
+    const stacksResponse = await withThrottleRetry(() => client.send(
       new DescribeStacksCommand({ StackName: stackName })
-    );
+    ));
 
     const stack = stacksResponse.Stacks?.[0];
     if (!stack) {
@@ -492,9 +1205,9 @@ export async function readExistingStack(
     }
 
     // Get stack resources
-    const resourcesResponse = await client.send(
+    const resourcesResponse = await withThrottleRetry(() => client.send(
       new DescribeStackResourcesCommand({ StackName: stackName })
-    );
+    ));
 
     // Convert outputs to a simple key-value map
     const outputs: Record<string, string> = {};
@@ -507,7 +1220,7 @@ export async function readExistingStack(
     }
 
     // Convert resources to a simple map
-    const resources: Record<string, unknown> = {};
+    const resources: Record<string, StackResourceSummary> = {};
     if (resourcesResponse.StackResources) {
       for (const resource of resourcesResponse.StackResources) {
         if (resource.LogicalResourceId) {
@@ -0,0 +1,109 @@
+/**
+ * Per-run cache of assumed-role credentials
+ *
+ * Every command that works across accounts assumes one role per account and
+ * reuses the session for the whole run, instead of calling STS for each
+ * stack. Sessions are renewed shortly before they expire, so that stacks
+ * deployed late in a long run don't start with stale credentials.
+ */
+
+import { assumeRoleForAccount } from './assume-role.js';
+import { AccountAccessError, RoleAssumptionError } from '../utils/errors.js';
+import { mapWithConcurrency } from '../utils/concurrency.js';
+import * as logger from '../utils/logger.js';
+import type { AwsCredentialIdentity } from '@aws-sdk/types';
+
+/**
+ * Resolves the credentials to use in an account (undefined means the
+ * current credentials)
+ */
+export type CredentialResolver = (accountId: string) => Promise<AwsCredentialIdentity | undefined>;
+
+/** Concurrent AssumeRole calls when prefetching */
+const PREFETCH_CONCURRENCY = 8;
+
+/** Renew sessions this long before they expire */
+const REFRESH_MARGIN_MS = 10 * 60 * 1000;
+
+interface CacheEntry {
+  credentials: Promise<AwsCredentialIdentity | undefined>;
+  expiration?: Date;
+}
+
+export class CredentialCache {
+  private entries: Map<string, CacheEntry> = new Map();
+  private currentAccountId: string;
+  private targetRoleName: string | undefined;
+
+  constructor(currentAccountId: string, targetRoleName?: string) {
+    this.currentAccountId = currentAccountId;
+    this.targetRoleName = targetRoleName;
+  }
+
+  /**
+   * Credentials for an account, assuming its role on first use or when the
+   * cached session is about to expire
+   */
+  get(accountId: string): Promise<AwsCredentialIdentity | undefined> {
+    const key = `${accountId}:${this.targetRoleName ?? ''}`;
+    const cached = this.entries.get(key);
+    if (cached && !isExpiring(cached.expiration)) {
+      return cached.credentials;
+    }
+    if (cached) {
+      logger.verbose(`Session for account ${accountId} expires at ${cached.expiration!.toISOString()}, renewing`);
+    }
+
+    const entry: CacheEntry = {
+      credentials: assumeRoleForAccount({
+        targetAccountId: accountId,
+        currentAccountId: this.currentAccountId,
+        targetRoleName: this.targetRoleName,
+      }).then(assumed => {
+        entry.expiration = assumed?.credentials.expiration;
+        return assumed?.credentials;
+      }),
+    };
+    // A failed assumption is retried on the next call rather than cached
+    entry.credentials.catch(() => {
+      if (this.entries.get(key) === entry) {
+        this.entries.delete(key);
+      }
+    });
+
+    this.entries.set(key, entry);
+    return entry.credentials;
+  }
+
+  /**
+   * get() as a plain function, for code that takes a CredentialResolver
+   */
+  readonly resolve: CredentialResolver = (accountId) => this.get(accountId);
+
+  /**
+   * Assume the roles for all accounts up front, a few at a time. Throws one
+   * AccountAccessError listing every account that could not be accessed.
+   */
+  async prefetch(accountIds: Iterable<string>): Promise<void> {
+    const unique = [...new Set(accountIds)].filter(id => id !== this.currentAccountId);
+    const failures: RoleAssumptionError[] = [];
+
+    await mapWithConcurrency(unique, PREFETCH_CONCURRENCY, async (accountId) => {
+      try {
+        await this.get(accountId);
+      } catch (error) {
+        if (!(error instanceof RoleAssumptionError)) throw error;
+        failures.push(error);
+      }
+    });
+
+    if (failures.length > 0) {
+      throw new AccountAccessError(failures);
+    }
+    logger.verbose(`Assumed roles in ${unique.length} account(s)`);
+  }
+}
+
+function isExpiring(expiration: Date | undefined): boolean {
+  return expiration !== undefined && expiration.getTime() - Date.now() < REFRESH_MARGIN_MS;
+}
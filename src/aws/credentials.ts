@@ -5,13 +5,23 @@
 import { STSClient, GetCallerIdentityCommand } from '@aws-sdk/client-sts';
 import { NoCredentialsError } from '../utils/errors.js';
 import * as logger from '../utils/logger.js';
+import { getDefaultRegion, getPartitionFromArn } from '../utils/partition.js';
 import type { CurrentIdentity } from '../types/aws.js';
 
-// Default region for STS (global service, any region works)
-const DEFAULT_REGION = 'us-east-1';
+let stsRegion: Promise<string> | undefined;
+
+/**
+ * Region for STS calls: the configured region (AWS_REGION or the profile's
+ * region), falling back to us-east-1. STS only accepts credentials in its own
+ * partition, so GovCloud and China credentials need their region configured.
+ */
+export function getStsRegion(): Promise<string> {
+  stsRegion ??= new STSClient({}).config.region().catch(() => getDefaultRegion('aws'));
+  return stsRegion;
+}
 
 export async function getCurrentIdentity(): Promise<CurrentIdentity> {
-  const client = new STSClient({ region: DEFAULT_REGION });
+  const client = new STSClient({ region: await getStsRegion() });
 
   try {
     logger.verbose('Checking AWS credentials...');
@@ -28,6 +38,7 @@ export async function getCurrentIdentity(): Promise<CurrentIdentity> {
       accountId: response.Account,
       arn: response.Arn,
       userId: response.UserId,
+      partition: getPartitionFromArn(response.Arn),
     };
   } catch (error) {
     if (error instanceof NoCredentialsError) {
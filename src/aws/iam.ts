@@ -0,0 +1,143 @@
+/**
+ * IAM read operations used to inspect deployed DevRamps roles
+ *
+ * IAM is global, but each partition has its own endpoint, so calls take the
+ * region of the stack that owns the role.
+ */
+
+import {
+  IAMClient,
+  ListRoleTagsCommand,
+  ListRolePoliciesCommand,
+  GetRolePolicyCommand,
+  ListAttachedRolePoliciesCommand,
+  GetPolicyCommand,
+  GetPolicyVersionCommand,
+} from '@aws-sdk/client-iam';
+import type { AwsCredentialIdentity } from '@aws-sdk/types';
+import { withThrottleRetry } from '../utils/retry.js';
+
+/**
+ * Get the tags on an IAM role as a key/value map
+ */
+export async function getRoleTags(
+  roleName: string,
+  credentials: AwsCredentialIdentity | undefined,
+  region: string
+): Promise<Record<string, string>> {
+  const client = new IAMClient({ credentials, region });
+  const tags: Record<string, string> = {};
+  let marker: string | undefined;
+
+  do {
+    const response = await withThrottleRetry(() => client.send(
+      new ListRoleTagsCommand({ RoleName: roleName, Marker: marker })
+    ));
+
+    for (const tag of response.Tags || []) {
+      if (tag.Key && tag.Value !== undefined) {
+        tags[tag.Key] = tag.Value;
+      }
+    }
+
+    marker = response.IsTruncated ? response.Marker : undefined;
+  } while (marker);
+
+  return tags;
+}
+
+/**
+ * An inline policy attached to a role, with its document decoded
+ */
+export interface RoleInlinePolicy {
+  policyName: string;
+  policyDocument: { Statement?: unknown[] };
+}
+
+/**
+ * Read all inline policies of an IAM role. Returns null if the role does not exist.
+ */
+export async function getRoleInlinePolicies(
+  roleName: string,
+  credentials: AwsCredentialIdentity | undefined,
+  region: string
+): Promise<RoleInlinePolicy[] | null> {
+  const client = new IAMClient({ credentials, region });
+  const policyNames: string[] = [];
+  let marker: string | undefined;
+
+  try {
+    do {
+      const response = await withThrottleRetry(() => client.send(
+        new ListRolePoliciesCommand({ RoleName: roleName, Marker: marker })
+      ));
+      policyNames.push(...(response.PolicyNames || []));
+      marker = response.IsTruncated ? response.Marker : undefined;
+    } while (marker);
+  } catch (error) {
+    if (error instanceof Error && error.name === 'NoSuchEntityException') {
+      return null;
+    }
+    throw error;
+  }
+
+  const policies: RoleInlinePolicy[] = [];
+  for (const policyName of policyNames) {
+    const response = await withThrottleRetry(() => client.send(
+      new GetRolePolicyCommand({ RoleName: roleName, PolicyName: policyName })
+    ));
+
+    // IAM returns policy documents URL-encoded
+    policies.push({
+      policyName,
+      policyDocument: JSON.parse(decodeURIComponent(response.PolicyDocument || '{}')),
+    });
+  }
+
+  return policies;
+}
+
+// AWS managed policies are not written by DevRamps, so they are left out of diffs
+const AWS_MANAGED_POLICY_ARN = /^arn:[^:]+:iam::aws:policy\//;
+
+/**
+ * Read the default versions of the customer managed policies attached to an
+ * IAM role, in the same shape as inline policies. Roles whose policies
+ * outgrow the inline size limit keep part of their statements in these.
+ */
+export async function getRoleManagedPolicies(
+  roleName: string,
+  credentials: AwsCredentialIdentity | undefined,
+  region: string
+): Promise<RoleInlinePolicy[]> {
+  const client = new IAMClient({ credentials, region });
+  const attached: { name: string; arn: string }[] = [];
+  let marker: string | undefined;
+
+  do {
+    const response = await withThrottleRetry(() => client.send(
+      new ListAttachedRolePoliciesCommand({ RoleName: roleName, Marker: marker })
+    ));
+    for (const policy of response.AttachedPolicies || []) {
+      if (policy.PolicyArn && !AWS_MANAGED_POLICY_ARN.test(policy.PolicyArn)) {
+        attached.push({ name: policy.PolicyName || policy.PolicyArn, arn: policy.PolicyArn });
+      }
+    }
+    marker = response.IsTruncated ? response.Marker : undefined;
+  } while (marker);
+
+  const policies: RoleInlinePolicy[] = [];
+  for (const { name, arn } of attached) {
+    const { Policy } = await withThrottleRetry(() => client.send(new GetPolicyCommand({ PolicyArn: arn })));
+    const response = await withThrottleRetry(() => client.send(
+      new GetPolicyVersionCommand({ PolicyArn: arn, VersionId: Policy?.DefaultVersionId })
+    ));
+
+    policies.push({
+      policyName: name,
+      policyDocument: JSON.parse(decodeURIComponent(response.PolicyVersion?.Document || '{}')),
+    });
+  }
+
+  return policies;
+}
@@ -13,6 +13,7 @@ import {
 import type { AwsCredentialIdentity } from '@aws-sdk/types';
 import * as logger from '../utils/logger.js';
 import { OIDC_PROVIDER_URL } from '../types/config.js';
+import type { AwsPartition } from '../utils/partition.js';
 
 export interface OidcProviderInfo {
   exists: boolean;
@@ -69,9 +70,9 @@ export async function checkOidcProviderExists(
  * Get the OIDC provider ARN for a given account ID
  * This is used to reference the provider in IAM trust policies
  */
-export function getOidcProviderArn(accountId: string, oidcProviderUrl?: string): string {
+export function getOidcProviderArn(accountId: string, partition: AwsPartition, oidcProviderUrl?: string): string {
   const providerUrl = oidcProviderUrl || OIDC_PROVIDER_URL;
-  return `arn:aws:iam::${accountId}:oidc-provider/${providerUrl}`;
+  return `arn:${partition}:iam::${accountId}:oidc-provider/${providerUrl}`;
 }
 
 /**
@@ -0,0 +1,70 @@
+/**
+ * Copying Terraform state objects within the org's state bucket
+ */
+
+import {
+  S3Client,
+  HeadObjectCommand,
+  CopyObjectCommand,
+  DeleteObjectCommand,
+} from '@aws-sdk/client-s3';
+import type { AwsCredentialIdentity } from '@aws-sdk/types';
+
+export type StateCopyResult = 'copied' | 'missing' | 'exists';
+
+/**
+ * Copy a state object to a new key in the same bucket. Never overwrites:
+ * returns 'exists' if the target key is already present, and 'missing' if
+ * there is nothing at the source key.
+ */
+export async function copyStateObject(
+  bucketName: string,
+  fromKey: string,
+  toKey: string,
+  region: string,
+  credentials?: AwsCredentialIdentity
+): Promise<StateCopyResult> {
+  const client = new S3Client({ region, credentials });
+
+  if (await objectExists(client, bucketName, toKey)) {
+    return 'exists';
+  }
+  if (!(await objectExists(client, bucketName, fromKey))) {
+    return 'missing';
+  }
+
+  await client.send(
+    new CopyObjectCommand({
+      Bucket: bucketName,
+      Key: toKey,
+      CopySource: `${bucketName}/${encodeURIComponent(fromKey)}`,
+    })
+  );
+
+  return 'copied';
+}
+
+/**
+ * Delete a state object (the bucket is versioned, so older versions remain)
+ */
+export async function deleteStateObject(
+  bucketName: string,
+  key: string,
+  region: string,
+  credentials?: AwsCredentialIdentity
+): Promise<void> {
+  const client = new S3Client({ region, credentials });
+  await client.send(new DeleteObjectCommand({ Bucket: bucketName, Key: key }));
+}
+
+async function objectExists(client: S3Client, bucketName: string, key: string): Promise<boolean> {
+  try {
+    await client.send(new HeadObjectCommand({ Bucket: bucketName, Key: key }));
+    return true;
+  } catch (error) {
+    if (error instanceof Error && (error.name === 'NotFound' || error.name === 'NoSuchKey')) {
+      return false;
+    }
+    throw error;
+  }
+}
@@ -0,0 +1,160 @@
+/**
+ * Apply-change-sets command implementation
+ *
+ * Finds the change sets that `bootstrap --change-set-mode` left pending on
+ * the selected pipelines' stacks, shows them together and, once confirmed,
+ * executes them in the same dependency order bootstrap deploys in (or
+ * discards them with --discard).
+ */
+
+import ora from 'ora';
+import { getCurrentIdentity } from '../aws/credentials.js';
+import { CredentialCache } from '../aws/credential-cache.js';
+import { executeNamedChangeSet, findPendingChangeSet, type NamedChangeSet } from '../aws/cloudformation.js';
+import { getStackProtection, renderStackTemplate } from '../templates/index.js';
+import { buildDeploymentPlan, DEFAULT_PLAN_CONCURRENCY } from '../plan/index.js';
+import { buildStackTasks, withoutTasks } from '../plan/dependencies.js';
+import type { StackDiffResult } from '../plan/diff.js';
+import { DevRampsError, PendingChangeSetsError } from '../utils/errors.js';
+import * as logger from '../utils/logger.js';
+import { setVerbose } from '../utils/logger.js';
+import { mapWithConcurrency } from '../utils/concurrency.js';
+import { confirmPendingChangeSets } from '../utils/prompts.js';
+import {
+  resolveAuthData,
+  loadPipelines,
+  getTemplateRenderOptions,
+  parsePositiveInteger,
+  printChangeReport,
+  discardChangeSets,
+  runStackTasks,
+  markPipelinesBootstrapped,
+  DEFAULT_MAX_CONCURRENCY,
+} from './common.js';
+import type { ApplyChangeSetsOptions } from '../types/config.js';
+
+export async function applyChangeSetsCommand(options: ApplyChangeSetsOptions): Promise<void> {
+  try {
+    if (options.verbose) {
+      setVerbose(true);
+    }
+
+    logger.header('DevRamps Apply Change Sets');
+
+    const planConcurrency = parsePositiveInteger(options.planConcurrency, '--plan-concurrency', DEFAULT_PLAN_CONCURRENCY);
+    const schedule = {
+      maxConcurrency: parsePositiveInteger(options.maxConcurrency, '--max-concurrency', DEFAULT_MAX_CONCURRENCY),
+      failFast: !options.continueOnError,
+    };
+
+    // Step 1: Check AWS credentials
+    const spinner = ora('Checking AWS credentials...').start();
+    const identity = await getCurrentIdentity();
+    spinner.succeed(`Authenticated as ${identity.arn}`);
+
+    // Step 2: Authenticate with DevRamps
+    const authData = await resolveAuthData(options.endpointOverride);
+
+    // Step 3: Find and parse the selected pipelines
+    const basePath = process.cwd();
+    const { pipelines, pipelineArtifacts } = await loadPipelines(basePath, options.pipelineSlugs, spinner);
+
+    // Step 4: Build the plan, to know which stacks to look at and their order
+    spinner.start('Building deployment plan...');
+    const credentialCache = new CredentialCache(identity.accountId, options.targetAccountRoleName);
+    const plan = await buildDeploymentPlan(pipelines, pipelineArtifacts, authData, credentialCache, planConcurrency);
+    const renderOptions = getTemplateRenderOptions(options.endpointOverride);
+    const tasks = buildStackTasks(plan, !renderOptions.skipOidc);
+    spinner.succeed('Deployment plan ready');
+
+    // Step 5: Find the pending change sets
+    spinner.start('Looking for pending change sets...');
+    const found = await mapWithConcurrency(tasks, planConcurrency, async ({ stack }) => findPendingChangeSet(
+      stack.stackName,
+      stack.accountId,
+      await credentialCache.get(stack.accountId),
+      stack.region,
+      options.changeSetName
+    ));
+
+    const changeSets = new Map<string, NamedChangeSet>();
+    for (const [i, changeSet] of found.entries()) {
+      if (changeSet) {
+        changeSets.set(tasks[i].id, changeSet);
+      }
+    }
+    spinner.succeed(`Found pending change sets on ${changeSets.size} stack(s)`);
+
+    if (changeSets.size === 0) {
+      logger.info('No pending change sets found. Nothing to do.');
+      process.exit(0);
+    }
+
+    // Change sets from different runs were reviewed separately
+    const names = [...new Set([...changeSets.values()].map(c => c.changeSetName))].sort();
+    if (names.length > 1) {
+      throw new PendingChangeSetsError(names);
+    }
+
+    const results: StackDiffResult[] = [...changeSets.values()].map(changeSet => ({
+      stackName: changeSet.stackName,
+      accountId: changeSet.accountId,
+      region: changeSet.region ?? plan.cicdRegion,
+      changeSet,
+    }));
+    printChangeReport(results, `Change Set ${names[0]}`);
+
+    // Step 6: Confirm with user
+    const decision = options.discard ? 'discard' : 'execute';
+    if (!options.yes) {
+      const confirmed = await confirmPendingChangeSets(changeSets.size, decision);
+      if (!confirmed) {
+        logger.info('Cancelled by user. The change sets are still pending.');
+        process.exit(0);
+      }
+    }
+
+    if (options.discard) {
+      await discardChangeSets([...changeSets.values()], credentialCache);
+      logger.success(`Discarded change set ${names[0]}`);
+      process.exit(0);
+    }
+
+    // Step 7: Execute in dependency order; stacks without a change set are up to date
+    const outcomes = await runStackTasks(
+      withoutTasks(tasks, new Set(tasks.filter(t => !changeSets.has(t.id)).map(t => t.id))),
+      async (task) => executeNamedChangeSet(
+        changeSets.get(task.id)!,
+        await credentialCache.get(task.stack.accountId),
+        getStackProtection(task.stack, renderStackTemplate(task.stack, renderOptions))
+      ),
+      schedule
+    );
+
+    logger.newline();
+    logger.header('Summary');
+
+    if (outcomes.failed === 0 && outcomes.skipped === 0) {
+      logger.success(`All ${outcomes.succeeded} change set(s) executed successfully!`);
+      await markPipelinesBootstrapped(pipelines, authData);
+      process.exit(0);
+    }
+
+    const skipped = outcomes.skipped > 0 ? `, ${outcomes.skipped} skipped` : '';
+    logger.warn(`${outcomes.succeeded} change set(s) executed, ${outcomes.failed} failed${skipped}.`);
+    logger.info('Fix the failures and run bootstrap again to deploy the remaining stacks.');
+    process.exit(1);
+
+  } catch (error) {
+    if (error instanceof DevRampsError) {
+      logger.error(error.message);
+      process.exit(1);
+    }
+
+    logger.error(`Unexpected error: ${error instanceof Error ? error.message : String(error)}`);
+    if (logger.isVerbose() && error instanceof Error && error.stack) {
+      console.error(error.stack);
+    }
+    process.exit(1);
+  }
+}
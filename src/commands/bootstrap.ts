@@ -9,66 +9,91 @@
  * 5. Import Stacks - One per pipeline per import source account (import role for reading external artifacts)
  */
 
-import { createHash } from 'node:crypto';
 import ora from 'ora';
 import { getCurrentIdentity } from '../aws/credentials.js';
-import { assumeRoleForAccount } from '../aws/assume-role.js';
-import { deployStack, getStackStatus, readExistingStack, previewStackChanges } from '../aws/cloudformation.js';
-import { authenticateViaBrowser } from '../auth/browser-auth.js';
-import { loadCredentials, saveCredentials } from '../auth/credential-store.js';
-import { findDevrampsPipelines, parsePipeline } from '../parsers/pipeline.js';
-import { parseArtifacts, filterArtifactsForPipelineStack, extractImportSourceAccounts } from '../parsers/artifacts.js';
-import { generateOrgStackTemplate, getOrgStackName } from '../templates/org-stack.js';
-import { generatePipelineStackTemplate, getPipelineStackName } from '../templates/pipeline-stack.js';
-import { generateAccountStackTemplate, getAccountStackName } from '../templates/account-stack.js';
-import { generateStageStackTemplate, getStageStackName } from '../templates/stage-stack.js';
-import { generateImportStackTemplate, getImportStackName } from '../templates/import-stack.js';
-import { generateTerraformStateBucketName } from '../naming/index.js';
-import { getBucketPolicyStrategy, type BucketPolicyData } from '../merge/index.js';
-import { DevRampsError } from '../utils/errors.js';
+import { CredentialCache } from '../aws/credential-cache.js';
+import {
+  continueUpdateRollback,
+  createNamedChangeSet,
+  deleteStackAndWait,
+  deployStack,
+  describeStackResourceStates,
+  destroyStack,
+  executeNamedChangeSet,
+  findPendingChangeSet,
+  previewStackChanges,
+  waitForStackToSettle,
+  type NamedChangeSet,
+} from '../aws/cloudformation.js';
+import { getStackProtection, renderStackTemplate, type TemplateRenderOptions } from '../templates/index.js';
+import { buildDeploymentPlan, determineStackState, markUnchangedStacks, DEFAULT_PLAN_CONCURRENCY } from '../plan/index.js';
+import { findOrphanedStageStacks } from '../plan/prune.js';
+import { findDataResources, findRollbackBlockers, getStackRecovery } from '../plan/recovery.js';
+import { buildStackTasks, withoutTasks, type StackTask } from '../plan/dependencies.js';
+import type { StackDiffResult } from '../plan/diff.js';
+import { getChangeSetName } from '../naming/index.js';
+import {
+  JOURNAL_PATH,
+  carryOverDeployed,
+  checkJournalResumable,
+  createRunJournal,
+  deleteRunJournal,
+  readRunJournal,
+  recordStackOutcome,
+  selectTasksToResume,
+  writeRunJournal,
+  type RunJournal,
+} from '../plan/journal.js';
+import {
+  serializeDeploymentPlan,
+  comparePlanDocuments,
+  writePlanDocument,
+  readPlanDocument,
+  hashTemplate,
+} from '../plan/serialize.js';
+import { collectRolePermissionDiffs, hasPermissionExpansion, type RolePermissionDiff } from '../policy/index.js';
+import {
+  resolveAuthData,
+  loadPipelines,
+  getTemplateRenderOptions,
+  lintPlanPolicies,
+  parsePositiveInteger,
+  warnUnhealthyStacks,
+  runStackTasks,
+  markPipelinesBootstrapped,
+  printChangeReport,
+  discardChangeSets,
+  DEFAULT_MAX_CONCURRENCY,
+} from './common.js';
+import {
+  ChangeSetCreationError,
+  ConflictingOptionsError,
+  DevRampsError,
+  JournalError,
+  PlanMismatchError,
+  PermissionExpansionError,
+  PolicyLintError,
+  StackRecoveryError,
+} from '../utils/errors.js';
 import * as logger from '../utils/logger.js';
 import { setVerbose, getMultiStackProgress, clearMultiStackProgress } from '../utils/logger.js';
-import { confirmDeployment, confirmDryRun } from '../utils/prompts.js';
+import type { DagOptions } from '../utils/scheduler.js';
+import { mapWithConcurrency } from '../utils/concurrency.js';
+import {
+  chooseChangeSetAction,
+  chooseRollbackResourcesToSkip,
+  confirmChangeSetDiscard,
+  confirmDeployment,
+  confirmDryRun,
+  confirmPermissionExpansion,
+  confirmStackDeletion,
+} from '../utils/prompts.js';
 import type { BootstrapOptions, AuthData } from '../types/config.js';
 import type { ParsedPipeline } from '../types/pipeline.js';
-import {
-  StackType,
-  type DeploymentPlan,
-  type OrgStackDeployment,
-  type PipelineStackDeployment,
-  type AccountStackDeployment,
-  type StageStackDeployment,
-  type ImportStackDeployment,
-} from '../types/stacks.js';
-import type { ParsedArtifacts } from '../types/artifacts.js';
-import type { AwsCredentialIdentity } from '@aws-sdk/types';
-
-/**
- * Extract the hostname from an endpoint override URL.
- * e.g. "https://staging.devramps.com" -> "staging.devramps.com"
- */
-function getOidcProviderUrlFromEndpoint(endpointOverride?: string): string | undefined {
-  if (!endpointOverride) return undefined;
-  try {
-    const url = new URL(endpointOverride);
-    return url.hostname;
-  } catch {
-    return undefined;
-  }
-}
+import type { DeploymentPlan, StackDeployment } from '../types/stacks.js';
 
-/**
- * Check if the endpoint override points to localhost
- */
-function isLocalhostEndpoint(endpointOverride?: string): boolean {
-  if (!endpointOverride) return false;
-  try {
-    const url = new URL(endpointOverride);
-    return url.hostname === 'localhost' || url.hostname === '127.0.0.1';
-  } catch {
-    return false;
-  }
-}
+/** How long to wait for an operation already running on a stack, in minutes */
+const DEFAULT_STACK_WAIT_MINUTES = 30;
 
 export async function bootstrapCommand(options: BootstrapOptions): Promise<void> {
   try {
@@ -78,87 +103,180 @@ export async function bootstrapCommand(options: BootstrapOptions): Promise<void>
 
     logger.header('DevRamps Bootstrap');
 
+    const schedule: DagOptions = {
+      maxConcurrency: parsePositiveInteger(options.maxConcurrency, '--max-concurrency', DEFAULT_MAX_CONCURRENCY),
+      failFast: !options.continueOnError,
+    };
+    const stackWaitTimeout = parsePositiveInteger(options.stackWaitTimeout, '--stack-wait-timeout', DEFAULT_STACK_WAIT_MINUTES);
+
     // Step 1: Check AWS credentials
     const spinner = ora('Checking AWS credentials...').start();
     const identity = await getCurrentIdentity();
     spinner.succeed(`Authenticated as ${identity.arn}`);
 
     // Step 2: Authenticate with DevRamps (use stored credentials if available)
-    let authData = options.endpointOverride ? null : await loadCredentials();
-    if (authData) {
-      logger.info(`Using stored credentials for ${authData.orgSlug}`);
-    } else {
-      authData = await authenticateViaBrowser({
-        endpointOverride: options.endpointOverride,
-      });
-      await saveCredentials(authData, authData.expiresIn);
-    }
+    const authData = await resolveAuthData(options.endpointOverride);
 
-    // Step 3: Find and parse ALL pipelines (needed for org stack bucket policy merge)
-    spinner.start('Finding pipelines...');
+    // A saved plan or an interrupted run determines which pipelines are deployed
     const basePath = process.cwd();
-    const filterSlugs = options.pipelineSlugs
-      ? options.pipelineSlugs.split(',').map(s => s.trim())
-      : undefined;
-
-    const pipelineSlugs = await findDevrampsPipelines(basePath, filterSlugs);
-
-    if (pipelineSlugs.length === 0) {
-      spinner.fail('No pipelines found');
-      logger.error('No pipeline.yaml files found in .devramps/ folder.');
-      process.exit(1);
+    const savedPlan = options.applyPlan ? await readPlanDocument(options.applyPlan) : undefined;
+    const prune = options.prune || !!savedPlan?.stacks.some(s => s.action === 'DELETE');
+    // Change sets are reviewed instead of the plan, so nothing would confirm the deletions
+    if (prune && options.changeSetMode) {
+      throw new ConflictingOptionsError(
+        options.prune ? '--prune' : `--apply-plan with deletions (${options.applyPlan})`,
+        '--change-set-mode',
+        'orphaned stage stacks are deleted directly, not through change sets; prune in a separate bootstrap run'
+      );
     }
-
-    spinner.text = `Parsing ${pipelineSlugs.length} pipeline(s)...`;
-
-    const pipelines: ParsedPipeline[] = [];
-    const pipelineArtifacts: Map<string, ParsedArtifacts> = new Map();
-
-    for (const slug of pipelineSlugs) {
-      const pipeline = await parsePipeline(basePath, slug);
-      pipelines.push(pipeline);
-
-      // Parse artifacts for this pipeline
-      const artifacts = parseArtifacts(pipeline.definition);
-      pipelineArtifacts.set(slug, artifacts);
+    const resumeJournal = options.resume ? await readRunJournal(basePath) : undefined;
+    if (options.resume && !resumeJournal) {
+      throw new JournalError(JOURNAL_PATH, 'there is no interrupted bootstrap run to resume');
     }
+    const pipelineSlugs = options.pipelineSlugs
+      ?? savedPlan?.pipelineSlugs.join(',')
+      ?? resumeJournal?.pipelineSlugs.join(',');
 
-    spinner.succeed(`Found ${pipelines.length} pipeline(s)`);
+    // Step 3: Find and parse ALL pipelines (needed for org stack bucket policy merge)
+    const { pipelines, pipelineArtifacts } = await loadPipelines(basePath, pipelineSlugs, spinner);
 
     // Step 4: Build deployment plan
+    // One session per account is shared by planning and deployment
     spinner.start('Building deployment plan...');
+    const credentialCache = new CredentialCache(identity.accountId, options.targetAccountRoleName);
     const plan = await buildDeploymentPlan(
       pipelines,
       pipelineArtifacts,
       authData,
-      identity.accountId,
-      options.targetAccountRoleName
+      credentialCache,
+      parsePositiveInteger(options.planConcurrency, '--plan-concurrency', DEFAULT_PLAN_CONCURRENCY)
     );
     spinner.succeed('Deployment plan ready');
+    warnUnhealthyStacks(plan);
+
+    if (prune) {
+      spinner.start('Looking for orphaned stage stacks...');
+      plan.orphanedStageStacks = await findOrphanedStageStacks(plan, credentialCache.resolve);
+      spinner.succeed(`Found ${plan.orphanedStageStacks.length} orphaned stage stack(s) to prune`);
+    }
+
+    const renderOptions = getTemplateRenderOptions(options.endpointOverride, options.additionalTrustedAccounts);
+
+    // Stacks whose deployed template hash matches are left alone unless forced
+    if (!options.force) {
+      const unchanged = markUnchangedStacks(plan, renderOptions);
+      if (unchanged > 0) {
+        logger.info(`${unchanged} stack(s) unchanged since their last deployment (use --force to redeploy them)`);
+      }
+    }
+
+    // Account stacks only create the OIDC provider
+    const allTasks = buildStackTasks(plan, !renderOptions.skipOidc);
+    let tasks = allTasks;
+    if (resumeJournal) {
+      const problems = checkJournalResumable(resumeJournal, plan, pipelines);
+      if (problems.length > 0) {
+        throw new JournalError(
+          JOURNAL_PATH,
+          `it no longer matches this run:\n${problems.map(p => `  - ${p}`).join('\n')}\nRun bootstrap without --resume to deploy every stack.`
+        );
+      }
+      tasks = selectTasksToResume(resumeJournal, allTasks, renderOptions);
+      logger.info(
+        `Resuming the run started ${resumeJournal.startedAt}: ` +
+        `${allTasks.length - tasks.length} stack(s) already deployed, ${tasks.length} to deploy`
+      );
+    }
+
+    // Dangerous grants block deployment; a dry run only reports them
+    const lintErrors = await lintPlanPolicies(basePath, plan, renderOptions);
+    if (lintErrors > 0 && !options.dryRun) {
+      throw new PolicyLintError(lintErrors);
+    }
+
+    // Step 5: Handle plan output, dry run or actual deployment
+    if (options.planOut) {
+      await writePlanDocument(options.planOut, serializeDeploymentPlan(plan, pipelines, renderOptions));
+      logger.success(`Deployment plan written to ${options.planOut}`);
+      process.exit(0);
+    }
+
+    spinner.start('Comparing IAM permissions with deployed roles...');
+    const permissionDiffs = await collectRolePermissionDiffs(plan, credentialCache.resolve);
+    spinner.succeed('IAM permission changes computed');
+    showPermissionChanges(permissionDiffs);
 
-    // Step 5: Handle dry run or actual deployment
     if (options.dryRun) {
       await showDryRunPlan(plan);
       process.exit(0);
     }
 
-    // Step 6: Confirm with user
-    const confirmed = await confirmDeploymentPlan(plan);
-    if (!confirmed) {
-      logger.info('Deployment cancelled by user.');
+    if (tasks.length === 0 && plan.orphanedStageStacks.length === 0) {
+      logger.success('All stacks are up to date, nothing to deploy');
+      await deleteRunJournal(basePath);
+      await markPipelinesBootstrapped(pipelines, authData);
       process.exit(0);
     }
 
-    // Step 7: Execute three-phase deployment
-    const oidcProviderUrl = getOidcProviderUrlFromEndpoint(options.endpointOverride);
-    const additionalTrustedAccounts = options.additionalTrustedAccounts
-      ? options.additionalTrustedAccounts.split(',').map(s => s.trim())
-      : undefined;
-    const skipOidc = isLocalhostEndpoint(options.endpointOverride);
-    if (skipOidc) {
+    // Step 6: Confirm with user, or check that the reviewed plan still holds
+    if (savedPlan) {
+      const differences = comparePlanDocuments(savedPlan, serializeDeploymentPlan(plan, pipelines, renderOptions));
+      if (differences.length > 0) {
+        throw new PlanMismatchError(options.applyPlan!, differences);
+      }
+      logger.success(`Plan ${options.applyPlan} is up to date, applying without confirmation`);
+    } else if (!options.changeSetMode) {
+      // In change set mode, the change sets themselves are reviewed instead
+      const confirmed = await confirmDeploymentPlan(plan);
+      if (!confirmed) {
+        logger.info('Deployment cancelled by user.');
+        process.exit(0);
+      }
+    }
+
+    // Widening existing roles needs its own confirmation (or the flag, when non-interactive)
+    if (hasPermissionExpansion(permissionDiffs) && !options.allowPermissionExpansion) {
+      const expanded = permissionDiffs.filter(d => !d.isNewRole && d.added.length > 0);
+      const addedCount = expanded.reduce((sum, d) => sum + d.added.length, 0);
+
+      if (savedPlan) {
+        throw new PermissionExpansionError(addedCount, expanded.map(d => d.roleName));
+      }
+
+      const approved = await confirmPermissionExpansion(addedCount, expanded.length);
+      if (!approved) {
+        logger.info('Deployment cancelled by user.');
+        process.exit(0);
+      }
+    }
+
+    // Step 7: Recover stacks stuck in failed or in-progress states. Change
+    // set mode creates its change sets next to ones already pending review.
+    const pendingChangeSets = options.changeSetMode ? 'keep' : options.discardPendingChangeSets ? 'discard' : 'ask';
+    await recoverStuckStacks(tasks.map(t => t.stack), credentialCache, stackWaitTimeout, !savedPlan, pendingChangeSets);
+
+    // Step 8: Deploy stacks in dependency order
+    if (renderOptions.skipOidc) {
       logger.info('Localhost endpoint detected — OIDC provider creation will be skipped');
     }
-    await executeDeployment(plan, pipelines, pipelineArtifacts, authData, identity.accountId, options, oidcProviderUrl, additionalTrustedAccounts, skipOidc);
+    const journal = createRunJournal(plan, pipelines, allTasks, renderOptions);
+    if (resumeJournal) {
+      carryOverDeployed(journal, resumeJournal, tasks);
+    }
+    if (options.changeSetMode) {
+      await deployThroughChangeSets(plan, pipelines, authData, credentialCache, tasks, { basePath, journal }, schedule, renderOptions);
+    } else {
+      await executeDeployment(
+        plan,
+        pipelines,
+        authData,
+        credentialCache,
+        tasks,
+        (task) => deployPlannedStack(task.stack, credentialCache, renderOptions),
+        { basePath, journal },
+        schedule
+      );
+    }
 
   } catch (error) {
     if (error instanceof DevRampsError) {
@@ -175,246 +293,36 @@ export async function bootstrapCommand(options: BootstrapOptions): Promise<void>
 }
 
 /**
- * Build the complete deployment plan for all stack types
+ * Show actions added to or removed from deployed roles. New roles are
+ * summarized, since every action on them is new.
  */
-async function buildDeploymentPlan(
-  pipelines: ParsedPipeline[],
-  pipelineArtifacts: Map<string, ParsedArtifacts>,
-  authData: AuthData,
-  currentAccountId: string,
-  targetRoleName?: string
-): Promise<DeploymentPlan> {
-  const { orgSlug, cicdAccountId, cicdRegion } = authData;
-
-  // Collect all target accounts across all pipelines (for org stack)
-  const allTargetAccountIds = new Set<string>();
-  for (const pipeline of pipelines) {
-    for (const accountId of pipeline.targetAccountIds) {
-      allTargetAccountIds.add(accountId);
-    }
-  }
-
-  // Try to get credentials for CI/CD account
-  let cicdCredentials;
-  try {
-    if (cicdAccountId !== currentAccountId) {
-      const assumed = await assumeRoleForAccount({
-        targetAccountId: cicdAccountId,
-        currentAccountId,
-        targetRoleName,
-      });
-      cicdCredentials = assumed?.credentials;
-    }
-  } catch {
-    logger.verbose('Could not assume role in CI/CD account for status check');
-  }
-
-  // 1. Org Stack
-  const orgStackName = getOrgStackName(orgSlug);
-  const orgStack: OrgStackDeployment = {
-    stackType: StackType.ORG,
-    stackName: orgStackName,
-    accountId: cicdAccountId,
-    region: cicdRegion,
-    action: await determineStackAction(orgStackName, cicdCredentials, cicdRegion),
-    orgSlug,
-    targetAccountIds: Array.from(allTargetAccountIds),
-  };
-
-  // 2. Pipeline Stacks
-  const pipelineStacks: PipelineStackDeployment[] = [];
-  for (const pipeline of pipelines) {
-    const artifacts = pipelineArtifacts.get(pipeline.slug)!;
-    const filteredArtifacts = filterArtifactsForPipelineStack(artifacts);
-    const stackName = getPipelineStackName(pipeline.slug);
-
-    pipelineStacks.push({
-      stackType: StackType.PIPELINE,
-      stackName,
-      accountId: cicdAccountId,
-      region: cicdRegion,
-      action: await determineStackAction(stackName, cicdCredentials, cicdRegion),
-      pipelineSlug: pipeline.slug,
-      dockerArtifacts: filteredArtifacts.docker,
-      bundleArtifacts: filteredArtifacts.bundle,
-      stageAccountIds: pipeline.targetAccountIds,
-    });
-  }
-
-  // 3. Account Stacks (one per unique account for OIDC provider)
-  //    The CI/CD account must always be included since the Org stack relies
-  //    on the OIDC provider created by the Account Bootstrap stack.
-  //    Import source accounts are also included so they get OIDC providers.
-  const accountStacks: AccountStackDeployment[] = [];
-  const accountStackName = getAccountStackName();
-
-  // Track accounts we've already added to avoid duplicates
-  const accountsWithStacks = new Set<string>();
-
-  // Always include the CI/CD account first (Org stack depends on its OIDC provider)
-  accountsWithStacks.add(cicdAccountId);
-  accountStacks.push({
-    stackType: StackType.ACCOUNT,
-    stackName: accountStackName,
-    accountId: cicdAccountId,
-    region: cicdRegion,
-    action: await determineStackAction(accountStackName, cicdCredentials, cicdRegion),
-  });
-
-  // Collect import source accounts for Account stacks and Import stacks
-  const importSourceAccountsByPipeline = new Map<string, string[]>();
-  for (const pipeline of pipelines) {
-    const artifacts = pipelineArtifacts.get(pipeline.slug)!;
-    const importSources = extractImportSourceAccounts(artifacts);
-    if (importSources.length > 0) {
-      importSourceAccountsByPipeline.set(
-        pipeline.slug,
-        importSources.map(s => s.accountId)
-      );
-    }
+function showPermissionChanges(diffs: RolePermissionDiff[]): void {
+  const changed = diffs.filter(d => d.added.length > 0 || d.removed.length > 0);
+  if (changed.length === 0) {
+    logger.verbose('No IAM permission changes for deployed roles');
+    return;
   }
 
-  // Helper to add an account stack if not already added
-  const addAccountStackIfNew = async (accountId: string) => {
-    if (accountsWithStacks.has(accountId)) return;
-    accountsWithStacks.add(accountId);
+  logger.newline();
+  logger.header('IAM Permission Changes');
 
-    let accountCredentials;
-    try {
-      if (accountId !== currentAccountId) {
-        const assumed = await assumeRoleForAccount({
-          targetAccountId: accountId,
-          currentAccountId,
-          targetRoleName,
-        });
-        accountCredentials = assumed?.credentials;
+  for (const diff of changed) {
+    if (diff.isNewRole) {
+      logger.info(`${diff.roleName} (${diff.accountId}): new role with ${diff.added.length} action(s)`);
+      for (const action of diff.added) {
+        logger.verbose(`    + ${action}`);
       }
-    } catch {
-      logger.verbose(`Could not assume role in ${accountId} for status check`);
-    }
-
-    accountStacks.push({
-      stackType: StackType.ACCOUNT,
-      stackName: accountStackName,
-      accountId,
-      region: cicdRegion, // Deploy in CI/CD region for consistency
-      action: await determineStackAction(accountStackName, accountCredentials, cicdRegion),
-    });
-  };
-
-  // Add stage accounts
-  for (const pipeline of pipelines) {
-    for (const stage of pipeline.stages) {
-      await addAccountStackIfNew(stage.account_id);
-    }
-  }
-
-  // Add import source accounts (so they get OIDC providers)
-  for (const [, sourceAccountIds] of importSourceAccountsByPipeline) {
-    for (const accountId of sourceAccountIds) {
-      await addAccountStackIfNew(accountId);
+      continue;
     }
-  }
-
-  // 4. Stage Stacks
-  const stageStacks: StageStackDeployment[] = [];
-  for (const pipeline of pipelines) {
-    const artifacts = pipelineArtifacts.get(pipeline.slug)!;
-
-    for (const stage of pipeline.stages) {
-      const stackName = getStageStackName(pipeline.slug, stage.name);
-
-      // Try to get credentials for this stage account
-      let stageCredentials;
-      try {
-        if (stage.account_id !== currentAccountId) {
-          const assumed = await assumeRoleForAccount({
-            targetAccountId: stage.account_id,
-            currentAccountId,
-            targetRoleName,
-          });
-          stageCredentials = assumed?.credentials;
-        }
-      } catch {
-        logger.verbose(`Could not assume role in ${stage.account_id} for status check`);
-      }
 
-      stageStacks.push({
-        stackType: StackType.STAGE,
-        stackName,
-        accountId: stage.account_id,
-        region: stage.region,
-        action: await determineStackAction(stackName, stageCredentials, stage.region),
-        pipelineSlug: pipeline.slug,
-        stageName: stage.name,
-        orgSlug,
-        steps: pipeline.steps,
-        additionalPolicies: pipeline.additionalPolicies,
-        dockerArtifacts: artifacts.docker,
-        bundleArtifacts: artifacts.bundle,
-      });
+    logger.info(`${diff.roleName} (${diff.accountId}):`);
+    for (const action of diff.added) {
+      logger.warn(`    + ${action}`);
     }
-  }
-
-  // 5. Import Stacks (one per pipeline per import source account)
-  const importStacks: ImportStackDeployment[] = [];
-  for (const [pipelineSlug, sourceAccountIds] of importSourceAccountsByPipeline) {
-    const importStackName = getImportStackName(pipelineSlug);
-
-    for (const sourceAccountId of sourceAccountIds) {
-      // Try to get credentials for this import source account
-      let importCredentials;
-      try {
-        if (sourceAccountId !== currentAccountId) {
-          const assumed = await assumeRoleForAccount({
-            targetAccountId: sourceAccountId,
-            currentAccountId,
-            targetRoleName,
-          });
-          importCredentials = assumed?.credentials;
-        }
-      } catch {
-        logger.verbose(`Could not assume role in ${sourceAccountId} for status check`);
-      }
-
-      importStacks.push({
-        stackType: StackType.IMPORT,
-        stackName: importStackName,
-        accountId: sourceAccountId,
-        region: cicdRegion, // Deploy in CI/CD region (IAM is global)
-        action: await determineStackAction(importStackName, importCredentials, cicdRegion),
-        pipelineSlug,
-        orgSlug,
-      });
+    for (const action of diff.removed) {
+      logger.info(`    - ${action}`);
     }
   }
-
-  return {
-    orgSlug,
-    cicdAccountId,
-    cicdRegion,
-    orgStack,
-    pipelineStacks,
-    accountStacks,
-    stageStacks,
-    importStacks,
-  };
-}
-
-/**
- * Determine if a stack should be created or updated
- */
-async function determineStackAction(
-  stackName: string,
-  credentials: AwsCredentialIdentity | undefined,
-  region: string
-): Promise<'CREATE' | 'UPDATE'> {
-  try {
-    const status = await getStackStatus(stackName, credentials, region);
-    return status.exists ? 'UPDATE' : 'CREATE';
-  } catch {
-    return 'CREATE';
-  }
 }
 
 /**
@@ -472,22 +380,36 @@ async function showDryRunPlan(plan: DeploymentPlan): Promise<void> {
     }
   }
 
-  const totalStacks = 1 + plan.pipelineStacks.length + plan.accountStacks.length + plan.stageStacks.length + plan.importStacks.length;
-  const phase2Stacks = 1 + plan.pipelineStacks.length + plan.stageStacks.length + plan.importStacks.length;
+  if (plan.orphanedStageStacks.length > 0) {
+    logger.newline();
+    logger.info('Orphaned Stage Stacks (prune):');
+    for (const stack of plan.orphanedStageStacks) {
+      logger.info(`  ${stack.action}: ${stack.stackName}`);
+      logger.info(`    Account: ${stack.accountId}, Region: ${stack.region} (stage "${stack.stageName}" no longer in ${stack.pipelineSlug})`);
+    }
+  }
+
+  const { toDeploy, unchanged } = countPlannedStacks(plan);
   logger.newline();
-  logger.info(`Total stacks to deploy: ${totalStacks}`);
-  logger.info(`  Phase 1: ${plan.accountStacks.length} Account stack(s) (deployed first)`);
-  logger.info(`  Phase 2: ${phase2Stacks} Org/Pipeline/Stage/Import stack(s) (deployed in parallel after Phase 1)`);
+  logger.info(`Total stacks to deploy: ${toDeploy}`);
+  if (unchanged > 0) {
+    logger.info(`  ${unchanged} unchanged stack(s) are skipped`);
+  }
+  logger.info('  Account stacks are deployed before the Org, Stage and Import stacks in their account,');
+  logger.info('  and the Org stack before every Stage stack');
+  if (plan.orphanedStageStacks.length > 0) {
+    logger.info(`  ${plan.orphanedStageStacks.length} orphaned Stage stack(s) are deleted once every other stack is deployed`);
+  }
 }
 
 /**
  * Confirm deployment with user
  */
 async function confirmDeploymentPlan(plan: DeploymentPlan): Promise<boolean> {
-  const totalStacks = 1 + plan.pipelineStacks.length + plan.accountStacks.length + plan.stageStacks.length + plan.importStacks.length;
+  const { toDeploy, unchanged } = countPlannedStacks(plan);
 
   logger.newline();
-  logger.info(`About to deploy ${totalStacks} stack(s):`);
+  logger.info(`About to deploy ${toDeploy} stack(s):`);
   logger.info(`  - 1 Org stack (${plan.orgStack.action})`);
   logger.info(`  - ${plan.pipelineStacks.length} Pipeline stack(s)`);
   logger.info(`  - ${plan.accountStacks.length} Account stack(s) (OIDC provider)`);
@@ -495,6 +417,12 @@ async function confirmDeploymentPlan(plan: DeploymentPlan): Promise<boolean> {
   if (plan.importStacks.length > 0) {
     logger.info(`  - ${plan.importStacks.length} Import stack(s)`);
   }
+  if (plan.orphanedStageStacks.length > 0) {
+    logger.info(`  - ${plan.orphanedStageStacks.length} orphaned Stage stack(s) to DELETE`);
+  }
+  if (unchanged > 0) {
+    logger.info(`  (${unchanged} unchanged stack(s) are skipped)`);
+  }
 
   // Use the existing confirmDeployment prompt
   // This returns boolean based on user input
@@ -506,48 +434,91 @@ async function confirmDeploymentPlan(plan: DeploymentPlan): Promise<boolean> {
       ...plan.accountStacks.map(s => ({ ...s, pipelineSlug: 'account', steps: [], additionalPoliciesCount: 0 })),
       ...plan.stageStacks.map(s => ({ ...s, steps: s.steps.map(st => st.name), additionalPoliciesCount: s.additionalPolicies.length })),
       ...plan.importStacks.map(s => ({ ...s, steps: [], additionalPoliciesCount: 0 })),
+      ...plan.orphanedStageStacks.map(s => ({ ...s, steps: [], additionalPoliciesCount: 0 })),
     ],
   });
 }
 
 /**
- * Execute deployment of all stacks in parallel
+ * Count the planned stacks that will be deployed and those left unchanged
+ */
+function countPlannedStacks(plan: DeploymentPlan): { toDeploy: number; unchanged: number } {
+  const stacks = [plan.orgStack, ...plan.pipelineStacks, ...plan.accountStacks, ...plan.stageStacks, ...plan.importStacks];
+  const unchanged = stacks.filter(s => s.action === 'NO_CHANGE').length;
+  return { toDeploy: stacks.length - unchanged, unchanged };
+}
+
+/**
+ * Deploy every stack in dependency order (Account -> Org/Stage/Import,
+ * Org -> Stage), at most maxConcurrency at a time, then prune
  */
 async function executeDeployment(
   plan: DeploymentPlan,
   pipelines: ParsedPipeline[],
-  pipelineArtifacts: Map<string, ParsedArtifacts>,
   authData: AuthData,
-  currentAccountId: string,
-  options: BootstrapOptions,
-  oidcProviderUrl?: string,
-  additionalTrustedAccounts?: string[],
-  skipOidc?: boolean
+  credentialCache: CredentialCache,
+  tasks: StackTask[],
+  deployTask: (task: StackTask) => Promise<void>,
+  run: { basePath: string; journal: RunJournal },
+  schedule: DagOptions
 ): Promise<void> {
-  const results = { success: 0, failed: 0 };
+  const { maxConcurrency } = schedule;
+
+  // Journal writes are chained so that concurrent stacks never interleave them
+  let journalWrites = Promise.resolve();
+  const saveJournal = () => {
+    journalWrites = journalWrites
+      .then(() => writeRunJournal(run.basePath, run.journal))
+      .catch((error) => logger.warn(`Could not write run journal: ${error instanceof Error ? error.message : String(error)}`));
+    return journalWrites;
+  };
+  await saveJournal();
 
-  const remainingStacks = 1 + plan.pipelineStacks.length + plan.stageStacks.length + plan.importStacks.length;
+  const outcomes = await runStackTasks(
+    tasks,
+    async (task) => {
+      try {
+        await deployTask(task);
+        recordStackOutcome(run.journal, task.id, 'succeeded');
+      } catch (error) {
+        recordStackOutcome(run.journal, task.id, 'failed', error instanceof Error ? error.message : String(error));
+        throw error;
+      } finally {
+        await saveJournal();
+      }
+    },
+    schedule
+  );
 
-  // Phase 1: Deploy all Account bootstrap stacks first (creates OIDC providers)
-  if (skipOidc) {
-    logger.newline();
-    logger.header('Phase 1: Skipping Account Bootstrap Stacks (localhost endpoint, OIDC not needed)');
-  } else {
-    logger.newline();
-    logger.header('Phase 1: Deploying Account Bootstrap Stacks');
-    logger.info(`Deploying ${plan.accountStacks.length} account stack(s) in parallel...`);
-    logger.newline();
+  for (const result of outcomes.results.filter(r => r.outcome === 'skipped')) {
+    recordStackOutcome(run.journal, result.id, 'skipped', result.reason);
+  }
+  await saveJournal();
+  const results = { success: outcomes.succeeded, failed: outcomes.failed, skipped: outcomes.skipped };
 
-    const accountProgress = getMultiStackProgress();
-    for (const stack of plan.accountStacks) {
-      accountProgress.addStack(stack.stackName, 'account', stack.accountId, stack.region, 1);
-    }
-    accountProgress.start();
+  // Delete orphaned stage stacks (prune mode), only once everything else is deployed
+  if (plan.orphanedStageStacks.length > 0) {
+    if (results.failed > 0 || results.skipped > 0) {
+      logger.newline();
+      logger.warn(`Skipping pruning of ${plan.orphanedStageStacks.length} orphaned stage stack(s) because other stacks were not deployed.`);
+    } else {
+      logger.newline();
+      logger.header('Deleting Orphaned Stage Stacks');
+
+      const pruneProgress = getMultiStackProgress();
+      for (const stack of plan.orphanedStageStacks) {
+        pruneProgress.addStack(stack.stackName, 'stage', stack.accountId, stack.region, 0);
+      }
+      pruneProgress.start('Deleting Stacks');
 
-    const accountResults = await Promise.all(
-      plan.accountStacks.map(async (stack) => {
+      const pruneResults = await mapWithConcurrency(plan.orphanedStageStacks, maxConcurrency, async (stack) => {
         try {
-          await deployAccountStack(stack, currentAccountId, options, oidcProviderUrl);
+          await destroyStack({
+            stackName: stack.stackName,
+            accountId: stack.accountId,
+            region: stack.region,
+            credentials: await credentialCache.get(stack.accountId),
+          });
           return { stack: `${stack.stackName} (${stack.accountId})`, success: true };
         } catch (error) {
           return {
@@ -556,123 +527,20 @@ async function executeDeployment(
             error: error instanceof Error ? error.message : String(error),
           };
         }
-      })
-    );
-
-    clearMultiStackProgress();
+      });
 
-    // Report account stack results
-    logger.newline();
-    for (const result of accountResults) {
-      if (result.success) {
-        logger.success(`${result.stack} deployed`);
-        results.success++;
-      } else {
-        logger.error(`${result.stack} failed: ${result.error}`);
-        results.failed++;
-      }
-    }
+      clearMultiStackProgress();
 
-    // If any account stack failed, abort before deploying remaining stacks
-    if (results.failed > 0) {
       logger.newline();
-      logger.header('Deployment Summary');
-      logger.error(`${results.failed} account stack(s) failed. Skipping remaining ${remainingStacks} stack(s).`);
-      process.exit(1);
-    }
-  }
-
-  // Phase 2: Deploy all other stacks in parallel
-  logger.newline();
-  logger.header('Phase 2: Deploying Org, Pipeline, Stage, and Import Stacks');
-  logger.info(`Deploying ${remainingStacks} stack(s) in parallel...`);
-  logger.newline();
-
-  const mainProgress = getMultiStackProgress();
-  mainProgress.addStack(plan.orgStack.stackName, 'org', plan.orgStack.accountId, plan.orgStack.region, 5);
-  for (const stack of plan.pipelineStacks) {
-    const resourceCount = stack.dockerArtifacts.length + stack.bundleArtifacts.length;
-    mainProgress.addStack(stack.stackName, 'pipeline', stack.accountId, stack.region, Math.max(resourceCount, 1));
-  }
-  for (const stack of plan.stageStacks) {
-    const resourceCount = stack.dockerArtifacts.length + stack.bundleArtifacts.length + 2;
-    mainProgress.addStack(stack.stackName, 'stage', stack.accountId, stack.region, resourceCount);
-  }
-  for (const stack of plan.importStacks) {
-    mainProgress.addStack(stack.stackName, 'import', stack.accountId, stack.region, 1);
-  }
-  mainProgress.start();
-
-  const orgPromise = (async () => {
-    try {
-      await deployOrgStack(plan, pipelines, authData, currentAccountId, options, oidcProviderUrl, additionalTrustedAccounts, skipOidc);
-      return { stack: plan.orgStack.stackName, success: true };
-    } catch (error) {
-      return {
-        stack: plan.orgStack.stackName,
-        success: false,
-        error: error instanceof Error ? error.message : String(error),
-      };
-    }
-  })();
-
-  const pipelinePromises = plan.pipelineStacks.map(async (stack) => {
-    try {
-      await deployPipelineStack(stack, authData, currentAccountId, options);
-      return { stack: stack.stackName, success: true };
-    } catch (error) {
-      return {
-        stack: stack.stackName,
-        success: false,
-        error: error instanceof Error ? error.message : String(error),
-      };
-    }
-  });
-
-  const stagePromises = plan.stageStacks.map(async (stack) => {
-    try {
-      await deployStageStack(stack, authData, currentAccountId, options, oidcProviderUrl, additionalTrustedAccounts, skipOidc);
-      return { stack: stack.stackName, success: true };
-    } catch (error) {
-      return {
-        stack: stack.stackName,
-        success: false,
-        error: error instanceof Error ? error.message : String(error),
-      };
-    }
-  });
-
-  const importPromises = plan.importStacks.map(async (stack) => {
-    try {
-      await deployImportStack(stack, currentAccountId, options, oidcProviderUrl, additionalTrustedAccounts, skipOidc);
-      return { stack: `${stack.stackName} (${stack.accountId})`, success: true };
-    } catch (error) {
-      return {
-        stack: `${stack.stackName} (${stack.accountId})`,
-        success: false,
-        error: error instanceof Error ? error.message : String(error),
-      };
-    }
-  });
-
-  const mainResults = await Promise.all([
-    orgPromise,
-    ...pipelinePromises,
-    ...stagePromises,
-    ...importPromises,
-  ]);
-
-  clearMultiStackProgress();
-
-  // Report main stack results
-  logger.newline();
-  for (const result of mainResults) {
-    if (result.success) {
-      logger.success(`${result.stack} deployed`);
-      results.success++;
-    } else {
-      logger.error(`${result.stack} failed: ${result.error}`);
-      results.failed++;
+      for (const result of pruneResults) {
+        if (result.success) {
+          logger.success(`${result.stack} deleted`);
+          results.success++;
+        } else {
+          logger.error(`${result.stack} failed to delete: ${result.error}`);
+          results.failed++;
+        }
+      }
     }
   }
 
@@ -680,257 +548,266 @@ async function executeDeployment(
   logger.newline();
   logger.header('Deployment Summary');
 
-  if (results.failed === 0) {
+  if (results.failed === 0 && results.skipped === 0) {
     logger.success(`All ${results.success} stack(s) deployed successfully!`);
+    await deleteRunJournal(run.basePath);
 
     // Notify the backend that bootstrapped pipelines are up to date
     await markPipelinesBootstrapped(pipelines, authData);
 
     process.exit(0);
   } else {
-    logger.warn(`${results.success} stack(s) succeeded, ${results.failed} stack(s) failed.`);
+    const skipped = results.skipped > 0 ? `, ${results.skipped} skipped` : '';
+    logger.warn(`${results.success} stack(s) succeeded, ${results.failed} stack(s) failed${skipped}.`);
+    logger.info(`Progress was saved to ${JOURNAL_PATH}. Run bootstrap --resume to retry only the stacks that did not deploy.`);
     process.exit(1);
   }
 }
 
+type ChangeSetResult = StackDiffResult & { changeSet?: NamedChangeSet };
+
 /**
- * Deploy the org stack with bucket policy merging
+ * Create a named change set for every stack to deploy and show them
+ * together. They are executed in dependency order only once approved;
+ * otherwise they are left pending for later review, or discarded.
  */
-async function deployOrgStack(
+async function deployThroughChangeSets(
   plan: DeploymentPlan,
   pipelines: ParsedPipeline[],
   authData: AuthData,
-  currentAccountId: string,
-  options: BootstrapOptions,
-  oidcProviderUrl?: string,
-  additionalTrustedAccounts?: string[],
-  skipOidc?: boolean
+  credentialCache: CredentialCache,
+  tasks: StackTask[],
+  run: { basePath: string; journal: RunJournal },
+  schedule: DagOptions,
+  renderOptions: TemplateRenderOptions
 ): Promise<void> {
-  const { orgSlug, cicdAccountId, cicdRegion } = authData;
-
-  // Get credentials for CI/CD account
-  const credentials = cicdAccountId !== currentAccountId
-    ? (await assumeRoleForAccount({
-        targetAccountId: cicdAccountId,
-        currentAccountId,
-        targetRoleName: options.targetAccountRoleName,
-      }))?.credentials
-    : undefined;
-
-  // Execute bucket policy merge if stack exists
-  let targetAccountIds = plan.orgStack.targetAccountIds;
-
-  if (plan.orgStack.action === 'UPDATE') {
-    logger.verbose('Merging bucket policy with existing accounts...');
-
-    const bucketName = generateTerraformStateBucketName(orgSlug);
-    const strategy = getBucketPolicyStrategy();
-    strategy.configure(bucketName, cicdRegion, credentials);
-
-    const existingStack = await readExistingStack(
-      plan.orgStack.stackName,
-      cicdAccountId,
-      cicdRegion,
-      credentials
-    );
+  const changeSetName = getChangeSetName(new Date());
 
-    if (existingStack) {
-      const existing = await strategy.extractExisting(existingStack);
-      const newData: BucketPolicyData = { allowedAccountIds: targetAccountIds };
-      const merged = strategy.merge(existing, newData);
-      targetAccountIds = merged.allowedAccountIds;
+  const spinner = ora(`Creating change set ${changeSetName} for ${tasks.length} stack(s)...`).start();
+  const created = await mapWithConcurrency(tasks, schedule.maxConcurrency, async ({ stack }): Promise<ChangeSetResult> => {
+    const base = { stackName: stack.stackName, accountId: stack.accountId, region: stack.region };
+    try {
+      const template = renderStackTemplate(stack, renderOptions);
+      const changeSet = await createNamedChangeSet({
+        ...base,
+        template,
+        credentials: await credentialCache.get(stack.accountId),
+        templateHash: hashTemplate(template),
+      }, changeSetName);
+      return { ...base, changeSet };
+    } catch (error) {
+      return { ...base, error: error instanceof Error ? error.message : String(error) };
+    }
+  });
+  spinner.succeed(`Created change sets for ${tasks.length} stack(s)`);
 
-      logger.verbose(`Merged ${targetAccountIds.length} account(s) into bucket policy`);
+  const hasFailures = printChangeReport(created, 'Change Set Summary');
+  const changeSets = new Map<string, NamedChangeSet>();
+  for (const [i, { changeSet }] of created.entries()) {
+    if (changeSet && changeSet.changes.length > 0) {
+      changeSets.set(tasks[i].id, changeSet);
     }
   }
 
-  // Generate template with merged data
-  const template = generateOrgStackTemplate({
-    orgSlug,
-    cicdAccountId,
-    targetAccountIds,
-    oidcProviderUrl,
-    additionalTrustedAccounts,
-    skipOidc,
-  });
+  // Executing only some of the change sets could leave stacks without what they depend on
+  if (hasFailures) {
+    await discardChangeSets([...changeSets.values()], credentialCache);
+    throw new ChangeSetCreationError(created.filter(r => r.error).length);
+  }
 
-  const deployOptions = {
-    stackName: plan.orgStack.stackName,
-    template,
-    accountId: cicdAccountId,
-    region: cicdRegion,
-    credentials,
-  };
+  if (changeSets.size === 0) {
+    logger.newline();
+    logger.success('No stack has changes, nothing to deploy');
+    await deleteRunJournal(run.basePath);
+    await markPipelinesBootstrapped(pipelines, authData);
+    process.exit(0);
+  }
 
-  // Preview changes
-  await previewStackChanges(deployOptions);
+  const decision = await chooseChangeSetAction(changeSets.size);
 
-  // Deploy
-  await deployStack(deployOptions);
+  if (decision === 'discard') {
+    await discardChangeSets([...changeSets.values()], credentialCache);
+    logger.info('Change sets discarded. Nothing was deployed.');
+    process.exit(0);
+  }
+
+  if (decision === 'keep') {
+    logger.newline();
+    logger.info(`Change sets ${changeSetName} are pending on ${changeSets.size} stack(s).`);
+    logger.info('Execute them with devramps apply-change-sets, which runs them in dependency order,');
+    logger.info('or from the CloudFormation console: Account stacks first, then the Org stack, then the rest.');
+    process.exit(0);
+  }
+
+  // Stacks without changes are already up to date
+  const unchanged = new Set(tasks.filter(t => !changeSets.has(t.id)).map(t => t.id));
+  for (const id of unchanged) {
+    recordStackOutcome(run.journal, id, 'succeeded');
+  }
+
+  await executeDeployment(
+    plan,
+    pipelines,
+    authData,
+    credentialCache,
+    withoutTasks(tasks, unchanged),
+    async (task) => executeNamedChangeSet(
+      changeSets.get(task.id)!,
+      await credentialCache.get(task.stack.accountId),
+      getStackProtection(task.stack, renderStackTemplate(task.stack, renderOptions))
+    ),
+    run,
+    schedule
+  );
 }
 
 /**
- * Deploy a pipeline stack
+ * Bring stacks that can't be deployed over back to a deployable state: wait
+ * for running operations, continue failed rollbacks and delete stacks that
+ * were rolled back on creation or never created. Continuing a rollback,
+ * deleting a stack that still holds data resources, and discarding a change
+ * set pending review (unless pendingChangeSets is 'discard') need
+ * confirmation; without a prompt (when applying a saved plan) those stacks
+ * stop the deployment instead. With pendingChangeSets 'keep', stacks that
+ * were never created are left in review.
  */
-async function deployPipelineStack(
-  stack: PipelineStackDeployment,
-  authData: AuthData,
-  currentAccountId: string,
-  options: BootstrapOptions
+async function recoverStuckStacks(
+  stacks: StackDeployment[],
+  credentialCache: CredentialCache,
+  waitTimeoutMinutes: number,
+  interactive: boolean,
+  pendingChangeSets: 'keep' | 'ask' | 'discard'
 ): Promise<void> {
-  const { cicdAccountId, cicdRegion } = authData;
-
-  // Get credentials for CI/CD account
-  const credentials = cicdAccountId !== currentAccountId
-    ? (await assumeRoleForAccount({
-        targetAccountId: cicdAccountId,
-        currentAccountId,
-        targetRoleName: options.targetAccountRoleName,
-      }))?.credentials
-    : undefined;
-
-  // Generate template
-  const template = generatePipelineStackTemplate({
-    pipelineSlug: stack.pipelineSlug,
-    cicdAccountId,
-    dockerArtifacts: stack.dockerArtifacts,
-    bundleArtifacts: stack.bundleArtifacts,
-    stageAccountIds: stack.stageAccountIds,
+  const stuck = stacks.filter(s => {
+    const recovery = getStackRecovery(s.remote);
+    return recovery !== 'none' && !(recovery === 'discard-review' && pendingChangeSets === 'keep');
   });
+  if (stuck.length === 0) {
+    return;
+  }
 
-  const deployOptions = {
-    stackName: stack.stackName,
-    template,
-    accountId: cicdAccountId,
-    region: cicdRegion,
-    credentials,
-  };
+  logger.newline();
+  logger.header('Recovering Stacks');
+
+  // One at a time, since recovering a stack may need a prompt
+  for (const stack of stuck) {
+    // Waits and prompts can outlast a session, so credentials are taken from
+    // the cache (which renews sessions about to expire) for every call
+    const credentials = () => credentialCache.get(stack.accountId);
+    const label = `${stack.stackName} (${stack.accountId}, ${stack.region})`;
+    const recoveryError = (cause: string) => new StackRecoveryError(stack.stackName, stack.accountId, cause);
+
+    if (getStackRecovery(stack.remote) === 'wait') {
+      const spinner = ora(`Waiting for ${label} to finish ${stack.remote.status}...`).start();
+      const settled = await waitForStackToSettle(stack.stackName, credentials, stack.region, waitTimeoutMinutes * 60);
+      if (getStackRecovery(settled) === 'wait') {
+        spinner.fail(`${label} is still ${settled.status}`);
+        throw recoveryError(`still ${settled.status} after ${waitTimeoutMinutes} minute(s); run bootstrap again later or raise --stack-wait-timeout`);
+      }
+      spinner.succeed(`${label} is now ${settled.status ?? 'deleted'}`);
+      Object.assign(stack, await determineStackState(stack.stackName, await credentials(), stack.region));
+    }
 
-  // Preview changes
-  await previewStackChanges(deployOptions);
+    const recovery = getStackRecovery(stack.remote);
+    if (recovery === 'none') {
+      continue;
+    }
 
-  // Deploy
-  await deployStack(deployOptions);
-}
+    // Never created: the stack only holds change sets, which a teammate may have left for review
+    if (recovery === 'discard-review') {
+      const pending = await findPendingChangeSet(stack.stackName, stack.accountId, await credentials(), stack.region);
+      if (pending && pendingChangeSets !== 'discard') {
+        logger.warn(`${label} holds change set ${pending.changeSetName}, pending review.`);
+        const nextSteps = 'execute or discard it with apply-change-sets, or pass --discard-pending-change-sets';
+        if (!interactive) {
+          throw recoveryError(`discarding its pending change set needs confirmation; ${nextSteps}`);
+        }
+        if (!(await confirmChangeSetDiscard(stack.stackName, pending.changeSetName))) {
+          throw recoveryError(`its pending change set was not discarded; ${nextSteps}`);
+        }
+      }
 
-/**
- * Deploy an account bootstrap stack (creates OIDC provider)
- */
-async function deployAccountStack(
-  stack: AccountStackDeployment,
-  currentAccountId: string,
-  options: BootstrapOptions,
-  oidcProviderUrl?: string
-): Promise<void> {
-  // Get credentials for target account
-  const credentials = stack.accountId !== currentAccountId
-    ? (await assumeRoleForAccount({
-        targetAccountId: stack.accountId,
-        currentAccountId,
-        targetRoleName: options.targetAccountRoleName,
-      }))?.credentials
-    : undefined;
-
-  // Generate template
-  const template = generateAccountStackTemplate({ oidcProviderUrl });
+      const spinner = ora(`Deleting ${label}, which was never created, so it can be created...`).start();
+      await deleteStackAndWait(stack.stackName, await credentials(), stack.region);
+      spinner.succeed(`Deleted ${label}${pending ? ` and change set ${pending.changeSetName}` : ''}`);
+      stack.action = 'CREATE';
+      stack.remote = { exists: false };
+      continue;
+    }
 
-  const deployOptions = {
-    stackName: stack.stackName,
-    template,
-    accountId: stack.accountId,
-    region: stack.region,
-    credentials,
-  };
+    const resources = await describeStackResourceStates(stack.stackName, await credentials(), stack.region);
 
-  // Preview changes
-  await previewStackChanges(deployOptions);
+    if (recovery === 'finish-delete') {
+      const failed = resources
+        .filter(r => r.status === 'DELETE_FAILED')
+        .map(r => `${r.logicalId}: ${r.reason ?? 'no reason given'}`);
+      throw recoveryError(
+        `its deletion failed${failed.length > 0 ? ` (${failed.join('; ')})` : ''}. ` +
+        'Empty or remove the resources that could not be deleted, delete the stack from the CloudFormation console, then run bootstrap again'
+      );
+    }
 
-  // Deploy
-  await deployStack(deployOptions);
-}
+    if (recovery === 'continue-rollback') {
+      const blockers = findRollbackBlockers(resources);
+      logger.warn(`${label} failed to roll back an update.`);
+      for (const resource of blockers) {
+        logger.info(`  ${resource.logicalId} (${resource.resourceType}): ${resource.reason ?? resource.status}`);
+      }
+      if (!interactive) {
+        throw recoveryError('continuing its rollback needs confirmation; run bootstrap without --apply-plan');
+      }
 
-/**
- * Deploy a stage stack
- */
-async function deployStageStack(
-  stack: StageStackDeployment,
-  authData: AuthData,
-  currentAccountId: string,
-  options: BootstrapOptions,
-  oidcProviderUrl?: string,
-  additionalTrustedAccounts?: string[],
-  skipOidc?: boolean
-): Promise<void> {
-  // Get credentials for stage account
-  const credentials = stack.accountId !== currentAccountId
-    ? (await assumeRoleForAccount({
-        targetAccountId: stack.accountId,
-        currentAccountId,
-        targetRoleName: options.targetAccountRoleName,
-      }))?.credentials
-    : undefined;
-
-  // Note: OIDC provider is created by the Account Bootstrap stack (deployed in Phase 2)
-
-  // Generate template
-  const template = generateStageStackTemplate({
-    pipelineSlug: stack.pipelineSlug,
-    stageName: stack.stageName,
-    orgSlug: stack.orgSlug,
-    accountId: stack.accountId,
-    steps: stack.steps,
-    additionalPolicies: stack.additionalPolicies,
-    dockerArtifacts: stack.dockerArtifacts,
-    bundleArtifacts: stack.bundleArtifacts,
-    oidcProviderUrl,
-    additionalTrustedAccounts,
-    skipOidc,
-  });
+      const skip = await chooseRollbackResourcesToSkip(stack.stackName, blockers.map(r => r.logicalId));
+      if (!skip) {
+        throw recoveryError('the rollback was not continued');
+      }
 
-  const deployOptions = {
-    stackName: stack.stackName,
-    template,
-    accountId: stack.accountId,
-    region: stack.region,
-    credentials,
-  };
+      const spinner = ora(`Continuing the rollback of ${label}...`).start();
+      const settled = await continueUpdateRollback(stack.stackName, credentials, stack.region, skip, waitTimeoutMinutes * 60);
+      if (settled.status !== 'UPDATE_ROLLBACK_COMPLETE') {
+        spinner.fail(`${label} is ${settled.status}`);
+        throw recoveryError(`the rollback ended in ${settled.status}`);
+      }
+      spinner.succeed(`${label} rolled back`);
+      Object.assign(stack, await determineStackState(stack.stackName, await credentials(), stack.region));
+      continue;
+    }
 
-  // Preview changes
-  await previewStackChanges(deployOptions);
+    // Rolled back on creation: only deleting it lets it be created again
+    const dataResources = findDataResources(resources);
+    if (dataResources.length > 0) {
+      logger.warn(`${label} is ${stack.remote.status} but still holds data resources:`);
+      for (const resource of dataResources) {
+        logger.info(`  ${resource.logicalId} (${resource.resourceType}) ${resource.physicalId ?? ''}`.trimEnd());
+      }
+      if (!interactive) {
+        throw recoveryError('deleting it needs confirmation because it still holds data resources; run bootstrap without --apply-plan');
+      }
+      if (!(await confirmStackDeletion(stack.stackName, dataResources.length))) {
+        throw recoveryError('deleting it was not confirmed');
+      }
+    }
 
-  // Deploy
-  await deployStack(deployOptions);
+    const spinner = ora(`Deleting ${label} so it can be created again...`).start();
+    await deleteStackAndWait(stack.stackName, await credentials(), stack.region);
+    spinner.succeed(`Deleted ${label}`);
+    stack.action = 'CREATE';
+    stack.remote = { exists: false };
+  }
 }
 
 /**
- * Deploy an import stack (creates import role for reading external artifacts)
+ * Deploy one planned stack with its account's credentials
  */
-async function deployImportStack(
-  stack: ImportStackDeployment,
-  currentAccountId: string,
-  options: BootstrapOptions,
-  oidcProviderUrl?: string,
-  additionalTrustedAccounts?: string[],
-  skipOidc?: boolean
+async function deployPlannedStack(
+  stack: StackDeployment,
+  credentialCache: CredentialCache,
+  renderOptions: TemplateRenderOptions
 ): Promise<void> {
-  // Get credentials for the import source account
-  const credentials = stack.accountId !== currentAccountId
-    ? (await assumeRoleForAccount({
-        targetAccountId: stack.accountId,
-        currentAccountId,
-        targetRoleName: options.targetAccountRoleName,
-      }))?.credentials
-    : undefined;
-
-  // Generate template
-  const template = generateImportStackTemplate({
-    pipelineSlug: stack.pipelineSlug,
-    orgSlug: stack.orgSlug,
-    accountId: stack.accountId,
-    oidcProviderUrl,
-    additionalTrustedAccounts,
-    skipOidc,
-  });
+  const credentials = await credentialCache.get(stack.accountId);
+
+  // The org stack's bucket policy was already merged at plan time
+  const template = renderStackTemplate(stack, renderOptions);
 
   const deployOptions = {
     stackName: stack.stackName,
@@ -938,6 +815,8 @@ async function deployImportStack(
     accountId: stack.accountId,
     region: stack.region,
     credentials,
+    templateHash: hashTemplate(template),
+    protection: getStackProtection(stack, template),
   };
 
   // Preview changes
@@ -946,87 +825,3 @@ async function deployImportStack(
   // Deploy
   await deployStack(deployOptions);
 }
-
-/**
- * After a successful bootstrap, notify the backend that each pipeline
- * has been bootstrapped with its current definition hash. This enables
- * the UI to show whether a pipeline's infrastructure is up to date.
- */
-async function markPipelinesBootstrapped(
-  pipelines: ParsedPipeline[],
-  authData: AuthData
-): Promise<void> {
-  logger.newline();
-  const spinner = ora('Registering bootstrap status...').start();
-
-  // Fetch all pipelines once to map slug -> id
-  let pipelineMap: Map<string, string>;
-  try {
-    const listUrl = `${authData.apiBaseUrl}/api/v1/organizations/${authData.organizationId}/pipelines?limit=100`;
-    const listRes = await fetch(listUrl, {
-      headers: {
-        Authorization: `Bearer ${authData.accessToken}`,
-        Accept: 'application/json',
-      },
-    });
-
-    if (!listRes.ok) {
-      spinner.warn(`Could not register bootstrap status: failed to list pipelines (${listRes.status})`);
-      return;
-    }
-
-    const listData = await listRes.json() as { pipelines: { id: string; slug: string }[] };
-    pipelineMap = new Map(listData.pipelines.map(p => [p.slug, p.id]));
-  } catch (error) {
-    spinner.warn(`Could not register bootstrap status: ${error instanceof Error ? error.message : String(error)}`);
-    return;
-  }
-
-  let succeeded = 0;
-  let failed = 0;
-
-  for (const pipeline of pipelines) {
-    const pipelineId = pipelineMap.get(pipeline.slug);
-    if (!pipelineId) {
-      logger.verbose(`Pipeline ${pipeline.slug} not found in backend — skipping mark-bootstrapped`);
-      failed++;
-      continue;
-    }
-
-    const definitionHash = createHash('sha256')
-      .update(JSON.stringify(pipeline.definition))
-      .digest('hex');
-
-    try {
-      const url = `${authData.apiBaseUrl}/api/v1/organizations/${authData.organizationId}/pipelines/${pipelineId}/mark-bootstrapped`;
-      const res = await fetch(url, {
-        method: 'POST',
-        headers: {
-          Authorization: `Bearer ${authData.accessToken}`,
-          'Content-Type': 'application/json',
-          Accept: 'application/json',
-        },
-        body: JSON.stringify({ definitionHash }),
-      });
-
-      if (res.ok) {
-        logger.verbose(`Marked ${pipeline.slug} as bootstrapped (hash: ${definitionHash.slice(0, 12)}...)`);
-        succeeded++;
-      } else {
-        logger.verbose(`Failed to mark ${pipeline.slug} as bootstrapped: ${res.status}`);
-        failed++;
-      }
-    } catch (error) {
-      logger.verbose(`Error marking ${pipeline.slug} as bootstrapped: ${error instanceof Error ? error.message : String(error)}`);
-      failed++;
-    }
-  }
-
-  if (failed === 0) {
-    spinner.succeed(`Bootstrap status registered for ${succeeded} pipeline(s)`);
-  } else if (succeeded > 0) {
-    spinner.warn(`Bootstrap status registered for ${succeeded} pipeline(s), ${failed} failed (non-fatal)`);
-  } else {
-    spinner.warn('Could not register bootstrap status (non-fatal)');
-  }
-}
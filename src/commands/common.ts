@@ -0,0 +1,462 @@
+/**
+ * Shared setup for commands that operate on bootstrapped stacks
+ *
+ * Handles DevRamps authentication and pipeline discovery so that bootstrap,
+ * destroy and friends resolve the same org and the same set of pipelines,
+ * and the change reports and deployment progress they share.
+ */
+
+import { createHash } from 'node:crypto';
+import chalk from 'chalk';
+import ora, { type Ora } from 'ora';
+import { authenticateViaBrowser } from '../auth/browser-auth.js';
+import { loadCredentials, saveCredentials } from '../auth/credential-store.js';
+import { findDevrampsPipelines, parsePipeline } from '../parsers/pipeline.js';
+import { parseArtifacts } from '../parsers/artifacts.js';
+import { parsePolicyLintSuppressions } from '../parsers/policy-lint-suppressions.js';
+import { lintDeploymentPlan } from '../policy/index.js';
+import { getStackHealth } from '../plan/index.js';
+import { groupDiffsByLocation, summarizeDiffs, isStatefulReplacement, type StackDiffResult } from '../plan/diff.js';
+import type { StackTask } from '../plan/dependencies.js';
+import { discardNamedChangeSet, getActionSymbol, type NamedChangeSet } from '../aws/cloudformation.js';
+import type { CredentialCache } from '../aws/credential-cache.js';
+import { InvalidOptionError } from '../utils/errors.js';
+import * as logger from '../utils/logger.js';
+import { getMultiStackProgress, clearMultiStackProgress } from '../utils/logger.js';
+import { runDag, type DagOptions, type DagResult } from '../utils/scheduler.js';
+import { mapWithConcurrency } from '../utils/concurrency.js';
+import type { TemplateRenderOptions } from '../templates/index.js';
+import type { AuthData } from '../types/config.js';
+import { StackType, type DeploymentPlan, type StackDeployment } from '../types/stacks.js';
+import type { ParsedPipeline } from '../types/pipeline.js';
+import type { ParsedArtifacts } from '../types/artifacts.js';
+
+/** Stacks deployed at once unless --max-concurrency says otherwise */
+export const DEFAULT_MAX_CONCURRENCY = 10;
+
+export interface LoadedPipelines {
+  pipelines: ParsedPipeline[];
+  pipelineArtifacts: Map<string, ParsedArtifacts>;
+}
+
+/**
+ * Authenticate with DevRamps, using stored credentials if available
+ */
+export async function resolveAuthData(endpointOverride?: string): Promise<AuthData> {
+  let authData = endpointOverride ? null : await loadCredentials();
+  if (authData) {
+    logger.info(`Using stored credentials for ${authData.orgSlug}`);
+  } else {
+    authData = await authenticateViaBrowser({ endpointOverride });
+    await saveCredentials(authData, authData.expiresIn);
+  }
+  return authData;
+}
+
+/**
+ * Parse a comma-separated --pipeline-slugs option
+ */
+export function parseSlugList(value?: string): string[] | undefined {
+  return value ? value.split(',').map(s => s.trim()) : undefined;
+}
+
+/**
+ * Parse a numeric option such as --plan-concurrency, which must be a
+ * positive integer
+ */
+export function parsePositiveInteger(value: string | undefined, flag: string, defaultValue: number): number {
+  if (value === undefined) return defaultValue;
+  const parsed = Number(value);
+  if (!Number.isInteger(parsed) || parsed < 1) {
+    throw new InvalidOptionError(flag, value, 'a positive integer');
+  }
+  return parsed;
+}
+
+/**
+ * Find and parse pipelines (and their artifacts) under .devramps/
+ * Exits the process if no pipelines are found.
+ */
+export async function loadPipelines(
+  basePath: string,
+  pipelineSlugsOption: string | undefined,
+  spinner: Ora
+): Promise<LoadedPipelines> {
+  spinner.start('Finding pipelines...');
+  const pipelineSlugs = await findDevrampsPipelines(basePath, parseSlugList(pipelineSlugsOption));
+
+  if (pipelineSlugs.length === 0) {
+    spinner.fail('No pipelines found');
+    logger.error('No pipeline.yaml files found in .devramps/ folder.');
+    process.exit(1);
+  }
+
+  spinner.text = `Parsing ${pipelineSlugs.length} pipeline(s)...`;
+
+  const pipelines: ParsedPipeline[] = [];
+  const pipelineArtifacts: Map<string, ParsedArtifacts> = new Map();
+
+  for (const slug of pipelineSlugs) {
+    const pipeline = await parsePipeline(basePath, slug);
+    pipelines.push(pipeline);
+
+    // Parse artifacts for this pipeline
+    const artifacts = parseArtifacts(pipeline.definition, pipeline.source);
+    pipelineArtifacts.set(slug, artifacts);
+  }
+
+  spinner.succeed(`Found ${pipelines.length} pipeline(s)`);
+
+  return { pipelines, pipelineArtifacts };
+}
+
+/**
+ * Template render options derived from --endpoint-override and
+ * --additional-trusted-accounts
+ */
+export function getTemplateRenderOptions(
+  endpointOverride?: string,
+  additionalTrustedAccounts?: string
+): TemplateRenderOptions {
+  return {
+    oidcProviderUrl: getOidcProviderUrlFromEndpoint(endpointOverride),
+    additionalTrustedAccounts: additionalTrustedAccounts
+      ? additionalTrustedAccounts.split(',').map(s => s.trim())
+      : undefined,
+    skipOidc: isLocalhostEndpoint(endpointOverride),
+  };
+}
+
+/**
+ * Extract the hostname from an endpoint override URL.
+ * e.g. "https://staging.devramps.com" -> "staging.devramps.com"
+ */
+function getOidcProviderUrlFromEndpoint(endpointOverride?: string): string | undefined {
+  if (!endpointOverride) return undefined;
+  try {
+    const url = new URL(endpointOverride);
+    return url.hostname;
+  } catch {
+    return undefined;
+  }
+}
+
+/**
+ * Check if the endpoint override points to localhost
+ */
+function isLocalhostEndpoint(endpointOverride?: string): boolean {
+  if (!endpointOverride) return false;
+  try {
+    const url = new URL(endpointOverride);
+    return url.hostname === 'localhost' || url.hostname === '127.0.0.1';
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Lint the IAM policies the plan would deploy and print the findings.
+ * Returns the number of unsuppressed errors.
+ */
+export async function lintPlanPolicies(
+  basePath: string,
+  plan: DeploymentPlan,
+  renderOptions: TemplateRenderOptions
+): Promise<number> {
+  const suppressions = await parsePolicyLintSuppressions(basePath);
+  const result = lintDeploymentPlan(plan, renderOptions, suppressions);
+
+  for (const suppression of result.unusedSuppressions) {
+    logger.warn(`Policy lint suppression for ${suppression.rule} matches no finding and can be removed`);
+  }
+  logger.verbose(`${result.suppressed.length} policy lint finding(s) suppressed`);
+
+  if (result.findings.length === 0) {
+    return 0;
+  }
+
+  logger.newline();
+  logger.header('IAM Policy Lint');
+
+  for (const finding of result.findings) {
+    const where = `${finding.stackName} ${finding.policyName}${finding.sid ? ` (${finding.sid})` : ''}`;
+    const line = `${where}: ${finding.message} [${finding.rule}]`;
+    if (finding.severity === 'error') {
+      logger.error(line);
+    } else {
+      logger.warn(line);
+    }
+  }
+
+  return result.findings.filter(f => f.severity === 'error').length;
+}
+
+/**
+ * Warn about deployed stacks in a failed or in-progress state, or holding a
+ * change set under review, which the deployment may not be able to update.
+ * Returns the number of such stacks.
+ */
+export function warnUnhealthyStacks(plan: DeploymentPlan): number {
+  const stacks = [
+    plan.orgStack,
+    ...plan.pipelineStacks,
+    ...plan.accountStacks,
+    ...plan.stageStacks,
+    ...plan.importStacks,
+  ].filter(stack => getStackHealth(stack.remote) !== 'ok');
+
+  if (stacks.length === 0) {
+    return 0;
+  }
+
+  logger.newline();
+  logger.header('Stacks Needing Attention');
+  for (const stack of stacks) {
+    const health = getStackHealth(stack.remote);
+    const label = health === 'failed' ? 'failed'
+      : health === 'in-review' ? 'change set pending review'
+      : 'still in progress';
+    logger.warn(`${stack.stackName} (${stack.accountId}, ${stack.region}): ${stack.remote.status} (${label})`);
+  }
+
+  return stacks.length;
+}
+
+/**
+ * Print the changes of every stack, grouped by account and region, with a
+ * summary under the given header. Returns true if any stack's changes could
+ * not be computed.
+ */
+export function printChangeReport(results: StackDiffResult[], summaryHeader: string): boolean {
+  for (const group of groupDiffsByLocation(results)) {
+    logger.newline();
+    logger.header(`Account ${group.accountId} / ${group.region}`);
+
+    for (const result of group.stacks) {
+      if (!result.changeSet) {
+        logger.error(`${result.stackName}: could not compute changes: ${result.error}`);
+        continue;
+      }
+
+      const { changeSet } = result;
+      const label = changeSet.isNew ? `${result.stackName} (new stack)` : result.stackName;
+
+      if (changeSet.changes.length === 0) {
+        logger.info(`${label}: no changes`);
+        continue;
+      }
+
+      logger.info(`${label}: ${changeSet.changes.length} change(s)`);
+      for (const change of changeSet.changes) {
+        const replacement = change.replacement === 'True'
+          ? ' (REPLACEMENT)'
+          : change.replacement === 'Conditional' ? ' (MAY REPLACE)' : '';
+        const line = `    ${getActionSymbol(change.action)} ${change.resourceType} ${change.logicalId}${replacement}`;
+        logger.info(isStatefulReplacement(change) ? chalk.red(`${line}  [stateful]`) : line);
+      }
+    }
+  }
+
+  const summary = summarizeDiffs(results);
+
+  logger.newline();
+  logger.header(summaryHeader);
+  logger.info(`${summary.add} to add, ${summary.modify} to modify, ${summary.remove} to remove across ${results.length} stack(s)`);
+
+  if (summary.statefulChanges.length > 0) {
+    logger.newline();
+    logger.warn(`${summary.statefulChanges.length} stateful resource(s) would be replaced or removed (data may be lost):`);
+    for (const { stackName, accountId, region, change } of summary.statefulChanges) {
+      logger.warn(`  ${change.resourceType} ${change.logicalId} in ${stackName} (${accountId}/${region})`);
+    }
+  }
+
+  if (summary.failedStacks > 0) {
+    logger.newline();
+    logger.error(`Could not compute changes for ${summary.failedStacks} stack(s).`);
+    return true;
+  }
+
+  return false;
+}
+
+/**
+ * Discard change sets that will not be executed, warning about any that
+ * could not be deleted
+ */
+export async function discardChangeSets(changeSets: NamedChangeSet[], credentialCache: CredentialCache): Promise<void> {
+  await mapWithConcurrency(changeSets, DEFAULT_MAX_CONCURRENCY, async (changeSet) => {
+    try {
+      await discardNamedChangeSet(changeSet, await credentialCache.get(changeSet.accountId));
+    } catch (error) {
+      logger.warn(
+        `Could not discard change set ${changeSet.changeSetName} of ${changeSet.stackName} (${changeSet.accountId}): ` +
+        `${error instanceof Error ? error.message : String(error)}`
+      );
+    }
+  });
+}
+
+export interface StackTaskOutcomes {
+  /** In task order */
+  results: DagResult[];
+  succeeded: number;
+  failed: number;
+  skipped: number;
+}
+
+/**
+ * Deploy stack tasks in dependency order behind one progress display, and
+ * report each stack's outcome
+ */
+export async function runStackTasks(
+  tasks: StackTask[],
+  deploy: (task: StackTask) => Promise<void>,
+  schedule: DagOptions
+): Promise<StackTaskOutcomes> {
+  const { maxConcurrency, failFast } = schedule;
+
+  logger.newline();
+  logger.header('Deploying Stacks');
+  logger.info(`Deploying ${tasks.length} stack(s), up to ${maxConcurrency} at a time${failFast ? '' : ' (continuing on errors)'}...`);
+  logger.newline();
+
+  const progress = getMultiStackProgress();
+  for (const { stack } of tasks) {
+    progress.addStack(stack.stackName, progressType(stack), stack.accountId, stack.region, progressResourceCount(stack));
+  }
+  progress.start();
+
+  const results = await runDag(tasks, deploy, schedule);
+
+  for (const [i, result] of results.entries()) {
+    if (result.outcome === 'skipped') {
+      const { stack } = tasks[i];
+      progress.completeStack(stack.stackName, stack.accountId, stack.region, false, 'SKIPPED');
+    }
+  }
+  clearMultiStackProgress();
+
+  const outcomes: StackTaskOutcomes = { results, succeeded: 0, failed: 0, skipped: 0 };
+  logger.newline();
+  for (const [i, result] of results.entries()) {
+    const label = `${tasks[i].stack.stackName} (${tasks[i].stack.accountId})`;
+    if (result.outcome === 'succeeded') {
+      logger.success(`${label} deployed`);
+      outcomes.succeeded++;
+    } else if (result.outcome === 'failed') {
+      logger.error(`${label} failed: ${result.error instanceof Error ? result.error.message : String(result.error)}`);
+      outcomes.failed++;
+    } else {
+      logger.warn(`${label} skipped: ${result.reason}`);
+      outcomes.skipped++;
+    }
+  }
+
+  return outcomes;
+}
+
+export function progressType(stack: StackDeployment): logger.StackType {
+  return stack.stackType.toLowerCase() as logger.StackType;
+}
+
+/**
+ * Resources counted toward a stack's progress bar
+ */
+export function progressResourceCount(stack: StackDeployment): number {
+  switch (stack.stackType) {
+    case StackType.ORG:
+      return 5;
+    case StackType.PIPELINE:
+      return Math.max(stack.dockerArtifacts.length + stack.bundleArtifacts.length, 1);
+    case StackType.STAGE:
+      return stack.dockerArtifacts.length + stack.bundleArtifacts.length + 2;
+    case StackType.ACCOUNT:
+    case StackType.IMPORT:
+      return 1;
+  }
+}
+
+/**
+ * After a successful bootstrap, notify the backend that each pipeline
+ * has been bootstrapped with its current definition hash. This enables
+ * the UI to show whether a pipeline's infrastructure is up to date.
+ */
+export async function markPipelinesBootstrapped(
+  pipelines: ParsedPipeline[],
+  authData: AuthData
+): Promise<void> {
+  logger.newline();
+  const spinner = ora('Registering bootstrap status...').start();
+
+  // Fetch all pipelines once to map slug -> id
+  let pipelineMap: Map<string, string>;
+  try {
+    const listUrl = `${authData.apiBaseUrl}/api/v1/organizations/${authData.organizationId}/pipelines?limit=100`;
+    const listRes = await fetch(listUrl, {
+      headers: {
+        Authorization: `Bearer ${authData.accessToken}`,
+        Accept: 'application/json',
+      },
+    });
+
+    if (!listRes.ok) {
+      spinner.warn(`Could not register bootstrap status: failed to list pipelines (${listRes.status})`);
+      return;
+    }
+
+    const listData = await listRes.json() as { pipelines: { id: string; slug: string }[] };
+    pipelineMap = new Map(listData.pipelines.map(p => [p.slug, p.id]));
+  } catch (error) {
+    spinner.warn(`Could not register bootstrap status: ${error instanceof Error ? error.message : String(error)}`);
+    return;
+  }
+
+  let succeeded = 0;
+  let failed = 0;
+
+  for (const pipeline of pipelines) {
+    const pipelineId = pipelineMap.get(pipeline.slug);
+    if (!pipelineId) {
+      logger.verbose(`Pipeline ${pipeline.slug} not found in backend — skipping mark-bootstrapped`);
+      failed++;
+      continue;
+    }
+
+    const definitionHash = createHash('sha256')
+      .update(JSON.stringify(pipeline.definition))
+      .digest('hex');
+
+    try {
+      const url = `${authData.apiBaseUrl}/api/v1/organizations/${authData.organizationId}/pipelines/${pipelineId}/mark-bootstrapped`;
+      const res = await fetch(url, {
+        method: 'POST',
+        headers: {
+          Authorization: `Bearer ${authData.accessToken}`,
+          'Content-Type': 'application/json',
+          Accept: 'application/json',
+        },
+        body: JSON.stringify({ definitionHash }),
+      });
+
+      if (res.ok) {
+        logger.verbose(`Marked ${pipeline.slug} as bootstrapped (hash: ${definitionHash.slice(0, 12)}...)`);
+        succeeded++;
+      } else {
+        logger.verbose(`Failed to mark ${pipeline.slug} as bootstrapped: ${res.status}`);
+        failed++;
+      }
+    } catch (error) {
+      logger.verbose(`Error marking ${pipeline.slug} as bootstrapped: ${error instanceof Error ? error.message : String(error)}`);
+      failed++;
+    }
+  }
+
+  if (failed === 0) {
+    spinner.succeed(`Bootstrap status registered for ${succeeded} pipeline(s)`);
+  } else if (succeeded > 0) {
+    spinner.warn(`Bootstrap status registered for ${succeeded} pipeline(s), ${failed} failed (non-fatal)`);
+  } else {
+    spinner.warn('Could not register bootstrap status (non-fatal)');
+  }
+}
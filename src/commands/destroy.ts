@@ -0,0 +1,458 @@
+/**
+ * Destroy command implementation
+ *
+ * Tears down the stacks that bootstrap created for the selected pipelines,
+ * in the reverse of the bootstrap phase order:
+ * 1. Org, Pipeline, Stage and Import stacks (in parallel)
+ * 2. Account stacks (OIDC provider), once nothing depends on them
+ *
+ * The Org stack and per-account OIDC stacks are shared across pipelines, so
+ * they are kept while any pipeline outside the selection still uses them.
+ * Other pipelines are looked for in every region that a local pipeline
+ * deploys to in the account. If a local pipeline cannot be parsed, its
+ * regions are unknown and the OIDC stacks are kept.
+ */
+
+import ora from 'ora';
+import { getCurrentIdentity } from '../aws/credentials.js';
+import { CredentialCache, type CredentialResolver } from '../aws/credential-cache.js';
+import { destroyStack, listDevRampsStacks, readExistingStack } from '../aws/cloudformation.js';
+import { deleteBucket, deleteEcrRepository, emptyBucket, emptyEcrRepository } from '../aws/cleanup.js';
+import { findDevrampsPipelines, parsePipeline } from '../parsers/pipeline.js';
+import { buildDeploymentPlan, DEFAULT_PLAN_CONCURRENCY } from '../plan/index.js';
+import { DevRampsError } from '../utils/errors.js';
+import * as logger from '../utils/logger.js';
+import { setVerbose, getMultiStackProgress, clearMultiStackProgress } from '../utils/logger.js';
+import { confirmDestroy } from '../utils/prompts.js';
+import { resolveAuthData, loadPipelines, parsePositiveInteger } from './common.js';
+import type { DestroyOptions } from '../types/config.js';
+import type { ParsedPipeline } from '../types/pipeline.js';
+import { StackType, type DeploymentPlan, type StackDeployment } from '../types/stacks.js';
+import type { AwsCredentialIdentity } from '@aws-sdk/types';
+
+/**
+ * A stack selected for deletion, or kept because something else still uses it
+ */
+export interface DestroyTarget {
+  stack: StackDeployment;
+  action: 'DELETE' | 'RETAIN';
+  reason?: string;
+}
+
+/**
+ * The regions each account has stages in across the local pipelines, and the
+ * pipelines whose definitions could not be read
+ */
+export interface LocalStageRegions {
+  regions: Map<string, Set<string>>;
+  unparsedSlugs: string[];
+}
+
+/**
+ * A bucket or repository emptied before its stack was deleted
+ */
+interface EmptiedResource {
+  type: 'AWS::S3::Bucket' | 'AWS::ECR::Repository';
+  name: string;
+}
+
+export async function destroyCommand(options: DestroyOptions): Promise<void> {
+  try {
+    if (options.verbose) {
+      setVerbose(true);
+    }
+
+    logger.header('DevRamps Destroy');
+
+    // Step 1: Check AWS credentials
+    const spinner = ora('Checking AWS credentials...').start();
+    const identity = await getCurrentIdentity();
+    spinner.succeed(`Authenticated as ${identity.arn}`);
+
+    // Step 2: Authenticate with DevRamps
+    const authData = await resolveAuthData(options.endpointOverride);
+
+    // Step 3: Find and parse the selected pipelines
+    const basePath = process.cwd();
+    const { pipelines, pipelineArtifacts } = await loadPipelines(basePath, options.pipelineSlugs, spinner);
+
+    // Step 4: Compute the stacks these pipelines own
+    spinner.start('Building deployment plan...');
+    const credentialCache = new CredentialCache(identity.accountId, options.targetAccountRoleName);
+    const plan = await buildDeploymentPlan(
+      pipelines,
+      pipelineArtifacts,
+      authData,
+      credentialCache,
+      parsePositiveInteger(options.planConcurrency, '--plan-concurrency', DEFAULT_PLAN_CONCURRENCY)
+    );
+    const resolveCredentials = credentialCache.resolve;
+
+    spinner.text = 'Checking which shared stacks are still in use...';
+    const selectedSlugs = new Set(pipelines.map(p => p.slug));
+    const stageRegions = await collectStageRegions(basePath);
+    const targets = await resolveDestroyTargets(plan, selectedSlugs, stageRegions, resolveCredentials);
+    spinner.succeed('Destroy plan ready');
+
+    const toDelete = targets.filter(t => t.action === 'DELETE');
+    if (toDelete.length === 0) {
+      logger.info('No deployed stacks found for the selected pipelines. Nothing to destroy.');
+      process.exit(0);
+    }
+
+    // Step 5: Confirm with user
+    if (options.dryRun) {
+      showDestroyPlan(targets);
+      logger.info('Dry run complete. No changes were made.');
+      process.exit(0);
+    }
+
+    if (!options.yes) {
+      const confirmed = await confirmDestroy(
+        plan.orgSlug,
+        targets.map(t => ({
+          accountId: t.stack.accountId,
+          region: t.stack.region,
+          stackName: t.stack.stackName,
+          action: t.action,
+          reason: t.reason,
+        }))
+      );
+      if (!confirmed) {
+        logger.info('Destroy cancelled by user.');
+        process.exit(0);
+      }
+    }
+
+    // Step 6: Delete stacks in reverse phase order
+    await executeDestroy(toDelete, options, resolveCredentials);
+
+  } catch (error) {
+    if (error instanceof DevRampsError) {
+      logger.error(error.message);
+      process.exit(1);
+    }
+
+    logger.error(`Unexpected error: ${error instanceof Error ? error.message : String(error)}`);
+    if (logger.isVerbose() && error instanceof Error && error.stack) {
+      console.error(error.stack);
+    }
+    process.exit(1);
+  }
+}
+
+/**
+ * Decide which stacks in the plan to delete.
+ *
+ * Stacks that were never deployed are ignored. The Org stack is kept while any
+ * other pipeline has a Pipeline stack in the CI/CD account, and an Account stack
+ * is kept while any other pipeline has Stage or Import stacks in that account
+ * (or, for the CI/CD account, while the Org stack is kept). Other pipelines'
+ * stacks are looked for in the regions given for each account; when a local
+ * pipeline could not be parsed, every Account stack is kept.
+ */
+export async function resolveDestroyTargets(
+  plan: DeploymentPlan,
+  selectedSlugs: Set<string>,
+  stageRegions: LocalStageRegions,
+  resolveCredentials: CredentialResolver
+): Promise<DestroyTarget[]> {
+  const targets: DestroyTarget[] = [];
+
+  const findOtherPipelines = async (accountId: string, regions: string[]): Promise<string[]> => {
+    const credentials = await resolveCredentials(accountId);
+    const others = new Set<string>();
+
+    for (const region of regions) {
+      const stacks = await listDevRampsStacks(credentials, region);
+      for (const stack of stacks) {
+        const slug = stack.outputs.PipelineSlug;
+        if (slug && !selectedSlugs.has(slug)) {
+          others.add(slug);
+        }
+      }
+    }
+
+    return Array.from(others);
+  };
+
+  // Org stack
+  let orgRetained = false;
+  if (plan.orgStack.action === 'UPDATE') {
+    try {
+      const others = await findOtherPipelines(plan.cicdAccountId, [plan.cicdRegion]);
+      if (others.length > 0) {
+        orgRetained = true;
+        targets.push({
+          stack: plan.orgStack,
+          action: 'RETAIN',
+          reason: `still used by pipeline(s): ${others.join(', ')}`,
+        });
+      } else {
+        targets.push({ stack: plan.orgStack, action: 'DELETE' });
+      }
+    } catch (error) {
+      orgRetained = true;
+      targets.push({
+        stack: plan.orgStack,
+        action: 'RETAIN',
+        reason: `could not check for other pipelines (${error instanceof Error ? error.message : String(error)})`,
+      });
+    }
+  }
+
+  // Pipeline, Stage and Import stacks belong to the selected pipelines only
+  for (const stack of [...plan.pipelineStacks, ...plan.stageStacks, ...plan.importStacks]) {
+    if (stack.action === 'UPDATE') {
+      targets.push({ stack, action: 'DELETE' });
+    }
+  }
+
+  // Account stacks (OIDC provider), shared by every pipeline in the account
+  for (const stack of plan.accountStacks) {
+    if (stack.action !== 'UPDATE') continue;
+
+    // The Org stack relies on the CI/CD account's OIDC provider
+    if (stack.accountId === plan.cicdAccountId && orgRetained) {
+      targets.push({ stack, action: 'RETAIN', reason: 'the Org stack still uses this OIDC provider' });
+      continue;
+    }
+
+    // Their stages may be in regions that are not searched below
+    if (stageRegions.unparsedSlugs.length > 0) {
+      targets.push({
+        stack,
+        action: 'RETAIN',
+        reason: `could not parse pipeline(s) ${stageRegions.unparsedSlugs.join(', ')}, which may still use it`,
+      });
+      continue;
+    }
+
+    const regions = new Set<string>([
+      plan.cicdRegion,
+      stack.region,
+      ...(stageRegions.regions.get(stack.accountId) ?? []),
+    ]);
+    for (const stageStack of plan.stageStacks) {
+      if (stageStack.accountId === stack.accountId) {
+        regions.add(stageStack.region);
+      }
+    }
+
+    try {
+      const others = await findOtherPipelines(stack.accountId, Array.from(regions));
+      if (others.length > 0) {
+        targets.push({
+          stack,
+          action: 'RETAIN',
+          reason: `still used by pipeline(s): ${others.join(', ')}`,
+        });
+      } else {
+        targets.push({ stack, action: 'DELETE' });
+      }
+    } catch (error) {
+      targets.push({
+        stack,
+        action: 'RETAIN',
+        reason: `could not check for other pipelines (${error instanceof Error ? error.message : String(error)})`,
+      });
+    }
+  }
+
+  return targets;
+}
+
+/**
+ * The regions each account has stages in, across every local pipeline (not
+ * just the selected ones), so that other pipelines' stacks in those regions
+ * keep the account's shared OIDC stack in place. Pipelines that fail to parse
+ * are reported with a warning rather than failing the destroy.
+ */
+async function collectStageRegions(basePath: string): Promise<LocalStageRegions> {
+  const regions = new Map<string, Set<string>>();
+  const unparsedSlugs: string[] = [];
+
+  for (const slug of await findDevrampsPipelines(basePath)) {
+    let pipeline: ParsedPipeline;
+    try {
+      pipeline = await parsePipeline(basePath, slug);
+    } catch (error) {
+      logger.warn(
+        `Could not parse pipeline ${slug}, so OIDC stacks will be kept: ${error instanceof Error ? error.message : String(error)}`
+      );
+      unparsedSlugs.push(slug);
+      continue;
+    }
+
+    for (const stage of pipeline.stages) {
+      const accountRegions = regions.get(stage.account_id) ?? new Set<string>();
+      accountRegions.add(stage.region);
+      regions.set(stage.account_id, accountRegions);
+    }
+  }
+
+  return { regions, unparsedSlugs };
+}
+
+/**
+ * Print the destroy plan without making changes
+ */
+function showDestroyPlan(targets: DestroyTarget[]): void {
+  logger.newline();
+  logger.header('Destroy Plan (Dry Run)');
+
+  for (const target of targets) {
+    const { stack } = target;
+    logger.info(`  ${target.action}: ${stack.stackName}`);
+    logger.info(`    Account: ${stack.accountId}, Region: ${stack.region}`);
+    if (target.reason) {
+      logger.info(`    Kept: ${target.reason}`);
+    }
+  }
+  logger.newline();
+}
+
+/**
+ * Delete stacks: everything but Account stacks first, then Account stacks
+ * once all stacks that depend on their OIDC providers are gone.
+ */
+export async function executeDestroy(
+  targets: DestroyTarget[],
+  options: DestroyOptions,
+  resolveCredentials: CredentialResolver
+): Promise<void> {
+  const results = { success: 0, failed: 0 };
+
+  const accountTargets = targets.filter(t => t.stack.stackType === StackType.ACCOUNT);
+  const mainTargets = targets.filter(t => t.stack.stackType !== StackType.ACCOUNT);
+
+  const runPhase = async (phaseTargets: DestroyTarget[]) => {
+    const progress = getMultiStackProgress();
+    for (const { stack } of phaseTargets) {
+      progress.addStack(stack.stackName, stack.stackType.toLowerCase() as logger.StackType, stack.accountId, stack.region, 0);
+    }
+    progress.start('Deleting Stacks');
+
+    const phaseResults = await Promise.all(
+      phaseTargets.map(async ({ stack }) => {
+        const label = `${stack.stackName} (${stack.accountId})`;
+        try {
+          const credentials = await resolveCredentials(stack.accountId);
+          const emptied = await emptyStackResources(stack, credentials, options);
+          await destroyStack({
+            stackName: stack.stackName,
+            accountId: stack.accountId,
+            region: stack.region,
+            credentials,
+          });
+          await deleteRetainedResources(emptied, stack.region, credentials);
+          return { stack: label, success: true };
+        } catch (error) {
+          return {
+            stack: label,
+            success: false,
+            error: error instanceof Error ? error.message : String(error),
+          };
+        }
+      })
+    );
+
+    clearMultiStackProgress();
+
+    logger.newline();
+    for (const result of phaseResults) {
+      if (result.success) {
+        logger.success(`${result.stack} deleted`);
+        results.success++;
+      } else {
+        logger.error(`${result.stack} failed: ${result.error}`);
+        results.failed++;
+      }
+    }
+  };
+
+  // Phase 1: Org, Pipeline, Stage and Import stacks
+  if (mainTargets.length > 0) {
+    logger.newline();
+    logger.header('Phase 1: Deleting Org, Pipeline, Stage, and Import Stacks');
+    await runPhase(mainTargets);
+  }
+
+  // Phase 2: Account stacks, only if nothing that depends on them failed to delete
+  if (accountTargets.length > 0) {
+    if (results.failed > 0) {
+      logger.newline();
+      logger.warn(`Skipping ${accountTargets.length} Account stack(s) because other stacks failed to delete.`);
+    } else {
+      logger.newline();
+      logger.header('Phase 2: Deleting Account Bootstrap Stacks');
+      await runPhase(accountTargets);
+    }
+  }
+
+  // Summary
+  logger.newline();
+  logger.header('Destroy Summary');
+
+  if (results.failed === 0) {
+    logger.success(`All ${results.success} stack(s) deleted successfully!`);
+    process.exit(0);
+  } else {
+    logger.warn(`${results.success} stack(s) deleted, ${results.failed} stack(s) failed.`);
+    process.exit(1);
+  }
+}
+
+/**
+ * Empty S3 buckets and ECR repositories in a stack when the user asked for it,
+ * returning the emptied resources. Without the corresponding flag, they are
+ * retained with their data when the stack is deleted.
+ */
+async function emptyStackResources(
+  stack: StackDeployment,
+  credentials: AwsCredentialIdentity | undefined,
+  options: DestroyOptions
+): Promise<EmptiedResource[]> {
+  const emptied: EmptiedResource[] = [];
+  const existing = await readExistingStack(stack.stackName, stack.accountId, stack.region, credentials);
+  if (!existing) return emptied;
+
+  for (const [logicalId, resource] of Object.entries(existing.resources)) {
+    if (!resource.physicalId) continue;
+
+    if (resource.type === 'AWS::S3::Bucket') {
+      if (options.emptyBuckets) {
+        await emptyBucket(resource.physicalId, stack.region, credentials);
+        emptied.push({ type: resource.type, name: resource.physicalId });
+      } else {
+        logger.verbose(`${stack.stackName}: retaining bucket ${logicalId} (use --empty-buckets to delete it)`);
+      }
+    } else if (resource.type === 'AWS::ECR::Repository') {
+      if (options.emptyEcrRepos) {
+        await emptyEcrRepository(resource.physicalId, stack.region, credentials);
+        emptied.push({ type: resource.type, name: resource.physicalId });
+      } else {
+        logger.verbose(`${stack.stackName}: retaining repository ${logicalId} (use --empty-ecr-repos to delete it)`);
+      }
+    }
+  }
+
+  return emptied;
+}
+
+/**
+ * Delete the emptied buckets and repositories, which the stack retained
+ */
+async function deleteRetainedResources(
+  emptied: EmptiedResource[],
+  region: string,
+  credentials: AwsCredentialIdentity | undefined
+): Promise<void> {
+  for (const resource of emptied) {
+    if (resource.type === 'AWS::S3::Bucket') {
+      await deleteBucket(resource.name, region, credentials);
+    } else {
+      await deleteEcrRepository(resource.name, region, credentials);
+    }
+  }
+}
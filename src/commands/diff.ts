@@ -0,0 +1,106 @@
+/**
+ * Diff command implementation
+ *
+ * Builds a change set for every stack in the deployment plan (new stacks
+ * included), a few at a time, and prints one consolidated report grouped by
+ * account and region. Replacements and removals of stateful resources
+ * (S3 buckets, ECR repositories, KMS keys) are called out separately.
+ * Nothing is deployed.
+ */
+
+import ora from 'ora';
+import { getCurrentIdentity } from '../aws/credentials.js';
+import { CredentialCache } from '../aws/credential-cache.js';
+import { describeStackChanges } from '../aws/cloudformation.js';
+import { buildDeploymentPlan, DEFAULT_PLAN_CONCURRENCY } from '../plan/index.js';
+import type { StackDiffResult } from '../plan/diff.js';
+import { renderStackTemplate } from '../templates/index.js';
+import { DevRampsError } from '../utils/errors.js';
+import * as logger from '../utils/logger.js';
+import { setVerbose } from '../utils/logger.js';
+import { mapWithConcurrency } from '../utils/concurrency.js';
+import {
+  resolveAuthData,
+  loadPipelines,
+  getTemplateRenderOptions,
+  parsePositiveInteger,
+  printChangeReport,
+  warnUnhealthyStacks,
+} from './common.js';
+import type { DiffOptions } from '../types/config.js';
+import type { StackDeployment } from '../types/stacks.js';
+
+export async function diffCommand(options: DiffOptions): Promise<void> {
+  try {
+    if (options.verbose) {
+      setVerbose(true);
+    }
+
+    logger.header('DevRamps Diff');
+
+    // Step 1: Check AWS credentials
+    const spinner = ora('Checking AWS credentials...').start();
+    const identity = await getCurrentIdentity();
+    spinner.succeed(`Authenticated as ${identity.arn}`);
+
+    // Step 2: Authenticate with DevRamps
+    const authData = await resolveAuthData(options.endpointOverride);
+
+    // Step 3: Find and parse the selected pipelines
+    const basePath = process.cwd();
+    const { pipelines, pipelineArtifacts } = await loadPipelines(basePath, options.pipelineSlugs, spinner);
+
+    // Step 4: Build deployment plan
+    spinner.start('Building deployment plan...');
+    const planConcurrency = parsePositiveInteger(options.planConcurrency, '--plan-concurrency', DEFAULT_PLAN_CONCURRENCY);
+    const credentialCache = new CredentialCache(identity.accountId, options.targetAccountRoleName);
+    const plan = await buildDeploymentPlan(pipelines, pipelineArtifacts, authData, credentialCache, planConcurrency);
+    spinner.succeed('Deployment plan ready');
+    warnUnhealthyStacks(plan);
+
+    // Step 5: Build change sets for every stack, at most --plan-concurrency at a time
+    const renderOptions = getTemplateRenderOptions(options.endpointOverride, options.additionalTrustedAccounts);
+    const stacks: StackDeployment[] = [
+      // Bootstrap skips Account stacks when OIDC is not used
+      ...(renderOptions.skipOidc ? [] : plan.accountStacks),
+      plan.orgStack,
+      ...plan.pipelineStacks,
+      ...plan.stageStacks,
+      ...plan.importStacks,
+    ];
+
+    spinner.start(`Creating change sets for ${stacks.length} stack(s)...`);
+    const results = await mapWithConcurrency(stacks, planConcurrency, async (stack): Promise<StackDiffResult> => {
+      const base = { stackName: stack.stackName, accountId: stack.accountId, region: stack.region };
+      try {
+        const changeSet = await describeStackChanges({
+          stackName: stack.stackName,
+          template: renderStackTemplate(stack, renderOptions),
+          accountId: stack.accountId,
+          region: stack.region,
+          credentials: await credentialCache.get(stack.accountId),
+        });
+        return { ...base, changeSet };
+      } catch (error) {
+        return { ...base, error: error instanceof Error ? error.message : String(error) };
+      }
+    });
+    spinner.succeed(`Computed changes for ${stacks.length} stack(s)`);
+
+    // Step 6: Report
+    const hasFailures = printChangeReport(results, 'Diff Summary');
+    process.exit(hasFailures ? 1 : 0);
+
+  } catch (error) {
+    if (error instanceof DevRampsError) {
+      logger.error(error.message);
+      process.exit(1);
+    }
+
+    logger.error(`Unexpected error: ${error instanceof Error ? error.message : String(error)}`);
+    if (logger.isVerbose() && error instanceof Error && error.stack) {
+      console.error(error.stack);
+    }
+    process.exit(1);
+  }
+}
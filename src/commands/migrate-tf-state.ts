@@ -0,0 +1,106 @@
+/**
+ * Migrate-tf-state command implementation
+ *
+ * Copies each stage's Terraform state from its key under the old bucket
+ * layout to <pipeline_slug>/<stage_name>/terraform.tfstate, the only place
+ * its stage role can read and write once bootstrapped. Objects are copied,
+ * never overwritten; the old keys are only removed with --delete-legacy.
+ */
+
+import ora from 'ora';
+import { getCurrentIdentity } from '../aws/credentials.js';
+import { CredentialCache } from '../aws/credential-cache.js';
+import { copyStateObject, deleteStateObject } from '../aws/tf-state.js';
+import { generateTerraformStateBucketName } from '../naming/index.js';
+import { planStateMigrations } from '../plan/state-migration.js';
+import { DevRampsError } from '../utils/errors.js';
+import * as logger from '../utils/logger.js';
+import { setVerbose } from '../utils/logger.js';
+import { resolveAuthData, loadPipelines } from './common.js';
+import type { MigrateTfStateOptions } from '../types/config.js';
+
+export async function migrateTfStateCommand(options: MigrateTfStateOptions): Promise<void> {
+  try {
+    if (options.verbose) {
+      setVerbose(true);
+    }
+
+    logger.header('DevRamps Terraform State Migration');
+
+    // Step 1: Check AWS credentials
+    const spinner = ora('Checking AWS credentials...').start();
+    const identity = await getCurrentIdentity();
+    spinner.succeed(`Authenticated as ${identity.arn}`);
+
+    // Step 2: Authenticate with DevRamps
+    const authData = await resolveAuthData(options.endpointOverride);
+
+    // Step 3: Find and parse the selected pipelines
+    const basePath = process.cwd();
+    const { pipelines } = await loadPipelines(basePath, options.pipelineSlugs, spinner);
+
+    // Step 4: Work out which state objects move where
+    const migrations = planStateMigrations(pipelines, options.legacyKey);
+    const bucketName = generateTerraformStateBucketName(authData.orgSlug);
+
+    logger.info(`State bucket: ${bucketName} (${authData.cicdAccountId}, ${authData.cicdRegion})`);
+    for (const migration of migrations) {
+      logger.info(`  ${migration.fromKey} -> ${migration.toKey}`);
+    }
+
+    if (options.dryRun) {
+      logger.info('Dry run: no state objects were copied.');
+      process.exit(0);
+    }
+
+    // Step 5: Copy (and optionally delete) each object
+    const credentialCache = new CredentialCache(identity.accountId, options.targetAccountRoleName);
+    await credentialCache.prefetch([authData.cicdAccountId]);
+
+    let failures = 0;
+    for (const migration of migrations) {
+      const label = `${migration.pipelineSlug}/${migration.stageName}`;
+      try {
+        const result = await copyStateObject(
+          bucketName,
+          migration.fromKey,
+          migration.toKey,
+          authData.cicdRegion,
+          await credentialCache.get(authData.cicdAccountId)
+        );
+
+        if (result === 'missing') {
+          logger.verbose(`${label}: no state at ${migration.fromKey}`);
+          continue;
+        }
+        if (result === 'exists') {
+          logger.warn(`${label}: ${migration.toKey} already exists, left unchanged`);
+          continue;
+        }
+
+        logger.success(`${label}: copied to ${migration.toKey}`);
+        if (options.deleteLegacy) {
+          await deleteStateObject(bucketName, migration.fromKey, authData.cicdRegion, await credentialCache.get(authData.cicdAccountId));
+          logger.verbose(`${label}: deleted ${migration.fromKey}`);
+        }
+      } catch (error) {
+        failures++;
+        logger.error(`${label}: ${error instanceof Error ? error.message : String(error)}`);
+      }
+    }
+
+    process.exit(failures > 0 ? 1 : 0);
+
+  } catch (error) {
+    if (error instanceof DevRampsError) {
+      logger.error(error.message);
+      process.exit(1);
+    }
+
+    logger.error(`Unexpected error: ${error instanceof Error ? error.message : String(error)}`);
+    if (logger.isVerbose() && error instanceof Error && error.stack) {
+      console.error(error.stack);
+    }
+    process.exit(1);
+  }
+}
@@ -0,0 +1,30 @@
+/**
+ * Schema command implementation
+ *
+ * Prints the JSON Schema for pipeline.yaml, or writes it to a file, so that
+ * editors can autocomplete and validate pipeline definitions.
+ */
+
+import { writeFile } from 'node:fs/promises';
+import { resolve } from 'node:path';
+import { buildPipelineSchema } from '../schema/index.js';
+import * as logger from '../utils/logger.js';
+import type { SchemaOptions } from '../types/config.js';
+
+export async function schemaCommand(options: SchemaOptions): Promise<void> {
+  const schema = JSON.stringify(buildPipelineSchema(), null, 2) + '\n';
+
+  if (!options.out) {
+    process.stdout.write(schema);
+    return;
+  }
+
+  try {
+    const outPath = resolve(process.cwd(), options.out);
+    await writeFile(outPath, schema, 'utf-8');
+    logger.success(`Wrote pipeline.yaml schema to ${outPath}`);
+  } catch (error) {
+    logger.error(`Could not write schema: ${error instanceof Error ? error.message : String(error)}`);
+    process.exit(1);
+  }
+}
@@ -0,0 +1,62 @@
+/**
+ * Show-pipeline command implementation
+ *
+ * Prints each stage's effective configuration, i.e. after stage_defaults
+ * have been applied. Works entirely offline.
+ */
+
+import ora from 'ora';
+import { stringify as stringifyYaml } from 'yaml';
+import { DevRampsError } from '../utils/errors.js';
+import * as logger from '../utils/logger.js';
+import { setVerbose } from '../utils/logger.js';
+import { loadPipelines } from './common.js';
+import type { ShowPipelineOptions } from '../types/config.js';
+import type { ParsedPipeline } from '../types/pipeline.js';
+
+export async function showPipelineCommand(options: ShowPipelineOptions): Promise<void> {
+  try {
+    if (options.verbose) {
+      setVerbose(true);
+    }
+
+    const spinner = ora();
+    const { pipelines } = await loadPipelines(process.cwd(), options.pipelineSlugs, spinner);
+
+    for (const pipeline of pipelines) {
+      printPipeline(pipeline);
+    }
+
+  } catch (error) {
+    if (error instanceof DevRampsError) {
+      logger.error(error.message);
+      process.exit(1);
+    }
+
+    logger.error(`Unexpected error: ${error instanceof Error ? error.message : String(error)}`);
+    if (logger.isVerbose() && error instanceof Error && error.stack) {
+      console.error(error.stack);
+    }
+    process.exit(1);
+  }
+}
+
+function printPipeline(pipeline: ParsedPipeline): void {
+  logger.header(`Pipeline: ${pipeline.slug}`);
+  logger.info(`${pipeline.stages.length} stage(s), ${pipeline.steps.length} step(s)`);
+
+  for (const stage of pipeline.stages) {
+    const { name, account_id: accountId, region, ...settings } = stage;
+
+    logger.newline();
+    logger.info(`Stage ${name} (${accountId}, ${region})`);
+
+    if (Object.keys(settings).length === 0) {
+      console.log('    (no additional settings)');
+      continue;
+    }
+
+    const body = stringifyYaml(settings).trimEnd();
+    console.log(body.replace(/^/gm, '    '));
+  }
+}
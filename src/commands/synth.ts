@@ -0,0 +1,172 @@
+/**
+ * Synth command implementation
+ *
+ * Renders every CloudFormation template bootstrap would deploy for the
+ * selected pipelines and writes them to disk, together with a manifest of
+ * each stack's target account and region. Works entirely offline: no AWS
+ * credentials or DevRamps login are needed.
+ *
+ * Because no deployed state is read, the Org stack's Terraform state bucket
+ * policy only covers the selected pipelines' accounts (bootstrap merges in
+ * accounts already present in the deployed policy).
+ */
+
+import { mkdir, writeFile } from 'node:fs/promises';
+import { join, resolve } from 'node:path';
+import ora from 'ora';
+import { stringify as stringifyYaml } from 'yaml';
+import { loadCredentials } from '../auth/credential-store.js';
+import { enumerateDeploymentPlan, type PlanTarget } from '../plan/index.js';
+import { hashTemplate } from '../plan/serialize.js';
+import { renderStackTemplate } from '../templates/index.js';
+import { DevRampsError, PolicyLintError, SynthTargetError } from '../utils/errors.js';
+import * as logger from '../utils/logger.js';
+import { setVerbose } from '../utils/logger.js';
+import { isValidAwsAccountId, isValidAwsRegion } from '../utils/validation.js';
+import { loadPipelines, getTemplateRenderOptions, lintPlanPolicies } from './common.js';
+import type { SynthOptions } from '../types/config.js';
+import type { StackDeployment, StackType } from '../types/stacks.js';
+
+/**
+ * One entry per rendered template in manifest.json
+ */
+interface SynthManifestStack {
+  stackName: string;
+  stackType: StackType;
+  accountId: string;
+  region: string;
+  /** Template path relative to the output directory */
+  templateFile: string;
+  templateHash: string;
+}
+
+interface SynthManifest {
+  version: number;
+  orgSlug: string;
+  cicdAccountId: string;
+  cicdRegion: string;
+  format: SynthOptions['format'];
+  stacks: SynthManifestStack[];
+}
+
+const MANIFEST_FILE = 'manifest.json';
+
+export async function synthCommand(options: SynthOptions): Promise<void> {
+  try {
+    if (options.verbose) {
+      setVerbose(true);
+    }
+
+    logger.header('DevRamps Synth');
+
+    if (options.format !== 'json' && options.format !== 'yaml') {
+      throw new SynthTargetError(`Invalid --format "${options.format}". Expected json or yaml.`);
+    }
+
+    // Step 1: Resolve the org and CI/CD location from flags or stored credentials
+    const target = await resolveSynthTarget(options);
+    logger.info(`Organization: ${target.orgSlug} (CI/CD ${target.cicdAccountId}, ${target.cicdRegion})`);
+
+    // Step 2: Find and parse the selected pipelines
+    const spinner = ora();
+    const basePath = process.cwd();
+    const { pipelines, pipelineArtifacts } = await loadPipelines(basePath, options.pipelineSlugs, spinner);
+
+    // Step 3: Render every stack's template
+    spinner.start('Rendering templates...');
+    const plan = enumerateDeploymentPlan(pipelines, pipelineArtifacts, target);
+    const renderOptions = getTemplateRenderOptions(options.endpointOverride, options.additionalTrustedAccounts);
+
+    const stacks: StackDeployment[] = [
+      ...plan.accountStacks,
+      plan.orgStack,
+      ...plan.pipelineStacks,
+      ...plan.stageStacks,
+      ...plan.importStacks,
+    ];
+
+    const outDir = resolve(basePath, options.outDir);
+    await mkdir(outDir, { recursive: true });
+
+    const manifest: SynthManifest = {
+      version: 1,
+      orgSlug: plan.orgSlug,
+      cicdAccountId: plan.cicdAccountId,
+      cicdRegion: plan.cicdRegion,
+      format: options.format,
+      stacks: [],
+    };
+
+    for (const stack of stacks) {
+      const template = renderStackTemplate(stack, renderOptions);
+      // Account and Import stacks share a name across accounts, so qualify by location
+      const templateFile = `${stack.stackName}.${stack.accountId}.${stack.region}.template.${options.format}`;
+      const body = options.format === 'yaml'
+        ? stringifyYaml(template)
+        : JSON.stringify(template, null, 2) + '\n';
+
+      await writeFile(join(outDir, templateFile), body, 'utf-8');
+      logger.verbose(`Wrote ${templateFile}`);
+
+      manifest.stacks.push({
+        stackName: stack.stackName,
+        stackType: stack.stackType,
+        accountId: stack.accountId,
+        region: stack.region,
+        templateFile,
+        templateHash: hashTemplate(template),
+      });
+    }
+
+    await writeFile(join(outDir, MANIFEST_FILE), JSON.stringify(manifest, null, 2) + '\n', 'utf-8');
+    spinner.succeed(`Wrote ${manifest.stacks.length} template(s) and ${MANIFEST_FILE} to ${outDir}`);
+
+    // Step 4: Check the rendered IAM policies
+    const lintErrors = await lintPlanPolicies(basePath, plan, renderOptions);
+    if (lintErrors > 0) {
+      throw new PolicyLintError(lintErrors);
+    }
+
+  } catch (error) {
+    if (error instanceof DevRampsError) {
+      logger.error(error.message);
+      process.exit(1);
+    }
+
+    logger.error(`Unexpected error: ${error instanceof Error ? error.message : String(error)}`);
+    if (logger.isVerbose() && error instanceof Error && error.stack) {
+      console.error(error.stack);
+    }
+    process.exit(1);
+  }
+}
+
+/**
+ * Take the org slug, CI/CD account and region from flags, falling back to
+ * the stored `devramps login` credentials for any that were not given.
+ */
+async function resolveSynthTarget(options: SynthOptions): Promise<PlanTarget> {
+  let { orgSlug, cicdAccountId, cicdRegion } = options;
+
+  if (!orgSlug || !cicdAccountId || !cicdRegion) {
+    const stored = await loadCredentials();
+    orgSlug = orgSlug ?? stored?.orgSlug;
+    cicdAccountId = cicdAccountId ?? stored?.cicdAccountId;
+    cicdRegion = cicdRegion ?? stored?.cicdRegion;
+  }
+
+  if (!orgSlug || !cicdAccountId || !cicdRegion) {
+    throw new SynthTargetError(
+      'Missing org details. Pass --org-slug, --cicd-account-id and --cicd-region, ' +
+      'or run `devramps login` to use your stored credentials.'
+    );
+  }
+  if (!isValidAwsAccountId(cicdAccountId)) {
+    throw new SynthTargetError(`Invalid CI/CD account ID "${cicdAccountId}". AWS account IDs must be exactly 12 digits.`);
+  }
+  if (!isValidAwsRegion(cicdRegion)) {
+    throw new SynthTargetError(`Invalid CI/CD region "${cicdRegion}". Expected a valid AWS region (e.g., us-east-1).`);
+  }
+
+  return { orgSlug, cicdAccountId, cicdRegion };
+}
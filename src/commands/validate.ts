@@ -0,0 +1,79 @@
+/**
+ * Validate command implementation
+ *
+ * Lints every selected pipeline.yaml and reports all problems at once.
+ * Works entirely offline: no AWS credentials or DevRamps login are needed.
+ */
+
+import chalk from 'chalk';
+import { findDevrampsPipelines } from '../parsers/pipeline.js';
+import { validatePipelineFile, type PipelineValidationIssue } from '../parsers/pipeline-validator.js';
+import { DevRampsError, formatSourceLocation } from '../utils/errors.js';
+import * as logger from '../utils/logger.js';
+import { setVerbose } from '../utils/logger.js';
+import { parseSlugList } from './common.js';
+import type { ValidateOptions } from '../types/config.js';
+
+export async function validateCommand(options: ValidateOptions): Promise<void> {
+  try {
+    if (options.verbose) {
+      setVerbose(true);
+    }
+
+    logger.header('DevRamps Validate');
+
+    const basePath = process.cwd();
+    const pipelineSlugs = await findDevrampsPipelines(basePath, parseSlugList(options.pipelineSlugs));
+
+    if (pipelineSlugs.length === 0) {
+      logger.error('No pipeline.yaml files found in .devramps/ folder.');
+      process.exit(1);
+    }
+
+    let errorCount = 0;
+    let warningCount = 0;
+
+    for (const slug of pipelineSlugs) {
+      const issues = await validatePipelineFile(basePath, slug);
+      errorCount += issues.filter(i => i.severity === 'error').length;
+      warningCount += issues.filter(i => i.severity === 'warning').length;
+      printPipelineIssues(slug, issues);
+    }
+
+    logger.newline();
+    if (errorCount > 0) {
+      logger.error(`${errorCount} error(s), ${warningCount} warning(s) in ${pipelineSlugs.length} pipeline(s)`);
+      process.exit(1);
+    }
+    logger.success(`${pipelineSlugs.length} pipeline(s) valid` + (warningCount > 0 ? ` with ${warningCount} warning(s)` : ''));
+
+  } catch (error) {
+    if (error instanceof DevRampsError) {
+      logger.error(error.message);
+      process.exit(1);
+    }
+
+    logger.error(`Unexpected error: ${error instanceof Error ? error.message : String(error)}`);
+    if (logger.isVerbose() && error instanceof Error && error.stack) {
+      console.error(error.stack);
+    }
+    process.exit(1);
+  }
+}
+
+function printPipelineIssues(slug: string, issues: PipelineValidationIssue[]): void {
+  if (issues.length === 0) {
+    logger.success(`${slug}: no problems found`);
+    return;
+  }
+
+  logger.info(`${slug}: ${issues.length} problem(s)`);
+  for (const issue of issues) {
+    const label = issue.severity === 'error' ? chalk.red('error') : chalk.yellow('warning');
+    const path = issue.path ? chalk.dim(`${issue.path}: `) : '';
+    logger.info(`    ${label} ${path}${issue.message}`);
+    if (issue.location) {
+      logger.info(chalk.dim(formatSourceLocation(issue.location).replace(/^(?=.)/gm, '    ')));
+    }
+  }
+}
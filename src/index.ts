@@ -10,6 +10,14 @@ import { program } from 'commander';
 import { bootstrapCommand } from './commands/bootstrap.js';
 import { loginCommand } from './commands/login.js';
 import { initAgentCommand } from './commands/init-agent.js';
+import { destroyCommand } from './commands/destroy.js';
+import { synthCommand } from './commands/synth.js';
+import { validateCommand } from './commands/validate.js';
+import { schemaCommand } from './commands/schema.js';
+import { showPipelineCommand } from './commands/show-pipeline.js';
+import { diffCommand } from './commands/diff.js';
+import { migrateTfStateCommand } from './commands/migrate-tf-state.js';
+import { applyChangeSetsCommand } from './commands/apply-change-sets.js';
 
 program
   .name('devramps')
@@ -43,8 +51,256 @@ program
     '--additional-trusted-accounts <accounts>',
     'Comma-separated AWS account IDs to add to role trust policies (for local dev testing)'
   )
+  .option(
+    '--prune',
+    'Delete stage stacks whose stage or ephemeral environment was removed from pipeline.yaml'
+  )
+  .option(
+    '--plan-out <file>',
+    'Write the deployment plan as JSON to a file instead of deploying'
+  )
+  .option(
+    '--apply-plan <file>',
+    'Deploy a plan written by --plan-out, failing if pipelines or deployed stacks changed since'
+  )
+  .option(
+    '--allow-permission-expansion',
+    'Allow adding IAM actions to deployed roles without an extra confirmation'
+  )
+  .option(
+    '--plan-concurrency <number>',
+    'Number of stacks to look up at once while building the plan (default: 10)'
+  )
+  .option(
+    '--max-concurrency <number>',
+    'Number of stacks to deploy at once (default: 10)'
+  )
+  .option(
+    '--continue-on-error',
+    'Keep deploying stacks that don\'t depend on a failed stack, instead of stopping at the first failure'
+  )
+  .option(
+    '--resume',
+    'Retry only the stacks that failed or did not start in the last interrupted bootstrap run'
+  )
+  .option(
+    '--force',
+    'Redeploy every stack, including stacks whose template has not changed since their last deployment'
+  )
+  .option(
+    '--change-set-mode',
+    'Create a change set for every stack and review them together before executing, or leave them pending'
+  )
+  .option(
+    '--stack-wait-timeout <minutes>',
+    'Minutes to wait for an operation already running on a stack before giving up (default: 30)'
+  )
+  .option(
+    '--discard-pending-change-sets',
+    'Discard change sets pending review on stacks that were never created, without asking'
+  )
   .action(bootstrapCommand);
 
+program
+  .command('apply-change-sets')
+  .description('Execute (or discard) the change sets left pending by bootstrap --change-set-mode, in dependency order')
+  .option(
+    '--target-account-role-name <name>',
+    'Role to assume in target accounts (default: OrganizationAccountAccessRole, fallback: AWSControlTowerExecution)'
+  )
+  .option(
+    '--pipeline-slugs <slugs>',
+    'Comma-separated list of pipeline slugs whose stacks to look at (default: all pipelines)'
+  )
+  .option(
+    '--change-set-name <name>',
+    'Only use change sets with this name (required when several bootstrap runs left change sets)'
+  )
+  .option(
+    '--discard',
+    'Delete the pending change sets instead of executing them'
+  )
+  .option('-y, --yes', 'Skip confirmation prompt')
+  .option(
+    '--verbose',
+    'Enable verbose logging for debugging'
+  )
+  .option(
+    '--endpoint-override <url>',
+    'Override the DevRamps API endpoint (for testing, e.g., http://localhost:3000)'
+  )
+  .option(
+    '--plan-concurrency <number>',
+    'Number of stacks to look up at once while finding change sets (default: 10)'
+  )
+  .option(
+    '--max-concurrency <number>',
+    'Number of change sets to execute at once (default: 10)'
+  )
+  .option(
+    '--continue-on-error',
+    'Keep executing change sets of stacks that don\'t depend on a failed stack'
+  )
+  .action(applyChangeSetsCommand);
+
+program
+  .command('destroy')
+  .description('Delete the stacks that bootstrap created for the selected pipelines')
+  .option(
+    '--target-account-role-name <name>',
+    'Role to assume in target accounts (default: OrganizationAccountAccessRole, fallback: AWSControlTowerExecution)'
+  )
+  .option(
+    '--pipeline-slugs <slugs>',
+    'Comma-separated list of pipeline slugs to destroy (default: all pipelines)'
+  )
+  .option(
+    '--empty-buckets',
+    'Delete all object versions from the stacks\' S3 buckets, then the buckets themselves (otherwise they are retained)'
+  )
+  .option(
+    '--empty-ecr-repos',
+    'Delete all images from the stacks\' ECR repositories, then the repositories themselves (otherwise they are retained)'
+  )
+  .option(
+    '--dry-run',
+    'Show what would be deleted without actually deleting'
+  )
+  .option('-y, --yes', 'Skip confirmation prompt')
+  .option(
+    '--verbose',
+    'Enable verbose logging for debugging'
+  )
+  .option(
+    '--endpoint-override <url>',
+    'Override the DevRamps API endpoint (for testing, e.g., http://localhost:3000)'
+  )
+  .option(
+    '--plan-concurrency <number>',
+    'Number of stacks to look up at once while building the plan (default: 10)'
+  )
+  .action(destroyCommand);
+
+program
+  .command('diff')
+  .description('Show the resource changes bootstrap would make to every stack, without deploying')
+  .option(
+    '--target-account-role-name <name>',
+    'Role to assume in target accounts (default: OrganizationAccountAccessRole, fallback: AWSControlTowerExecution)'
+  )
+  .option(
+    '--pipeline-slugs <slugs>',
+    'Comma-separated list of pipeline slugs to diff (default: all pipelines)'
+  )
+  .option(
+    '--verbose',
+    'Enable verbose logging for debugging'
+  )
+  .option(
+    '--endpoint-override <url>',
+    'Override the DevRamps API endpoint (for testing, e.g., http://localhost:3000)'
+  )
+  .option(
+    '--additional-trusted-accounts <accounts>',
+    'Comma-separated AWS account IDs to add to role trust policies (for local dev testing)'
+  )
+  .option(
+    '--plan-concurrency <number>',
+    'Number of stacks to look up, and change sets to create, at once (default: 10)'
+  )
+  .action(diffCommand);
+
+program
+  .command('synth')
+  .description('Write the CloudFormation templates bootstrap would deploy to disk (no AWS access needed)')
+  .option('--org-slug <slug>', 'Organization slug (default: from stored credentials)')
+  .option('--cicd-account-id <id>', 'CI/CD AWS account ID (default: from stored credentials)')
+  .option('--cicd-region <region>', 'CI/CD AWS region (default: from stored credentials)')
+  .option(
+    '--pipeline-slugs <slugs>',
+    'Comma-separated list of pipeline slugs to synthesize (default: all pipelines)'
+  )
+  .option('--out-dir <dir>', 'Directory to write templates and manifest.json to', 'devramps.out')
+  .option('--format <format>', 'Template format: json or yaml', 'json')
+  .option(
+    '--verbose',
+    'Enable verbose logging for debugging'
+  )
+  .option(
+    '--endpoint-override <url>',
+    'Render templates for a different DevRamps endpoint (for testing)'
+  )
+  .option(
+    '--additional-trusted-accounts <accounts>',
+    'Comma-separated AWS account IDs to add to role trust policies (for local dev testing)'
+  )
+  .action(synthCommand);
+
+program
+  .command('migrate-tf-state')
+  .description('Copy Terraform state from an older key layout to each stage\'s <pipeline>/<stage>/ prefix')
+  .requiredOption(
+    '--legacy-key <template>',
+    'Key of existing state objects, with {pipeline} and {stage} placeholders (e.g. "{pipeline}-{stage}.tfstate")'
+  )
+  .option(
+    '--target-account-role-name <name>',
+    'Role to assume in the CI/CD account (default: OrganizationAccountAccessRole, fallback: AWSControlTowerExecution)'
+  )
+  .option(
+    '--pipeline-slugs <slugs>',
+    'Comma-separated list of pipeline slugs to migrate (default: all pipelines)'
+  )
+  .option(
+    '--delete-legacy',
+    'Delete each legacy state object after copying it'
+  )
+  .option(
+    '--dry-run',
+    'Show which state objects would be copied without copying them'
+  )
+  .option(
+    '--verbose',
+    'Enable verbose logging for debugging'
+  )
+  .option(
+    '--endpoint-override <url>',
+    'Override the DevRamps API endpoint (for testing, e.g., http://localhost:3000)'
+  )
+  .action(migrateTfStateCommand);
+
+program
+  .command('validate')
+  .description('Check pipeline.yaml files for mistakes (no AWS access needed)')
+  .option(
+    '--pipeline-slugs <slugs>',
+    'Comma-separated list of pipeline slugs to validate (default: all pipelines)'
+  )
+  .option(
+    '--verbose',
+    'Enable verbose logging for debugging'
+  )
+  .action(validateCommand);
+
+program
+  .command('schema')
+  .description('Print the JSON Schema for pipeline.yaml (for editor autocompletion and validation)')
+  .option('--out <file>', 'Write the schema to a file instead of stdout')
+  .action(schemaCommand);
+
+program
+  .command('show-pipeline')
+  .description('Show each stage\'s effective configuration, with stage_defaults applied (no AWS access needed)')
+  .option(
+    '--pipeline-slugs <slugs>',
+    'Comma-separated list of pipeline slugs to show (default: all pipelines)'
+  )
+  .option(
+    '--verbose',
+    'Enable verbose logging for debugging'
+  )
+  .action(showPipelineCommand);
+
 program
   .command('login')
   .description('Authenticate with DevRamps and store credentials for future use')
@@ -6,9 +6,15 @@
  *
  * When a new pipeline is bootstrapped, we need to:
  * 1. Read the existing bucket policy (if any)
- * 2. Extract the currently-allowed account IDs
- * 3. Merge with new account IDs from all pipelines
+ * 2. Extract the currently-allowed account IDs and their state key prefixes
+ * 3. Merge with new account IDs and prefixes from all pipelines
  * 4. Generate an updated policy
+ *
+ * Each target account can only read and write the state of the stages it
+ * hosts (<pipeline_slug>/<stage_name>/ prefixes). Accounts granted the whole
+ * bucket before state was namespaced per stage keep that grant until a run
+ * knows their stages, since a run on a subset of pipelines must not revoke
+ * the others' access.
  */
 
 import { S3Client, GetBucketPolicyCommand } from '@aws-sdk/client-s3';
@@ -17,6 +23,8 @@ import type { CloudFormationStackResources, MergeContext, ValidationResult } fro
 import { BaseMergeStrategy } from './strategy.js';
 import * as logger from '../utils/logger.js';
 import { isValidAwsAccountId } from '../utils/validation.js';
+import { getTerraformStatePrefix } from '../naming/index.js';
+import { getPartition, type AwsPartition } from '../utils/partition.js';
 
 /**
  * Data structure for bucket policy merge
@@ -24,6 +32,11 @@ import { isValidAwsAccountId } from '../utils/validation.js';
 export interface BucketPolicyData {
   /** AWS account IDs allowed to access the bucket */
   allowedAccountIds: string[];
+  /**
+   * Terraform state key prefixes each account may read and write. The empty
+   * prefix is a legacy grant on the whole bucket.
+   */
+  statePrefixes?: Record<string, string[]>;
 }
 
 /**
@@ -78,10 +91,11 @@ export class BucketPolicyMergeStrategy extends BaseMergeStrategy<
 
       const policy = JSON.parse(response.Policy);
       const accountIds = this.extractAccountIdsFromPolicy(policy);
+      const statePrefixes = this.extractStatePrefixesFromPolicy(policy, this.bucketName, getPartition(this.region));
 
       logger.verbose(`Found ${accountIds.length} existing account(s) in bucket policy`);
 
-      return { allowedAccountIds: accountIds };
+      return { allowedAccountIds: accountIds, statePrefixes };
     } catch (error: unknown) {
       // NoSuchBucketPolicy is expected if bucket exists but has no policy
       if (error instanceof Error && error.name === 'NoSuchBucketPolicy') {
@@ -102,7 +116,8 @@ export class BucketPolicyMergeStrategy extends BaseMergeStrategy<
   }
 
   /**
-   * Collect all target account IDs from all pipelines
+   * Collect all target account IDs, and each account's stage state prefixes,
+   * from all pipelines
    */
   async collectNew(context: MergeContext): Promise<BucketPolicyData> {
     const accountIds = new Set<string>();
@@ -127,13 +142,22 @@ export class BucketPolicyMergeStrategy extends BaseMergeStrategy<
       }
     }
 
+    const statePrefixes: Record<string, string[]> = {};
+    for (const pipeline of context.pipelines) {
+      for (const stage of pipeline.stages) {
+        (statePrefixes[stage.account_id] ??= []).push(getTerraformStatePrefix(pipeline.slug, stage.name));
+      }
+    }
+
     logger.verbose(`Collected ${accountIds.size} account(s) from pipelines`);
 
-    return { allowedAccountIds: Array.from(accountIds) };
+    return { allowedAccountIds: Array.from(accountIds), statePrefixes };
   }
 
   /**
-   * Merge existing and new account IDs, deduplicating
+   * Merge existing and new account IDs and state prefixes, deduplicating.
+   * A legacy whole-bucket grant is replaced by the account's prefixes once
+   * the new data has any for it.
    */
   merge(
     existing: BucketPolicyData | null,
@@ -158,7 +182,10 @@ export class BucketPolicyMergeStrategy extends BaseMergeStrategy<
 
     logger.verbose(`Merged to ${sorted.length} unique account(s)`);
 
-    return { allowedAccountIds: sorted };
+    return {
+      allowedAccountIds: sorted,
+      statePrefixes: mergeStatePrefixes(existing?.statePrefixes ?? {}, newData.statePrefixes ?? {}),
+    };
   }
 
   /**
@@ -220,10 +247,10 @@ export class BucketPolicyMergeStrategy extends BaseMergeStrategy<
         let extractedId: string | null = null;
 
         // Match patterns like:
-        // - arn:aws:iam::123456789012:root
+        // - arn:aws:iam::123456789012:root (or another partition)
         // - arn:aws:iam::123456789012:role/RoleName
         // - 123456789012 (just account ID)
-        const arnMatch = p.match(/arn:aws:iam::(\d{12}):/);
+        const arnMatch = p.match(/arn:[\w-]+:iam::(\d{12}):/);
         if (arnMatch) {
           extractedId = arnMatch[1];
         } else if (/^\d{12}$/.test(p)) {
@@ -245,31 +272,96 @@ export class BucketPolicyMergeStrategy extends BaseMergeStrategy<
     // Deduplicate
     return [...new Set(accountIds)];
   }
+
+  /**
+   * Extract each account's state key prefixes from its AllowAccount<id>
+   * statement. A grant on the whole bucket (from before state was namespaced
+   * per stage) becomes the empty prefix.
+   */
+  private extractStatePrefixesFromPolicy(
+    policy: unknown,
+    bucketName: string,
+    partition: AwsPartition
+  ): Record<string, string[]> {
+    const prefixes: Record<string, string[]> = {};
+    const statements = (policy as { Statement?: unknown } | null)?.Statement;
+
+    if (!Array.isArray(statements)) {
+      return prefixes;
+    }
+
+    const objectArnPrefix = `arn:${partition}:s3:::${bucketName}/`;
+
+    for (const statement of statements) {
+      const stmt = statement as { Sid?: unknown; Resource?: unknown } | null;
+      const sidMatch = typeof stmt?.Sid === 'string' ? stmt.Sid.match(/^AllowAccount(\d{12})$/) : null;
+      if (!sidMatch) continue;
+
+      const resources = Array.isArray(stmt!.Resource) ? stmt!.Resource : [stmt!.Resource];
+      for (const resource of resources) {
+        if (typeof resource !== 'string' || !resource.startsWith(objectArnPrefix) || !resource.endsWith('*')) {
+          continue;
+        }
+
+        const prefix = resource.slice(objectArnPrefix.length, -1);
+        if (prefix === '') {
+          logger.verbose(`Account ${sidMatch[1]} has legacy state access to the whole bucket`);
+        }
+        (prefixes[sidMatch[1]] ??= []).push(prefix);
+      }
+    }
+
+    return prefixes;
+  }
+}
+
+/**
+ * Union of two accounts-to-prefixes maps, with sorted, unique prefixes. An
+ * existing whole-bucket grant (the empty prefix) is only kept for accounts
+ * the added map has no prefixes for.
+ */
+function mergeStatePrefixes(
+  existing: Record<string, string[]>,
+  added: Record<string, string[]>
+): Record<string, string[]> {
+  const merged: Record<string, string[]> = {};
+
+  for (const accountId of [...new Set([...Object.keys(existing), ...Object.keys(added)])].sort()) {
+    const addedPrefixes = added[accountId] ?? [];
+    const existingPrefixes = (existing[accountId] ?? []).filter(p => p !== '' || addedPrefixes.length === 0);
+    merged[accountId] = [...new Set([...existingPrefixes, ...addedPrefixes])].sort();
+  }
+
+  return merged;
 }
 
 /**
- * Create a bucket policy document for the Terraform state bucket
+ * Create a bucket policy document for the Terraform state bucket.
+ * Target accounts get object access only under their stages' state prefixes.
  */
 export function createTerraformStateBucketPolicy(
   bucketName: string,
   cicdAccountId: string,
-  allowedAccountIds: string[]
+  allowedAccountIds: string[],
+  statePrefixes: Record<string, string[]> = {},
+  partition: AwsPartition = 'aws'
 ): object {
   // Build statements allowing each target account
   const accountStatements = allowedAccountIds
     .filter(id => id !== cicdAccountId) // CI/CD account gets full access separately
+    .filter(id => (statePrefixes[id] ?? []).length > 0)
     .map(accountId => ({
       Sid: `AllowAccount${accountId}`,
       Effect: 'Allow',
       Principal: {
-        AWS: `arn:aws:iam::${accountId}:root`,
+        AWS: `arn:${partition}:iam::${accountId}:root`,
       },
       Action: [
         's3:GetObject',
         's3:PutObject',
         's3:DeleteObject',
       ],
-      Resource: `arn:aws:s3:::${bucketName}/*`,
+      Resource: statePrefixes[accountId].map(prefix => `arn:${partition}:s3:::${bucketName}/${prefix}*`),
     }));
 
   // Add list bucket permission for all accounts
@@ -277,10 +369,10 @@ export function createTerraformStateBucketPolicy(
     Sid: 'AllowListBucket',
     Effect: 'Allow',
     Principal: {
-      AWS: allowedAccountIds.map(id => `arn:aws:iam::${id}:root`),
+      AWS: allowedAccountIds.map(id => `arn:${partition}:iam::${id}:root`),
     },
     Action: 's3:ListBucket',
-    Resource: `arn:aws:s3:::${bucketName}`,
+    Resource: `arn:${partition}:s3:::${bucketName}`,
   };
 
   // CI/CD account gets full access
@@ -288,12 +380,12 @@ export function createTerraformStateBucketPolicy(
     Sid: 'AllowCICDAccount',
     Effect: 'Allow',
     Principal: {
-      AWS: `arn:aws:iam::${cicdAccountId}:root`,
+      AWS: `arn:${partition}:iam::${cicdAccountId}:root`,
     },
     Action: 's3:*',
     Resource: [
-      `arn:aws:s3:::${bucketName}`,
-      `arn:aws:s3:::${bucketName}/*`,
+      `arn:${partition}:s3:::${bucketName}`,
+      `arn:${partition}:s3:::${bucketName}/*`,
     ],
   };
 
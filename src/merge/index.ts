@@ -109,6 +109,6 @@ export async function executeBucketPolicyMerge(
 }
 
 // Re-export types
-export type { MergeStrategy, MergeContext, ValidationResult, CloudFormationStackResources } from './strategy.js';
+export type { MergeStrategy, MergeContext, ValidationResult, CloudFormationStackResources, StackResourceSummary } from './strategy.js';
 export type { BucketPolicyData } from './bucket-policy.js';
 export { createTerraformStateBucketPolicy } from './bucket-policy.js';
@@ -34,6 +34,15 @@ export interface ValidationResult {
   warnings?: string[];
 }
 
+/**
+ * One resource of an existing stack
+ */
+export interface StackResourceSummary {
+  type?: string;
+  physicalId?: string;
+  status?: string;
+}
+
 /**
  * Existing CloudFormation stack resources for reading current state
  */
@@ -41,8 +50,8 @@ export interface CloudFormationStackResources {
   stackName: string;
   accountId: string;
   region: string;
-  /** Stack resource summaries from DescribeStackResources */
-  resources: Record<string, unknown>;
+  /** Stack resource summaries from DescribeStackResources, by logical ID */
+  resources: Record<string, StackResourceSummary>;
   /** Stack outputs from DescribeStacks */
   outputs: Record<string, string>;
 }
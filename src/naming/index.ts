@@ -79,6 +79,22 @@ export function generateTerraformStateBucketName(orgSlug: string): string {
   return truncateName(normalized, S3_BUCKET_MAX_LENGTH);
 }
 
+/**
+ * Key prefix for a stage's objects in the Terraform state bucket
+ * Format: <pipeline_slug>/<stage_name>/
+ */
+export function getTerraformStatePrefix(pipelineSlug: string, stageName: string): string {
+  return `${pipelineSlug}/${normalizeName(stageName)}/`;
+}
+
+/**
+ * Key of a stage's Terraform state object
+ * Format: <pipeline_slug>/<stage_name>/terraform.tfstate
+ */
+export function getTerraformStateKey(pipelineSlug: string, stageName: string): string {
+  return `${getTerraformStatePrefix(pipelineSlug, stageName)}terraform.tfstate`;
+}
+
 /**
  * Generate root S3 bucket name for bundle artifacts in pipeline stack
  * Format: <cicd_account_id>-<pipeline_slug>-<artifact_id>
@@ -193,6 +209,17 @@ export function getAccountStackName(): string {
   return 'DevRamps-Account-Bootstrap';
 }
 
+/** Prefix of the change sets bootstrap --change-set-mode creates for review */
+export const CHANGE_SET_PREFIX = 'devramps-bootstrap-';
+
+/**
+ * Generate the name shared by the change sets of one bootstrap run
+ * Format: devramps-bootstrap-<yyyymmdd>T<hhmmss>Z (UTC)
+ */
+export function getChangeSetName(createdAt: Date): string {
+  return `${CHANGE_SET_PREFIX}${createdAt.toISOString().replace(/[-:]/g, '').replace(/\.\d+Z$/, 'Z')}`;
+}
+
 // ============================================================================
 // Import Stack Names and Roles
 // ============================================================================
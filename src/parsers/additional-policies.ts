@@ -3,9 +3,10 @@
  */
 
 import { readFile, access, constants } from 'node:fs/promises';
-import { join } from 'node:path';
-import { parse as parseYaml } from 'yaml';
+import { join, relative } from 'node:path';
+import { AdditionalPoliciesError, YamlSyntaxError } from '../utils/errors.js';
 import * as logger from '../utils/logger.js';
+import { parseYamlSource, locationAt, type YamlSource } from './yaml-source.js';
 import type { IamPolicy } from '../types/pipeline.js';
 
 const POLICIES_JSON = 'aws_additional_iam_policies.json';
@@ -41,20 +42,40 @@ export async function parseAdditionalPolicies(pipelineDir: string): Promise<IamP
     return [];
   }
 
-  let policies: unknown;
+  const fileName = format === 'json' ? POLICIES_JSON : POLICIES_YAML;
+  const displayPath = relative(process.cwd(), join(pipelineDir, fileName));
 
-  try {
-    if (format === 'json') {
-      policies = JSON.parse(content);
-    } else {
-      policies = parseYaml(content);
+  // JSON is valid YAML, so both formats are read through the YAML document
+  // API to keep source positions. JSON files are still checked with
+  // JSON.parse so that YAML-only syntax is rejected.
+  if (format === 'json') {
+    try {
+      JSON.parse(content);
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      const position = message.match(/at position (\d+)/);
+      throw new AdditionalPoliciesError(
+        fileName,
+        message,
+        position ? locationAt(content, displayPath, Number(position[1])) : undefined
+      );
     }
+  }
+
+  let source: YamlSource;
+  try {
+    source = parseYamlSource(content, displayPath);
   } catch (error) {
-    throw new Error(`Failed to parse ${format === 'json' ? POLICIES_JSON : POLICIES_YAML}: ${error instanceof Error ? error.message : String(error)}`);
+    if (error instanceof YamlSyntaxError) {
+      throw new AdditionalPoliciesError(fileName, error.reason, error.location);
+    }
+    throw new AdditionalPoliciesError(fileName, error instanceof Error ? error.message : String(error));
   }
 
+  const policies = source.data;
+
   if (!Array.isArray(policies)) {
-    throw new Error(`Additional policies file must contain an array of IAM policies`);
+    throw new AdditionalPoliciesError(fileName, 'File must contain an array of IAM policies', source.locate([]));
   }
 
   // Validate each policy has the expected structure
@@ -64,11 +85,11 @@ export async function parseAdditionalPolicies(pipelineDir: string): Promise<IamP
     const policy = policies[i];
 
     if (!policy || typeof policy !== 'object') {
-      throw new Error(`Policy at index ${i} is not an object`);
+      throw new AdditionalPoliciesError(fileName, `Policy at index ${i} is not an object`, source.locate([i]));
     }
 
     if (!('Statement' in policy) || !policy.Statement || typeof policy.Statement !== 'object') {
-      throw new Error(`Policy at index ${i} is missing Statement`);
+      throw new AdditionalPoliciesError(fileName, `Policy at index ${i} is missing Statement`, source.locate([i]));
     }
 
     // Normalize a single statement into an array
@@ -2,7 +2,7 @@
  * Artifact parser - extracts and categorizes artifacts from pipeline definition
  */
 
-import type { PipelineDefinition, RawArtifact } from '../types/pipeline.js';
+import type { PipelineDefinition, PipelineSource, RawArtifact } from '../types/pipeline.js';
 import type {
   ParsedArtifacts,
   DockerArtifact,
@@ -14,6 +14,7 @@ import type {
   ArtifactType,
   ImportSourceAccount,
 } from '../types/artifacts.js';
+import { formatSourceLocation } from '../utils/errors.js';
 import * as logger from '../utils/logger.js';
 
 /**
@@ -24,9 +25,10 @@ const BUNDLE_TYPES: ArtifactType[] = ['DEVRAMPS:BUNDLE:BUILD', 'DEVRAMPS:BUNDLE:
 const VALID_TYPES: ArtifactType[] = [...DOCKER_TYPES, ...BUNDLE_TYPES];
 
 /**
- * Parse and categorize artifacts from a pipeline definition
+ * Parse and categorize artifacts from a pipeline definition.
+ * If source is given, warnings include the artifact's position in pipeline.yaml.
  */
-export function parseArtifacts(definition: PipelineDefinition): ParsedArtifacts {
+export function parseArtifacts(definition: PipelineDefinition, source?: PipelineSource): ParsedArtifacts {
   const docker: DockerArtifact[] = [];
   const bundle: BundleArtifact[] = [];
 
@@ -37,7 +39,7 @@ export function parseArtifacts(definition: PipelineDefinition): ParsedArtifacts
   }
 
   for (const [name, raw] of Object.entries(rawArtifacts)) {
-    const artifact = parseArtifact(name, raw);
+    const artifact = parseArtifact(name, raw, source);
 
     if (!artifact) {
       continue;
@@ -60,15 +62,21 @@ export function parseArtifacts(definition: PipelineDefinition): ParsedArtifacts
  */
 function parseArtifact(
   name: string,
-  raw: RawArtifact
+  raw: RawArtifact,
+  source?: PipelineSource
 ): DockerArtifact | BundleArtifact | null {
+  const withLocation = (message: string) => {
+    const location = source?.locate(['pipeline', 'artifacts', name, 'type']);
+    return location ? `${message}\n${formatSourceLocation(location)}` : message;
+  };
+
   if (!raw.type) {
-    logger.warn(`Artifact "${name}" is missing type, skipping`);
+    logger.warn(withLocation(`Artifact "${name}" is missing type, skipping`));
     return null;
   }
 
   if (!VALID_TYPES.includes(raw.type as ArtifactType)) {
-    logger.warn(`Artifact "${name}" has unknown type "${raw.type}", skipping`);
+    logger.warn(withLocation(`Artifact "${name}" has unknown type "${raw.type}", skipping`));
     return null;
   }
 
@@ -79,6 +87,7 @@ function parseArtifact(
     architecture: raw.architecture,
     host_size: raw.host_size,
     per_stage: raw.per_stage,
+    retain: raw.retain,
     rebuild_when_changed: raw.rebuild_when_changed,
     dependencies: raw.dependencies,
     params: raw.params,
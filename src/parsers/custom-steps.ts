@@ -0,0 +1,128 @@
+/**
+ * Parser for custom step permissions (custom_steps.yaml)
+ *
+ * Maps each CUSTOM: step type to the IAM statements its steps need, so that
+ * custom steps get their own named policy on the stage role like built-in
+ * steps do:
+ *
+ *   CUSTOM:RUN_MIGRATIONS:
+ *     - actions: [rds-data:ExecuteStatement]
+ *       resources: ["arn:aws:rds:us-east-1:123456789012:cluster:app"]
+ *     - actions: [secretsmanager:GetSecretValue]
+ *       resources: ["*"]
+ *       condition:
+ *         StringEquals: { "aws:ResourceTag/app": "api" }
+ *
+ * A type may also map to a single statement instead of a list. Resources
+ * default to "*".
+ */
+
+import { readFile } from 'node:fs/promises';
+import { join, relative } from 'node:path';
+import { CustomStepsError, YamlSyntaxError } from '../utils/errors.js';
+import * as logger from '../utils/logger.js';
+import { parseYamlSource, type YamlSource } from './yaml-source.js';
+import type { CustomStepDefinitions, CustomStepStatement } from '../types/pipeline.js';
+
+export const CUSTOM_STEPS_FILE = 'custom_steps.yaml';
+
+const CUSTOM_STEP_PREFIX = 'CUSTOM:';
+
+export async function parseCustomSteps(pipelineDir: string): Promise<CustomStepDefinitions> {
+  const filePath = join(pipelineDir, CUSTOM_STEPS_FILE);
+
+  let content: string;
+  try {
+    content = await readFile(filePath, 'utf-8');
+  } catch {
+    return {};
+  }
+
+  logger.verbose(`Found custom step permissions: ${CUSTOM_STEPS_FILE}`);
+
+  let source: YamlSource;
+  try {
+    source = parseYamlSource(content, relative(process.cwd(), filePath));
+  } catch (error) {
+    if (error instanceof YamlSyntaxError) {
+      throw new CustomStepsError(CUSTOM_STEPS_FILE, error.reason, error.location);
+    }
+    throw new CustomStepsError(CUSTOM_STEPS_FILE, error instanceof Error ? error.message : String(error));
+  }
+
+  const data = source.data;
+  if (data === null || data === undefined) {
+    return {};
+  }
+  if (!isObject(data)) {
+    throw new CustomStepsError(CUSTOM_STEPS_FILE, 'File must map CUSTOM: step types to permissions', source.locate([]));
+  }
+
+  const definitions: CustomStepDefinitions = {};
+
+  for (const [stepType, value] of Object.entries(data)) {
+    if (!stepType.startsWith(CUSTOM_STEP_PREFIX)) {
+      throw new CustomStepsError(
+        CUSTOM_STEPS_FILE,
+        `Step type "${stepType}" must start with ${CUSTOM_STEP_PREFIX}`,
+        source.locate([stepType])
+      );
+    }
+
+    const rawStatements = Array.isArray(value) ? value : [value];
+    definitions[stepType] = rawStatements.map((raw, i) => {
+      const path = Array.isArray(value) ? [stepType, i] : [stepType];
+      return parseStatement(raw, `${stepType}${Array.isArray(value) ? `[${i}]` : ''}`, source, path);
+    });
+  }
+
+  logger.verbose(`Loaded permissions for ${Object.keys(definitions).length} custom step type(s)`);
+
+  return definitions;
+}
+
+function parseStatement(
+  raw: unknown,
+  label: string,
+  source: YamlSource,
+  path: Array<string | number>
+): CustomStepStatement {
+  const fail = (reason: string, key?: string): never => {
+    throw new CustomStepsError(CUSTOM_STEPS_FILE, `${label}: ${reason}`, source.locate(key ? [...path, key] : path));
+  };
+
+  if (!isObject(raw)) {
+    return fail('Expected a mapping with actions, resources and condition');
+  }
+
+  const { actions, resources, condition, ...unknown } = raw;
+
+  const unknownKeys = Object.keys(unknown);
+  if (unknownKeys.length > 0) {
+    fail(`Unknown key "${unknownKeys[0]}" (expected actions, resources or condition)`, unknownKeys[0]);
+  }
+
+  if (!isStringList(actions) || actions.length === 0) {
+    fail('actions must be a non-empty list of IAM actions', 'actions');
+  }
+  if (resources !== undefined && !isStringList(resources)) {
+    fail('resources must be a list of ARNs', 'resources');
+  }
+  if (condition !== undefined && !isObject(condition)) {
+    fail('condition must be a mapping', 'condition');
+  }
+
+  return {
+    actions: actions as string[],
+    resources: (resources as string[] | undefined) ?? ['*'],
+    ...(condition ? { condition: condition as Record<string, unknown> } : {}),
+  };
+}
+
+function isStringList(value: unknown): value is string[] {
+  return Array.isArray(value) && value.every(item => typeof item === 'string');
+}
+
+function isObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
@@ -0,0 +1,526 @@
+/**
+ * Pipeline.yaml validator
+ *
+ * Lints a pipeline definition without any AWS or DevRamps access and reports
+ * every problem found, rather than stopping at the first one like
+ * parsePipeline does. Checks:
+ * - Unknown keys (with a suggestion for likely typos, e.g. variables -> vars)
+ * - Missing required fields and duplicate stage/step names
+ * - AWS account IDs and regions, and stages mixing AWS partitions
+ * - goes_after references to missing steps, and dependency cycles
+ * - skip entries naming steps that don't exist
+ */
+
+import { readFile } from 'node:fs/promises';
+import { join } from 'node:path';
+import { AdditionalPoliciesError, CustomStepsError, YamlSyntaxError } from '../utils/errors.js';
+import { isValidAwsAccountId, isValidAwsRegion } from '../utils/validation.js';
+import { getPartition } from '../utils/partition.js';
+import { parseAdditionalPolicies } from './additional-policies.js';
+import { parseCustomSteps, CUSTOM_STEPS_FILE } from './custom-steps.js';
+import { parseYamlSource, type YamlSource } from './yaml-source.js';
+import {
+  DEFINITION_PROPERTIES,
+  PIPELINE_PROPERTIES,
+  STAGE_PROPERTIES,
+  STAGE_DEFAULTS_PROPERTIES,
+  INFRASTRUCTURE_PROPERTIES,
+  STEP_PROPERTIES,
+  ARTIFACT_PROPERTIES,
+  EPHEMERAL_ENVIRONMENT_PROPERTIES,
+} from '../schema/index.js';
+import type { CustomStepDefinitions, SourceLocation, SourcePath } from '../types/pipeline.js';
+
+export interface PipelineValidationIssue {
+  severity: 'error' | 'warning';
+  /** Location in the document, e.g. pipeline.stages[1].vars */
+  path: string;
+  message: string;
+  /** Position in the source file, when validating a file */
+  location?: SourceLocation;
+}
+
+/**
+ * Common mistakes that edit distance alone would not catch
+ */
+const KEY_HINTS: Record<string, string> = {
+  variables: 'vars',
+  account: 'account_id',
+  accountId: 'account_id',
+  aws_account_id: 'account_id',
+  depends_on: 'goes_after',
+  after: 'goes_after',
+};
+
+const DEVRAMPS_FOLDER = '.devramps';
+const PIPELINE_FILE = 'pipeline.yaml';
+
+/**
+ * Read and validate .devramps/<slug>/pipeline.yaml and its additional policies
+ */
+export async function validatePipelineFile(basePath: string, slug: string): Promise<PipelineValidationIssue[]> {
+  const pipelineDir = join(basePath, DEVRAMPS_FOLDER, slug);
+  const file = join(DEVRAMPS_FOLDER, slug, PIPELINE_FILE);
+
+  let source: YamlSource;
+  try {
+    source = parseYamlSource(await readFile(join(pipelineDir, PIPELINE_FILE), 'utf-8'), file);
+  } catch (error) {
+    if (error instanceof YamlSyntaxError) {
+      return [{ severity: 'error', path: '', message: `Invalid YAML: ${error.reason}`, location: error.location }];
+    }
+    return [{ severity: 'error', path: '', message: error instanceof Error ? error.message : String(error) }];
+  }
+
+  const issues: PipelineValidationIssue[] = validatePipelineDefinition(source.data).map(issue => ({
+    ...issue,
+    location: source.locate(toSourcePath(issue.path)),
+  }));
+
+  try {
+    await parseAdditionalPolicies(pipelineDir);
+  } catch (error) {
+    if (error instanceof AdditionalPoliciesError) {
+      issues.push({ severity: 'error', path: '', message: `${error.fileName}: ${error.reason}`, location: error.location });
+    } else {
+      issues.push({ severity: 'error', path: '', message: error instanceof Error ? error.message : String(error) });
+    }
+  }
+
+  try {
+    const customSteps = await parseCustomSteps(pipelineDir);
+    issues.push(...checkCustomStepDefinitions(source, customSteps));
+  } catch (error) {
+    if (error instanceof CustomStepsError) {
+      issues.push({ severity: 'error', path: '', message: `${error.fileName}: ${error.reason}`, location: error.location });
+    } else {
+      issues.push({ severity: 'error', path: '', message: error instanceof Error ? error.message : String(error) });
+    }
+  }
+
+  return issues;
+}
+
+/**
+ * Warn about CUSTOM: steps with no permissions in custom_steps.yaml
+ */
+function checkCustomStepDefinitions(source: YamlSource, customSteps: CustomStepDefinitions): PipelineValidationIssue[] {
+  const pipeline = isObject(source.data) ? source.data.pipeline : undefined;
+  const steps = isObject(pipeline) && Array.isArray(pipeline.steps) ? pipeline.steps : [];
+  const issues: PipelineValidationIssue[] = [];
+
+  steps.forEach((step, i) => {
+    if (!isObject(step) || typeof step.type !== 'string') return;
+    if (step.type.startsWith('CUSTOM:') && !customSteps[step.type]) {
+      const path = `pipeline.steps[${i}].type`;
+      issues.push({
+        severity: 'warning',
+        path,
+        message: `No permissions declared for ${step.type} in ${CUSTOM_STEPS_FILE}; the step only gets permissions from additional policies`,
+        location: source.locate(toSourcePath(path)),
+      });
+    }
+  });
+
+  return issues;
+}
+
+/**
+ * Validate a parsed pipeline.yaml document, returning every issue found
+ */
+export function validatePipelineDefinition(definition: unknown): PipelineValidationIssue[] {
+  const issues: PipelineValidationIssue[] = [];
+  const error = (path: string, message: string) => issues.push({ severity: 'error', path, message });
+
+  if (!isObject(definition)) {
+    error('', 'pipeline.yaml must be a YAML mapping');
+    return issues;
+  }
+
+  checkUnknownKeys(definition, DEFINITION_PROPERTIES, '', issues);
+
+  const pipeline = definition.pipeline;
+  if (!isObject(pipeline)) {
+    error('pipeline', 'Missing "pipeline" key in definition');
+    return issues;
+  }
+
+  checkUnknownKeys(pipeline, PIPELINE_PROPERTIES, 'pipeline', issues);
+
+  // Steps are validated first so stages can check skip references, but
+  // reported after the stages to follow document order
+  const stepIssues: PipelineValidationIssue[] = [];
+  const stepRefs = new Set<string>();
+  const steps = validateSteps(pipeline.steps, stepIssues, stepRefs);
+
+  // Stages
+  if (!Array.isArray(pipeline.stages) || pipeline.stages.length === 0) {
+    error('pipeline.stages', 'Pipeline must have at least one stage');
+  } else {
+    const stageNames = new Set<string>();
+    pipeline.stages.forEach((stage, i) => {
+      const path = `pipeline.stages[${i}]`;
+      if (!isObject(stage)) {
+        error(path, 'Stage must be a mapping');
+        return;
+      }
+
+      checkUnknownKeys(stage, STAGE_PROPERTIES, path, issues);
+
+      if (typeof stage.name !== 'string' || stage.name === '') {
+        error(`${path}.name`, 'Stage is missing name');
+      } else if (stageNames.has(stage.name)) {
+        error(`${path}.name`, `Duplicate stage name "${stage.name}"`);
+      } else {
+        stageNames.add(stage.name);
+      }
+
+      checkAccountAndRegion(stage, path, issues);
+      checkSkipReferences(stage.skip, `${path}.skip`, stepRefs, issues);
+
+      if (stage.infrastructure !== undefined) {
+        checkInfrastructure(stage.infrastructure, `${path}.infrastructure`, issues);
+      }
+    });
+  }
+
+  issues.push(...stepIssues);
+
+  // Stage defaults
+  if (pipeline.stage_defaults !== undefined) {
+    if (!isObject(pipeline.stage_defaults)) {
+      error('pipeline.stage_defaults', 'stage_defaults must be a mapping');
+    } else {
+      checkUnknownKeys(pipeline.stage_defaults, STAGE_DEFAULTS_PROPERTIES, 'pipeline.stage_defaults', issues);
+      if (pipeline.stage_defaults.infrastructure !== undefined) {
+        checkInfrastructure(pipeline.stage_defaults.infrastructure, 'pipeline.stage_defaults.infrastructure', issues);
+      }
+    }
+  }
+
+  // Ephemeral environments
+  if (pipeline.ephemeral_environments !== undefined) {
+    if (!isObject(pipeline.ephemeral_environments)) {
+      error('pipeline.ephemeral_environments', 'ephemeral_environments must be a mapping');
+    } else {
+      for (const [name, env] of Object.entries(pipeline.ephemeral_environments)) {
+        const path = `pipeline.ephemeral_environments.${name}`;
+        if (!isObject(env)) {
+          error(path, 'Ephemeral environment must be a mapping');
+          continue;
+        }
+        checkUnknownKeys(env, EPHEMERAL_ENVIRONMENT_PROPERTIES, path, issues);
+        checkAccountAndRegion(env, path, issues);
+        checkSkipReferences(env.skip, `${path}.skip`, stepRefs, issues);
+      }
+    }
+  }
+
+  // Artifacts
+  if (pipeline.artifacts !== undefined) {
+    if (!isObject(pipeline.artifacts)) {
+      error('pipeline.artifacts', 'artifacts must be a mapping');
+    } else {
+      for (const [name, artifact] of Object.entries(pipeline.artifacts)) {
+        const path = `pipeline.artifacts.${name}`;
+        if (!isObject(artifact)) {
+          error(path, 'Artifact must be a mapping');
+          continue;
+        }
+        checkUnknownKeys(artifact, ARTIFACT_PROPERTIES, path, issues);
+        if (typeof artifact.type !== 'string' || artifact.type === '') {
+          error(`${path}.type`, 'Artifact is missing type');
+        }
+      }
+    }
+  }
+
+  checkPartitions(pipeline, issues);
+  checkDependencyCycles(steps, issues);
+
+  return issues;
+}
+
+interface StepNode {
+  index: number;
+  name: string;
+  id?: string;
+  goesAfter: string[];
+}
+
+/**
+ * Validate steps, collecting every name and id into stepRefs
+ */
+function validateSteps(
+  rawSteps: unknown,
+  issues: PipelineValidationIssue[],
+  stepRefs: Set<string>
+): StepNode[] {
+  if (rawSteps === undefined) return [];
+  if (!Array.isArray(rawSteps)) {
+    issues.push({ severity: 'error', path: 'pipeline.steps', message: 'steps must be a list' });
+    return [];
+  }
+
+  const nodes: StepNode[] = [];
+
+  rawSteps.forEach((step, i) => {
+    const path = `pipeline.steps[${i}]`;
+    if (!isObject(step)) {
+      issues.push({ severity: 'error', path, message: 'Step must be a mapping' });
+      return;
+    }
+
+    checkUnknownKeys(step, STEP_PROPERTIES, path, issues);
+
+    if (typeof step.type !== 'string' || step.type === '') {
+      issues.push({ severity: 'error', path: `${path}.type`, message: 'Step is missing type' });
+    }
+    if (typeof step.name !== 'string' || step.name === '') {
+      issues.push({ severity: 'error', path: `${path}.name`, message: 'Step is missing name' });
+      return;
+    }
+
+    for (const ref of [step.name, step.id]) {
+      if (typeof ref !== 'string') continue;
+      if (stepRefs.has(ref)) {
+        issues.push({ severity: 'error', path, message: `Duplicate step name or id "${ref}"` });
+      }
+      stepRefs.add(ref);
+    }
+
+    let goesAfter: string[] = [];
+    if (step.goes_after !== undefined) {
+      if (!Array.isArray(step.goes_after) || step.goes_after.some(g => typeof g !== 'string')) {
+        issues.push({ severity: 'error', path: `${path}.goes_after`, message: 'goes_after must be a list of step names' });
+      } else {
+        goesAfter = step.goes_after as string[];
+      }
+    }
+
+    nodes.push({
+      index: i,
+      name: step.name,
+      id: typeof step.id === 'string' ? step.id : undefined,
+      goesAfter,
+    });
+  });
+
+  // goes_after references (checked once every step is known)
+  for (const node of nodes) {
+    for (const ref of node.goesAfter) {
+      if (!stepRefs.has(ref)) {
+        issues.push({
+          severity: 'error',
+          path: `pipeline.steps[${node.index}].goes_after`,
+          message: `References unknown step "${ref}"`,
+        });
+      }
+    }
+  }
+
+  return nodes;
+}
+
+/**
+ * Report each goes_after cycle once, as a path of step names
+ */
+function checkDependencyCycles(steps: StepNode[], issues: PipelineValidationIssue[]): void {
+  const byRef = new Map<string, StepNode>();
+  for (const step of steps) {
+    byRef.set(step.name, step);
+    if (step.id) byRef.set(step.id, step);
+  }
+
+  const state = new Map<StepNode, 'visiting' | 'done'>();
+  const stack: StepNode[] = [];
+
+  const visit = (step: StepNode) => {
+    state.set(step, 'visiting');
+    stack.push(step);
+
+    for (const ref of step.goesAfter) {
+      const dependency = byRef.get(ref);
+      if (!dependency) continue;
+
+      if (state.get(dependency) === 'visiting') {
+        const cycle = stack.slice(stack.indexOf(dependency)).map(s => s.name);
+        issues.push({
+          severity: 'error',
+          path: `pipeline.steps[${dependency.index}].goes_after`,
+          message: `Dependency cycle: ${[...cycle, dependency.name].join(' -> ')}`,
+        });
+      } else if (!state.has(dependency)) {
+        visit(dependency);
+      }
+    }
+
+    stack.pop();
+    state.set(step, 'done');
+  };
+
+  for (const step of steps) {
+    if (!state.has(step)) {
+      visit(step);
+    }
+  }
+}
+
+function checkAccountAndRegion(target: Record<string, unknown>, path: string, issues: PipelineValidationIssue[]): void {
+  const { account_id: accountId, region } = target;
+
+  if (accountId === undefined || accountId === null || accountId === '') {
+    issues.push({ severity: 'error', path: `${path}.account_id`, message: 'Missing account_id' });
+  } else if (typeof accountId !== 'string') {
+    // Unquoted account IDs are parsed as numbers, losing any leading zeros
+    issues.push({ severity: 'error', path: `${path}.account_id`, message: 'account_id must be a quoted string, e.g. "123456789012"' });
+  } else if (!isValidAwsAccountId(accountId)) {
+    issues.push({ severity: 'error', path: `${path}.account_id`, message: `Invalid AWS account ID "${accountId}" (must be exactly 12 digits)` });
+  }
+
+  if (region === undefined || region === null || region === '') {
+    issues.push({ severity: 'error', path: `${path}.region`, message: 'Missing region' });
+  } else if (typeof region !== 'string' || !isValidAwsRegion(region)) {
+    issues.push({ severity: 'error', path: `${path}.region`, message: `Invalid AWS region "${String(region)}"` });
+  }
+}
+
+/**
+ * Report stages and ephemeral environments outside the partition of the first stage,
+ * since roles and accounts can't be shared across partitions
+ */
+function checkPartitions(pipeline: Record<string, unknown>, issues: PipelineValidationIssue[]): void {
+  const targets: Array<{ path: string; region: string }> = [];
+  if (Array.isArray(pipeline.stages)) {
+    pipeline.stages.forEach((stage, i) => {
+      if (isObject(stage) && typeof stage.region === 'string' && isValidAwsRegion(stage.region)) {
+        targets.push({ path: `pipeline.stages[${i}]`, region: stage.region });
+      }
+    });
+  }
+  if (isObject(pipeline.ephemeral_environments)) {
+    for (const [name, env] of Object.entries(pipeline.ephemeral_environments)) {
+      if (isObject(env) && typeof env.region === 'string' && isValidAwsRegion(env.region)) {
+        targets.push({ path: `pipeline.ephemeral_environments.${name}`, region: env.region });
+      }
+    }
+  }
+
+  const [first, ...rest] = targets;
+  if (!first) return;
+
+  const partition = getPartition(first.region);
+  for (const target of rest) {
+    const other = getPartition(target.region);
+    if (other !== partition) {
+      issues.push({
+        severity: 'error',
+        path: `${target.path}.region`,
+        message: `Region ${target.region} is in partition ${other}, but ${first.path} is in ${partition}; all stages must be in the same AWS partition`,
+      });
+    }
+  }
+}
+
+function checkSkipReferences(
+  skip: unknown,
+  path: string,
+  stepRefs: Set<string>,
+  issues: PipelineValidationIssue[]
+): void {
+  if (skip === undefined) return;
+  if (!Array.isArray(skip)) {
+    issues.push({ severity: 'error', path, message: 'skip must be a list of step names or ids' });
+    return;
+  }
+
+  for (const entry of skip) {
+    if (typeof entry !== 'string' || !stepRefs.has(entry)) {
+      issues.push({ severity: 'error', path, message: `Skips unknown step "${String(entry)}"` });
+    }
+  }
+}
+
+function checkInfrastructure(infrastructure: unknown, path: string, issues: PipelineValidationIssue[]): void {
+  if (!isObject(infrastructure)) {
+    issues.push({ severity: 'error', path, message: 'infrastructure must be a mapping' });
+    return;
+  }
+  checkUnknownKeys(infrastructure, INFRASTRUCTURE_PROPERTIES, path, issues);
+}
+
+function checkUnknownKeys(
+  value: Record<string, unknown>,
+  knownKeys: Record<string, unknown>,
+  path: string,
+  issues: PipelineValidationIssue[]
+): void {
+  const known = Object.keys(knownKeys);
+
+  for (const key of Object.keys(value)) {
+    if (key in knownKeys) continue;
+
+    const suggestion = suggestKey(key, known);
+    issues.push({
+      severity: 'error',
+      path: path ? `${path}.${key}` : key,
+      message: suggestion
+        ? `Unknown key "${key}" (did you mean "${suggestion}"?)`
+        : `Unknown key "${key}"`,
+    });
+  }
+}
+
+/**
+ * Suggest a known key for a likely typo
+ */
+function suggestKey(key: string, known: string[]): string | undefined {
+  const hint = KEY_HINTS[key];
+  if (hint && known.includes(hint)) {
+    return hint;
+  }
+
+  let best: string | undefined;
+  let bestDistance = 3;
+  for (const candidate of known) {
+    const distance = editDistance(key.toLowerCase(), candidate);
+    if (distance < bestDistance) {
+      best = candidate;
+      bestDistance = distance;
+    }
+  }
+  return best;
+}
+
+function editDistance(a: string, b: string): number {
+  let previous = Array.from({ length: b.length + 1 }, (_, i) => i);
+
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i];
+    for (let j = 1; j <= b.length; j++) {
+      current[j] = Math.min(
+        previous[j] + 1,
+        current[j - 1] + 1,
+        previous[j - 1] + (a[i - 1] === b[j - 1] ? 0 : 1)
+      );
+    }
+    previous = current;
+  }
+
+  return previous[b.length];
+}
+
+/**
+ * Convert an issue path such as pipeline.stages[1].vars to ['pipeline', 'stages', 1, 'vars']
+ */
+function toSourcePath(path: string): SourcePath {
+  const segments: SourcePath = [];
+  for (const match of path.matchAll(/([^.[\]]+)|\[(\d+)\]/g)) {
+    segments.push(match[2] !== undefined ? Number(match[2]) : match[1]);
+  }
+  return segments;
+}
+
+function isObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
@@ -4,11 +4,14 @@
 
 import { readFile, readdir, access, constants } from 'node:fs/promises';
 import { join } from 'node:path';
-import { parse as parseYaml } from 'yaml';
-import { NoDevrampsFolderError, PipelineParseError } from '../utils/errors.js';
+import { NoDevrampsFolderError, PipelineParseError, YamlSyntaxError } from '../utils/errors.js';
 import * as logger from '../utils/logger.js';
 import { parseAdditionalPolicies } from './additional-policies.js';
-import type { PipelineDefinition, ParsedPipeline, PipelineStep, IamPolicy, Stage, EphemeralEnvironmentDef } from '../types/pipeline.js';
+import { parseCustomSteps } from './custom-steps.js';
+import { parseYamlSource, type YamlSource } from './yaml-source.js';
+import { applyStageDefaults } from './stage-defaults.js';
+import { getPartition } from '../utils/partition.js';
+import type { PipelineDefinition, ParsedPipeline, PipelineStep, IamPolicy, Stage, EphemeralEnvironmentDef, SourcePath } from '../types/pipeline.js';
 
 const DEVRAMPS_FOLDER = '.devramps';
 const PIPELINE_FILE = 'pipeline.yaml';
@@ -72,39 +75,45 @@ export async function parsePipeline(
     throw new PipelineParseError(slug, `Could not read file: ${error instanceof Error ? error.message : String(error)}`);
   }
 
-  let definition: PipelineDefinition;
+  let source: YamlSource;
   try {
-    definition = parseYaml(content) as PipelineDefinition;
+    source = parseYamlSource(content, join(DEVRAMPS_FOLDER, slug, PIPELINE_FILE));
   } catch (error) {
+    if (error instanceof YamlSyntaxError) {
+      throw new PipelineParseError(slug, `Invalid YAML: ${error.reason}`, error.location);
+    }
     throw new PipelineParseError(slug, `Invalid YAML: ${error instanceof Error ? error.message : String(error)}`);
   }
 
-  if (!definition.pipeline) {
-    throw new PipelineParseError(slug, 'Missing "pipeline" key in definition');
+  const definition = source.data as PipelineDefinition;
+
+  if (!definition?.pipeline) {
+    throw new PipelineParseError(slug, 'Missing "pipeline" key in definition', source.locate([]));
   }
 
   if (!definition.pipeline.stages || definition.pipeline.stages.length === 0) {
-    throw new PipelineParseError(slug, 'Pipeline must have at least one stage');
+    throw new PipelineParseError(slug, 'Pipeline must have at least one stage', source.locate(['pipeline', 'stages']));
   }
 
   // Validate stages have required fields
-  for (const stage of definition.pipeline.stages) {
+  definition.pipeline.stages.forEach((stage, i) => {
     if (!stage.account_id) {
-      throw new PipelineParseError(slug, `Stage "${stage.name}" is missing account_id`);
+      throw new PipelineParseError(slug, `Stage "${stage.name}" is missing account_id`, source.locate(['pipeline', 'stages', i]));
     }
     if (!stage.region) {
-      throw new PipelineParseError(slug, `Stage "${stage.name}" is missing region`);
+      throw new PipelineParseError(slug, `Stage "${stage.name}" is missing region`, source.locate(['pipeline', 'stages', i]));
     }
-  }
+  });
 
   // Validate ephemeral environments have required fields
   if (definition.pipeline.ephemeral_environments) {
     for (const [name, env] of Object.entries(definition.pipeline.ephemeral_environments)) {
+      const location = source.locate(['pipeline', 'ephemeral_environments', name]);
       if (!env.account_id) {
-        throw new PipelineParseError(slug, `Ephemeral environment "${name}" is missing account_id`);
+        throw new PipelineParseError(slug, `Ephemeral environment "${name}" is missing account_id`, location);
       }
       if (!env.region) {
-        throw new PipelineParseError(slug, `Ephemeral environment "${name}" is missing region`);
+        throw new PipelineParseError(slug, `Ephemeral environment "${name}" is missing region`, location);
       }
     }
   }
@@ -115,12 +124,26 @@ export async function parsePipeline(
   // Extract steps from pipeline level
   const steps = extractSteps(definition);
 
-  // Parse additional IAM policies if present
+  // Skip entries must name a step (by name or id), since they drop that step's permissions
+  definition.pipeline.stages.forEach((stage, i) => {
+    checkSkipReferences(slug, steps, stage.skip, `Stage "${stage.name}"`, source, ['pipeline', 'stages', i, 'skip']);
+  });
+  for (const [name, env] of Object.entries(definition.pipeline.ephemeral_environments ?? {})) {
+    checkSkipReferences(slug, steps, env.skip, `Ephemeral environment "${name}"`, source, ['pipeline', 'ephemeral_environments', name, 'skip']);
+  }
+
+  // Roles and cross-account grants can't span partitions (aws, aws-us-gov, aws-cn)
+  checkPartitions(slug, definition, source);
+
+  // Parse additional IAM policies and custom step permissions if present
   const additionalPolicies = await parseAdditionalPoliciesForPipeline(basePath, slug);
+  const customSteps = await parseCustomSteps(join(basePath, DEVRAMPS_FOLDER, slug));
 
-  // Combine regular stages with ephemeral environments (which need the same stage stacks)
+  // Combine regular stages with ephemeral environments (which need the same stage stacks),
+  // resolving each against stage_defaults
   const ephemeralStages = ephemeralEnvironmentsAsStages(definition);
-  const allStages = [...definition.pipeline.stages, ...ephemeralStages];
+  const allStages = [...definition.pipeline.stages, ...ephemeralStages]
+    .map(stage => applyStageDefaults(stage, definition.pipeline.stage_defaults));
 
   if (ephemeralStages.length > 0) {
     logger.verbose(`Pipeline ${slug}: ${ephemeralStages.length} ephemeral environment(s) will be bootstrapped as stages`);
@@ -135,6 +158,8 @@ export async function parsePipeline(
     stages: allStages,
     steps,
     additionalPolicies,
+    customSteps,
+    source,
   };
 }
 
@@ -179,6 +204,56 @@ function ephemeralEnvironmentsAsStages(
   }));
 }
 
+function checkSkipReferences(
+  slug: string,
+  steps: PipelineStep[],
+  skip: string[] | undefined,
+  owner: string,
+  source: YamlSource,
+  path: SourcePath
+): void {
+  if (!skip) return;
+
+  const stepRefs = new Set(steps.flatMap(step => (step.id ? [step.name, step.id] : [step.name])));
+
+  skip.forEach((entry, i) => {
+    if (!stepRefs.has(entry)) {
+      throw new PipelineParseError(slug, `${owner} skips unknown step "${entry}"`, source.locate([...path, i]));
+    }
+  });
+}
+
+function checkPartitions(slug: string, definition: PipelineDefinition, source: YamlSource): void {
+  const targets = [
+    ...definition.pipeline.stages.map((stage, i) => ({
+      owner: `Stage "${stage.name}"`,
+      region: stage.region,
+      path: ['pipeline', 'stages', i, 'region'],
+    })),
+    ...Object.entries(definition.pipeline.ephemeral_environments ?? {}).map(([name, env]) => ({
+      owner: `Ephemeral environment "${name}"`,
+      region: env.region,
+      path: ['pipeline', 'ephemeral_environments', name, 'region'],
+    })),
+  ];
+
+  const [first, ...rest] = targets;
+  if (!first) return;
+
+  const partition = getPartition(first.region);
+  for (const target of rest) {
+    const other = getPartition(target.region);
+    if (other !== partition) {
+      throw new PipelineParseError(
+        slug,
+        `${target.owner} is in ${target.region} (partition ${other}), while ${first.owner} is in ${first.region} ` +
+        `(partition ${partition}). All stages of a pipeline must be in the same AWS partition.`,
+        source.locate(target.path)
+      );
+    }
+  }
+}
+
 function extractSteps(definition: PipelineDefinition): PipelineStep[] {
   // New structure: steps are at pipeline.steps level
   return definition.pipeline.steps || [];
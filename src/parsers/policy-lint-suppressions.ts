@@ -0,0 +1,96 @@
+/**
+ * Parser for policy lint suppressions (.devramps/policy_lint_suppressions.yaml)
+ *
+ * Lists policy lint findings a team has reviewed and accepted. Each entry
+ * names the rule it suppresses and why; stack, policy and sid narrow it down:
+ *
+ *   - rule: passrole-wildcard
+ *     stack: DevRamps-app-*
+ *     policy: AdditionalPolicy1
+ *     reason: Deploys pass roles created by our Terraform at runtime
+ */
+
+import { readFile } from 'node:fs/promises';
+import { join } from 'node:path';
+import { PolicyLintSuppressionsError, YamlSyntaxError } from '../utils/errors.js';
+import * as logger from '../utils/logger.js';
+import { parseYamlSource, type YamlSource } from './yaml-source.js';
+import { POLICY_LINT_RULES, type PolicyLintRule, type PolicyLintSuppression } from '../policy/lint.js';
+
+const DEVRAMPS_FOLDER = '.devramps';
+export const POLICY_LINT_SUPPRESSIONS_FILE = 'policy_lint_suppressions.yaml';
+
+const OPTIONAL_FIELDS = ['stack', 'policy', 'sid'] as const;
+
+export async function parsePolicyLintSuppressions(basePath: string): Promise<PolicyLintSuppression[]> {
+  const file = join(DEVRAMPS_FOLDER, POLICY_LINT_SUPPRESSIONS_FILE);
+
+  let content: string;
+  try {
+    content = await readFile(join(basePath, file), 'utf-8');
+  } catch {
+    return [];
+  }
+
+  let source: YamlSource;
+  try {
+    source = parseYamlSource(content, file);
+  } catch (error) {
+    if (error instanceof YamlSyntaxError) {
+      throw new PolicyLintSuppressionsError(POLICY_LINT_SUPPRESSIONS_FILE, error.reason, error.location);
+    }
+    throw new PolicyLintSuppressionsError(POLICY_LINT_SUPPRESSIONS_FILE, error instanceof Error ? error.message : String(error));
+  }
+
+  const data = source.data;
+  if (data === null || data === undefined) {
+    return [];
+  }
+  if (!Array.isArray(data)) {
+    throw new PolicyLintSuppressionsError(POLICY_LINT_SUPPRESSIONS_FILE, 'File must be a list of suppressions', source.locate([]));
+  }
+
+  const suppressions = data.map((raw, i) => parseSuppression(raw, i, source));
+  logger.verbose(`Loaded ${suppressions.length} policy lint suppression(s)`);
+
+  return suppressions;
+}
+
+function parseSuppression(raw: unknown, index: number, source: YamlSource): PolicyLintSuppression {
+  const fail = (reason: string, key?: string): never => {
+    throw new PolicyLintSuppressionsError(
+      POLICY_LINT_SUPPRESSIONS_FILE,
+      `Suppression ${index + 1}: ${reason}`,
+      source.locate(key ? [index, key] : [index])
+    );
+  };
+
+  if (typeof raw !== 'object' || raw === null || Array.isArray(raw)) {
+    return fail('Expected a mapping with rule and reason');
+  }
+
+  const { rule, reason, ...rest } = raw as Record<string, unknown>;
+  const suppression: Partial<PolicyLintSuppression> = {};
+
+  if (typeof rule !== 'string' || !(rule in POLICY_LINT_RULES)) {
+    fail(`rule must be one of ${Object.keys(POLICY_LINT_RULES).join(', ')}`, 'rule');
+  }
+  suppression.rule = rule as PolicyLintRule;
+
+  if (typeof reason !== 'string' || reason.trim() === '') {
+    fail('reason is required, to record why the risk is accepted', 'reason');
+  }
+  suppression.reason = reason as string;
+
+  for (const [key, value] of Object.entries(rest)) {
+    if (!(OPTIONAL_FIELDS as readonly string[]).includes(key)) {
+      fail(`Unknown key "${key}" (expected rule, reason, ${OPTIONAL_FIELDS.join(', ')})`, key);
+    }
+    if (typeof value !== 'string') {
+      fail(`${key} must be a string`, key);
+    }
+    suppression[key as typeof OPTIONAL_FIELDS[number]] = value as string;
+  }
+
+  return suppression as PolicyLintSuppression;
+}
@@ -0,0 +1,70 @@
+/**
+ * Apply pipeline.stage_defaults to stages
+ *
+ * Merge rules, with the stage always taking precedence:
+ * - deployment_time_window: the stage's value replaces the default
+ * - infrastructure.requires_approval / source: the stage's value replaces the default
+ * - infrastructure.variables: deep-merged. Nested mappings are merged key by
+ *   key; any other value (scalars and lists) from the stage replaces the
+ *   default's value as a whole.
+ */
+
+import type { Stage, StageDefaults, InfrastructureConfig } from '../types/pipeline.js';
+
+/**
+ * Return stage with stage_defaults applied. Neither argument is modified.
+ */
+export function applyStageDefaults(stage: Stage, defaults?: StageDefaults): Stage {
+  if (!defaults) {
+    return stage;
+  }
+
+  const resolved: Stage = { ...stage };
+
+  const deploymentTimeWindow = stage.deployment_time_window ?? defaults.deployment_time_window;
+  if (deploymentTimeWindow !== undefined) {
+    resolved.deployment_time_window = deploymentTimeWindow;
+  }
+
+  const infrastructure = mergeInfrastructure(defaults.infrastructure, stage.infrastructure);
+  if (infrastructure) {
+    resolved.infrastructure = infrastructure;
+  }
+
+  return resolved;
+}
+
+function mergeInfrastructure(
+  defaults: InfrastructureConfig | undefined,
+  overrides: InfrastructureConfig | undefined
+): InfrastructureConfig | undefined {
+  if (!defaults || !overrides) {
+    const only = defaults ?? overrides;
+    return only ? structuredClone(only) : undefined;
+  }
+
+  const merged: InfrastructureConfig = { ...structuredClone(defaults), ...structuredClone(overrides) };
+
+  if (defaults.variables && overrides.variables) {
+    merged.variables = deepMerge(defaults.variables, overrides.variables);
+  }
+
+  return merged;
+}
+
+function deepMerge(base: Record<string, unknown>, overrides: Record<string, unknown>): Record<string, unknown> {
+  const merged: Record<string, unknown> = structuredClone(base);
+
+  for (const [key, value] of Object.entries(overrides)) {
+    const baseValue = merged[key];
+    merged[key] = isPlainObject(baseValue) && isPlainObject(value)
+      ? deepMerge(baseValue, value)
+      : structuredClone(value);
+  }
+
+  return merged;
+}
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
@@ -0,0 +1,105 @@
+/**
+ * YAML parsing with source positions
+ *
+ * Parses with the yaml package's document API, which keeps the source range
+ * of every node, so that errors found after parsing can point at the exact
+ * line and column they come from.
+ */
+
+import { parseDocument, isMap, isScalar, isSeq, type Node } from 'yaml';
+import { YamlSyntaxError } from '../utils/errors.js';
+import type { PipelineSource, SourceLocation, SourcePath } from '../types/pipeline.js';
+
+/**
+ * A parsed YAML file that can locate its values in the source
+ */
+export interface YamlSource extends PipelineSource {
+  data: unknown;
+}
+
+/** Lines shown before and after the marked line in a code frame */
+const CODE_FRAME_CONTEXT = 2;
+
+/**
+ * Parse YAML (or JSON) content, keeping source positions.
+ * Throws YamlSyntaxError pointing at the first syntax error.
+ */
+export function parseYamlSource(content: string, file: string): YamlSource {
+  const document = parseDocument(content, { prettyErrors: false });
+
+  if (document.errors.length > 0) {
+    const [error] = document.errors;
+    throw new YamlSyntaxError(error.message, locationAt(content, file, error.pos[0]));
+  }
+
+  return {
+    file,
+    data: document.toJS(),
+    locate(path: SourcePath): SourceLocation | undefined {
+      const offset = findOffset(document.contents, path);
+      return offset === undefined ? undefined : locationAt(content, file, offset);
+    },
+  };
+}
+
+/**
+ * Convert a character offset in content to a source location
+ */
+export function locationAt(content: string, file: string, offset: number): SourceLocation {
+  const before = content.slice(0, Math.max(0, Math.min(offset, content.length)));
+  const line = before.split('\n').length;
+  const column = before.length - before.lastIndexOf('\n');
+
+  return { file, line, column, codeFrame: buildCodeFrame(content, line, column) };
+}
+
+/**
+ * Find the start offset of the value at path, or of the closest enclosing
+ * value if the path does not exist. Map entries whose value is a collection
+ * (or empty) point at the key, so the location is the line that names them.
+ */
+function findOffset(root: Node | null, path: SourcePath): number | undefined {
+  let node: unknown = root;
+  let offset = root?.range?.[0];
+
+  for (const segment of path) {
+    if (isMap(node)) {
+      const pair = node.items.find(item => String(isScalar(item.key) ? item.key.value : item.key) === String(segment));
+      if (!pair) break;
+
+      const keyOffset = isScalar(pair.key) ? pair.key.range?.[0] : undefined;
+      node = pair.value;
+      offset = isScalar(pair.value) ? pair.value.range?.[0] ?? keyOffset : keyOffset ?? offset;
+    } else if (isSeq(node) && typeof segment === 'number') {
+      const item = node.items[segment];
+      if (!item) break;
+
+      node = item;
+      offset = (item as Node).range?.[0] ?? offset;
+    } else {
+      break;
+    }
+  }
+
+  return offset;
+}
+
+function buildCodeFrame(content: string, line: number, column: number): string {
+  const lines = content.split(/\r?\n/);
+  // Don't show the empty "line" after a trailing newline unless it is marked
+  const lineCount = lines[lines.length - 1] === '' && line < lines.length ? lines.length - 1 : lines.length;
+  const first = Math.max(1, line - CODE_FRAME_CONTEXT);
+  const last = Math.min(lineCount, line + CODE_FRAME_CONTEXT);
+  const width = String(last).length;
+  const frame: string[] = [];
+
+  for (let n = first; n <= last; n++) {
+    const marker = n === line ? '>' : ' ';
+    frame.push(`${marker} ${String(n).padStart(width)} | ${lines[n - 1]}`.trimEnd());
+    if (n === line) {
+      frame.push(`  ${' '.repeat(width)} | ${' '.repeat(column - 1)}^`);
+    }
+  }
+
+  return frame.join('\n');
+}
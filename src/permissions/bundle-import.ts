@@ -6,17 +6,34 @@
  */
 
 import type { StepPermissions } from './index.js';
+import { getPartition } from '../utils/partition.js';
+
+const S3_ACTIONS = [
+  // Read operations (source bucket in CI/CD account)
+  's3:GetObject',
+  's3:HeadObject',
+  // Write operations (target bucket in deployment account)
+  's3:PutObject',
+  's3:PutObjectAcl',
+];
 
 export const BUNDLE_IMPORT_PERMISSIONS: StepPermissions = {
   actions: [
-    // Read operations (source bucket in CI/CD account)
-    's3:GetObject',
-    's3:HeadObject',
-    // Write operations (target bucket in deployment account)
-    's3:PutObject',
-    's3:PutObjectAcl',
+    ...S3_ACTIONS,
     // Cross-account role assumption
     'sts:AssumeRole',
   ],
   resources: ['*'],
+  // Bucket names come from the artifacts, not the step params. The only
+  // role assumed is the DevRamps import role in the source account.
+  scope: context => [
+    {
+      actions: S3_ACTIONS,
+      resources: ['*'],
+    },
+    {
+      actions: ['sts:AssumeRole'],
+      resources: [`arn:${getPartition(context.region)}:iam::*:role/DevRamps-*`],
+    },
+  ],
 };
@@ -6,6 +6,7 @@
  */
 
 import type { StepPermissions } from './index.js';
+import { globalArn, resolveParam } from './scope.js';
 
 export const CLOUDFRONT_INVALIDATE_PERMISSIONS: StepPermissions = {
   actions: [
@@ -15,4 +16,15 @@ export const CLOUDFRONT_INVALIDATE_PERMISSIONS: StepPermissions = {
     'cloudfront:GetInvalidation',
   ],
   resources: ['*'],
+  // CloudFront is global, so distribution ARNs have no region
+  scope: context => {
+    const distributionId = resolveParam(context, 'distribution_id');
+
+    return [
+      {
+        actions: CLOUDFRONT_INVALIDATE_PERMISSIONS.actions,
+        resources: [globalArn(context, 'cloudfront', `distribution/${distributionId}`)],
+      },
+    ];
+  },
 };
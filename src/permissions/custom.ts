@@ -1,25 +1,34 @@
 /**
- * Fallback permissions for custom step types (CUSTOM:*)
+ * Permissions for custom step types (CUSTOM:*)
  *
- * Custom step types are user-defined and their permissions should be specified
- * in the additional IAM policies file. This module provides a fallback
- * that returns empty permissions.
+ * Custom step types are user-defined. Their permissions come from the
+ * pipeline's custom_steps.yaml; types not listed there get empty permissions
+ * and rely on the additional IAM policies file instead.
  */
 
 import type { StepPermissions } from './index.js';
+import type { CustomStepDefinitions } from '../types/pipeline.js';
 import * as logger from '../utils/logger.js';
 
 /**
  * Get permissions for a custom step type
  *
- * Custom steps should define their permissions in aws_additional_iam_policies.yaml/json.
- * This function returns empty permissions to ensure the step is included in the
- * policy naming but relies on additional policies for actual permissions.
+ * Uses the statements declared for the type in custom_steps.yaml. Otherwise
+ * returns empty permissions, relying on additional policies for the actual
+ * permissions.
  */
-export function getCustomPermissions(stepType: string): StepPermissions {
+export function getCustomPermissions(stepType: string, customSteps?: CustomStepDefinitions): StepPermissions {
+  const statements = customSteps?.[stepType];
+  if (statements) {
+    return {
+      actions: [...new Set(statements.flatMap(s => s.actions))],
+      scope: () => statements,
+    };
+  }
+
   logger.verbose(
     `Step type '${stepType}' is a custom step. ` +
-    `Ensure permissions are defined in aws_additional_iam_policies.yaml/json`
+    `Ensure permissions are defined in custom_steps.yaml or aws_additional_iam_policies.yaml/json`
   );
 
   return {
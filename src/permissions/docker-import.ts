@@ -6,24 +6,41 @@
  */
 
 import type { StepPermissions } from './index.js';
+import { getPartition } from '../utils/partition.js';
+
+const ECR_ACTIONS = [
+  // ECR authentication
+  'ecr:GetAuthorizationToken',
+  // Check image availability (source ECR)
+  'ecr:DescribeImages',
+  // Pull operations (source ECR)
+  'ecr:BatchGetImage',
+  'ecr:GetDownloadUrlForLayer',
+  // Push operations (target ECR)
+  'ecr:PutImage',
+  'ecr:InitiateLayerUpload',
+  'ecr:UploadLayerPart',
+  'ecr:CompleteLayerUpload',
+  'ecr:BatchCheckLayerAvailability',
+];
 
 export const DOCKER_IMPORT_PERMISSIONS: StepPermissions = {
   actions: [
-    // ECR authentication
-    'ecr:GetAuthorizationToken',
-    // Check image availability (source ECR)
-    'ecr:DescribeImages',
-    // Pull operations (source ECR)
-    'ecr:BatchGetImage',
-    'ecr:GetDownloadUrlForLayer',
-    // Push operations (target ECR)
-    'ecr:PutImage',
-    'ecr:InitiateLayerUpload',
-    'ecr:UploadLayerPart',
-    'ecr:CompleteLayerUpload',
-    'ecr:BatchCheckLayerAvailability',
+    ...ECR_ACTIONS,
     // Cross-account role assumption
     'sts:AssumeRole',
   ],
   resources: ['*'],
+  // Repository names come from the artifacts, not the step params. The only
+  // role assumed is the DevRamps import role in the source account.
+  scope: context => [
+    {
+      actions: ECR_ACTIONS,
+      resources: ['*'],
+    },
+    {
+      actions: ['sts:AssumeRole'],
+      resources: [`arn:${getPartition(context.region)}:iam::*:role/DevRamps-*`],
+    },
+  ],
 };
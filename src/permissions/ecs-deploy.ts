@@ -7,6 +7,8 @@
  */
 
 import type { StepPermissions } from './index.js';
+import { ecsClusterResourceArn, resolveParam } from './scope.js';
+import { servicePrincipal } from '../utils/partition.js';
 
 export const ECS_DEPLOY_PERMISSIONS: StepPermissions = {
   actions: [
@@ -19,6 +21,28 @@ export const ECS_DEPLOY_PERMISSIONS: StepPermissions = {
     // Required for ECS to use task/execution roles
     'iam:PassRole',
   ],
-  // Resources are scoped to the specific cluster/service at deployment time
   resources: ['*'],
+  // Service operations are scoped to the cluster/service from the step params.
+  // Task definition actions don't support resource-level permissions.
+  scope: context => {
+    const cluster = resolveParam(context, 'cluster_name', 'cluster');
+    const service = resolveParam(context, 'service_name', 'service');
+
+    return [
+      {
+        actions: ['ecs:UpdateService', 'ecs:DescribeServices'],
+        // The service may also be given as its full ARN
+        resources: [service.startsWith('arn:') ? service : ecsClusterResourceArn(context, 'service', cluster, service)],
+      },
+      {
+        actions: ['ecs:DescribeTaskDefinition', 'ecs:RegisterTaskDefinition'],
+        resources: ['*'],
+      },
+      {
+        actions: ['iam:PassRole'],
+        resources: ['*'],
+        condition: { StringEquals: { 'iam:PassedToService': servicePrincipal('ecs-tasks', context.region) } },
+      },
+    ];
+  },
 };
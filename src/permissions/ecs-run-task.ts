@@ -7,6 +7,8 @@
  */
 
 import type { StepPermissions } from './index.js';
+import { ecsClusterResourceArn, resolveParam, stageArn } from './scope.js';
+import { servicePrincipal } from '../utils/partition.js';
 
 export const ECS_RUN_TASK_PERMISSIONS: StepPermissions = {
   actions: [
@@ -21,4 +23,39 @@ export const ECS_RUN_TASK_PERMISSIONS: StepPermissions = {
     'logs:GetLogEvents',
   ],
   resources: ['*'],
+  // RunTask is scoped to the task definition family and DescribeTasks to the
+  // cluster's tasks. Log groups are named by the task definition, so logs
+  // are only scoped to the stage's account and region.
+  scope: context => {
+    const cluster = resolveParam(context, 'cluster_name', 'cluster');
+    const taskDefinition = resolveParam(context, 'task_definition', 'task_definition_family');
+    // Accept a family name, a family:revision or a task definition ARN
+    const familyArn = taskDefinition.startsWith('arn:')
+      ? taskDefinition.replace(/:\d+$/, '')
+      : stageArn(context, 'ecs', `task-definition/${taskDefinition.split(':')[0]}`);
+
+    return [
+      {
+        actions: ['ecs:RunTask'],
+        resources: [`${familyArn}:*`],
+      },
+      {
+        actions: ['ecs:DescribeTasks'],
+        resources: [ecsClusterResourceArn(context, 'task', cluster, '*')],
+      },
+      {
+        actions: ['ecs:DescribeTaskDefinition'],
+        resources: ['*'],
+      },
+      {
+        actions: ['iam:PassRole'],
+        resources: ['*'],
+        condition: { StringEquals: { 'iam:PassedToService': servicePrincipal('ecs-tasks', context.region) } },
+      },
+      {
+        actions: ['logs:GetLogEvents'],
+        resources: [stageArn(context, 'logs', 'log-group:*')],
+      },
+    ];
+  },
 };
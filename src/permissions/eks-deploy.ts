@@ -6,6 +6,7 @@
  */
 
 import type { StepPermissions } from './index.js';
+import { resolveParam, stageArn, type StepPermissionContext } from './scope.js';
 
 export const EKS_DEPLOY_PERMISSIONS: StepPermissions = {
   actions: [
@@ -17,7 +18,21 @@ export const EKS_DEPLOY_PERMISSIONS: StepPermissions = {
     'eks:DescribeAccessEntry',
     'eks:AssociateAccessPolicy',
   ],
-  // Resources are scoped to the specific cluster at deployment time
-  // '*' is used here as the specific cluster ARN is determined by the pipeline config
   resources: ['*'],
+  scope: context => [
+    { actions: EKS_DEPLOY_PERMISSIONS.actions, resources: eksClusterArns(context) },
+  ],
 };
+
+/**
+ * ARNs for the cluster named in the step params and its access entries
+ * (CreateAccessEntry/AssociateAccessPolicy act on access entries)
+ */
+export function eksClusterArns(context: StepPermissionContext): string[] {
+  const cluster = resolveParam(context, 'cluster_name', 'cluster');
+
+  return [
+    stageArn(context, 'eks', `cluster/${cluster}`),
+    stageArn(context, 'eks', `access-entry/${cluster}/*`),
+  ];
+}
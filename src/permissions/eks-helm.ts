@@ -7,6 +7,7 @@
  */
 
 import type { StepPermissions } from './index.js';
+import { eksClusterArns } from './eks-deploy.js';
 
 export const EKS_HELM_PERMISSIONS: StepPermissions = {
   actions: [
@@ -18,6 +19,8 @@ export const EKS_HELM_PERMISSIONS: StepPermissions = {
     'eks:DescribeAccessEntry',
     'eks:AssociateAccessPolicy',
   ],
-  // Resources are scoped to the specific cluster at deployment time
   resources: ['*'],
+  scope: context => [
+    { actions: EKS_HELM_PERMISSIONS.actions, resources: eksClusterArns(context) },
+  ],
 };
@@ -19,10 +19,20 @@ import { LAMBDA_DEPLOY_PERMISSIONS } from './lambda-deploy.js';
 import { LAMBDA_INVOKE_PERMISSIONS } from './lambda-invoke.js';
 import { CLOUDFRONT_INVALIDATE_PERMISSIONS } from './cloudfront-invalidate.js';
 import { getCustomPermissions } from './custom.js';
+import type { StepPermissionContext, StepPolicyStatement } from './scope.js';
+import type { CustomStepDefinitions } from '../types/pipeline.js';
+
+export type { StepPermissionContext, StepPolicyStatement } from './scope.js';
 
 export interface StepPermissions {
   actions: string[];
   resources?: string[];
+  /**
+   * Derive resource-scoped statements from the step's params and stage.
+   * Must cover every action in `actions`. Without it, all actions are
+   * granted on `resources`.
+   */
+  scope?: (context: StepPermissionContext) => StepPolicyStatement[];
 }
 
 const PERMISSIONS_REGISTRY: Record<string, StepPermissions> = {
@@ -49,9 +59,10 @@ const PERMISSIONS_REGISTRY: Record<string, StepPermissions> = {
 };
 
 /**
- * Get the IAM permissions required for a given step type
+ * Get the IAM permissions required for a given step type. Custom step types
+ * are looked up in the pipeline's custom_steps.yaml definitions.
  */
-export function getStepPermissions(stepType: string): StepPermissions {
+export function getStepPermissions(stepType: string, customSteps?: CustomStepDefinitions): StepPermissions {
   // Check registry for known step types
   const permissions = PERMISSIONS_REGISTRY[stepType];
 
@@ -61,7 +72,7 @@ export function getStepPermissions(stepType: string): StepPermissions {
 
   // Check for custom step types
   if (stepType.startsWith('CUSTOM:')) {
-    return getCustomPermissions(stepType);
+    return getCustomPermissions(stepType, customSteps);
   }
 
   // Unknown step type - return empty permissions
@@ -72,6 +83,31 @@ export function getStepPermissions(stepType: string): StepPermissions {
   };
 }
 
+/**
+ * Get the policy statements for a step in a given stage, scoped to concrete
+ * resources where the step type supports it
+ */
+export function getStepPolicyStatements(context: StepPermissionContext): StepPolicyStatement[] {
+  const permissions = getStepPermissions(context.step.type, context.customSteps);
+
+  if (permissions.actions.length === 0) {
+    return [];
+  }
+
+  if (permissions.scope) {
+    return permissions.scope(context);
+  }
+
+  return [{ actions: permissions.actions, resources: permissions.resources || ['*'] }];
+}
+
+/**
+ * Get every step type with built-in permissions
+ */
+export function getKnownStepTypes(): string[] {
+  return Object.keys(PERMISSIONS_REGISTRY);
+}
+
 /**
  * Get all unique step types from a list of step types
  */
@@ -6,6 +6,7 @@
  */
 
 import type { StepPermissions } from './index.js';
+import { lambdaFunctionArns } from './lambda-invoke.js';
 
 export const LAMBDA_DEPLOY_PERMISSIONS: StepPermissions = {
   actions: [
@@ -16,4 +17,7 @@ export const LAMBDA_DEPLOY_PERMISSIONS: StepPermissions = {
     'lambda:GetFunction',
   ],
   resources: ['*'],
+  scope: context => [
+    { actions: LAMBDA_DEPLOY_PERMISSIONS.actions, resources: lambdaFunctionArns(context) },
+  ],
 };
@@ -6,6 +6,7 @@
  */
 
 import type { StepPermissions } from './index.js';
+import { resolveParam, stageArn, type StepPermissionContext } from './scope.js';
 
 export const LAMBDA_INVOKE_PERMISSIONS: StepPermissions = {
   actions: [
@@ -13,4 +14,20 @@ export const LAMBDA_INVOKE_PERMISSIONS: StepPermissions = {
     'lambda:InvokeFunction',
   ],
   resources: ['*'],
+  scope: context => [
+    { actions: LAMBDA_INVOKE_PERMISSIONS.actions, resources: lambdaFunctionArns(context) },
+  ],
 };
+
+/**
+ * ARNs for the function named in the step params, including its versions
+ * and aliases. The param may be a function name or a full function ARN.
+ */
+export function lambdaFunctionArns(context: StepPermissionContext): string[] {
+  const functionName = resolveParam(context, 'function_name', 'function');
+  const functionArn = functionName.startsWith('arn:')
+    ? functionName
+    : stageArn(context, 'lambda', `function:${functionName}`);
+
+  return [functionArn, `${functionArn}:*`];
+}
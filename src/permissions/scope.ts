@@ -0,0 +1,139 @@
+/**
+ * Resource scoping for step permissions
+ *
+ * Step permission modules can derive resource ARNs from a step's params
+ * (cluster, service, function name, ...) and the stage's account and region.
+ * Params may use pipeline expressions: ${{ vars.* }} and ${{ stage.* }} are
+ * resolved from the stage, while anything only known at deployment time
+ * (e.g. ${{ steps.infra.cluster_name }}) falls back to a wildcard with a
+ * warning.
+ */
+
+import * as logger from '../utils/logger.js';
+import { getPartition } from '../utils/partition.js';
+import type { CustomStepDefinitions, PipelineStep } from '../types/pipeline.js';
+
+/**
+ * The step and stage a policy is being generated for
+ */
+export interface StepPermissionContext {
+  step: PipelineStep;
+  stageName: string;
+  accountId: string;
+  region: string;
+  /** Stage variables (for ${{ vars.* }} expressions) */
+  vars?: Record<string, unknown>;
+  /** The pipeline's custom step permissions */
+  customSteps?: CustomStepDefinitions;
+}
+
+/**
+ * One statement of a step's policy
+ */
+export interface StepPolicyStatement {
+  actions: string[];
+  resources: string[];
+  condition?: Record<string, unknown>;
+}
+
+export const WILDCARD = '*';
+
+const EXPRESSION_PATTERN = /\$\{\{\s*([^}]*?)\s*\}\}/g;
+
+// arn:<partition>:ecs:<region>:<account>:cluster/<name>
+const CLUSTER_ARN_PATTERN = /^(arn:[^:]+:ecs:[^:]+:[^:]+):cluster\/(.+)$/;
+
+// Warn once per step/param, since templates are rendered more than once per run
+const warnedParams = new Set<string>();
+
+/**
+ * Resolve the first of paramNames present in the step's params.
+ * Returns WILDCARD if none is set, or if the value uses an expression that
+ * can't be resolved at bootstrap time.
+ */
+export function resolveParam(context: StepPermissionContext, ...paramNames: string[]): string {
+  const params = context.step.params ?? {};
+  const paramName = paramNames.find(name => params[name] !== undefined && params[name] !== null);
+  if (!paramName) {
+    return WILDCARD;
+  }
+
+  const value = String(params[paramName]);
+  const unresolved: string[] = [];
+
+  const resolved = value.replace(EXPRESSION_PATTERN, (expression, path: string) => {
+    const result = resolveExpression(path, context);
+    if (result === undefined) {
+      unresolved.push(expression);
+      return expression;
+    }
+    return result;
+  });
+
+  if (unresolved.length > 0) {
+    const key = `${context.stageName}/${context.step.name}/${paramName}`;
+    if (!warnedParams.has(key)) {
+      warnedParams.add(key);
+      logger.warn(
+        `Step "${context.step.name}" (stage ${context.stageName}): ${paramName} uses ${unresolved.join(', ')}, ` +
+        'which can\'t be resolved at bootstrap time. Its permissions use a wildcard resource instead.'
+      );
+    }
+    return WILDCARD;
+  }
+
+  return resolved;
+}
+
+/**
+ * Build an ARN in the stage's account and region
+ */
+export function stageArn(context: StepPermissionContext, service: string, resource: string): string {
+  return `arn:${getPartition(context.region)}:${service}:${context.region}:${context.accountId}:${resource}`;
+}
+
+/**
+ * Build an ARN in the stage's account for a global service (no region)
+ */
+export function globalArn(context: StepPermissionContext, service: string, resource: string): string {
+  return `arn:${getPartition(context.region)}:${service}::${context.accountId}:${resource}`;
+}
+
+/**
+ * Build the ARN of an ECS resource that belongs to a cluster, e.g.
+ * service/<cluster>/<service>. The cluster may be a name, or a cluster ARN
+ * whose own account and region are then used.
+ */
+export function ecsClusterResourceArn(
+  context: StepPermissionContext,
+  resourceType: 'service' | 'task',
+  cluster: string,
+  name: string
+): string {
+  const clusterArn = CLUSTER_ARN_PATTERN.exec(cluster);
+  if (clusterArn) {
+    return `${clusterArn[1]}:${resourceType}/${clusterArn[2]}/${name}`;
+  }
+  return stageArn(context, 'ecs', `${resourceType}/${cluster.startsWith('arn:') ? WILDCARD : cluster}/${name}`);
+}
+
+function resolveExpression(path: string, context: StepPermissionContext): string | undefined {
+  const [scope, ...rest] = path.split('.');
+  const key = rest.join('.');
+
+  if (scope === 'stage') {
+    const stageValues: Record<string, string> = {
+      name: context.stageName,
+      account_id: context.accountId,
+      region: context.region,
+    };
+    return stageValues[key];
+  }
+
+  if (scope === 'vars') {
+    const value = context.vars?.[key];
+    return typeof value === 'string' || typeof value === 'number' ? String(value) : undefined;
+  }
+
+  return undefined;
+}
@@ -0,0 +1,68 @@
+/**
+ * Deployment order of planned stacks
+ *
+ * Stage, Import and Org stacks trust the OIDC provider created by the
+ * Account stack in their account, and Stage stacks read the Org stack's
+ * Terraform state bucket and KMS key, so:
+ *   Account -> Org, Stage, Import
+ *   Org -> Stage
+ * Pipeline stacks depend on nothing. Stacks planned as NO_CHANGE are
+ * already deployed, so they get no task and nothing waits for them.
+ */
+
+import type { DeploymentPlan, StackDeployment } from '../types/stacks.js';
+import type { DagTask } from '../utils/scheduler.js';
+
+export interface StackTask extends DagTask {
+  stack: StackDeployment;
+}
+
+/**
+ * Unique ID of a planned stack (the same stack name is used in many accounts)
+ */
+export function getStackTaskId(stack: StackDeployment): string {
+  return `${stack.stackName}:${stack.accountId}:${stack.region}`;
+}
+
+/**
+ * Remove tasks that don't need to run (e.g. already deployed), along with
+ * other tasks' dependencies on them
+ */
+export function withoutTasks(tasks: StackTask[], ids: Set<string>): StackTask[] {
+  return tasks
+    .filter(t => !ids.has(t.id))
+    .map(t => ({ ...t, dependsOn: t.dependsOn.filter(dep => !ids.has(dep)) }));
+}
+
+/**
+ * Build the deployment tasks for a plan. Without Account stacks (when OIDC
+ * is skipped) nothing depends on them.
+ */
+export function buildStackTasks(plan: DeploymentPlan, includeAccountStacks = true): StackTask[] {
+  const needsDeploy = (stack: StackDeployment) => stack.action !== 'NO_CHANGE';
+
+  const accountStacks = (includeAccountStacks ? plan.accountStacks : []).filter(needsDeploy);
+  const accountTaskIds = new Map(accountStacks.map(s => [s.accountId, getStackTaskId(s)]));
+  const accountDependency = (accountId: string) => {
+    const id = accountTaskIds.get(accountId);
+    return id ? [id] : [];
+  };
+  const deployOrg = needsDeploy(plan.orgStack);
+  const orgTaskId = getStackTaskId(plan.orgStack);
+
+  return [
+    ...accountStacks.map(stack => ({ id: getStackTaskId(stack), stack, dependsOn: [] })),
+    ...(deployOrg ? [{ id: orgTaskId, stack: plan.orgStack, dependsOn: accountDependency(plan.orgStack.accountId) }] : []),
+    ...plan.pipelineStacks.filter(needsDeploy).map(stack => ({ id: getStackTaskId(stack), stack, dependsOn: [] })),
+    ...plan.stageStacks.filter(needsDeploy).map(stack => ({
+      id: getStackTaskId(stack),
+      stack,
+      dependsOn: [...accountDependency(stack.accountId), ...(deployOrg ? [orgTaskId] : [])],
+    })),
+    ...plan.importStacks.filter(needsDeploy).map(stack => ({
+      id: getStackTaskId(stack),
+      stack,
+      dependsOn: accountDependency(stack.accountId),
+    })),
+  ];
+}
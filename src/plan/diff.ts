@@ -0,0 +1,116 @@
+/**
+ * Change-set diff aggregation
+ *
+ * Turns per-stack change sets into one report grouped by account and region,
+ * flagging replacements and removals of resources that hold data.
+ */
+
+import type { StackChangeSet, ResourceChangeSummary } from '../aws/cloudformation.js';
+
+/**
+ * Resource types whose replacement or removal loses data (images, objects, keys)
+ */
+export const STATEFUL_RESOURCE_TYPES = new Set([
+  'AWS::S3::Bucket',
+  'AWS::ECR::Repository',
+  'AWS::KMS::Key',
+]);
+
+/**
+ * A change set for one stack, or the reason it could not be computed
+ */
+export interface StackDiffResult {
+  stackName: string;
+  accountId: string;
+  region: string;
+  changeSet?: StackChangeSet;
+  error?: string;
+}
+
+export interface DiffLocationGroup {
+  accountId: string;
+  region: string;
+  stacks: StackDiffResult[];
+}
+
+export interface DiffSummary {
+  add: number;
+  modify: number;
+  remove: number;
+  /** Replacements or removals of stateful resources */
+  statefulChanges: StatefulChange[];
+  failedStacks: number;
+}
+
+export interface StatefulChange {
+  stackName: string;
+  accountId: string;
+  region: string;
+  change: ResourceChangeSummary;
+}
+
+/**
+ * Whether a change destroys an existing stateful resource, either by
+ * removing it or by replacing it (which creates a new, empty one)
+ */
+export function isStatefulReplacement(change: ResourceChangeSummary): boolean {
+  if (!STATEFUL_RESOURCE_TYPES.has(change.resourceType)) return false;
+  if (change.action === 'Remove') return true;
+  return change.action === 'Modify' && (change.replacement === 'True' || change.replacement === 'Conditional');
+}
+
+/**
+ * Group stack diffs by account and region, sorted for a stable report
+ */
+export function groupDiffsByLocation(results: StackDiffResult[]): DiffLocationGroup[] {
+  const groups = new Map<string, DiffLocationGroup>();
+
+  for (const result of results) {
+    const key = `${result.accountId}:${result.region}`;
+    let group = groups.get(key);
+    if (!group) {
+      group = { accountId: result.accountId, region: result.region, stacks: [] };
+      groups.set(key, group);
+    }
+    group.stacks.push(result);
+  }
+
+  const sorted = Array.from(groups.values()).sort((a, b) =>
+    a.accountId.localeCompare(b.accountId) || a.region.localeCompare(b.region)
+  );
+  for (const group of sorted) {
+    group.stacks.sort((a, b) => a.stackName.localeCompare(b.stackName));
+  }
+  return sorted;
+}
+
+/**
+ * Count changes across all stacks and collect stateful replacements
+ */
+export function summarizeDiffs(results: StackDiffResult[]): DiffSummary {
+  const summary: DiffSummary = { add: 0, modify: 0, remove: 0, statefulChanges: [], failedStacks: 0 };
+
+  for (const result of results) {
+    if (!result.changeSet) {
+      summary.failedStacks++;
+      continue;
+    }
+
+    for (const change of result.changeSet.changes) {
+      if (change.action === 'Add') summary.add++;
+      else if (change.action === 'Modify') summary.modify++;
+      else if (change.action === 'Remove') summary.remove++;
+
+      if (isStatefulReplacement(change)) {
+        summary.statefulChanges.push({
+          stackName: result.stackName,
+          accountId: result.accountId,
+          region: result.region,
+          change,
+        });
+      }
+    }
+  }
+
+  return summary;
+}
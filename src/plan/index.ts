@@ -0,0 +1,389 @@
+/**
+ * Deployment plan construction
+ *
+ * Resolves the full set of Org, Pipeline, Account, Stage and Import stacks
+ * for a set of parsed pipelines, and whether each one needs to be created or
+ * updated. Shared by every command that operates on bootstrapped stacks.
+ *
+ * Planning happens in two steps:
+ * 1. enumerateDeploymentPlan - pure, works offline from the pipeline definitions
+ * 2. resolveRemoteState - reads stack status (concurrently) and merges the org bucket policy
+ *
+ * After both, a plan can be rendered to templates without further AWS calls.
+ * markUnchangedStacks then compares the rendered templates with the hashes
+ * recorded on the deployed stacks.
+ */
+
+import { getStackStatus, readExistingStack, TEMPLATE_HASH_TAG } from '../aws/cloudformation.js';
+import { extractImportSourceAccounts, filterArtifactsForPipelineStack } from '../parsers/artifacts.js';
+import {
+  getOrgStackName,
+  getPipelineStackName,
+  getAccountStackName,
+  getStageStackName,
+  getImportStackName,
+  generateTerraformStateBucketName,
+  getTerraformStatePrefix,
+} from '../naming/index.js';
+import type { CredentialCache } from '../aws/credential-cache.js';
+import { getBucketPolicyStrategy, type BucketPolicyData } from '../merge/index.js';
+import * as logger from '../utils/logger.js';
+import { PartitionMismatchError } from '../utils/errors.js';
+import { getPartition } from '../utils/partition.js';
+import { mapWithConcurrency } from '../utils/concurrency.js';
+import { renderStackTemplate, type TemplateRenderOptions } from '../templates/index.js';
+import { hashTemplate } from './serialize.js';
+import type { AuthData } from '../types/config.js';
+import type { ParsedPipeline } from '../types/pipeline.js';
+import type { ParsedArtifacts } from '../types/artifacts.js';
+import {
+  StackType,
+  type BaseStackDeployment,
+  type DeploymentPlan,
+  type OrgStackDeployment,
+  type PipelineStackDeployment,
+  type AccountStackDeployment,
+  type StageStackDeployment,
+  type ImportStackDeployment,
+  type RemoteStackState,
+} from '../types/stacks.js';
+import type { AwsCredentialIdentity } from '@aws-sdk/types';
+
+/**
+ * The org and CI/CD location a plan is built for
+ */
+export type PlanTarget = Pick<AuthData, 'orgSlug' | 'cicdAccountId' | 'cicdRegion'>;
+
+/** DescribeStacks calls in flight at once while resolving remote state */
+export const DEFAULT_PLAN_CONCURRENCY = 10;
+
+/**
+ * Whether a deployed stack is ready to deploy over: 'failed' stacks were
+ * left broken or rolled back by their last operation, 'in-progress' ones are
+ * still being changed by someone else, and 'in-review' ones hold a change
+ * set that has not been executed (nothing will finish on its own).
+ */
+export type StackHealth = 'ok' | 'failed' | 'in-progress' | 'in-review';
+
+/**
+ * Build the complete deployment plan for all stack types
+ */
+export async function buildDeploymentPlan(
+  pipelines: ParsedPipeline[],
+  pipelineArtifacts: Map<string, ParsedArtifacts>,
+  target: PlanTarget,
+  credentialCache: CredentialCache,
+  concurrency = DEFAULT_PLAN_CONCURRENCY
+): Promise<DeploymentPlan> {
+  const plan = enumerateDeploymentPlan(pipelines, pipelineArtifacts, target);
+  await resolveRemoteState(plan, credentialCache, concurrency);
+  return plan;
+}
+
+/**
+ * Enumerate every stack the pipelines need, without any AWS calls.
+ * All stacks are planned as CREATE until resolveRemoteState runs.
+ */
+export function enumerateDeploymentPlan(
+  pipelines: ParsedPipeline[],
+  pipelineArtifacts: Map<string, ParsedArtifacts>,
+  target: PlanTarget
+): DeploymentPlan {
+  const { orgSlug, cicdAccountId, cicdRegion } = target;
+  const notDeployed = (): Pick<BaseStackDeployment, 'action' | 'remote'> => ({
+    action: 'CREATE',
+    remote: { exists: false },
+  });
+
+  // Account and pipeline stacks are deployed to the CI/CD region, so every
+  // stage's roles must live in the same partition
+  const partition = getPartition(cicdRegion);
+  for (const pipeline of pipelines) {
+    for (const stage of pipeline.stages) {
+      if (getPartition(stage.region) !== partition) {
+        throw new PartitionMismatchError(cicdRegion, `Stage "${stage.name}" of pipeline ${pipeline.slug}`, stage.region);
+      }
+    }
+  }
+
+  // Collect all target accounts across all pipelines, and the state
+  // prefixes of the stages each one hosts (for org stack)
+  const allTargetAccountIds = new Set<string>();
+  const statePrefixes: Record<string, string[]> = {};
+  for (const pipeline of pipelines) {
+    for (const accountId of pipeline.targetAccountIds) {
+      allTargetAccountIds.add(accountId);
+    }
+    for (const stage of pipeline.stages) {
+      (statePrefixes[stage.account_id] ??= []).push(getTerraformStatePrefix(pipeline.slug, stage.name));
+    }
+  }
+
+  // 1. Org Stack
+  const orgStack: OrgStackDeployment = {
+    stackType: StackType.ORG,
+    stackName: getOrgStackName(orgSlug),
+    accountId: cicdAccountId,
+    region: cicdRegion,
+    ...notDeployed(),
+    orgSlug,
+    targetAccountIds: Array.from(allTargetAccountIds),
+    statePrefixes,
+  };
+
+  // 2. Pipeline Stacks
+  const pipelineStacks: PipelineStackDeployment[] = [];
+  for (const pipeline of pipelines) {
+    const artifacts = pipelineArtifacts.get(pipeline.slug)!;
+    const filteredArtifacts = filterArtifactsForPipelineStack(artifacts);
+
+    pipelineStacks.push({
+      stackType: StackType.PIPELINE,
+      stackName: getPipelineStackName(pipeline.slug),
+      accountId: cicdAccountId,
+      region: cicdRegion,
+      ...notDeployed(),
+      pipelineSlug: pipeline.slug,
+      dockerArtifacts: filteredArtifacts.docker,
+      bundleArtifacts: filteredArtifacts.bundle,
+      stageAccountIds: pipeline.targetAccountIds,
+    });
+  }
+
+  // 3. Account Stacks (one per unique account for OIDC provider)
+  //    The CI/CD account must always be included since the Org stack relies
+  //    on the OIDC provider created by the Account Bootstrap stack.
+  //    Import source accounts are also included so they get OIDC providers.
+  const accountStacks: AccountStackDeployment[] = [];
+  const accountStackName = getAccountStackName();
+
+  // Track accounts we've already added to avoid duplicates
+  const accountsWithStacks = new Set<string>();
+
+  // Helper to add an account stack if not already added
+  const addAccountStackIfNew = (accountId: string) => {
+    if (accountsWithStacks.has(accountId)) return;
+    accountsWithStacks.add(accountId);
+
+    accountStacks.push({
+      stackType: StackType.ACCOUNT,
+      stackName: accountStackName,
+      accountId,
+      region: cicdRegion, // Deploy in CI/CD region for consistency
+      ...notDeployed(),
+    });
+  };
+
+  // Always include the CI/CD account first (Org stack depends on its OIDC provider)
+  addAccountStackIfNew(cicdAccountId);
+
+  // Collect import source accounts for Account stacks and Import stacks
+  const importSourceAccountsByPipeline = new Map<string, string[]>();
+  for (const pipeline of pipelines) {
+    const artifacts = pipelineArtifacts.get(pipeline.slug)!;
+    const importSources = extractImportSourceAccounts(artifacts);
+    if (importSources.length > 0) {
+      importSourceAccountsByPipeline.set(
+        pipeline.slug,
+        importSources.map(s => s.accountId)
+      );
+    }
+  }
+
+  // Add stage accounts
+  for (const pipeline of pipelines) {
+    for (const stage of pipeline.stages) {
+      addAccountStackIfNew(stage.account_id);
+    }
+  }
+
+  // Add import source accounts (so they get OIDC providers)
+  for (const [, sourceAccountIds] of importSourceAccountsByPipeline) {
+    for (const accountId of sourceAccountIds) {
+      addAccountStackIfNew(accountId);
+    }
+  }
+
+  // 4. Stage Stacks
+  const stageStacks: StageStackDeployment[] = [];
+  for (const pipeline of pipelines) {
+    const artifacts = pipelineArtifacts.get(pipeline.slug)!;
+
+    for (const stage of pipeline.stages) {
+      stageStacks.push({
+        stackType: StackType.STAGE,
+        stackName: getStageStackName(pipeline.slug, stage.name),
+        accountId: stage.account_id,
+        region: stage.region,
+        ...notDeployed(),
+        pipelineSlug: pipeline.slug,
+        stageName: stage.name,
+        orgSlug,
+        steps: pipeline.steps,
+        skip: stage.skip,
+        vars: stage.vars,
+        customSteps: pipeline.customSteps,
+        additionalPolicies: pipeline.additionalPolicies,
+        dockerArtifacts: artifacts.docker,
+        bundleArtifacts: artifacts.bundle,
+      });
+    }
+  }
+
+  // 5. Import Stacks (one per pipeline per import source account)
+  const importStacks: ImportStackDeployment[] = [];
+  for (const [pipelineSlug, sourceAccountIds] of importSourceAccountsByPipeline) {
+    const importStackName = getImportStackName(pipelineSlug);
+
+    for (const sourceAccountId of sourceAccountIds) {
+      importStacks.push({
+        stackType: StackType.IMPORT,
+        stackName: importStackName,
+        accountId: sourceAccountId,
+        region: cicdRegion, // Deploy in CI/CD region (IAM is global)
+        ...notDeployed(),
+        pipelineSlug,
+        orgSlug,
+      });
+    }
+  }
+
+  return {
+    orgSlug,
+    cicdAccountId,
+    cicdRegion,
+    orgStack,
+    pipelineStacks,
+    accountStacks,
+    stageStacks,
+    importStacks,
+    orphanedStageStacks: [],
+  };
+}
+
+/**
+ * Look up every planned stack's deployed state (status, last update and
+ * tags, from one DescribeStacks call), setting its CREATE/UPDATE action, and
+ * merge the org stack's bucket policy with the deployed one. At most
+ * `concurrency` stacks are described at once.
+ * Roles in every account are assumed first, so that all inaccessible
+ * accounts are reported together before anything else happens.
+ */
+export async function resolveRemoteState(
+  plan: DeploymentPlan,
+  credentialCache: CredentialCache,
+  concurrency = DEFAULT_PLAN_CONCURRENCY
+): Promise<void> {
+  const stacks: BaseStackDeployment[] = [
+    plan.orgStack,
+    ...plan.pipelineStacks,
+    ...plan.accountStacks,
+    ...plan.stageStacks,
+    ...plan.importStacks,
+  ];
+
+  await credentialCache.prefetch(stacks.map(s => s.accountId));
+
+  await mapWithConcurrency(stacks, concurrency, async (stack) => {
+    Object.assign(stack, await determineStackState(stack.stackName, await credentialCache.get(stack.accountId), stack.region));
+  });
+
+  // The bucket policy merge happens at plan time so the plan (and its
+  // rendered template) reflects exactly what will be deployed
+  if (plan.orgStack.action === 'UPDATE') {
+    await mergeOrgBucketPolicy(plan.orgStack, await credentialCache.get(plan.cicdAccountId));
+  }
+}
+
+/**
+ * Determine if a stack should be created or updated, recording the
+ * deployed state it was planned against
+ */
+export async function determineStackState(
+  stackName: string,
+  credentials: AwsCredentialIdentity | undefined,
+  region: string
+): Promise<Pick<BaseStackDeployment, 'action' | 'remote'>> {
+  try {
+    const status = await getStackStatus(stackName, credentials, region);
+    return {
+      action: status.exists ? 'UPDATE' : 'CREATE',
+      remote: {
+        exists: status.exists,
+        status: status.status,
+        lastUpdatedTime: status.lastUpdatedTime,
+        tags: status.tags,
+      },
+    };
+  } catch {
+    return { action: 'CREATE', remote: { exists: false } };
+  }
+}
+
+/**
+ * Mark UPDATE stacks whose rendered template hashes to the value tagged on
+ * the deployed stack as NO_CHANGE. The org stack is rendered with its merged
+ * bucket policy, so newly allowed accounts or state prefixes count as a
+ * change. Stacks that failed or are mid-operation are always redeployed.
+ * Returns the number of stacks marked.
+ */
+export function markUnchangedStacks(plan: DeploymentPlan, renderOptions: TemplateRenderOptions = {}): number {
+  let unchanged = 0;
+  for (const stack of [plan.orgStack, ...plan.pipelineStacks, ...plan.accountStacks, ...plan.stageStacks, ...plan.importStacks]) {
+    const deployedHash = stack.remote.tags?.[TEMPLATE_HASH_TAG];
+    if (stack.action !== 'UPDATE' || !deployedHash || getStackHealth(stack.remote) !== 'ok') continue;
+
+    if (deployedHash === hashTemplate(renderStackTemplate(stack, renderOptions))) {
+      stack.action = 'NO_CHANGE';
+      unchanged++;
+    }
+  }
+  return unchanged;
+}
+
+/**
+ * Classify a stack's deployed status
+ */
+export function getStackHealth(remote: RemoteStackState): StackHealth {
+  const status = remote.status ?? '';
+  if (status === 'REVIEW_IN_PROGRESS') return 'in-review';
+  if (status.endsWith('_IN_PROGRESS')) return 'in-progress';
+  if (status.endsWith('_FAILED') || status.endsWith('ROLLBACK_COMPLETE')) return 'failed';
+  return 'ok';
+}
+
+/**
+ * Merge the org stack's planned target accounts with the accounts already
+ * allowed by the deployed Terraform state bucket policy, so that deploying
+ * a subset of pipelines never revokes access for the others.
+ */
+async function mergeOrgBucketPolicy(
+  orgStack: OrgStackDeployment,
+  credentials: AwsCredentialIdentity | undefined
+): Promise<void> {
+  logger.verbose('Merging bucket policy with existing accounts...');
+
+  const bucketName = generateTerraformStateBucketName(orgStack.orgSlug);
+  const strategy = getBucketPolicyStrategy();
+  strategy.configure(bucketName, orgStack.region, credentials);
+
+  const existingStack = await readExistingStack(
+    orgStack.stackName,
+    orgStack.accountId,
+    orgStack.region,
+    credentials
+  );
+
+  if (existingStack) {
+    const existing = await strategy.extractExisting(existingStack);
+    const newData: BucketPolicyData = {
+      allowedAccountIds: orgStack.targetAccountIds,
+      statePrefixes: orgStack.statePrefixes,
+    };
+    const merged = strategy.merge(existing, newData);
+    orgStack.targetAccountIds = merged.allowedAccountIds;
+    orgStack.statePrefixes = merged.statePrefixes ?? {};
+
+    logger.verbose(`Merged ${orgStack.targetAccountIds.length} account(s) into bucket policy`);
+  }
+}
@@ -0,0 +1,192 @@
+/**
+ * Bootstrap run journal (.devramps/.state/bootstrap-journal.json)
+ *
+ * Records the outcome and template hash of every stack as a bootstrap run
+ * deploys it, so that `bootstrap --resume` can retry only the stacks that
+ * failed or never started. The journal is removed once a run deploys every
+ * stack, and is only honoured while the pipeline definitions are unchanged.
+ */
+
+import { mkdir, readFile, rm, writeFile } from 'node:fs/promises';
+import { dirname, join } from 'node:path';
+import { renderStackTemplate, type TemplateRenderOptions } from '../templates/index.js';
+import { JournalError } from '../utils/errors.js';
+import { hashPipelineDefinitions, hashTemplate } from './serialize.js';
+import { withoutTasks, type StackTask } from './dependencies.js';
+import type { ParsedPipeline } from '../types/pipeline.js';
+import type { DeploymentPlan, StackType } from '../types/stacks.js';
+import type { DagOutcome } from '../utils/scheduler.js';
+
+export const JOURNAL_VERSION = 1;
+export const JOURNAL_PATH = join('.devramps', '.state', 'bootstrap-journal.json');
+
+export type JournalStackStatus = 'pending' | DagOutcome;
+
+export interface JournalStackEntry {
+  type: StackType;
+  name: string;
+  accountId: string;
+  region: string;
+  templateHash: string;
+  status: JournalStackStatus;
+  error?: string;
+  updatedAt: string;
+}
+
+export interface RunJournal {
+  version: number;
+  startedAt: string;
+  orgSlug: string;
+  cicdAccountId: string;
+  cicdRegion: string;
+  pipelineSlugs: string[];
+  /** Same hash as in plan documents */
+  pipelineDefinitionsHash: string;
+  /** Keyed by stack task ID */
+  stacks: Record<string, JournalStackEntry>;
+}
+
+/**
+ * Start a journal with every task pending
+ */
+export function createRunJournal(
+  plan: DeploymentPlan,
+  pipelines: ParsedPipeline[],
+  tasks: StackTask[],
+  renderOptions: TemplateRenderOptions
+): RunJournal {
+  const now = new Date().toISOString();
+  const stacks: Record<string, JournalStackEntry> = {};
+  for (const { id, stack } of tasks) {
+    stacks[id] = {
+      type: stack.stackType,
+      name: stack.stackName,
+      accountId: stack.accountId,
+      region: stack.region,
+      templateHash: hashTemplate(renderStackTemplate(stack, renderOptions)),
+      status: 'pending',
+      updatedAt: now,
+    };
+  }
+
+  return {
+    version: JOURNAL_VERSION,
+    startedAt: now,
+    orgSlug: plan.orgSlug,
+    cicdAccountId: plan.cicdAccountId,
+    cicdRegion: plan.cicdRegion,
+    pipelineSlugs: pipelines.map(p => p.slug).sort(),
+    pipelineDefinitionsHash: hashPipelineDefinitions(pipelines),
+    stacks,
+  };
+}
+
+/**
+ * Reasons a journal can't be resumed against the current plan (empty when it can)
+ */
+export function checkJournalResumable(journal: RunJournal, plan: DeploymentPlan, pipelines: ParsedPipeline[]): string[] {
+  const problems: string[] = [];
+
+  if (journal.orgSlug !== plan.orgSlug || journal.cicdAccountId !== plan.cicdAccountId || journal.cicdRegion !== plan.cicdRegion) {
+    problems.push(
+      `Organization changed: journal targets ${journal.orgSlug} (${journal.cicdAccountId}, ${journal.cicdRegion}), ` +
+      `current is ${plan.orgSlug} (${plan.cicdAccountId}, ${plan.cicdRegion})`
+    );
+  }
+  if (journal.pipelineDefinitionsHash !== hashPipelineDefinitions(pipelines)) {
+    problems.push('Local pipeline definitions have changed since the interrupted run');
+  }
+
+  return problems;
+}
+
+/**
+ * The tasks a resumed run still has to deploy: everything except stacks the
+ * journal recorded as deployed with the same template. Dependencies on
+ * stacks that are already deployed are dropped.
+ */
+export function selectTasksToResume(
+  journal: RunJournal,
+  tasks: StackTask[],
+  renderOptions: TemplateRenderOptions
+): StackTask[] {
+  const done = new Set(
+    tasks
+      .filter(({ id, stack }) => {
+        const entry = journal.stacks[id];
+        return entry?.status === 'succeeded' &&
+          entry.templateHash === hashTemplate(renderStackTemplate(stack, renderOptions));
+      })
+      .map(t => t.id)
+  );
+
+  return withoutTasks(tasks, done);
+}
+
+/**
+ * Copy the outcome of stacks a resumed run doesn't redeploy from the
+ * interrupted run's journal
+ */
+export function carryOverDeployed(journal: RunJournal, previous: RunJournal, remaining: StackTask[]): void {
+  const remainingIds = new Set(remaining.map(t => t.id));
+  for (const [id, entry] of Object.entries(journal.stacks)) {
+    const earlier = previous.stacks[id];
+    if (!remainingIds.has(id) && earlier) {
+      entry.status = earlier.status;
+      entry.updatedAt = earlier.updatedAt;
+    }
+  }
+}
+
+/**
+ * Record a stack's outcome
+ */
+export function recordStackOutcome(journal: RunJournal, id: string, status: JournalStackStatus, error?: string): void {
+  const entry = journal.stacks[id];
+  if (!entry) return;
+  entry.status = status;
+  entry.updatedAt = new Date().toISOString();
+  if (error) {
+    entry.error = error;
+  } else {
+    delete entry.error;
+  }
+}
+
+export async function readRunJournal(basePath: string): Promise<RunJournal | undefined> {
+  let content: string;
+  try {
+    content = await readFile(join(basePath, JOURNAL_PATH), 'utf-8');
+  } catch {
+    return undefined;
+  }
+
+  let journal: RunJournal;
+  try {
+    journal = JSON.parse(content) as RunJournal;
+  } catch (error) {
+    throw new JournalError(JOURNAL_PATH, error instanceof Error ? error.message : String(error));
+  }
+  if (!journal || typeof journal !== 'object' || typeof journal.stacks !== 'object') {
+    throw new JournalError(JOURNAL_PATH, 'not a DevRamps run journal');
+  }
+  if (journal.version !== JOURNAL_VERSION) {
+    throw new JournalError(JOURNAL_PATH, `unsupported journal version ${journal.version} (expected ${JOURNAL_VERSION})`);
+  }
+
+  return journal;
+}
+
+/**
+ * Write the journal, creating .devramps/.state/ (ignored by git) if needed
+ */
+export async function writeRunJournal(basePath: string, journal: RunJournal): Promise<void> {
+  const path = join(basePath, JOURNAL_PATH);
+  await mkdir(dirname(path), { recursive: true });
+  await writeFile(join(dirname(path), '.gitignore'), '*\n', 'utf-8');
+  await writeFile(path, JSON.stringify(journal, null, 2) + '\n', 'utf-8');
+}
+
+export async function deleteRunJournal(basePath: string): Promise<void> {
+  await rm(join(basePath, JOURNAL_PATH), { force: true });
+}
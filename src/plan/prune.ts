@@ -0,0 +1,96 @@
+/**
+ * Orphaned stage stack discovery for bootstrap --prune
+ *
+ * A stage stack is orphaned when its stage (or ephemeral environment) has been
+ * removed from pipeline.yaml, or moved to a different account/region. Stage
+ * stacks are identified by the Pipeline/Stage tags that generateStageStackTemplate
+ * puts on the stage deployment role.
+ */
+
+import { listDevRampsStacks, getStackResourcePhysicalId } from '../aws/cloudformation.js';
+import { getRoleTags } from '../aws/iam.js';
+import * as logger from '../utils/logger.js';
+import { StackType, type DeploymentPlan, type OrphanedStageStack } from '../types/stacks.js';
+import type { AwsCredentialIdentity } from '@aws-sdk/types';
+import type { CredentialResolver } from '../aws/credential-cache.js';
+
+const STAGE_ROLE_LOGICAL_ID = 'StageDeploymentRole';
+
+/**
+ * Find deployed stage stacks of the planned pipelines that no longer match a stage.
+ *
+ * Every account in the plan is scanned in the CI/CD region and in every region
+ * used by a planned stage. Stacks in accounts or regions that no pipeline uses
+ * any more are not found.
+ */
+export async function findOrphanedStageStacks(
+  plan: DeploymentPlan,
+  resolveCredentials: CredentialResolver
+): Promise<OrphanedStageStack[]> {
+  const pipelineSlugs = new Set(plan.pipelineStacks.map(s => s.pipelineSlug));
+  const plannedKeys = new Set(
+    plan.stageStacks.map(s => `${s.stackName}:${s.accountId}:${s.region}`)
+  );
+
+  const accountIds = new Set(plan.accountStacks.map(s => s.accountId));
+  const regions = new Set([plan.cicdRegion, ...plan.stageStacks.map(s => s.region)]);
+
+  const orphans: OrphanedStageStack[] = [];
+
+  for (const accountId of accountIds) {
+    let credentials: AwsCredentialIdentity | undefined;
+    try {
+      credentials = await resolveCredentials(accountId);
+    } catch {
+      logger.warn(`Could not access account ${accountId} to look for orphaned stage stacks`);
+      continue;
+    }
+
+    for (const region of regions) {
+      const stacks = await listDevRampsStacks(credentials, region);
+
+      for (const stack of stacks) {
+        if (!stack.stackName.endsWith('-Stage')) continue;
+        if (plannedKeys.has(`${stack.stackName}:${accountId}:${region}`)) continue;
+
+        const tags = await getStageRoleTags(stack.stackName, credentials, region);
+        const pipelineSlug = tags?.Pipeline;
+        const stageName = tags?.Stage;
+
+        if (!pipelineSlug || !stageName || !pipelineSlugs.has(pipelineSlug)) continue;
+
+        logger.verbose(`Found orphaned stage stack ${stack.stackName} (${pipelineSlug}/${stageName}) in ${accountId}/${region}`);
+
+        orphans.push({
+          stackType: StackType.STAGE,
+          stackName: stack.stackName,
+          accountId,
+          region,
+          action: 'DELETE',
+          pipelineSlug,
+          stageName,
+        });
+      }
+    }
+  }
+
+  return orphans;
+}
+
+/**
+ * Read the Pipeline/Stage tags from a stage stack's deployment role
+ */
+async function getStageRoleTags(
+  stackName: string,
+  credentials: AwsCredentialIdentity | undefined,
+  region: string
+): Promise<Record<string, string> | undefined> {
+  try {
+    const roleName = await getStackResourcePhysicalId(stackName, STAGE_ROLE_LOGICAL_ID, credentials, region);
+    if (!roleName) return undefined;
+    return await getRoleTags(roleName, credentials, region);
+  } catch (error) {
+    logger.verbose(`Could not read stage role tags for ${stackName}: ${error instanceof Error ? error.message : String(error)}`);
+    return undefined;
+  }
+}
@@ -0,0 +1,56 @@
+/**
+ * Recovery of stacks that can't be deployed over
+ *
+ * A stack left mid-operation, stuck in a failed rollback, rolled back on
+ * creation or half deleted blocks every deployment to it until it is dealt
+ * with. Each of these states has one way out:
+ *   *_IN_PROGRESS                    wait for the operation to finish
+ *   REVIEW_IN_PROGRESS               delete the stack, and the change sets it
+ *                                    holds, so it can be created
+ *   UPDATE_ROLLBACK_FAILED           continue the rollback, skipping resources
+ *   ROLLBACK_COMPLETE/ROLLBACK_FAILED delete the stack so it can be created again
+ *   DELETE_FAILED                    finish deleting it (by hand)
+ */
+
+import type { StackResourceState } from '../aws/cloudformation.js';
+import type { RemoteStackState } from '../types/stacks.js';
+import { STATEFUL_RESOURCE_TYPES } from './diff.js';
+
+export type StackRecovery = 'none' | 'wait' | 'discard-review' | 'continue-rollback' | 'recreate' | 'finish-delete';
+
+/**
+ * How to bring a stack back to a state it can be deployed over. A stack in
+ * REVIEW_IN_PROGRESS was never created: it only holds change sets, which
+ * nothing will execute on its own.
+ */
+export function getStackRecovery(remote: RemoteStackState): StackRecovery {
+  const status = remote.status ?? '';
+  switch (status) {
+    case 'UPDATE_ROLLBACK_FAILED':
+      return 'continue-rollback';
+    case 'ROLLBACK_COMPLETE':
+    case 'ROLLBACK_FAILED':
+      return 'recreate';
+    case 'DELETE_FAILED':
+      return 'finish-delete';
+    case 'REVIEW_IN_PROGRESS':
+      return 'discard-review';
+  }
+  return status.endsWith('_IN_PROGRESS') ? 'wait' : 'none';
+}
+
+/**
+ * Data resources (buckets, repositories, keys) still in a stack, which
+ * deleting the stack would delete or leave behind
+ */
+export function findDataResources(resources: StackResourceState[]): StackResourceState[] {
+  return resources.filter(r => STATEFUL_RESOURCE_TYPES.has(r.resourceType) && r.status !== 'DELETE_COMPLETE');
+}
+
+/**
+ * Resources whose rollback failed, which continuing the rollback may need
+ * to skip
+ */
+export function findRollbackBlockers(resources: StackResourceState[]): StackResourceState[] {
+  return resources.filter(r => r.status === 'UPDATE_FAILED');
+}
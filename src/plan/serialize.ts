@@ -0,0 +1,276 @@
+/**
+ * Machine-readable deployment plans
+ *
+ * Serializes a DeploymentPlan to a stable JSON document (for CI gating with
+ * `bootstrap --plan-out`), and checks a saved document against a freshly
+ * built plan before it is applied with `bootstrap --apply-plan`.
+ */
+
+import { createHash } from 'node:crypto';
+import { readFile, writeFile } from 'node:fs/promises';
+import { renderStackTemplate, type TemplateRenderOptions } from '../templates/index.js';
+import { PlanFileError } from '../utils/errors.js';
+import type { CloudFormationTemplate } from '../types/aws.js';
+import type { ParsedPipeline } from '../types/pipeline.js';
+import type { DeploymentPlan, RemoteStackState, StackDeployment, StackType } from '../types/stacks.js';
+
+/**
+ * Bumped whenever the document shape changes incompatibly
+ */
+export const PLAN_DOCUMENT_VERSION = 1;
+
+/**
+ * IAM actions granted to a role in a stack template
+ */
+export interface PlanRoleEntry {
+  logicalId: string;
+  roleName: string;
+  /** Sorted, de-duplicated actions from the role's Allow statements */
+  actions: string[];
+}
+
+export interface PlanStackEntry {
+  type: StackType;
+  name: string;
+  accountId: string;
+  region: string;
+  action: 'CREATE' | 'UPDATE' | 'NO_CHANGE' | 'DELETE';
+  /** sha256 of the rendered template (absent for stacks being deleted) */
+  templateHash?: string;
+  /** Deployed state the plan was built against */
+  remote: RemoteStackState;
+  roles: PlanRoleEntry[];
+}
+
+export interface PlanDocument {
+  version: number;
+  orgSlug: string;
+  cicdAccountId: string;
+  cicdRegion: string;
+  pipelineSlugs: string[];
+  /** sha256 over every selected pipeline's definition and additional policies */
+  pipelineDefinitionsHash: string;
+  stacks: PlanStackEntry[];
+}
+
+/**
+ * Serialize a deployment plan. Stacks are listed in deployment order and
+ * every list inside an entry is sorted, so identical inputs always produce
+ * an identical document.
+ */
+export function serializeDeploymentPlan(
+  plan: DeploymentPlan,
+  pipelines: ParsedPipeline[],
+  renderOptions: TemplateRenderOptions = {}
+): PlanDocument {
+  const planned: StackDeployment[] = [
+    ...plan.accountStacks,
+    plan.orgStack,
+    ...plan.pipelineStacks,
+    ...plan.stageStacks,
+    ...plan.importStacks,
+  ];
+
+  const stacks: PlanStackEntry[] = planned.map(stack => {
+    const template = renderStackTemplate(stack, renderOptions);
+    return {
+      type: stack.stackType,
+      name: stack.stackName,
+      accountId: stack.accountId,
+      region: stack.region,
+      action: stack.action,
+      templateHash: hashTemplate(template),
+      remote: stack.remote,
+      roles: extractRoleActions(template),
+    };
+  });
+
+  for (const stack of plan.orphanedStageStacks) {
+    stacks.push({
+      type: stack.stackType,
+      name: stack.stackName,
+      accountId: stack.accountId,
+      region: stack.region,
+      action: stack.action,
+      remote: { exists: true },
+      roles: [],
+    });
+  }
+
+  return {
+    version: PLAN_DOCUMENT_VERSION,
+    orgSlug: plan.orgSlug,
+    cicdAccountId: plan.cicdAccountId,
+    cicdRegion: plan.cicdRegion,
+    pipelineSlugs: pipelines.map(p => p.slug).sort(),
+    pipelineDefinitionsHash: hashPipelineDefinitions(pipelines),
+    stacks,
+  };
+}
+
+/**
+ * Hash a rendered CloudFormation template
+ */
+export function hashTemplate(template: CloudFormationTemplate): string {
+  return createHash('sha256').update(JSON.stringify(template)).digest('hex');
+}
+
+/**
+ * Hash the local pipeline definitions a plan was built from
+ */
+export function hashPipelineDefinitions(pipelines: ParsedPipeline[]): string {
+  const sorted = [...pipelines].sort((a, b) => a.slug.localeCompare(b.slug));
+  const hash = createHash('sha256');
+  for (const pipeline of sorted) {
+    hash.update(JSON.stringify({
+      slug: pipeline.slug,
+      definition: pipeline.definition,
+      additionalPolicies: pipeline.additionalPolicies,
+      customSteps: pipeline.customSteps,
+    }));
+  }
+  return hash.digest('hex');
+}
+
+/**
+ * Compare a saved plan with one built from the current tree and account
+ * state. Returns a description of every difference (empty when they match).
+ */
+export function comparePlanDocuments(saved: PlanDocument, current: PlanDocument): string[] {
+  const differences: string[] = [];
+
+  if (saved.orgSlug !== current.orgSlug || saved.cicdAccountId !== current.cicdAccountId || saved.cicdRegion !== current.cicdRegion) {
+    differences.push(
+      `Organization changed: plan targets ${saved.orgSlug} (${saved.cicdAccountId}, ${saved.cicdRegion}), ` +
+      `current is ${current.orgSlug} (${current.cicdAccountId}, ${current.cicdRegion})`
+    );
+  }
+
+  if (saved.pipelineDefinitionsHash !== current.pipelineDefinitionsHash) {
+    differences.push('Local pipeline definitions have changed since the plan was created');
+  }
+
+  const stackKey = (s: PlanStackEntry) => `${s.type}:${s.name}:${s.accountId}:${s.region}`;
+  const currentStacks = new Map(current.stacks.map(s => [stackKey(s), s]));
+  const savedKeys = new Set(saved.stacks.map(stackKey));
+
+  for (const savedStack of saved.stacks) {
+    const label = `${savedStack.name} (${savedStack.accountId}/${savedStack.region})`;
+    const currentStack = currentStacks.get(stackKey(savedStack));
+
+    if (!currentStack) {
+      differences.push(`${label}: no longer part of the plan`);
+      continue;
+    }
+    if (savedStack.action !== currentStack.action) {
+      differences.push(`${label}: action changed from ${savedStack.action} to ${currentStack.action}`);
+    }
+    if (savedStack.templateHash !== currentStack.templateHash) {
+      differences.push(`${label}: rendered template changed`);
+    }
+    if (
+      savedStack.remote.exists !== currentStack.remote.exists ||
+      savedStack.remote.status !== currentStack.remote.status ||
+      savedStack.remote.lastUpdatedTime !== currentStack.remote.lastUpdatedTime
+    ) {
+      differences.push(
+        `${label}: deployed stack changed (was ${describeRemote(savedStack.remote)}, now ${describeRemote(currentStack.remote)})`
+      );
+    }
+  }
+
+  for (const currentStack of current.stacks) {
+    if (!savedKeys.has(stackKey(currentStack))) {
+      differences.push(`${currentStack.name} (${currentStack.accountId}/${currentStack.region}): not in the saved plan`);
+    }
+  }
+
+  return differences;
+}
+
+/**
+ * Write a plan document as pretty-printed JSON
+ */
+export async function writePlanDocument(path: string, document: PlanDocument): Promise<void> {
+  await writeFile(path, JSON.stringify(document, null, 2) + '\n', 'utf-8');
+}
+
+/**
+ * Read and sanity-check a plan document written by writePlanDocument
+ */
+export async function readPlanDocument(path: string): Promise<PlanDocument> {
+  let document: PlanDocument;
+  try {
+    document = JSON.parse(await readFile(path, 'utf-8')) as PlanDocument;
+  } catch (error) {
+    throw new PlanFileError(path, error instanceof Error ? error.message : String(error));
+  }
+
+  if (!document || typeof document !== 'object' || !Array.isArray(document.stacks)) {
+    throw new PlanFileError(path, 'not a DevRamps plan document');
+  }
+  if (document.version !== PLAN_DOCUMENT_VERSION) {
+    throw new PlanFileError(
+      path,
+      `unsupported plan version ${document.version} (expected ${PLAN_DOCUMENT_VERSION})`
+    );
+  }
+
+  return document;
+}
+
+function describeRemote(remote: RemoteStackState): string {
+  if (!remote.exists) return 'not deployed';
+  return [remote.status, remote.lastUpdatedTime].filter(Boolean).join(' at ') || 'deployed';
+}
+
+/**
+ * Collect the IAM actions each role in a template is allowed, from its
+ * inline policies and the managed policies in the template attached to it
+ */
+function extractRoleActions(template: CloudFormationTemplate): PlanRoleEntry[] {
+  const roleActions = new Map<string, Set<string>>();
+  for (const [logicalId, resource] of Object.entries(template.Resources)) {
+    if (resource.Type !== 'AWS::IAM::Role') continue;
+
+    const actions = new Set<string>();
+    const policies = (resource.Properties.Policies ?? []) as { PolicyDocument?: unknown }[];
+    for (const policy of policies) {
+      addAllowedActions(actions, policy.PolicyDocument);
+    }
+    roleActions.set(logicalId, actions);
+  }
+
+  for (const resource of Object.values(template.Resources)) {
+    if (resource.Type !== 'AWS::IAM::ManagedPolicy') continue;
+
+    for (const role of (resource.Properties.Roles ?? []) as { Ref?: string }[]) {
+      const actions = role.Ref ? roleActions.get(role.Ref) : undefined;
+      if (actions) {
+        addAllowedActions(actions, resource.Properties.PolicyDocument);
+      }
+    }
+  }
+
+  const roles: PlanRoleEntry[] = [];
+  for (const [logicalId, actions] of roleActions) {
+    const roleName = template.Resources[logicalId].Properties.RoleName;
+    roles.push({
+      logicalId,
+      roleName: typeof roleName === 'string' ? roleName : logicalId,
+      actions: Array.from(actions).sort(),
+    });
+  }
+
+  return roles.sort((a, b) => a.logicalId.localeCompare(b.logicalId));
+}
+
+function addAllowedActions(actions: Set<string>, document: unknown): void {
+  for (const statement of (document as { Statement?: unknown[] } | undefined)?.Statement ?? []) {
+    const { Effect, Action } = statement as { Effect?: string; Action?: string | string[] };
+    if (Effect !== 'Allow' || !Action) continue;
+    for (const action of Array.isArray(Action) ? Action : [Action]) {
+      actions.add(action);
+    }
+  }
+}
@@ -0,0 +1,59 @@
+/**
+ * Terraform state migration to per-stage key prefixes
+ *
+ * Stage roles can only read and write state under
+ * <pipeline_slug>/<stage_name>/, so state written before that layout has to
+ * be copied to its new key. The old layout is described by a key template
+ * using {pipeline} and {stage} placeholders, e.g. "{pipeline}-{stage}.tfstate".
+ */
+
+import { getTerraformStateKey } from '../naming/index.js';
+import { StateMigrationError } from '../utils/errors.js';
+import type { ParsedPipeline } from '../types/pipeline.js';
+
+/**
+ * One state object to copy from its old key to the stage's prefix
+ */
+export interface StateMigration {
+  pipelineSlug: string;
+  stageName: string;
+  fromKey: string;
+  toKey: string;
+}
+
+/**
+ * Map every stage of the pipelines from its key under the legacy template
+ * to its namespaced key. Stages already at the new key are left out.
+ */
+export function planStateMigrations(pipelines: ParsedPipeline[], legacyKeyTemplate: string): StateMigration[] {
+  if (!legacyKeyTemplate.includes('{stage}')) {
+    throw new StateMigrationError(
+      `Legacy key template "${legacyKeyTemplate}" must contain {stage}, so each stage maps to its own state object`
+    );
+  }
+
+  const migrations: StateMigration[] = [];
+  const stagesByKey = new Map<string, string>();
+
+  for (const pipeline of pipelines) {
+    for (const stage of pipeline.stages) {
+      const fromKey = legacyKeyTemplate
+        .replaceAll('{pipeline}', pipeline.slug)
+        .replaceAll('{stage}', stage.name);
+      const toKey = getTerraformStateKey(pipeline.slug, stage.name);
+      const label = `${pipeline.slug}/${stage.name}`;
+
+      const other = stagesByKey.get(fromKey);
+      if (other) {
+        throw new StateMigrationError(`Stages ${other} and ${label} both map to legacy key "${fromKey}"`);
+      }
+      stagesByKey.set(fromKey, label);
+
+      if (fromKey !== toKey) {
+        migrations.push({ pipelineSlug: pipeline.slug, stageName: stage.name, fromKey, toKey });
+      }
+    }
+  }
+
+  return migrations;
+}
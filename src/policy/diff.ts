@@ -0,0 +1,87 @@
+/**
+ * Action-level comparison of IAM role policies
+ *
+ * Compares the Allow actions of a deployed role's inline policies with the
+ * policies a template would give it. Resources and conditions are not
+ * compared: templates reference resources through intrinsic functions that
+ * only resolve once deployed, so comparing them would always show changes.
+ */
+
+/**
+ * Permission changes for one role
+ */
+export interface RolePermissionDiff {
+  roleName: string;
+  accountId: string;
+  stackName: string;
+  /** True if the role is not deployed yet (every action is new) */
+  isNewRole: boolean;
+  added: string[];
+  removed: string[];
+}
+
+interface PolicyLike {
+  PolicyDocument?: { Statement?: unknown[] };
+  policyDocument?: { Statement?: unknown[] };
+}
+
+/**
+ * Collect the actions allowed by a set of inline policies, either in
+ * template form ({ PolicyName, PolicyDocument }) or as read from IAM
+ * ({ policyName, policyDocument }). Keyed by lower-cased action, since IAM
+ * actions are case-insensitive, with the first spelling seen as the value.
+ */
+export function collectAllowedActions(policies: object[]): Map<string, string> {
+  const actions = new Map<string, string>();
+
+  for (const policy of policies as PolicyLike[]) {
+    const document = policy.PolicyDocument ?? policy.policyDocument;
+    const statements = document?.Statement;
+    if (!statements) continue;
+
+    // A single statement may be an object rather than an array
+    for (const statement of Array.isArray(statements) ? statements : [statements]) {
+      const { Effect, Action } = statement as { Effect?: string; Action?: string | string[] };
+      if (Effect !== 'Allow' || !Action) continue;
+
+      for (const action of Array.isArray(Action) ? Action : [Action]) {
+        const key = action.toLowerCase();
+        if (!actions.has(key)) {
+          actions.set(key, action);
+        }
+      }
+    }
+  }
+
+  return actions;
+}
+
+/**
+ * Compare deployed and proposed policies action by action
+ */
+export function diffPolicyActions(
+  deployed: object[],
+  proposed: object[]
+): { added: string[]; removed: string[] } {
+  const deployedActions = collectAllowedActions(deployed);
+  const proposedActions = collectAllowedActions(proposed);
+
+  const added = [...proposedActions.entries()]
+    .filter(([key]) => !deployedActions.has(key))
+    .map(([, action]) => action)
+    .sort();
+  const removed = [...deployedActions.entries()]
+    .filter(([key]) => !proposedActions.has(key))
+    .map(([, action]) => action)
+    .sort();
+
+  return { added, removed };
+}
+
+/**
+ * Whether any existing role would gain actions. New roles are not counted,
+ * since their creation is already shown in the deployment plan.
+ */
+export function hasPermissionExpansion(diffs: RolePermissionDiff[]): boolean {
+  return diffs.some(d => !d.isNewRole && d.added.length > 0);
+}
@@ -0,0 +1,120 @@
+/**
+ * IAM permission changes for planned roles
+ *
+ * Reads the inline policies of the deployed org CICD role and stage
+ * deployment roles, and compares them with the policies bootstrap would
+ * deploy, so that widening a role's permissions never happens silently.
+ */
+
+import { getRoleInlinePolicies, getRoleManagedPolicies } from '../aws/iam.js';
+import { buildOrgRolePolicies } from '../templates/org-stack.js';
+import { buildStagePolicies } from '../templates/stage-stack.js';
+import { renderStackTemplate, type TemplateRenderOptions } from '../templates/index.js';
+import { getOrgRoleName, generateStageRoleName } from '../naming/index.js';
+import * as logger from '../utils/logger.js';
+import { getPartition } from '../utils/partition.js';
+import type { DeploymentPlan } from '../types/stacks.js';
+import type { CredentialResolver } from '../aws/credential-cache.js';
+import { diffPolicyActions, type RolePermissionDiff } from './diff.js';
+import { applySuppressions, lintTemplate, type PolicyLintResult, type PolicyLintSuppression } from './lint.js';
+
+export { diffPolicyActions, collectAllowedActions, hasPermissionExpansion, type RolePermissionDiff } from './diff.js';
+export type { PolicyLintFinding, PolicyLintResult, PolicyLintSuppression } from './lint.js';
+
+/**
+ * A role whose deployed policies are compared with the proposed ones
+ */
+interface PlannedRole {
+  roleName: string;
+  accountId: string;
+  /** Region of the owning stack, which selects the partition's IAM endpoint */
+  region: string;
+  stackName: string;
+  exists: boolean;
+  proposedPolicies: object[];
+}
+
+/**
+ * Compare every planned org and stage role with its deployed counterpart.
+ * Roles whose policies cannot be read are skipped with a warning.
+ */
+export async function collectRolePermissionDiffs(
+  plan: DeploymentPlan,
+  resolveCredentials: CredentialResolver
+): Promise<RolePermissionDiff[]> {
+  const roles: PlannedRole[] = [
+    {
+      roleName: getOrgRoleName(),
+      accountId: plan.orgStack.accountId,
+      region: plan.orgStack.region,
+      stackName: plan.orgStack.stackName,
+      exists: plan.orgStack.remote.exists,
+      proposedPolicies: buildOrgRolePolicies(plan.orgSlug, getPartition(plan.orgStack.region)),
+    },
+    ...plan.stageStacks.map(stack => ({
+      roleName: generateStageRoleName(stack.pipelineSlug, stack.stageName),
+      accountId: stack.accountId,
+      region: stack.region,
+      stackName: stack.stackName,
+      exists: stack.remote.exists,
+      proposedPolicies: buildStagePolicies(
+        stack.steps,
+        stack.additionalPolicies,
+        stack.dockerArtifacts,
+        stack.bundleArtifacts,
+        stack.orgSlug,
+        {
+          pipelineSlug: stack.pipelineSlug,
+          name: stack.stageName,
+          accountId: stack.accountId,
+          region: stack.region,
+          vars: stack.vars,
+          skip: stack.skip,
+          customSteps: stack.customSteps,
+        }
+      ),
+    })),
+  ];
+
+  const results = await Promise.all(
+    roles.map(async (role): Promise<RolePermissionDiff | null> => {
+      const base = { roleName: role.roleName, accountId: role.accountId, stackName: role.stackName };
+
+      if (!role.exists) {
+        return { ...base, isNewRole: true, ...diffPolicyActions([], role.proposedPolicies) };
+      }
+
+      try {
+        const credentials = await resolveCredentials(role.accountId);
+        const deployed = await getRoleInlinePolicies(role.roleName, credentials, role.region);
+        if (!deployed) {
+          return { ...base, isNewRole: true, ...diffPolicyActions([], role.proposedPolicies) };
+        }
+        deployed.push(...await getRoleManagedPolicies(role.roleName, credentials, role.region));
+        return { ...base, isNewRole: false, ...diffPolicyActions(deployed, role.proposedPolicies) };
+      } catch (error) {
+        logger.warn(
+          `Could not read deployed policies for ${role.roleName} in ${role.accountId}: ` +
+          `${error instanceof Error ? error.message : String(error)}`
+        );
+        return null;
+      }
+    })
+  );
+
+  return results.filter((r): r is RolePermissionDiff => r !== null);
+}
+
+/**
+ * Lint the IAM policies of every stack in the plan, as they would be rendered
+ */
+export function lintDeploymentPlan(
+  plan: DeploymentPlan,
+  renderOptions: TemplateRenderOptions,
+  suppressions: PolicyLintSuppression[]
+): PolicyLintResult {
+  const stacks = [plan.orgStack, ...plan.stageStacks, ...plan.importStacks];
+  const findings = stacks.flatMap(stack => lintTemplate(stack.stackName, renderStackTemplate(stack, renderOptions)));
+
+  return applySuppressions(findings, suppressions);
+}
@@ -0,0 +1,232 @@
+/**
+ * Static analysis of generated IAM policies
+ *
+ * Checks the identity policies in rendered templates (role inline policies
+ * and customer managed policies) for grants that are almost never intended:
+ * admin wildcards, iam:*, unconditioned iam:PassRole and sts:AssumeRole on
+ * every resource. Findings can be acknowledged with suppressions, which must
+ * give a reason.
+ */
+
+import type { CloudFormationTemplate } from '../types/aws.js';
+
+export type PolicyLintSeverity = 'error' | 'warning';
+
+export type PolicyLintRule =
+  | 'admin-wildcard'
+  | 'iam-wildcard'
+  | 'passrole-wildcard'
+  | 'assume-role-wildcard'
+  | 'service-wildcard'
+  | 'not-action-allow';
+
+/**
+ * Where a policy statement lives in the rendered templates
+ */
+export interface PolicyLocation {
+  stackName: string;
+  /** Logical ID of the role or managed policy resource */
+  resource: string;
+  policyName: string;
+}
+
+export interface PolicyLintFinding extends PolicyLocation {
+  rule: PolicyLintRule;
+  severity: PolicyLintSeverity;
+  sid?: string;
+  message: string;
+}
+
+/**
+ * An accepted risk from the suppressions file. Omitted fields match anything;
+ * stack and policy accept * wildcards.
+ */
+export interface PolicyLintSuppression {
+  rule: PolicyLintRule;
+  stack?: string;
+  policy?: string;
+  sid?: string;
+  reason: string;
+}
+
+export interface PolicyLintResult {
+  findings: PolicyLintFinding[];
+  suppressed: PolicyLintFinding[];
+  /** Suppressions that matched no finding (likely stale) */
+  unusedSuppressions: PolicyLintSuppression[];
+}
+
+export const POLICY_LINT_RULES: Record<PolicyLintRule, PolicyLintSeverity> = {
+  'admin-wildcard': 'error',
+  'iam-wildcard': 'error',
+  'passrole-wildcard': 'error',
+  'assume-role-wildcard': 'error',
+  'service-wildcard': 'warning',
+  'not-action-allow': 'warning',
+};
+
+interface PolicyStatement {
+  Sid?: unknown;
+  Effect?: unknown;
+  Action?: unknown;
+  NotAction?: unknown;
+  Resource?: unknown;
+  Condition?: unknown;
+}
+
+/**
+ * Lint every identity policy in a rendered template
+ */
+export function lintTemplate(stackName: string, template: CloudFormationTemplate): PolicyLintFinding[] {
+  const findings: PolicyLintFinding[] = [];
+
+  for (const [resource, definition] of Object.entries(template.Resources)) {
+    const properties = definition.Properties;
+
+    if (definition.Type === 'AWS::IAM::Role' && Array.isArray(properties.Policies)) {
+      for (const policy of properties.Policies as Array<{ PolicyName?: string; PolicyDocument?: unknown }>) {
+        findings.push(...lintPolicyDocument(policy.PolicyDocument, {
+          stackName,
+          resource,
+          policyName: policy.PolicyName ?? resource,
+        }));
+      }
+    }
+
+    if (definition.Type === 'AWS::IAM::ManagedPolicy') {
+      findings.push(...lintPolicyDocument(properties.PolicyDocument, { stackName, resource, policyName: resource }));
+    }
+  }
+
+  return findings;
+}
+
+/**
+ * Lint the Allow statements of one policy document
+ */
+export function lintPolicyDocument(document: unknown, location: PolicyLocation): PolicyLintFinding[] {
+  const statements = toList((document as { Statement?: unknown } | undefined)?.Statement) as PolicyStatement[];
+  const hasDeny = statements.some(s => s.Effect === 'Deny');
+  const findings: PolicyLintFinding[] = [];
+
+  for (const statement of statements) {
+    if (statement.Effect !== 'Allow') continue;
+
+    const sid = typeof statement.Sid === 'string' ? statement.Sid : undefined;
+    const report = (rule: PolicyLintRule, message: string, severity = POLICY_LINT_RULES[rule]) => {
+      findings.push({ ...location, rule, severity, ...(sid ? { sid } : {}), message });
+    };
+
+    if (statement.NotAction !== undefined) {
+      report('not-action-allow', 'Allow with NotAction grants every action not listed');
+      continue;
+    }
+
+    const actions = toList(statement.Action).filter((a): a is string => typeof a === 'string');
+    const allResources = toList(statement.Resource).includes('*');
+
+    if (allResources && actions.some(isAdminWildcard)) {
+      if (hasDeny) {
+        report('admin-wildcard', 'Grants every action on every resource, limited only by this policy\'s Deny statements', 'warning');
+      } else {
+        report('admin-wildcard', 'Grants every action on every resource (administrator access)');
+      }
+      // The narrower rules below would only repeat this finding
+      continue;
+    }
+
+    if (actions.some(a => a.toLowerCase() === 'iam:*')) {
+      report('iam-wildcard', 'Grants iam:*, which allows creating and modifying any role or policy');
+    }
+
+    if (allResources && actions.some(a => actionMatches(a, 'iam:PassRole')) && !hasConditionKey(statement, 'iam:PassedToService')) {
+      report('passrole-wildcard', 'Allows iam:PassRole on every role without an iam:PassedToService condition');
+    }
+
+    if (allResources && actions.some(a => actionMatches(a, 'sts:AssumeRole'))) {
+      report('assume-role-wildcard', 'Allows sts:AssumeRole on every role');
+    }
+
+    for (const action of actions) {
+      if (allResources && action.endsWith(':*') && action.toLowerCase() !== 'iam:*') {
+        report('service-wildcard', `Grants ${action} on every resource`);
+      }
+    }
+  }
+
+  return findings;
+}
+
+/**
+ * Split findings into active and suppressed ones
+ */
+export function applySuppressions(
+  findings: PolicyLintFinding[],
+  suppressions: PolicyLintSuppression[]
+): PolicyLintResult {
+  const used = new Set<PolicyLintSuppression>();
+  const active: PolicyLintFinding[] = [];
+  const suppressed: PolicyLintFinding[] = [];
+
+  for (const finding of findings) {
+    const suppression = suppressions.find(s => suppressionMatches(s, finding));
+    if (suppression) {
+      used.add(suppression);
+      suppressed.push(finding);
+    } else {
+      active.push(finding);
+    }
+  }
+
+  return {
+    findings: active,
+    suppressed,
+    unusedSuppressions: suppressions.filter(s => !used.has(s)),
+  };
+}
+
+function suppressionMatches(suppression: PolicyLintSuppression, finding: PolicyLintFinding): boolean {
+  return suppression.rule === finding.rule
+    && (suppression.stack === undefined || globMatches(suppression.stack, finding.stackName))
+    && (suppression.policy === undefined || globMatches(suppression.policy, finding.policyName))
+    && (suppression.sid === undefined || suppression.sid === finding.sid);
+}
+
+function isAdminWildcard(action: string): boolean {
+  return action === '*' || action === '*:*';
+}
+
+/**
+ * Whether an IAM action pattern (which may use * and ?) covers an action.
+ * IAM action names are case-insensitive.
+ */
+function actionMatches(pattern: string, action: string): boolean {
+  return globToRegExp(pattern, 'i').test(action);
+}
+
+function globMatches(pattern: string, value: string): boolean {
+  return globToRegExp(pattern).test(value);
+}
+
+function globToRegExp(pattern: string, flags?: string): RegExp {
+  const source = pattern
+    .split('')
+    .map(c => (c === '*' ? '.*' : c === '?' ? '.' : c.replace(/[.+^${}()|[\]\\]/g, '\\$&')))
+    .join('');
+  return new RegExp(`^${source}$`, flags);
+}
+
+function hasConditionKey(statement: PolicyStatement, key: string): boolean {
+  if (typeof statement.Condition !== 'object' || statement.Condition === null) {
+    return false;
+  }
+  return Object.values(statement.Condition).some(
+    operator => typeof operator === 'object' && operator !== null &&
+      Object.keys(operator).some(k => k.toLowerCase() === key.toLowerCase())
+  );
+}
+
+function toList(value: unknown): unknown[] {
+  if (value === undefined) return [];
+  return Array.isArray(value) ? value : [value];
+}
@@ -0,0 +1,190 @@
+/**
+ * JSON Schema for pipeline.yaml
+ *
+ * The property maps below are typed against the interfaces in
+ * types/pipeline.ts, so adding, renaming or removing a field there fails to
+ * compile until the schema is updated too. The validate command uses the
+ * same maps to detect unknown keys.
+ */
+
+import { getKnownStepTypes } from '../permissions/index.js';
+import type {
+  PipelineDefinition,
+  PipelineConfig,
+  Stage,
+  StageDefaults,
+  InfrastructureConfig,
+  PipelineStep,
+  RawArtifact,
+  EphemeralEnvironmentDef,
+} from '../types/pipeline.js';
+import type { ArtifactType } from '../types/artifacts.js';
+
+export type JsonSchema = Record<string, unknown>;
+
+/** Keys of T that are not optional */
+type RequiredKeys<T> = { [K in keyof T]-?: object extends Pick<T, K> ? never : K }[keyof T];
+
+type ApprovalRequirement = NonNullable<InfrastructureConfig['requires_approval']>;
+
+const APPROVAL_REQUIREMENTS: Record<ApprovalRequirement, true> = {
+  ALWAYS: true,
+  DESTRUCTIVE_CHANGES_ONLY: true,
+  NEVER: true,
+};
+
+const ARTIFACT_TYPES: Record<ArtifactType, true> = {
+  'DEVRAMPS:DOCKER:BUILD': true,
+  'DEVRAMPS:DOCKER:IMPORT': true,
+  'DEVRAMPS:BUNDLE:BUILD': true,
+  'DEVRAMPS:BUNDLE:IMPORT': true,
+};
+
+const ref = (name: string): JsonSchema => ({ $ref: `#/definitions/${name}` });
+const stringList = (description: string): JsonSchema => ({ type: 'array', items: { type: 'string' }, description });
+const freeformObject = (description: string): JsonSchema => ({ type: 'object', description });
+
+const accountId: JsonSchema = {
+  type: 'string',
+  pattern: '^\\d{12}$',
+  description: 'Target AWS account ID (12 digits, quoted)',
+};
+const region: JsonSchema = {
+  type: 'string',
+  description: 'Target AWS region, e.g. us-east-1',
+};
+const approvalRequirement: JsonSchema = { type: 'string', enum: Object.keys(APPROVAL_REQUIREMENTS) };
+
+export const INFRASTRUCTURE_PROPERTIES: Record<keyof InfrastructureConfig, JsonSchema> = {
+  requires_approval: { ...approvalRequirement, description: 'When infrastructure changes need manual approval' },
+  source: { type: 'string', description: 'Path to the infrastructure source' },
+  variables: freeformObject('Variables passed to the infrastructure provider'),
+};
+
+export const STAGE_PROPERTIES: Record<keyof Stage, JsonSchema> = {
+  name: { type: 'string', description: 'Stage name' },
+  account_id: accountId,
+  region,
+  deployment_time_window: { type: 'string', description: 'Deployment time window, e.g. PACIFIC_WORKING_HOURS or NONE' },
+  skip: stringList('Step names or IDs to skip for this stage'),
+  auto_rollback_alarm_name: { type: 'string', description: 'CloudWatch alarm name for auto-rollback' },
+  vars: freeformObject('Stage-specific variables'),
+  infrastructure: ref('infrastructure'),
+};
+
+export const STAGE_DEFAULTS_PROPERTIES: Record<keyof StageDefaults, JsonSchema> = {
+  deployment_time_window: STAGE_PROPERTIES.deployment_time_window,
+  infrastructure: ref('infrastructure'),
+};
+
+export const STEP_PROPERTIES: Record<keyof PipelineStep, JsonSchema> = {
+  name: { type: 'string', description: 'Step name' },
+  id: { type: 'string', description: 'Optional ID for referencing the step' },
+  type: {
+    description: 'Step type',
+    anyOf: [
+      { type: 'string', enum: getKnownStepTypes() },
+      { type: 'string' },
+    ],
+  },
+  goes_after: stringList('Names or IDs of steps that must run before this one'),
+  params: freeformObject('Step-specific parameters'),
+};
+
+export const ARTIFACT_PROPERTIES: Record<keyof RawArtifact, JsonSchema> = {
+  id: { type: 'string', description: 'Optional ID for referencing (defaults to the normalized name)' },
+  type: { type: 'string', enum: Object.keys(ARTIFACT_TYPES), description: 'Artifact type' },
+  architecture: { type: 'string', description: 'CPU architecture for builds' },
+  host_size: { type: 'string', description: 'Build host size' },
+  per_stage: { type: 'boolean', description: 'Build or import separately for each stage' },
+  retain: { type: 'boolean', description: 'Keep the artifact\'s repositories or buckets when their stack is deleted (default true)' },
+  rebuild_when_changed: stringList('Repo-relative paths that trigger a rebuild'),
+  dependencies: stringList('Build dependencies, e.g. node.22'),
+  envs: freeformObject('Environment variables for the build'),
+  params: freeformObject('Type-specific parameters'),
+};
+
+export const EPHEMERAL_ENVIRONMENT_PROPERTIES: Record<keyof EphemeralEnvironmentDef, JsonSchema> = {
+  triggers: {
+    type: 'array',
+    items: objectSchema<EphemeralEnvironmentDef['triggers'][number]>(
+      { on: { type: 'string' }, target_branches: stringList('Branches that trigger the environment') },
+      { on: true }
+    ),
+  },
+  release: {
+    type: 'array',
+    items: objectSchema<EphemeralEnvironmentDef['release'][number]>(
+      { on: { type: 'string' }, after_idle_hours: { type: 'number' } },
+      { on: true }
+    ),
+  },
+  on_release: { type: 'string' },
+  account_id: accountId,
+  region,
+  vars: freeformObject('Environment-specific variables'),
+  skip: stringList('Step names or IDs to skip for this environment'),
+};
+
+export const PIPELINE_PROPERTIES: Record<keyof PipelineConfig, JsonSchema> = {
+  cloud_provider: { type: 'string', enum: ['AWS'] },
+  infrastructure_provider: { type: 'string' },
+  pipeline_updates_require_approval: { ...approvalRequirement, description: 'When pipeline updates need manual approval' },
+  stage_defaults: ref('stage_defaults'),
+  stages: { type: 'array', items: ref('stage'), minItems: 1, description: 'Deployment stages' },
+  steps: { type: 'array', items: ref('step'), description: 'Pipeline steps' },
+  artifacts: { type: 'object', additionalProperties: ref('artifact'), description: 'Build artifacts keyed by name' },
+  ephemeral_environments: {
+    type: 'object',
+    additionalProperties: ref('ephemeral_environment'),
+    description: 'Ephemeral environments keyed by name',
+  },
+};
+
+export const DEFINITION_PROPERTIES: Record<keyof PipelineDefinition, JsonSchema> = {
+  version: { type: 'string', description: 'Pipeline definition format version' },
+  pipeline: ref('pipeline'),
+};
+
+/**
+ * Build the JSON Schema (draft-07) for pipeline.yaml
+ */
+export function buildPipelineSchema(): JsonSchema {
+  return {
+    $schema: 'http://json-schema.org/draft-07/schema#',
+    title: 'DevRamps pipeline.yaml',
+    ...objectSchema<PipelineDefinition>(DEFINITION_PROPERTIES, { version: true, pipeline: true }),
+    definitions: {
+      pipeline: objectSchema<PipelineConfig>(PIPELINE_PROPERTIES, { cloud_provider: true, stages: true, steps: true }),
+      stage_defaults: objectSchema<StageDefaults>(STAGE_DEFAULTS_PROPERTIES, {}),
+      infrastructure: objectSchema<InfrastructureConfig>(INFRASTRUCTURE_PROPERTIES, {}),
+      stage: objectSchema<Stage>(STAGE_PROPERTIES, { name: true, account_id: true, region: true }),
+      step: objectSchema<PipelineStep>(STEP_PROPERTIES, { name: true, type: true }),
+      artifact: objectSchema<RawArtifact>(ARTIFACT_PROPERTIES, { type: true }),
+      ephemeral_environment: objectSchema<EphemeralEnvironmentDef>(EPHEMERAL_ENVIRONMENT_PROPERTIES, {
+        triggers: true,
+        release: true,
+        on_release: true,
+        account_id: true,
+        region: true,
+      }),
+    },
+  };
+}
+
+/**
+ * Schema for an object type. Both maps are checked against T: properties
+ * must list every key, and required must list exactly the non-optional ones.
+ */
+function objectSchema<T>(
+  properties: Record<keyof T, JsonSchema>,
+  required: Record<RequiredKeys<T>, true>
+): JsonSchema {
+  const requiredKeys = Object.keys(required);
+  return {
+    type: 'object',
+    properties,
+    ...(requiredKeys.length > 0 ? { required: requiredKeys } : {}),
+    additionalProperties: false,
+  };
+}
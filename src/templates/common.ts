@@ -5,6 +5,7 @@
 import { getOidcThumbprint } from '../aws/oidc-provider.js';
 import { OIDC_PROVIDER_URL } from '../types/config.js';
 import type { CloudFormationTemplate, CloudFormationResource } from '../types/aws.js';
+import type { AwsPartition } from '../utils/partition.js';
 
 /**
  * Standard tags applied to all DevRamps resources
@@ -14,6 +15,21 @@ export const STANDARD_TAGS = [
   { Key: 'ManagedBy', Value: 'DevRamps-CLI' },
 ];
 
+/**
+ * What happens to a data resource (bucket, repository or key) when its stack
+ * is deleted or the resource is replaced. Retained resources are left in the
+ * account, outside the stack, with their data.
+ */
+export type DataRetention = 'Retain' | 'Delete';
+
+/**
+ * Retention of an artifact's repositories or buckets: retained unless the
+ * artifact sets `retain: false`
+ */
+export function getArtifactRetention(artifact: { retain?: boolean }): DataRetention {
+  return artifact.retain === false ? 'Delete' : 'Retain';
+}
+
 /**
  * Create a base CloudFormation template with standard structure
  */
@@ -80,7 +96,12 @@ export function addOidcProviderResource(
 /**
  * Get the OIDC provider ARN (handles conditional creation)
  */
-export function getOidcProviderArn(accountId: string, conditional: boolean = true, oidcProviderUrl?: string): unknown {
+export function getOidcProviderArn(
+  accountId: string,
+  partition: AwsPartition,
+  conditional: boolean = true,
+  oidcProviderUrl?: string
+): unknown {
   const providerUrl = oidcProviderUrl || OIDC_PROVIDER_URL;
 
   if (conditional) {
@@ -88,7 +109,7 @@ export function getOidcProviderArn(accountId: string, conditional: boolean = tru
       'Fn::If': [
         'CreateOIDCProvider',
         { 'Fn::GetAtt': ['DevRampsOIDCProvider', 'Arn'] },
-        `arn:aws:iam::${accountId}:oidc-provider/${providerUrl}`,
+        `arn:${partition}:iam::${accountId}:oidc-provider/${providerUrl}`,
       ],
     };
   }
@@ -100,6 +121,7 @@ export function getOidcProviderArn(accountId: string, conditional: boolean = tru
  */
 export function buildOidcTrustPolicy(
   accountId: string,
+  partition: AwsPartition,
   subject: string,
   oidcProviderUrl?: string,
   additionalTrustedAccounts?: string[],
@@ -113,7 +135,7 @@ export function buildOidcTrustPolicy(
     statements.push({
       Effect: 'Allow',
       Principal: {
-        Federated: `arn:aws:iam::${accountId}:oidc-provider/${providerUrl}`,
+        Federated: `arn:${partition}:iam::${accountId}:oidc-provider/${providerUrl}`,
       },
       Action: 'sts:AssumeRoleWithWebIdentity',
       Condition: {
@@ -129,7 +151,7 @@ export function buildOidcTrustPolicy(
     statements.push({
       Effect: 'Allow',
       Principal: {
-        AWS: additionalTrustedAccounts.map(id => `arn:aws:iam::${id}:root`),
+        AWS: additionalTrustedAccounts.map(id => `arn:${partition}:iam::${id}:root`),
       },
       Action: 'sts:AssumeRole',
     });
@@ -167,7 +189,8 @@ export function createIamRoleResource(
 export function createS3BucketResource(
   bucketName: string,
   additionalTags: Array<{ Key: string; Value: string }> = [],
-  encryption?: { kmsKeyArn?: unknown }
+  encryption?: { kmsKeyArn?: unknown },
+  retention: DataRetention = 'Retain'
 ): CloudFormationResource {
   const encryptionConfig = encryption?.kmsKeyArn
     ? {
@@ -192,6 +215,7 @@ export function createS3BucketResource(
 
   return {
     Type: 'AWS::S3::Bucket',
+    ...getRetentionPolicies(retention),
     Properties: {
       BucketName: bucketName,
       VersioningConfiguration: { Status: 'Enabled' },
@@ -212,10 +236,12 @@ export function createS3BucketResource(
  */
 export function createEcrRepositoryResource(
   repositoryName: string,
-  additionalTags: Array<{ Key: string; Value: string }> = []
+  additionalTags: Array<{ Key: string; Value: string }> = [],
+  retention: DataRetention = 'Retain'
 ): CloudFormationResource {
   return {
     Type: 'AWS::ECR::Repository',
+    ...getRetentionPolicies(retention),
     Properties: {
       RepositoryName: repositoryName,
       ImageScanningConfiguration: { ScanOnPush: true },
@@ -231,10 +257,12 @@ export function createEcrRepositoryResource(
 export function createKmsKeyResource(
   description: string,
   keyPolicy: object,
-  additionalTags: Array<{ Key: string; Value: string }> = []
+  additionalTags: Array<{ Key: string; Value: string }> = [],
+  retention: DataRetention = 'Retain'
 ): CloudFormationResource {
   return {
     Type: 'AWS::KMS::Key',
+    ...getRetentionPolicies(retention),
     Properties: {
       Description: description,
       EnableKeyRotation: true,
@@ -256,3 +284,35 @@ export function createKmsKeyAliasResource(aliasName: string, targetKeyRef: strin
     },
   };
 }
+
+/**
+ * Stack policy that lets updates change anything except replace a retained
+ * data resource. Removing one from the template is still allowed, since it
+ * is retained rather than deleted.
+ */
+export function buildDataResourceStackPolicy(template: CloudFormationTemplate): object {
+  const retained = Object.entries(template.Resources)
+    .filter(([, resource]) => resource.UpdateReplacePolicy === 'Retain')
+    .map(([logicalId]) => `LogicalResourceId/${logicalId}`)
+    .sort();
+
+  const statements: object[] = [
+    { Effect: 'Allow', Principal: '*', Action: 'Update:*', Resource: '*' },
+  ];
+  if (retained.length > 0) {
+    statements.push({ Effect: 'Deny', Principal: '*', Action: 'Update:Replace', Resource: retained });
+  }
+
+  return { Statement: statements };
+}
+
+/**
+ * DeletionPolicy and UpdateReplacePolicy for a data resource. Resources
+ * created by a stack's failed first deployment hold no data yet, and
+ * keeping them would only make the retry fail on their names.
+ */
+function getRetentionPolicies(retention: DataRetention): Pick<CloudFormationResource, 'DeletionPolicy' | 'UpdateReplacePolicy'> {
+  return retention === 'Retain'
+    ? { DeletionPolicy: 'RetainExceptOnCreate', UpdateReplacePolicy: 'Retain' }
+    : { DeletionPolicy: 'Delete', UpdateReplacePolicy: 'Delete' };
+}
@@ -19,12 +19,15 @@ import {
   getImportStackName,
   generateImportRoleName,
 } from '../naming/index.js';
+import { getPartition } from '../utils/partition.js';
 
 export interface ImportStackOptions {
   pipelineSlug: string;
   orgSlug: string;
   /** The account ID where this stack is being deployed (the import source account) */
   accountId: string;
+  /** Region the stack is deployed to (determines the AWS partition) */
+  region: string;
   /** Override the OIDC provider URL (e.g. from endpoint override) */
   oidcProviderUrl?: string;
   /** Additional AWS account IDs to add to role trust policies (for local dev testing) */
@@ -37,7 +40,7 @@ export interface ImportStackOptions {
  * Generate the CloudFormation template for an import stack
  */
 export function generateImportStackTemplate(options: ImportStackOptions): CloudFormationTemplate {
-  const { pipelineSlug, orgSlug, accountId, oidcProviderUrl, additionalTrustedAccounts, skipOidc } = options;
+  const { pipelineSlug, orgSlug, accountId, region, oidcProviderUrl, additionalTrustedAccounts, skipOidc } = options;
 
   const template = createBaseTemplate(
     `DevRamps Import Stack for ${pipelineSlug} - grants read access for artifact imports`
@@ -45,7 +48,7 @@ export function generateImportStackTemplate(options: ImportStackOptions): CloudF
 
   // Import role with OIDC trust for CI/CD operations
   const roleName = generateImportRoleName(pipelineSlug);
-  const trustPolicy = buildOidcTrustPolicy(accountId, `org:${orgSlug}/cicd`, oidcProviderUrl, additionalTrustedAccounts, skipOidc);
+  const trustPolicy = buildOidcTrustPolicy(accountId, getPartition(region), `org:${orgSlug}/cicd`, oidcProviderUrl, additionalTrustedAccounts, skipOidc);
   const policies = buildImportRolePolicies();
 
   template.Resources.ImportRole = createIamRoleResource(
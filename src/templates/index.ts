@@ -0,0 +1,113 @@
+/**
+ * Template rendering for planned stacks
+ *
+ * Maps each stack in a deployment plan to its CloudFormation template, so
+ * that deploying, planning and hashing all work from the same template.
+ */
+
+import type { CloudFormationTemplate, StackProtection } from '../types/aws.js';
+import { StackType, type StackDeployment } from '../types/stacks.js';
+import { generateOrgStackTemplate } from './org-stack.js';
+import { generatePipelineStackTemplate } from './pipeline-stack.js';
+import { generateAccountStackTemplate } from './account-stack.js';
+import { generateStageStackTemplate } from './stage-stack.js';
+import { generateImportStackTemplate } from './import-stack.js';
+import { buildDataResourceStackPolicy } from './common.js';
+
+/**
+ * Options that affect rendering but are not part of the plan itself
+ */
+export interface TemplateRenderOptions {
+  /** Override the OIDC provider URL (e.g. from endpoint override) */
+  oidcProviderUrl?: string;
+  /** Additional AWS account IDs to add to role trust policies (for local dev testing) */
+  additionalTrustedAccounts?: string[];
+  /** Skip OIDC federation in trust policies (for localhost testing) */
+  skipOidc?: boolean;
+}
+
+/**
+ * Render the CloudFormation template for a planned stack
+ */
+export function renderStackTemplate(
+  stack: StackDeployment,
+  options: TemplateRenderOptions = {}
+): CloudFormationTemplate {
+  const { oidcProviderUrl, additionalTrustedAccounts, skipOidc } = options;
+
+  switch (stack.stackType) {
+    case StackType.ORG:
+      return generateOrgStackTemplate({
+        orgSlug: stack.orgSlug,
+        cicdAccountId: stack.accountId,
+        region: stack.region,
+        targetAccountIds: stack.targetAccountIds,
+        statePrefixes: stack.statePrefixes,
+        oidcProviderUrl,
+        additionalTrustedAccounts,
+        skipOidc,
+      });
+
+    case StackType.PIPELINE:
+      return generatePipelineStackTemplate({
+        pipelineSlug: stack.pipelineSlug,
+        cicdAccountId: stack.accountId,
+        region: stack.region,
+        dockerArtifacts: stack.dockerArtifacts,
+        bundleArtifacts: stack.bundleArtifacts,
+        stageAccountIds: stack.stageAccountIds,
+      });
+
+    case StackType.ACCOUNT:
+      return generateAccountStackTemplate({ oidcProviderUrl });
+
+    case StackType.STAGE:
+      return generateStageStackTemplate({
+        pipelineSlug: stack.pipelineSlug,
+        stageName: stack.stageName,
+        orgSlug: stack.orgSlug,
+        accountId: stack.accountId,
+        region: stack.region,
+        vars: stack.vars,
+        steps: stack.steps,
+        skip: stack.skip,
+        customSteps: stack.customSteps,
+        additionalPolicies: stack.additionalPolicies,
+        dockerArtifacts: stack.dockerArtifacts,
+        bundleArtifacts: stack.bundleArtifacts,
+        oidcProviderUrl,
+        additionalTrustedAccounts,
+        skipOidc,
+      });
+
+    case StackType.IMPORT:
+      return generateImportStackTemplate({
+        pipelineSlug: stack.pipelineSlug,
+        orgSlug: stack.orgSlug,
+        accountId: stack.accountId,
+        region: stack.region,
+        oidcProviderUrl,
+        additionalTrustedAccounts,
+        skipOidc,
+      });
+  }
+}
+
+/**
+ * Safeguards for stacks holding data that other stacks and pipelines
+ * depend on: the Org stack (Terraform state, KMS key) and Pipeline stacks
+ * (artifact history). Other stacks are unprotected.
+ */
+export function getStackProtection(
+  stack: StackDeployment,
+  template: CloudFormationTemplate
+): StackProtection | undefined {
+  if (stack.stackType !== StackType.ORG && stack.stackType !== StackType.PIPELINE) {
+    return undefined;
+  }
+
+  return {
+    stackPolicy: buildDataResourceStackPolicy(template),
+    terminationProtection: true,
+  };
+}
@@ -28,12 +28,17 @@ import {
   getKmsKeyAlias,
 } from '../naming/index.js';
 import { createTerraformStateBucketPolicy } from '../merge/bucket-policy.js';
+import { getPartition, type AwsPartition } from '../utils/partition.js';
 
 export interface OrgStackOptions {
   orgSlug: string;
   cicdAccountId: string;
+  /** CI/CD region (determines the AWS partition) */
+  region: string;
   /** All target account IDs that need access to Terraform state bucket */
   targetAccountIds: string[];
+  /** Terraform state key prefixes each target account may read and write */
+  statePrefixes?: Record<string, string[]>;
   /** Override the OIDC provider URL (e.g. from endpoint override) */
   oidcProviderUrl?: string;
   /** Additional AWS account IDs to add to role trust policies (for local dev testing) */
@@ -46,12 +51,13 @@ export interface OrgStackOptions {
  * Generate the CloudFormation template for the org stack
  */
 export function generateOrgStackTemplate(options: OrgStackOptions): CloudFormationTemplate {
-  const { orgSlug, cicdAccountId, targetAccountIds, oidcProviderUrl, additionalTrustedAccounts, skipOidc } = options;
+  const { orgSlug, cicdAccountId, region, targetAccountIds, statePrefixes, oidcProviderUrl, additionalTrustedAccounts, skipOidc } = options;
+  const partition = getPartition(region);
 
   const template = createBaseTemplate(`DevRamps Org Stack for ${orgSlug}`);
 
   // 1. KMS Key for encryption
-  const kmsKeyPolicy = buildKmsKeyPolicy(cicdAccountId, targetAccountIds);
+  const kmsKeyPolicy = buildKmsKeyPolicy(cicdAccountId, targetAccountIds, partition);
   template.Resources.DevRampsKMSKey = createKmsKeyResource(
     `DevRamps encryption key for org: ${orgSlug}`,
     kmsKeyPolicy,
@@ -75,7 +81,9 @@ export function generateOrgStackTemplate(options: OrgStackOptions): CloudFormati
   const bucketPolicy = createTerraformStateBucketPolicy(
     bucketName,
     cicdAccountId,
-    targetAccountIds
+    targetAccountIds,
+    statePrefixes,
+    partition
   );
 
   template.Resources.TerraformStateBucketPolicy = {
@@ -87,8 +95,8 @@ export function generateOrgStackTemplate(options: OrgStackOptions): CloudFormati
   };
 
   // 4. DevRamps-CICD-DeploymentRole (org-wide orchestration)
-  const trustPolicy = buildOidcTrustPolicy(cicdAccountId, `org:${orgSlug}/cicd`, oidcProviderUrl, additionalTrustedAccounts, skipOidc);
-  const orgRolePolicies = buildOrgRolePolicies(orgSlug);
+  const trustPolicy = buildOidcTrustPolicy(cicdAccountId, partition, `org:${orgSlug}/cicd`, oidcProviderUrl, additionalTrustedAccounts, skipOidc);
+  const orgRolePolicies = buildOrgRolePolicies(orgSlug, partition);
 
   template.Resources.DevRampsCICDDeploymentRole = createIamRoleResource(
     getOrgRoleName(),
@@ -134,7 +142,7 @@ export function generateOrgStackTemplate(options: OrgStackOptions): CloudFormati
 /**
  * Build KMS key policy allowing CI/CD account and target accounts
  */
-function buildKmsKeyPolicy(cicdAccountId: string, targetAccountIds: string[]): object {
+function buildKmsKeyPolicy(cicdAccountId: string, targetAccountIds: string[], partition: AwsPartition): object {
   const allAccountIds = [...new Set([cicdAccountId, ...targetAccountIds])];
 
   return {
@@ -144,7 +152,7 @@ function buildKmsKeyPolicy(cicdAccountId: string, targetAccountIds: string[]): o
         Sid: 'EnableRootAccountPermissions',
         Effect: 'Allow',
         Principal: {
-          AWS: `arn:aws:iam::${cicdAccountId}:root`,
+          AWS: `arn:${partition}:iam::${cicdAccountId}:root`,
         },
         Action: 'kms:*',
         Resource: '*',
@@ -153,7 +161,7 @@ function buildKmsKeyPolicy(cicdAccountId: string, targetAccountIds: string[]): o
         Sid: 'AllowTargetAccountsEncryptDecrypt',
         Effect: 'Allow',
         Principal: {
-          AWS: allAccountIds.map(id => `arn:aws:iam::${id}:root`),
+          AWS: allAccountIds.map(id => `arn:${partition}:iam::${id}:root`),
         },
         Action: [
           'kms:Encrypt',
@@ -171,7 +179,7 @@ function buildKmsKeyPolicy(cicdAccountId: string, targetAccountIds: string[]): o
 /**
  * Build inline policies for the org CICD role
  */
-function buildOrgRolePolicies(orgSlug: string): object[] {
+export function buildOrgRolePolicies(orgSlug: string, partition: AwsPartition): object[] {
   return [
     {
       PolicyName: 'DevRampsOrgPolicy',
@@ -182,7 +190,7 @@ function buildOrgRolePolicies(orgSlug: string): object[] {
             Sid: 'AllowAssumeStageRoles',
             Effect: 'Allow',
             Action: 'sts:AssumeRole',
-            Resource: `arn:aws:iam::*:role/DevRamps-*-DeploymentRole`,
+            Resource: `arn:${partition}:iam::*:role/DevRamps-*-DeploymentRole`,
           },
           {
             Sid: 'AllowKMSUsage',
@@ -256,7 +264,7 @@ function buildOrgRolePolicies(orgSlug: string): object[] {
               'secretsmanager:TagResource',
             ],
             Resource: {
-              'Fn::Sub': 'arn:aws:secretsmanager:*:${AWS::AccountId}:secret:devramps/*',
+              'Fn::Sub': `arn:${partition}:secretsmanager:*:\${AWS::AccountId}:secret:devramps/*`,
             },
           },
         ],
@@ -13,6 +13,7 @@ import {
   createBaseTemplate,
   createS3BucketResource,
   createEcrRepositoryResource,
+  getArtifactRetention,
   sanitizeResourceId,
 } from './common.js';
 import {
@@ -21,10 +22,13 @@ import {
   generatePipelineBucketName,
 } from '../naming/index.js';
 import { getArtifactId } from '../parsers/artifacts.js';
+import { getPartition } from '../utils/partition.js';
 
 export interface PipelineStackOptions {
   pipelineSlug: string;
   cicdAccountId: string;
+  /** CI/CD region (determines the AWS partition) */
+  region: string;
   /** Docker artifacts (non per_stage only) */
   dockerArtifacts: DockerArtifact[];
   /** Bundle artifacts (non per_stage only) */
@@ -37,7 +41,8 @@ export interface PipelineStackOptions {
  * Generate the CloudFormation template for a pipeline stack
  */
 export function generatePipelineStackTemplate(options: PipelineStackOptions): CloudFormationTemplate {
-  const { pipelineSlug, cicdAccountId, dockerArtifacts, bundleArtifacts, stageAccountIds } = options;
+  const { pipelineSlug, cicdAccountId, region, dockerArtifacts, bundleArtifacts, stageAccountIds } = options;
+  const partition = getPartition(region);
 
   // Cross-account IDs that actually need resource policies (exclude the CI/CD account
   // which already has access as the resource owner)
@@ -61,7 +66,8 @@ export function generatePipelineStackTemplate(options: PipelineStackOptions): Cl
         { Key: 'Pipeline', Value: pipelineSlug },
         { Key: 'Artifact', Value: artifact.name },
         { Key: 'ArtifactType', Value: artifact.type },
-      ]
+      ],
+      getArtifactRetention(artifact)
     );
 
     // Add cross-account pull policy when stages are in different accounts
@@ -73,7 +79,7 @@ export function generatePipelineStackTemplate(options: PipelineStackOptions): Cl
             Sid: 'AllowStageAccountPull',
             Effect: 'Allow',
             Principal: {
-              AWS: crossAccountIds.map(id => `arn:aws:iam::${id}:root`),
+              AWS: crossAccountIds.map(id => `arn:${partition}:iam::${id}:root`),
             },
             Action: [
               'ecr:GetDownloadUrlForLayer',
@@ -100,7 +106,9 @@ export function generatePipelineStackTemplate(options: PipelineStackOptions): Cl
         { Key: 'Pipeline', Value: pipelineSlug },
         { Key: 'Artifact', Value: artifact.name },
         { Key: 'ArtifactType', Value: artifact.type },
-      ]
+      ],
+      undefined,
+      getArtifactRetention(artifact)
     );
 
     // Add cross-account read policy when stages are in different accounts
@@ -117,19 +125,19 @@ export function generatePipelineStackTemplate(options: PipelineStackOptions): Cl
                 Sid: 'AllowStageAccountRead',
                 Effect: 'Allow',
                 Principal: {
-                  AWS: crossAccountIds.map(id => `arn:aws:iam::${id}:root`),
+                  AWS: crossAccountIds.map(id => `arn:${partition}:iam::${id}:root`),
                 },
                 Action: 's3:GetObject',
-                Resource: `arn:aws:s3:::${bucketName}/*`,
+                Resource: `arn:${partition}:s3:::${bucketName}/*`,
               },
               {
                 Sid: 'AllowStageAccountList',
                 Effect: 'Allow',
                 Principal: {
-                  AWS: crossAccountIds.map(id => `arn:aws:iam::${id}:root`),
+                  AWS: crossAccountIds.map(id => `arn:${partition}:iam::${id}:root`),
                 },
                 Action: 's3:ListBucket',
-                Resource: `arn:aws:s3:::${bucketName}`,
+                Resource: `arn:${partition}:s3:::${bucketName}`,
               },
             ],
           },
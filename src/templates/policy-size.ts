@@ -0,0 +1,103 @@
+/**
+ * IAM policy size limits for role policies
+ *
+ * IAM limits the aggregate size of a role's inline policies to 10,240
+ * characters and each customer managed policy to 6,144 characters, not
+ * counting whitespace. Exceeding the inline limit only surfaces as a
+ * CloudFormation rollback, so roles whose policies would not fit keep as
+ * many policies inline as fit and move the remaining statements into
+ * customer managed policies.
+ */
+
+export const INLINE_POLICY_AGGREGATE_LIMIT = 10240;
+export const MANAGED_POLICY_SIZE_LIMIT = 6144;
+/** Default quota of managed policies attached to one role */
+export const MANAGED_POLICIES_PER_ROLE_QUOTA = 10;
+
+const POLICY_VERSION = '2012-10-17';
+
+/**
+ * An inline policy as passed to an AWS::IAM::Role's Policies property
+ */
+export interface InlineRolePolicy {
+  PolicyName: string;
+  PolicyDocument: {
+    Version?: string;
+    Statement: Array<Record<string, unknown>>;
+  };
+}
+
+export interface ManagedPolicyDocument {
+  Version: string;
+  Statement: Array<Record<string, unknown>>;
+}
+
+export interface RolePolicyLayout {
+  inline: InlineRolePolicy[];
+  /** Documents for AWS::IAM::ManagedPolicy resources attached to the role */
+  managed: ManagedPolicyDocument[];
+  /** Statements too large for a managed policy on their own */
+  oversizedStatements: number;
+}
+
+/**
+ * Size of a policy document as IAM counts it (whitespace excluded)
+ */
+export function policySize(document: unknown): number {
+  return JSON.stringify(document).replace(/\s/g, '').length;
+}
+
+/**
+ * Keep policies inline, in order, while they fit the aggregate inline limit.
+ * Statements of the remaining policies are packed into managed policy
+ * documents of at most MANAGED_POLICY_SIZE_LIMIT characters each.
+ */
+export function layoutRolePolicies(policies: InlineRolePolicy[]): RolePolicyLayout {
+  const inline: InlineRolePolicy[] = [];
+  let inlineSize = 0;
+  let index = 0;
+
+  for (; index < policies.length; index++) {
+    const size = policySize(policies[index].PolicyDocument);
+    if (inlineSize + size > INLINE_POLICY_AGGREGATE_LIMIT) break;
+    inline.push(policies[index]);
+    inlineSize += size;
+  }
+
+  const managed: ManagedPolicyDocument[] = [];
+  let current: ManagedPolicyDocument | undefined;
+  let oversizedStatements = 0;
+
+  for (const policy of policies.slice(index)) {
+    for (const statement of policy.PolicyDocument.Statement) {
+      const candidate = current ? withStatement(current, statement) : undefined;
+
+      if (candidate && policySize(candidate) <= MANAGED_POLICY_SIZE_LIMIT) {
+        current!.Statement = candidate.Statement;
+        continue;
+      }
+
+      current = { Version: POLICY_VERSION, Statement: [statement] };
+      managed.push(current);
+      if (policySize(current) > MANAGED_POLICY_SIZE_LIMIT) {
+        oversizedStatements++;
+      }
+    }
+  }
+
+  return { inline, managed, oversizedStatements };
+}
+
+/**
+ * Add a statement to a document, dropping its Sid if the document already
+ * uses it (Sids must be unique within a policy)
+ */
+function withStatement(document: ManagedPolicyDocument, statement: Record<string, unknown>): ManagedPolicyDocument {
+  const sidTaken = statement.Sid !== undefined && document.Statement.some(s => s.Sid === statement.Sid);
+  const { Sid: _sid, ...withoutSid } = statement;
+
+  return {
+    ...document,
+    Statement: [...document.Statement, sidTaken ? withoutSid : statement],
+  };
+}
@@ -10,9 +10,9 @@
  */
 
 import type { CloudFormationTemplate } from '../types/aws.js';
-import type { PipelineStep, IamPolicy } from '../types/pipeline.js';
+import type { PipelineStep, IamPolicy, CustomStepDefinitions } from '../types/pipeline.js';
 import type { DockerArtifact, BundleArtifact } from '../types/artifacts.js';
-import { getStepPermissions, hasPermissions } from '../permissions/index.js';
+import { getStepPolicyStatements } from '../permissions/index.js';
 import { MIRROR_ECR_PERMISSIONS } from '../permissions/mirror-ecr.js';
 import { MIRROR_S3_PERMISSIONS } from '../permissions/mirror-s3.js';
 import {
@@ -21,6 +21,7 @@ import {
   createIamRoleResource,
   createS3BucketResource,
   createEcrRepositoryResource,
+  getArtifactRetention,
   sanitizeResourceId,
 } from './common.js';
 import { OIDC_PROVIDER_URL } from '../types/config.js';
@@ -30,16 +31,33 @@ import {
   generateStageEcrRepoName,
   generateStageBucketName,
   generateTerraformStateBucketName,
+  getTerraformStatePrefix,
 } from '../naming/index.js';
 import { getArtifactId } from '../parsers/artifacts.js';
+import {
+  layoutRolePolicies,
+  MANAGED_POLICIES_PER_ROLE_QUOTA,
+  MANAGED_POLICY_SIZE_LIMIT,
+  type InlineRolePolicy,
+  type RolePolicyLayout,
+} from './policy-size.js';
+import * as logger from '../utils/logger.js';
+import { getDnsSuffix, getPartition, servicePrincipal, type AwsPartition } from '../utils/partition.js';
 
 export interface StageStackOptions {
   pipelineSlug: string;
   stageName: string;
   orgSlug: string;
   accountId: string;
+  region: string;
+  /** Stage variables, for resolving ${{ vars.* }} in step params */
+  vars?: Record<string, unknown>;
   /** All steps in the pipeline */
   steps: PipelineStep[];
+  /** Names or IDs of steps this stage skips (no permissions are granted for them) */
+  skip?: string[];
+  /** Permissions for CUSTOM: step types from custom_steps.yaml */
+  customSteps?: CustomStepDefinitions;
   /** Additional IAM policies from aws_additional_iam_policies.yaml */
   additionalPolicies: IamPolicy[];
   /** All Docker artifacts (for stage ECR repos) */
@@ -63,7 +81,11 @@ export function generateStageStackTemplate(options: StageStackOptions): CloudFor
     stageName,
     orgSlug,
     accountId,
+    region,
+    vars,
     steps,
+    skip,
+    customSteps,
     additionalPolicies,
     dockerArtifacts,
     bundleArtifacts,
@@ -80,13 +102,24 @@ export function generateStageStackTemplate(options: StageStackOptions): CloudFor
 
   // 1. Stage deployment role
   const roleName = generateStageRoleName(pipelineSlug, stageName);
-  const trustPolicy = buildStageTrustPolicy(accountId, orgSlug, pipelineSlug, oidcProviderUrl, additionalTrustedAccounts, skipOidc);
-  const policies = buildStagePolicies(steps, additionalPolicies, dockerArtifacts, bundleArtifacts, orgSlug);
+  const partition = getPartition(region);
+  const trustPolicy = buildStageTrustPolicy(accountId, partition, orgSlug, pipelineSlug, oidcProviderUrl, additionalTrustedAccounts, skipOidc);
+  const policies = buildStagePolicies(steps, additionalPolicies, dockerArtifacts, bundleArtifacts, orgSlug, {
+    pipelineSlug,
+    name: stageName,
+    accountId,
+    region,
+    vars,
+    skip,
+    customSteps,
+  });
+
+  const layout = layoutRolePolicies(policies as InlineRolePolicy[]);
 
   template.Resources.StageDeploymentRole = createIamRoleResource(
     roleName,
     trustPolicy,
-    policies.length > 0 ? policies : undefined,
+    layout.inline.length > 0 ? layout.inline : undefined,
     [
       { Key: 'Pipeline', Value: pipelineSlug },
       { Key: 'Stage', Value: stageName },
@@ -94,6 +127,19 @@ export function generateStageStackTemplate(options: StageStackOptions): CloudFor
     ]
   );
 
+  // 2. Managed policies for permissions that exceed the inline policy size limit
+  layout.managed.forEach((document, i) => {
+    template.Resources[`StageDeploymentManagedPolicy${i + 1}`] = {
+      Type: 'AWS::IAM::ManagedPolicy',
+      Properties: {
+        Description: `DevRamps deployment permissions for ${pipelineSlug}/${stageName} (${i + 1} of ${layout.managed.length})`,
+        PolicyDocument: document,
+        Roles: [{ Ref: 'StageDeploymentRole' }],
+      },
+    };
+  });
+  warnAboutPolicyLimits(roleName, layout);
+
   // Track created resources for outputs
   const ecrOutputs: Record<string, { resourceId: string }> = {};
   const s3Outputs: Record<string, { resourceId: string }> = {};
@@ -111,7 +157,8 @@ export function generateStageStackTemplate(options: StageStackOptions): CloudFor
         { Key: 'Stage', Value: stageName },
         { Key: 'Artifact', Value: artifact.name },
         { Key: 'ArtifactType', Value: artifact.type },
-      ]
+      ],
+      getArtifactRetention(artifact)
     );
 
     // Allow Lambda to pull images from this repository
@@ -122,7 +169,7 @@ export function generateStageStackTemplate(options: StageStackOptions): CloudFor
           Sid: 'AllowLambdaPull',
           Effect: 'Allow',
           Principal: {
-            Service: 'lambda.amazonaws.com',
+            Service: servicePrincipal('lambda', region),
           },
           Action: [
             'ecr:GetDownloadUrlForLayer',
@@ -148,7 +195,9 @@ export function generateStageStackTemplate(options: StageStackOptions): CloudFor
         { Key: 'Stage', Value: stageName },
         { Key: 'Artifact', Value: artifact.name },
         { Key: 'ArtifactType', Value: artifact.type },
-      ]
+      ],
+      undefined,
+      getArtifactRetention(artifact)
     );
 
     s3Outputs[artifact.name] = { resourceId };
@@ -179,7 +228,7 @@ export function generateStageStackTemplate(options: StageStackOptions): CloudFor
     const providerUrl = oidcProviderUrl || OIDC_PROVIDER_URL;
     template.Outputs!.OIDCProviderArn = {
       Description: 'ARN of the OIDC provider (created by Account Bootstrap stack)',
-      Value: `arn:aws:iam::${accountId}:oidc-provider/${providerUrl}`,
+      Value: `arn:${partition}:iam::${accountId}:oidc-provider/${providerUrl}`,
     };
   }
 
@@ -212,6 +261,7 @@ export function generateStageStackTemplate(options: StageStackOptions): CloudFor
  */
 function buildStageTrustPolicy(
   accountId: string,
+  partition: AwsPartition,
   orgSlug: string,
   pipelineSlug: string,
   oidcProviderUrl?: string,
@@ -219,21 +269,63 @@ function buildStageTrustPolicy(
   skipOidc?: boolean
 ): object {
   const subject = `org:${orgSlug}/pipeline:${pipelineSlug}`;
-  return buildOidcTrustPolicy(accountId, subject, oidcProviderUrl, additionalTrustedAccounts, skipOidc);
+  return buildOidcTrustPolicy(accountId, partition, subject, oidcProviderUrl, additionalTrustedAccounts, skipOidc);
+}
+
+// Warn once per role, since templates are rendered more than once per run
+const warnedRoles = new Set<string>();
+
+function warnAboutPolicyLimits(roleName: string, layout: RolePolicyLayout): void {
+  if (warnedRoles.has(roleName)) return;
+
+  if (layout.managed.length > MANAGED_POLICIES_PER_ROLE_QUOTA) {
+    warnedRoles.add(roleName);
+    logger.warn(
+      `${roleName} needs ${layout.managed.length} managed policies, more than the default IAM quota of ` +
+      `${MANAGED_POLICIES_PER_ROLE_QUOTA} per role. Request a quota increase or reduce the number of steps ` +
+      'and additional policies, or the deployment will fail.'
+    );
+  }
+  if (layout.oversizedStatements > 0) {
+    warnedRoles.add(roleName);
+    logger.warn(
+      `${roleName} has ${layout.oversizedStatements} policy statement(s) larger than the ` +
+      `${MANAGED_POLICY_SIZE_LIMIT}-character managed policy limit. Split them in aws_additional_iam_policies ` +
+      'or custom_steps.yaml, or the deployment will fail.'
+    );
+  }
+}
+
+/**
+ * The stage a deployment role's policies are built for
+ */
+export interface StagePolicyContext {
+  pipelineSlug: string;
+  name: string;
+  accountId: string;
+  region: string;
+  vars?: Record<string, unknown>;
+  /** Names or IDs of steps the stage skips */
+  skip?: string[];
+  customSteps?: CustomStepDefinitions;
 }
 
 /**
  * Build inline policies for the stage deployment role
- * Includes permissions for each step type and additional policies
+ * Includes permissions for each step type (except skipped steps, matched by
+ * name or id), scoped to the stage's resources where possible, and
+ * additional policies
  */
-function buildStagePolicies(
+export function buildStagePolicies(
   steps: PipelineStep[],
   additionalPolicies: IamPolicy[],
   dockerArtifacts: DockerArtifact[],
   bundleArtifacts: BundleArtifact[],
-  orgSlug: string
+  orgSlug: string,
+  stage: StagePolicyContext
 ): object[] {
   const policies: object[] = [];
+  const skipped = new Set(stage.skip ?? []);
 
   // Base validation policy for resource validation (ECR, S3, CloudWatch)
   policies.push({
@@ -256,8 +348,11 @@ function buildStagePolicies(
     },
   });
 
-  // Terraform state bucket access (for reading and writing TF state)
+  // Terraform state bucket access (for reading and writing TF state), limited
+  // to the stage's own key prefix so stages can't touch each other's state
   const tfStateBucketName = generateTerraformStateBucketName(orgSlug);
+  const tfStatePrefix = getTerraformStatePrefix(stage.pipelineSlug, stage.name);
+  const partition = getPartition(stage.region);
   policies.push({
     PolicyName: 'DevRampsTerraformStatePolicy',
     PolicyDocument: {
@@ -271,13 +366,13 @@ function buildStagePolicies(
             's3:PutObject',
             's3:DeleteObject',
           ],
-          Resource: `arn:aws:s3:::${tfStateBucketName}/*`,
+          Resource: `arn:${partition}:s3:::${tfStateBucketName}/${tfStatePrefix}*`,
         },
         {
           Sid: 'AllowTerraformStateList',
           Effect: 'Allow',
           Action: 's3:ListBucket',
-          Resource: `arn:aws:s3:::${tfStateBucketName}`,
+          Resource: `arn:${partition}:s3:::${tfStateBucketName}`,
         },
         {
           Sid: 'AllowKMSForTerraformState',
@@ -291,7 +386,7 @@ function buildStagePolicies(
           Resource: '*',
           Condition: {
             StringLike: {
-              'kms:ViaService': 's3.*.amazonaws.com',
+              'kms:ViaService': `s3.*.${getDnsSuffix(partition)}`,
             },
           },
         },
@@ -336,31 +431,38 @@ function buildStagePolicies(
 
   // Add policy for each step type that has permissions
   for (const step of steps) {
-    if (!hasPermissions(step.type)) {
+    if (skipped.has(step.name) || (step.id && skipped.has(step.id))) {
       continue;
     }
 
-    const permissions = getStepPermissions(step.type);
+    const statements = getStepPolicyStatements({
+      step,
+      stageName: stage.name,
+      accountId: stage.accountId,
+      region: stage.region,
+      vars: stage.vars,
+      customSteps: stage.customSteps,
+    });
 
     // Skip if no actions defined
-    if (!permissions.actions || permissions.actions.length === 0) {
+    if (statements.length === 0) {
       continue;
     }
 
     const policyName = `${sanitizeResourceId(step.name)}DeploymentPolicy`;
+    const sid = sanitizeResourceId(step.name);
 
     policies.push({
       PolicyName: policyName,
       PolicyDocument: {
         Version: '2012-10-17',
-        Statement: [
-          {
-            Sid: sanitizeResourceId(step.name),
-            Effect: 'Allow',
-            Action: permissions.actions,
-            Resource: permissions.resources || ['*'],
-          },
-        ],
+        Statement: statements.map((statement, i) => ({
+          Sid: i === 0 ? sid : `${sid}${i + 1}`,
+          Effect: 'Allow',
+          Action: statement.actions,
+          Resource: statement.resources,
+          ...(statement.condition ? { Condition: statement.condition } : {}),
+        })),
       },
     });
   }
@@ -39,6 +39,8 @@ export interface BaseArtifact {
   host_size?: string;
   /** If true, artifact is built/imported separately per stage (no root resource) */
   per_stage?: boolean;
+  /** If false, the artifact's repositories or buckets are deleted with their stacks instead of retained */
+  retain?: boolean;
   /** Paths that trigger rebuild when changed */
   rebuild_when_changed?: string[];
   /** Dependencies required for build */
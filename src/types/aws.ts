@@ -3,6 +3,7 @@
  */
 
 import type { AwsCredentialIdentity } from '@aws-sdk/types';
+import type { AwsPartition } from '../utils/partition.js';
 
 export interface AssumedRoleCredentials {
   credentials: AwsCredentialIdentity;
@@ -14,12 +15,17 @@ export interface CurrentIdentity {
   accountId: string;
   arn: string;
   userId: string;
+  /** Partition of the caller's credentials (aws, aws-us-gov or aws-cn) */
+  partition: AwsPartition;
 }
 
 export interface StackStatus {
   exists: boolean;
   status?: string;
   stackId?: string;
+  /** ISO timestamp of the last update (or creation, if never updated) */
+  lastUpdatedTime?: string;
+  tags?: Record<string, string>;
 }
 
 export interface CloudFormationTemplate {
@@ -43,6 +49,17 @@ export interface CloudFormationResource {
   Condition?: string;
   Properties: Record<string, unknown>;
   DependsOn?: string | string[];
+  DeletionPolicy?: 'Delete' | 'Retain' | 'RetainExceptOnCreate';
+  UpdateReplacePolicy?: 'Delete' | 'Retain';
+}
+
+/**
+ * Safeguards for a stack whose resources hold data that can't be recreated
+ */
+export interface StackProtection {
+  /** Stack policy that every update of the stack is checked against */
+  stackPolicy: object;
+  terminationProtection: boolean;
 }
 
 export interface CloudFormationOutput {
@@ -9,6 +9,106 @@ export interface BootstrapOptions {
   verbose?: boolean;
   endpointOverride?: string;
   additionalTrustedAccounts?: string;
+  prune?: boolean;
+  /** Write the deployment plan as JSON to this path instead of deploying */
+  planOut?: string;
+  /** Deploy a plan previously written with planOut */
+  applyPlan?: string;
+  /** Allow adding IAM actions to deployed roles without the extra confirmation */
+  allowPermissionExpansion?: boolean;
+  /** Stacks to describe at once while building the plan (default: 10) */
+  planConcurrency?: string;
+  /** Stacks to deploy at once (default: 10) */
+  maxConcurrency?: string;
+  /** Keep deploying stacks that don't depend on a failed one */
+  continueOnError?: boolean;
+  /** Retry only the stacks an interrupted run did not deploy */
+  resume?: boolean;
+  /** Redeploy stacks whose template is unchanged */
+  force?: boolean;
+  /** Deploy through named change sets that are reviewed before execution */
+  changeSetMode?: boolean;
+  /** Minutes to wait for an operation already running on a stack (default: 30) */
+  stackWaitTimeout?: string;
+  /** Discard change sets pending review on stacks that were never created, without asking */
+  discardPendingChangeSets?: boolean;
+}
+
+export interface ApplyChangeSetsOptions {
+  targetAccountRoleName?: string;
+  pipelineSlugs?: string;
+  /** Only use change sets with this name (default: the only pending run) */
+  changeSetName?: string;
+  /** Delete the change sets instead of executing them */
+  discard?: boolean;
+  yes?: boolean;
+  verbose?: boolean;
+  endpointOverride?: string;
+  /** Stacks to describe at once while building the plan (default: 10) */
+  planConcurrency?: string;
+  /** Change sets to execute at once (default: 10) */
+  maxConcurrency?: string;
+  /** Keep executing change sets of stacks that don't depend on a failed one */
+  continueOnError?: boolean;
+}
+
+export interface DestroyOptions {
+  targetAccountRoleName?: string;
+  pipelineSlugs?: string;
+  emptyBuckets?: boolean;
+  emptyEcrRepos?: boolean;
+  dryRun?: boolean;
+  yes?: boolean;
+  verbose?: boolean;
+  endpointOverride?: string;
+  /** Stacks to describe at once while building the plan (default: 10) */
+  planConcurrency?: string;
+}
+
+export interface DiffOptions {
+  targetAccountRoleName?: string;
+  pipelineSlugs?: string;
+  verbose?: boolean;
+  endpointOverride?: string;
+  additionalTrustedAccounts?: string;
+  /** Stacks to describe at once while building the plan (default: 10) */
+  planConcurrency?: string;
+}
+
+export interface SynthOptions {
+  orgSlug?: string;
+  cicdAccountId?: string;
+  cicdRegion?: string;
+  pipelineSlugs?: string;
+  outDir: string;
+  format: 'json' | 'yaml';
+  verbose?: boolean;
+  endpointOverride?: string;
+  additionalTrustedAccounts?: string;
+}
+
+export interface MigrateTfStateOptions {
+  legacyKey: string;
+  targetAccountRoleName?: string;
+  pipelineSlugs?: string;
+  deleteLegacy?: boolean;
+  dryRun?: boolean;
+  verbose?: boolean;
+  endpointOverride?: string;
+}
+
+export interface ValidateOptions {
+  pipelineSlugs?: string;
+  verbose?: boolean;
+}
+
+export interface ShowPipelineOptions {
+  pipelineSlugs?: string;
+  verbose?: boolean;
+}
+
+export interface SchemaOptions {
+  out?: string;
 }
 
 export interface AuthData {
@@ -56,8 +56,12 @@ export interface RawArtifact {
   host_size?: string;
   /** If true, built/imported separately per stage */
   per_stage?: boolean;
+  /** If false, the artifact's repositories or buckets are deleted with their stacks (default true) */
+  retain?: boolean;
   rebuild_when_changed?: string[];
   dependencies?: string[];
+  /** Environment variables for the build */
+  envs?: Record<string, unknown>;
   params?: Record<string, unknown>;
 }
 
@@ -120,12 +124,59 @@ export interface ParsedPipeline {
   definition: PipelineDefinition;
   /** Unique target account IDs from all stages */
   targetAccountIds: string[];
-  /** All stages with their account/region info */
+  /** All stages with their account/region info, with stage_defaults applied */
   stages: Stage[];
   /** All pipeline steps */
   steps: PipelineStep[];
   /** Additional IAM policies from aws_additional_iam_policies.yaml */
   additionalPolicies: IamPolicy[];
+  /** Permissions for CUSTOM: step types from custom_steps.yaml */
+  customSteps: CustomStepDefinitions;
+  /** Source positions of pipeline.yaml, for error reporting */
+  source: PipelineSource;
+}
+
+/**
+ * One statement of a custom step type's permissions
+ */
+export interface CustomStepStatement {
+  actions: string[];
+  resources: string[];
+  condition?: Record<string, unknown>;
+}
+
+/**
+ * Custom step permissions from custom_steps.yaml, keyed by step type (CUSTOM:*)
+ */
+export type CustomStepDefinitions = Record<string, CustomStepStatement[]>;
+
+/**
+ * Position of a value in a source file (1-based line and column)
+ */
+export interface SourceLocation {
+  /** File path relative to the project root */
+  file: string;
+  line: number;
+  column: number;
+  /** Excerpt of the surrounding lines with the position marked */
+  codeFrame: string;
+}
+
+/**
+ * Path to a value in a parsed document, e.g. ['pipeline', 'stages', 0, 'region']
+ */
+export type SourcePath = Array<string | number>;
+
+/**
+ * Maps document paths back to positions in the source file
+ */
+export interface PipelineSource {
+  file: string;
+  /**
+   * Locate the value at path. If it does not exist (e.g. a missing key), the
+   * closest enclosing value is located instead.
+   */
+  locate(path: SourcePath): SourceLocation | undefined;
 }
 
 /**
@@ -5,7 +5,7 @@
  * - Stage Stack: One per stage in stage's account/region
  */
 
-import type { PipelineStep, IamPolicy } from './pipeline.js';
+import type { PipelineStep, IamPolicy, CustomStepDefinitions } from './pipeline.js';
 import type { DockerArtifact, BundleArtifact } from './artifacts.js';
 
 export enum StackType {
@@ -16,12 +16,24 @@ export enum StackType {
   IMPORT = 'Import',
 }
 
+/**
+ * Deployed state of a stack as observed while building the plan
+ */
+export interface RemoteStackState {
+  exists: boolean;
+  status?: string;
+  lastUpdatedTime?: string;
+  tags?: Record<string, string>;
+}
+
 export interface BaseStackDeployment {
   stackType: StackType;
   stackName: string;
   accountId: string;
   region: string;
-  action: 'CREATE' | 'UPDATE';
+  /** NO_CHANGE: deployed, and the template matches the deployed one */
+  action: 'CREATE' | 'UPDATE' | 'NO_CHANGE';
+  remote: RemoteStackState;
 }
 
 /**
@@ -33,6 +45,8 @@ export interface OrgStackDeployment extends BaseStackDeployment {
   orgSlug: string;
   /** All target account IDs that need access to the Terraform state bucket */
   targetAccountIds: string[];
+  /** Terraform state key prefixes (one per stage) each target account may use */
+  statePrefixes: Record<string, string[]>;
 }
 
 /**
@@ -69,6 +83,12 @@ export interface StageStackDeployment extends BaseStackDeployment {
   orgSlug: string;
   /** All steps in the pipeline (for permission generation) */
   steps: PipelineStep[];
+  /** Names or IDs of steps this stage skips */
+  skip?: string[];
+  /** Stage variables (for resolving step params when scoping permissions) */
+  vars?: Record<string, unknown>;
+  /** Permissions for CUSTOM: step types from custom_steps.yaml */
+  customSteps?: CustomStepDefinitions;
   /** Additional IAM policies from aws_additional_iam_policies.yaml */
   additionalPolicies: IamPolicy[];
   /** All Docker artifacts (for stage ECR repos) */
@@ -87,6 +107,21 @@ export interface ImportStackDeployment extends BaseStackDeployment {
   orgSlug: string;
 }
 
+/**
+ * Orphaned Stage Stack - a deployed stage stack whose stage or ephemeral
+ * environment has been removed from pipeline.yaml (only planned with --prune)
+ */
+export interface OrphanedStageStack {
+  stackType: StackType.STAGE;
+  stackName: string;
+  accountId: string;
+  region: string;
+  action: 'DELETE';
+  pipelineSlug: string;
+  /** Stage name from the stage role's Stage tag */
+  stageName: string;
+}
+
 export type StackDeployment = OrgStackDeployment | PipelineStackDeployment | AccountStackDeployment | StageStackDeployment | ImportStackDeployment;
 
 /**
@@ -103,6 +138,8 @@ export interface DeploymentPlan {
   stageStacks: StageStackDeployment[];
   /** Import stacks - one per pipeline per import source account */
   importStacks: ImportStackDeployment[];
+  /** Stage stacks to delete because their stage no longer exists (prune mode) */
+  orphanedStageStacks: OrphanedStageStack[];
 }
 
 /**
@@ -0,0 +1,35 @@
+/**
+ * Bounded concurrency helpers
+ */
+
+/**
+ * Map over items with at most `limit` calls to fn in flight at once.
+ * Results keep the order of the input; the first rejection rejects the whole
+ * map and no further calls are started (calls already started are left to
+ * finish).
+ */
+export async function mapWithConcurrency<T, R>(
+  items: readonly T[],
+  limit: number,
+  fn: (item: T, index: number) => Promise<R>
+): Promise<R[]> {
+  const results = new Array<R>(items.length);
+  let next = 0;
+  let failed = false;
+
+  const worker = async (): Promise<void> => {
+    while (!failed && next < items.length) {
+      const index = next++;
+      try {
+        results[index] = await fn(items[index], index);
+      } catch (error) {
+        failed = true;
+        throw error;
+      }
+    }
+  };
+
+  const workers = Array.from({ length: Math.min(Math.max(limit, 1), items.length) }, worker);
+  await Promise.all(workers);
+  return results;
+}
@@ -2,6 +2,9 @@
  * Custom error types for better error handling
  */
 
+import type { SourceLocation } from '../types/pipeline.js';
+import { getPartition } from './partition.js';
+
 export class DevRampsError extends Error {
   constructor(message: string) {
     super(message);
@@ -48,13 +51,102 @@ export class RoleAssumptionError extends DevRampsError {
   }
 }
 
+/**
+ * Roles could not be assumed in one or more accounts. Reported together
+ * before anything is planned or deployed.
+ */
+export class AccountAccessError extends DevRampsError {
+  failures: RoleAssumptionError[];
+
+  constructor(failures: RoleAssumptionError[]) {
+    const lines = failures
+      .map(f => `  - ${f.targetAccountId}: cannot assume role '${f.roleName}'`)
+      .join('\n');
+    super(
+      `Cannot access ${failures.length} account(s) from account ${failures[0].sourceAccountId}:\n${lines}\n` +
+      'Please ensure each target account has a trust policy allowing your account to assume this role, ' +
+      'or use --target-account-role-name to specify a different role.'
+    );
+    this.name = 'AccountAccessError';
+    this.failures = failures;
+  }
+}
+
+/**
+ * Format a source location as file:line:col followed by a code frame
+ */
+export function formatSourceLocation(location: SourceLocation): string {
+  const frame = location.codeFrame.split('\n').map(line => `  ${line}`).join('\n');
+  return `  at ${location.file}:${location.line}:${location.column}\n\n${frame}`;
+}
+
+function withLocation(message: string, location?: SourceLocation): string {
+  return location ? `${message}\n${formatSourceLocation(location)}` : message;
+}
+
 export class PipelineParseError extends DevRampsError {
   pipelineSlug: string;
+  location?: SourceLocation;
 
-  constructor(pipelineSlug: string, cause: string) {
-    super(`Failed to parse pipeline.yaml in .devramps/${pipelineSlug}/: ${cause}`);
+  constructor(pipelineSlug: string, cause: string, location?: SourceLocation) {
+    super(withLocation(`Failed to parse pipeline.yaml in .devramps/${pipelineSlug}/: ${cause}`, location));
     this.name = 'PipelineParseError';
     this.pipelineSlug = pipelineSlug;
+    this.location = location;
+  }
+}
+
+export class YamlSyntaxError extends DevRampsError {
+  reason: string;
+  location: SourceLocation;
+
+  constructor(reason: string, location: SourceLocation) {
+    super(withLocation(`Invalid YAML in ${location.file}: ${reason}`, location));
+    this.name = 'YamlSyntaxError';
+    this.reason = reason;
+    this.location = location;
+  }
+}
+
+export class CustomStepsError extends DevRampsError {
+  fileName: string;
+  reason: string;
+  location?: SourceLocation;
+
+  constructor(fileName: string, reason: string, location?: SourceLocation) {
+    super(withLocation(`Invalid ${fileName}: ${reason}`, location));
+    this.name = 'CustomStepsError';
+    this.fileName = fileName;
+    this.reason = reason;
+    this.location = location;
+  }
+}
+
+export class AdditionalPoliciesError extends DevRampsError {
+  fileName: string;
+  reason: string;
+  location?: SourceLocation;
+
+  constructor(fileName: string, reason: string, location?: SourceLocation) {
+    super(withLocation(`Invalid ${fileName}: ${reason}`, location));
+    this.name = 'AdditionalPoliciesError';
+    this.fileName = fileName;
+    this.reason = reason;
+    this.location = location;
+  }
+}
+
+export class PolicyLintSuppressionsError extends DevRampsError {
+  fileName: string;
+  reason: string;
+  location?: SourceLocation;
+
+  constructor(fileName: string, reason: string, location?: SourceLocation) {
+    super(withLocation(`Invalid ${fileName}: ${reason}`, location));
+    this.name = 'PolicyLintSuppressionsError';
+    this.fileName = fileName;
+    this.reason = reason;
+    this.location = location;
   }
 }
 
@@ -69,10 +161,143 @@ export class CloudFormationError extends DevRampsError {
   stackName: string;
   accountId: string;
 
-  constructor(stackName: string, accountId: string, cause: string) {
-    super(`Failed to deploy stack '${stackName}' in account ${accountId}: ${cause}`);
+  constructor(stackName: string, accountId: string, cause: string, operation: 'deploy' | 'delete' | 'create a change set for' | 'execute the change set of' = 'deploy') {
+    super(`Failed to ${operation} stack '${stackName}' in account ${accountId}: ${cause}`);
     this.name = 'CloudFormationError';
     this.stackName = stackName;
     this.accountId = accountId;
   }
 }
+
+export class ChangeSetCreationError extends DevRampsError {
+  constructor(failedStackCount: number) {
+    super(`Could not create change sets for ${failedStackCount} stack(s); the other change sets were discarded`);
+    this.name = 'ChangeSetCreationError';
+  }
+}
+
+export class PendingChangeSetsError extends DevRampsError {
+  changeSetNames: string[];
+
+  constructor(changeSetNames: string[]) {
+    super(
+      `Found pending change sets from ${changeSetNames.length} bootstrap runs (${changeSetNames.join(', ')}); ` +
+      'choose one with --change-set-name'
+    );
+    this.name = 'PendingChangeSetsError';
+    this.changeSetNames = changeSetNames;
+  }
+}
+
+export class StackRecoveryError extends DevRampsError {
+  stackName: string;
+  accountId: string;
+
+  constructor(stackName: string, accountId: string, cause: string) {
+    super(`Cannot recover stack '${stackName}' in account ${accountId}: ${cause}`);
+    this.name = 'StackRecoveryError';
+    this.stackName = stackName;
+    this.accountId = accountId;
+  }
+}
+
+export class InvalidOptionError extends DevRampsError {
+  constructor(flag: string, value: string, expected: string) {
+    super(`Invalid ${flag} "${value}": expected ${expected}`);
+    this.name = 'InvalidOptionError';
+  }
+}
+
+export class ConflictingOptionsError extends DevRampsError {
+  constructor(first: string, second: string, reason: string) {
+    super(`${first} cannot be combined with ${second}: ${reason}`);
+    this.name = 'ConflictingOptionsError';
+  }
+}
+
+export class PlanFileError extends DevRampsError {
+  planPath: string;
+
+  constructor(planPath: string, cause: string) {
+    super(`Could not read plan file ${planPath}: ${cause}`);
+    this.name = 'PlanFileError';
+    this.planPath = planPath;
+  }
+}
+
+export class PlanMismatchError extends DevRampsError {
+  planPath: string;
+  differences: string[];
+
+  constructor(planPath: string, differences: string[]) {
+    super(
+      `Plan file ${planPath} no longer matches the pipeline definitions or deployed stacks:\n` +
+      differences.map(d => `  - ${d}`).join('\n') +
+      '\nRe-run bootstrap with --plan-out to produce a new plan.'
+    );
+    this.name = 'PlanMismatchError';
+    this.planPath = planPath;
+    this.differences = differences;
+  }
+}
+
+export class JournalError extends DevRampsError {
+  journalPath: string;
+
+  constructor(journalPath: string, cause: string) {
+    super(`Could not use run journal ${journalPath}: ${cause}`);
+    this.name = 'JournalError';
+    this.journalPath = journalPath;
+  }
+}
+
+export class SynthTargetError extends DevRampsError {
+  constructor(message: string) {
+    super(message);
+    this.name = 'SynthTargetError';
+  }
+}
+
+export class PermissionExpansionError extends DevRampsError {
+  roleNames: string[];
+
+  constructor(addedActionCount: number, roleNames: string[]) {
+    super(
+      `This deployment adds ${addedActionCount} IAM action(s) to existing role(s): ${roleNames.join(', ')}. ` +
+      'Re-run with --allow-permission-expansion to grant them.'
+    );
+    this.name = 'PermissionExpansionError';
+    this.roleNames = roleNames;
+  }
+}
+
+export class PolicyLintError extends DevRampsError {
+  errorCount: number;
+
+  constructor(errorCount: number) {
+    super(
+      `Generated IAM policies have ${errorCount} policy lint error(s). ` +
+      'Fix the policies, or acknowledge accepted risks in .devramps/policy_lint_suppressions.yaml.'
+    );
+    this.name = 'PolicyLintError';
+    this.errorCount = errorCount;
+  }
+}
+
+export class StateMigrationError extends DevRampsError {
+  constructor(message: string) {
+    super(message);
+    this.name = 'StateMigrationError';
+  }
+}
+
+export class PartitionMismatchError extends DevRampsError {
+  constructor(cicdRegion: string, stageDescription: string, stageRegion: string) {
+    super(
+      `${stageDescription} is in ${stageRegion} (partition ${getPartition(stageRegion)}), but the CI/CD region ` +
+      `${cicdRegion} is in partition ${getPartition(cicdRegion)}. ` +
+      `Stages must be in the same AWS partition as the CI/CD account.`
+    );
+    this.name = 'PartitionMismatchError';
+  }
+}
@@ -63,6 +63,7 @@ export class MultiStackProgress {
   private hasRenderedOnce = false;
   private useAltScreen = true; // Use alternate screen buffer for clean display
   private maxStackNameLen = 40; // Will be calculated dynamically
+  private title = 'Deploying Stacks';
 
   constructor() {
     this.isTTY = process.stdout.isTTY ?? false;
@@ -71,7 +72,11 @@ export class MultiStackProgress {
   /**
    * Start the progress display (call after all stacks are registered)
    */
-  start(): void {
+  start(title?: string): void {
+    if (title) {
+      this.title = title;
+    }
+
     // Calculate max stack name length from all registered stacks
     this.maxStackNameLen = Math.max(
       ...Array.from(this.stacks.values()).map(s => s.stackName.length),
@@ -336,7 +341,7 @@ export class MultiStackProgress {
     process.stdout.write('\x1b[H');
 
     // Print header
-    process.stdout.write(chalk.bold.underline('Deploying Stacks') + '\x1b[K\n\n');
+    process.stdout.write(chalk.bold.underline(this.title) + '\x1b[K\n\n');
 
     // Write all stack lines
     for (const key of this.stackOrder) {
@@ -0,0 +1,63 @@
+/**
+ * AWS partitions
+ *
+ * Regions belong to one of three partitions, which differ in their ARN
+ * prefix and DNS suffix: aws (commercial), aws-us-gov (GovCloud) and aws-cn
+ * (China). Accounts and roles never span partitions, so every stack derives
+ * its ARNs and service principals from the region it is deployed to.
+ */
+
+export type AwsPartition = 'aws' | 'aws-us-gov' | 'aws-cn';
+
+const DNS_SUFFIXES: Record<AwsPartition, string> = {
+  'aws': 'amazonaws.com',
+  'aws-us-gov': 'amazonaws.com',
+  'aws-cn': 'amazonaws.com.cn',
+};
+
+/** A region in each partition for calls to global services such as STS */
+const DEFAULT_REGIONS: Record<AwsPartition, string> = {
+  'aws': 'us-east-1',
+  'aws-us-gov': 'us-gov-west-1',
+  'aws-cn': 'cn-north-1',
+};
+
+// Most services use the .amazonaws.com principal in China too; these don't
+const CHINA_SUFFIXED_PRINCIPALS = new Set(['ec2', 'application-autoscaling', 'codedeploy', 'elasticmapreduce']);
+
+/**
+ * The partition a region belongs to
+ */
+export function getPartition(region: string): AwsPartition {
+  if (region.startsWith('us-gov-')) return 'aws-us-gov';
+  if (region.startsWith('cn-')) return 'aws-cn';
+  return 'aws';
+}
+
+/**
+ * The partition of an ARN (e.g. from sts:GetCallerIdentity)
+ */
+export function getPartitionFromArn(arn: string): AwsPartition {
+  const partition = arn.split(':')[1];
+  return partition === 'aws-us-gov' || partition === 'aws-cn' ? partition : 'aws';
+}
+
+export function getDnsSuffix(partition: AwsPartition): string {
+  return DNS_SUFFIXES[partition];
+}
+
+export function getDefaultRegion(partition: AwsPartition): string {
+  return DEFAULT_REGIONS[partition];
+}
+
+/**
+ * Service principal for a service in a region's partition,
+ * e.g. servicePrincipal('lambda', 'cn-north-1') -> 'lambda.amazonaws.com'
+ */
+export function servicePrincipal(service: string, region: string): string {
+  const partition = getPartition(region);
+  const suffix = partition === 'aws-cn' && CHINA_SUFFIXED_PRINCIPALS.has(service)
+    ? DNS_SUFFIXES['aws-cn']
+    : 'amazonaws.com';
+  return `${service}.${suffix}`;
+}
@@ -116,3 +116,189 @@ export async function confirmDryRun(plan: ConfirmationPlan): Promise<void> {
 
   logger.info('Dry run complete. No changes were made.');
 }
+
+interface DestroyConfirmationStack {
+  accountId: string;
+  region: string;
+  stackName: string;
+  action: 'DELETE' | 'RETAIN';
+  reason?: string;
+}
+
+export async function confirmDestroy(orgSlug: string, stacks: DestroyConfirmationStack[]): Promise<boolean> {
+  logger.header('DevRamps Destroy Summary');
+
+  console.log(`Organization: ${orgSlug}`);
+  logger.newline();
+
+  const tableRows: string[][] = [
+    ['Account ID', 'Region', 'Stack Name', 'Action'],
+  ];
+
+  for (const stack of stacks) {
+    tableRows.push([
+      stack.accountId,
+      stack.region,
+      stack.stackName,
+      stack.action,
+    ]);
+  }
+
+  logger.table(tableRows);
+  logger.newline();
+
+  for (const stack of stacks.filter(s => s.action === 'RETAIN' && s.reason)) {
+    logger.info(`${stack.stackName} (${stack.accountId}) is kept: ${stack.reason}`);
+  }
+
+  logger.warn('Deleted stacks remove their IAM roles, ECR repositories and S3 buckets.');
+  logger.newline();
+
+  const { proceed } = await inquirer.prompt<{ proceed: boolean }>([
+    {
+      type: 'confirm',
+      name: 'proceed',
+      message: 'Do you want to delete these stacks?',
+      default: false,
+    },
+  ]);
+
+  return proceed;
+}
+
+export type ChangeSetDecision = 'execute' | 'keep' | 'discard';
+
+/**
+ * Ask what to do with change sets created for review
+ */
+export async function chooseChangeSetAction(changeSetCount: number): Promise<ChangeSetDecision> {
+  logger.newline();
+
+  const { decision } = await inquirer.prompt<{ decision: ChangeSetDecision }>([
+    {
+      type: 'list',
+      name: 'decision',
+      message: `What should happen to the ${changeSetCount} change set(s)?`,
+      choices: [
+        { name: 'Execute them now', value: 'execute' },
+        { name: 'Leave them pending (execute later from the console or with devramps apply-change-sets)', value: 'keep' },
+        { name: 'Discard them', value: 'discard' },
+      ],
+      default: 'keep',
+    },
+  ]);
+
+  return decision;
+}
+
+/**
+ * Confirm executing or discarding pending change sets
+ */
+export async function confirmPendingChangeSets(changeSetCount: number, decision: 'execute' | 'discard'): Promise<boolean> {
+  logger.newline();
+
+  const { proceed } = await inquirer.prompt<{ proceed: boolean }>([
+    {
+      type: 'confirm',
+      name: 'proceed',
+      message: `Do you want to ${decision} these ${changeSetCount} change set(s)?`,
+      default: false,
+    },
+  ]);
+
+  return proceed;
+}
+
+/**
+ * Confirm continuing a failed rollback and choose which of the resources
+ * that failed to roll back to skip. Returns undefined if not confirmed.
+ */
+export async function chooseRollbackResourcesToSkip(
+  stackName: string,
+  failedResources: string[]
+): Promise<string[] | undefined> {
+  logger.newline();
+
+  const { proceed } = await inquirer.prompt<{ proceed: boolean }>([
+    {
+      type: 'confirm',
+      name: 'proceed',
+      message: `Do you want to continue rolling back ${stackName}?`,
+      default: false,
+    },
+  ]);
+
+  if (!proceed) {
+    return undefined;
+  }
+  if (failedResources.length === 0) {
+    return [];
+  }
+
+  const { skip } = await inquirer.prompt<{ skip: string[] }>([
+    {
+      type: 'checkbox',
+      name: 'skip',
+      message: 'Resources to skip (left as they are; fix them by hand afterwards):',
+      choices: failedResources,
+    },
+  ]);
+
+  return skip;
+}
+
+/**
+ * Confirm deleting a stack that still holds data resources
+ */
+export async function confirmStackDeletion(stackName: string, dataResourceCount: number): Promise<boolean> {
+  logger.newline();
+
+  const { proceed } = await inquirer.prompt<{ proceed: boolean }>([
+    {
+      type: 'confirm',
+      name: 'proceed',
+      message: `Delete ${stackName} and its ${dataResourceCount} data resource(s) so it can be created again?`,
+      default: false,
+    },
+  ]);
+
+  return proceed;
+}
+
+/**
+ * Confirm discarding a change set left pending for review, so that its
+ * stack can be created directly
+ */
+export async function confirmChangeSetDiscard(stackName: string, changeSetName: string): Promise<boolean> {
+  logger.newline();
+
+  const { proceed } = await inquirer.prompt<{ proceed: boolean }>([
+    {
+      type: 'confirm',
+      name: 'proceed',
+      message: `Discard change set ${changeSetName}, pending review on ${stackName}, and create the stack directly?`,
+      default: false,
+    },
+  ]);
+
+  return proceed;
+}
+
+/**
+ * Extra confirmation required when bootstrap would widen existing roles
+ */
+export async function confirmPermissionExpansion(addedActionCount: number, roleCount: number): Promise<boolean> {
+  logger.newline();
+  logger.warn(`This deployment adds ${addedActionCount} IAM action(s) to ${roleCount} existing role(s).`);
+
+  const { proceed } = await inquirer.prompt<{ proceed: boolean }>([
+    {
+      type: 'confirm',
+      name: 'proceed',
+      message: 'Do you want to grant these additional permissions?',
+      default: false,
+    },
+  ]);
+
+  return proceed;
+}
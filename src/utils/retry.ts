@@ -0,0 +1,63 @@
+/**
+ * Retry of throttled AWS API calls
+ *
+ * The SDK's own retries give up after a few attempts, which is not enough
+ * when dozens of stacks are deployed at once in one account. Throttled calls
+ * are retried with exponential backoff and full jitter, so that concurrent
+ * callers spread out instead of retrying in lockstep.
+ */
+
+import * as logger from './logger.js';
+
+export interface RetryOptions {
+  maxAttempts?: number;
+  baseDelayMs?: number;
+  maxDelayMs?: number;
+  /** Replaced in tests */
+  sleep?: (ms: number) => Promise<void>;
+}
+
+const THROTTLING_ERROR_NAMES = new Set([
+  'Throttling',
+  'ThrottlingException',
+  'ThrottledException',
+  'TooManyRequestsException',
+  'RequestLimitExceeded',
+  'RequestThrottled',
+  'RequestThrottledException',
+  'SlowDown',
+]);
+
+/**
+ * Whether an AWS SDK error means the call was throttled
+ */
+export function isThrottlingError(error: unknown): boolean {
+  if (!(error instanceof Error)) return false;
+  return THROTTLING_ERROR_NAMES.has(error.name) || /rate exceeded/i.test(error.message);
+}
+
+/**
+ * Call fn, retrying throttling errors with jittered exponential backoff.
+ * Other errors are thrown immediately.
+ */
+export async function withThrottleRetry<T>(fn: () => Promise<T>, options: RetryOptions = {}): Promise<T> {
+  const {
+    maxAttempts = 8,
+    baseDelayMs = 500,
+    maxDelayMs = 20_000,
+    sleep = (ms: number) => new Promise<void>(resolve => setTimeout(resolve, ms)),
+  } = options;
+
+  for (let attempt = 1; ; attempt++) {
+    try {
+      return await fn();
+    } catch (error) {
+      if (attempt >= maxAttempts || !isThrottlingError(error)) {
+        throw error;
+      }
+      const delay = Math.round(Math.random() * Math.min(maxDelayMs, baseDelayMs * 2 ** attempt));
+      logger.verbose(`Throttled (${(error as Error).message}), retrying in ${delay}ms (attempt ${attempt + 1} of ${maxAttempts})`);
+      await sleep(delay);
+    }
+  }
+}
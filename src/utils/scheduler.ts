@@ -0,0 +1,112 @@
+/**
+ * Dependency-aware task scheduler
+ *
+ * Runs tasks as soon as everything they depend on has succeeded, with at
+ * most maxConcurrency running at once. A task whose dependency failed (or was
+ * skipped) is skipped. With failFast, the first failure also stops any task
+ * that has not started yet; tasks already running are left to finish.
+ */
+
+export interface DagTask {
+  id: string;
+  dependsOn: string[];
+}
+
+export type DagOutcome = 'succeeded' | 'failed' | 'skipped';
+
+export interface DagResult {
+  id: string;
+  outcome: DagOutcome;
+  /** The error thrown by a failed task */
+  error?: unknown;
+  /** Why a task was skipped */
+  reason?: string;
+}
+
+export interface DagOptions {
+  maxConcurrency: number;
+  failFast: boolean;
+}
+
+/**
+ * Run every task, returning one result per task in input order
+ */
+export async function runDag<T extends DagTask>(
+  tasks: T[],
+  run: (task: T) => Promise<void>,
+  options: DagOptions
+): Promise<DagResult[]> {
+  const ids = new Set(tasks.map(t => t.id));
+  for (const task of tasks) {
+    const unknown = task.dependsOn.find(dep => !ids.has(dep));
+    if (unknown) {
+      throw new Error(`Task ${task.id} depends on unknown task ${unknown}`);
+    }
+  }
+
+  const results = new Map<string, DagResult>();
+  const pending = [...tasks];
+  let running = 0;
+  let stopped = false;
+
+  return new Promise((resolve) => {
+    const finish = (result: DagResult) => {
+      results.set(result.id, result);
+    };
+
+    const schedule = () => {
+      // Skip tasks that can no longer run, until nothing changes
+      let changed = true;
+      while (changed) {
+        changed = false;
+        for (let i = pending.length - 1; i >= 0; i--) {
+          const task = pending[i];
+          const blocker = task.dependsOn.find(dep => {
+            const outcome = results.get(dep)?.outcome;
+            return outcome === 'failed' || outcome === 'skipped';
+          });
+          if (blocker || stopped) {
+            pending.splice(i, 1);
+            finish({
+              id: task.id,
+              outcome: 'skipped',
+              reason: blocker ? `${blocker} did not succeed` : 'an earlier task failed',
+            });
+            changed = true;
+          }
+        }
+      }
+
+      for (let i = 0; i < pending.length && running < options.maxConcurrency; ) {
+        const task = pending[i];
+        if (!task.dependsOn.every(dep => results.get(dep)?.outcome === 'succeeded')) {
+          i++;
+          continue;
+        }
+
+        pending.splice(i, 1);
+        running++;
+        run(task).then(
+          () => finish({ id: task.id, outcome: 'succeeded' }),
+          (error: unknown) => {
+            finish({ id: task.id, outcome: 'failed', error });
+            if (options.failFast) stopped = true;
+          }
+        ).finally(() => {
+          running--;
+          schedule();
+        });
+      }
+
+      if (running === 0) {
+        // Anything left waits on itself through a cycle
+        for (const task of pending.splice(0)) {
+          finish({ id: task.id, outcome: 'skipped', reason: 'dependency cycle' });
+        }
+        resolve(tasks.map(t => results.get(t.id)!));
+      }
+    };
+
+    schedule();
+  });
+}